@@ -1,7 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    // Remove serverExternalPackages
+    // Document uploads go through server actions; matches MAX_UPLOAD_BYTES
+    serverActions: {
+      bodySizeLimit: '25mb',
+    },
   },
   // Add direct configuration for external packages if needed
   transpilePackages: ['@prisma/client'],
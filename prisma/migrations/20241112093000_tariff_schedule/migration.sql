@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "TariffHeading" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "chapter" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TariffHeading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TariffSubheading" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "unit" TEXT,
+    "headingId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TariffSubheading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TariffRate" (
+    "id" TEXT NOT NULL,
+    "subheadingId" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TariffRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PreferentialRate" (
+    "id" TEXT NOT NULL,
+    "subheadingId" TEXT NOT NULL,
+    "agreement" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PreferentialRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TariffHeading_code_key" ON "TariffHeading"("code");
+
+-- CreateIndex
+CREATE INDEX "TariffHeading_chapter_idx" ON "TariffHeading"("chapter");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TariffSubheading_code_key" ON "TariffSubheading"("code");
+
+-- CreateIndex
+CREATE INDEX "TariffSubheading_headingId_idx" ON "TariffSubheading"("headingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TariffRate_subheadingId_key" ON "TariffRate"("subheadingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PreferentialRate_subheadingId_agreement_key" ON "PreferentialRate"("subheadingId", "agreement");
+
+-- AddForeignKey
+ALTER TABLE "TariffSubheading" ADD CONSTRAINT "TariffSubheading_headingId_fkey" FOREIGN KEY ("headingId") REFERENCES "TariffHeading"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TariffRate" ADD CONSTRAINT "TariffRate_subheadingId_fkey" FOREIGN KEY ("subheadingId") REFERENCES "TariffSubheading"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PreferentialRate" ADD CONSTRAINT "PreferentialRate_subheadingId_fkey" FOREIGN KEY ("subheadingId") REFERENCES "TariffSubheading"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,282 @@
+-- CreateTable
+CREATE TABLE "ShipmentDocument" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'not_uploaded',
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "files" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShipmentDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TimelineEntry" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "description" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TimelineEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShipmentNote" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CargoLine" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT NOT NULL,
+    "invoiceValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "currency" TEXT,
+    "grossWeight" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "netWeight" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "hsCode" TEXT NOT NULL DEFAULT '',
+
+    CONSTRAINT "CargoLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SofEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+    "documents" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SofEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DutyComputation" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "dutiableValue" DOUBLE PRECISION NOT NULL,
+    "customsDuty" DOUBLE PRECISION NOT NULL,
+    "vat" DOUBLE PRECISION NOT NULL,
+    "otherCharges" DOUBLE PRECISION NOT NULL,
+    "totalPayable" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT,
+    "exchangeRate" DOUBLE PRECISION,
+    "exchangeRates" JSONB,
+    "rateDate" TIMESTAMP(3),
+    "termsOfDelivery" TEXT,
+    "lines" JSONB,
+    "charges" JSONB,
+    "computedAt" TIMESTAMP(3),
+    "computedById" TEXT,
+    "computedByName" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DutyComputation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShipmentDocument_name_status_idx" ON "ShipmentDocument"("name", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentDocument_shipmentId_name_key" ON "ShipmentDocument"("shipmentId", "name");
+
+-- CreateIndex
+CREATE INDEX "TimelineEntry_shipmentId_timestamp_idx" ON "TimelineEntry"("shipmentId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "ShipmentNote_shipmentId_timestamp_idx" ON "ShipmentNote"("shipmentId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "CargoLine_shipmentId_position_idx" ON "CargoLine"("shipmentId", "position");
+
+-- CreateIndex
+CREATE INDEX "CargoLine_hsCode_idx" ON "CargoLine"("hsCode");
+
+-- CreateIndex
+CREATE INDEX "SofEvent_shipmentId_timestamp_idx" ON "SofEvent"("shipmentId", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DutyComputation_shipmentId_key" ON "DutyComputation"("shipmentId");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentDocument" ADD CONSTRAINT "ShipmentDocument_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimelineEntry" ADD CONSTRAINT "TimelineEntry_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentNote" ADD CONSTRAINT "ShipmentNote_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CargoLine" ADD CONSTRAINT "CargoLine_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SofEvent" ADD CONSTRAINT "SofEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DutyComputation" ADD CONSTRAINT "DutyComputation_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Convert existing JSON columns into the new tables.
+-- Timestamps in the blobs were written by the client, so anything that does
+-- not parse, or is missing, falls back to the shipment's creation time.
+CREATE FUNCTION pg_temp.to_ts(value TEXT, fallback TIMESTAMP(3)) RETURNS TIMESTAMP(3) AS $$
+BEGIN
+    RETURN COALESCE(NULLIF(value, '')::TIMESTAMPTZ AT TIME ZONE 'UTC', fallback);
+EXCEPTION WHEN OTHERS THEN
+    RETURN fallback;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION pg_temp.parse_json(value TEXT, fallback JSONB) RETURNS JSONB AS $$
+BEGIN
+    RETURN COALESCE(NULLIF(value, '')::JSONB, fallback);
+EXCEPTION WHEN OTHERS THEN
+    RETURN fallback;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Blobs that hold an object or a scalar instead of a list migrate as empty
+CREATE FUNCTION pg_temp.parse_json_array(value JSONB) RETURNS JSONB AS $$
+    SELECT CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::JSONB END;
+$$ LANGUAGE sql;
+
+-- Scalars in the blobs may be empty or free text ('', 'N/A'); those become NULL
+CREATE FUNCTION pg_temp.to_float(value TEXT) RETURNS DOUBLE PRECISION AS $$
+BEGIN
+    RETURN NULLIF(value, '')::DOUBLE PRECISION;
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION pg_temp.to_int(value TEXT) RETURNS INTEGER AS $$
+BEGIN
+    RETURN round(NULLIF(value, '')::DOUBLE PRECISION)::INTEGER;
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION pg_temp.to_bool(value TEXT) RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN NULLIF(value, '')::BOOLEAN;
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO "ShipmentDocument" ("id", "shipmentId", "name", "status", "isVerified", "isRequired", "files", "updatedAt")
+SELECT DISTINCT ON (s."id", d->>'name')
+    gen_random_uuid()::TEXT,
+    s."id",
+    d->>'name',
+    COALESCE(d->>'status', 'not_uploaded'),
+    COALESCE(pg_temp.to_bool(d->>'isVerified'), false),
+    COALESCE(pg_temp.to_bool(d->>'isRequired'), false),
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(pg_temp.parse_json_array(d->'files'))), ARRAY[]::TEXT[]),
+    s."updatedAt"
+FROM "Shipment" s,
+    jsonb_array_elements(pg_temp.parse_json_array(pg_temp.parse_json(s."documentsData", '[]'))) d
+WHERE jsonb_typeof(d) = 'object' AND d->>'name' IS NOT NULL;
+
+-- Entries written at creation only had `status` holding the stage
+INSERT INTO "TimelineEntry" ("id", "shipmentId", "stage", "status", "description", "timestamp")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    COALESCE(t->>'stage', t->>'status'),
+    CASE WHEN t ? 'stage' THEN COALESCE(t->>'status', 'in_progress') ELSE 'in_progress' END,
+    t->>'description',
+    pg_temp.to_ts(t->>'timestamp', s."createdAt")
+FROM "Shipment" s,
+    jsonb_array_elements(pg_temp.parse_json_array(pg_temp.parse_json(s."timelineData", '[]'))) t
+WHERE jsonb_typeof(t) = 'object' AND COALESCE(t->>'stage', t->>'status') IS NOT NULL;
+
+INSERT INTO "ShipmentNote" ("id", "shipmentId", "content", "author", "timestamp")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    COALESCE(n->>'content', ''),
+    COALESCE(n->>'author', ''),
+    pg_temp.to_ts(n->>'timestamp', s."createdAt")
+FROM "Shipment" s,
+    jsonb_array_elements(pg_temp.parse_json_array(pg_temp.parse_json(s."notesData", '[]'))) n
+WHERE jsonb_typeof(n) = 'object';
+
+INSERT INTO "CargoLine" ("id", "shipmentId", "position", "description", "invoiceValue", "currency", "grossWeight", "netWeight", "quantity", "hsCode")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    c.position - 1,
+    COALESCE(c.item->>'description', ''),
+    COALESCE(pg_temp.to_float(c.item->>'invoiceValue'), 0),
+    c.item->>'currency',
+    COALESCE(pg_temp.to_float(c.item->>'grossWeight'), 0),
+    COALESCE(pg_temp.to_float(c.item->>'netWeight'), 0),
+    COALESCE(pg_temp.to_int(c.item->>'quantity'), 0),
+    COALESCE(c.item->>'hsCode', '')
+FROM "Shipment" s,
+    jsonb_array_elements(pg_temp.parse_json_array(pg_temp.parse_json(s."cargoData", '[]'))) WITH ORDINALITY AS c(item, position)
+WHERE jsonb_typeof(c.item) = 'object';
+
+INSERT INTO "SofEvent" ("id", "shipmentId", "timestamp", "description", "createdById", "createdByName", "documents")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    pg_temp.to_ts(e->>'timestamp', s."createdAt"),
+    COALESCE(e->>'description', ''),
+    e->'createdBy'->>'id',
+    COALESCE(e->'createdBy'->>'name', ''),
+    pg_temp.parse_json_array(e->'documents')
+FROM "Shipment" s,
+    jsonb_array_elements(pg_temp.parse_json_array(pg_temp.parse_json(s."statementOfFactsData", '[]'))) e
+WHERE jsonb_typeof(e) = 'object';
+
+-- Shipments that were never computed hold '{}'
+INSERT INTO "DutyComputation" ("id", "shipmentId", "dutiableValue", "customsDuty", "vat", "otherCharges", "totalPayable", "currency", "exchangeRate", "exchangeRates", "rateDate", "termsOfDelivery", "lines", "charges", "computedAt", "computedById", "computedByName", "updatedAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    COALESCE(pg_temp.to_float(c->>'dutiable_value'), 0),
+    COALESCE(pg_temp.to_float(c->>'customs_duty'), 0),
+    COALESCE(pg_temp.to_float(c->>'vat'), 0),
+    COALESCE(pg_temp.to_float(c->>'other_charges'), 0),
+    COALESCE(pg_temp.to_float(c->>'total_payable'), 0),
+    c->>'currency',
+    pg_temp.to_float(c->>'exchange_rate'),
+    CASE WHEN jsonb_typeof(c->'exchange_rates') = 'object' THEN c->'exchange_rates' END,
+    pg_temp.to_ts(c->>'rate_date', NULL),
+    c->>'terms_of_delivery',
+    CASE WHEN jsonb_typeof(c->'lines') = 'array' THEN c->'lines' END,
+    CASE WHEN jsonb_typeof(c->'charges') = 'array' THEN c->'charges' END,
+    pg_temp.to_ts(c->>'computed_at', NULL),
+    c->'computed_by'->>'id',
+    c->'computed_by'->>'name',
+    s."updatedAt"
+FROM "Shipment" s,
+    LATERAL (SELECT pg_temp.parse_json(s."computations", '{}') AS c) parsed
+WHERE jsonb_typeof(c) = 'object' AND c ? 'dutiable_value';
+
+-- AlterTable
+ALTER TABLE "Shipment" DROP COLUMN "cargoData",
+DROP COLUMN "computations",
+DROP COLUMN "documentsData",
+DROP COLUMN "notesData",
+DROP COLUMN "statementOfFactsData",
+DROP COLUMN "timelineData";
@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "ReferenceSequence" (
+    "id" TEXT NOT NULL,
+    "transactionType" TEXT NOT NULL,
+    "year" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReferenceSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReferenceNumberIssue" (
+    "id" TEXT NOT NULL,
+    "referenceNumber" TEXT NOT NULL,
+    "transactionType" TEXT NOT NULL,
+    "year" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "issuedById" TEXT,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "voidReason" TEXT,
+
+    CONSTRAINT "ReferenceNumberIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferenceSequence_transactionType_year_key" ON "ReferenceSequence"("transactionType", "year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferenceNumberIssue_referenceNumber_key" ON "ReferenceNumberIssue"("referenceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferenceNumberIssue_transactionType_year_sequence_key" ON "ReferenceNumberIssue"("transactionType", "year", "sequence");
+
+-- Seed sequences from numbers already issued so new ones continue after them
+INSERT INTO "ReferenceSequence" ("id", "transactionType", "year", "lastValue", "updatedAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    substring("referenceNumber" FROM '^CLEX-([A-Z]{3})'),
+    substring("referenceNumber" FROM '^CLEX-[A-Z]{3}(\d{2})'),
+    MAX(substring("referenceNumber" FROM '(\d{4})$')::INTEGER),
+    CURRENT_TIMESTAMP
+FROM "Shipment"
+WHERE "referenceNumber" ~ '^CLEX-(IMS|IMA|ACN|ACR|EXP)\d{2}-\d{4}$'
+GROUP BY 2, 3;
+
+INSERT INTO "ReferenceNumberIssue" ("id", "referenceNumber", "transactionType", "year", "sequence", "issuedAt", "issuedById", "entityType", "entityId")
+SELECT
+    gen_random_uuid()::TEXT,
+    "referenceNumber",
+    substring("referenceNumber" FROM '^CLEX-([A-Z]{3})'),
+    substring("referenceNumber" FROM '^CLEX-[A-Z]{3}(\d{2})'),
+    substring("referenceNumber" FROM '(\d{4})$')::INTEGER,
+    "createdAt",
+    "userId",
+    'Shipment',
+    "id"
+FROM "Shipment"
+WHERE "referenceNumber" ~ '^CLEX-(IMS|IMA|ACN|ACR|EXP)\d{2}-\d{4}$';
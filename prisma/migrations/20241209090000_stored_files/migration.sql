@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "StoredFile" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "driver" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "shipmentId" TEXT,
+    "documentName" TEXT,
+    "consigneeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoredFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoredFile_key_key" ON "StoredFile"("key");
+
+-- CreateIndex
+CREATE INDEX "StoredFile_shipmentId_documentName_idx" ON "StoredFile"("shipmentId", "documentName");
+
+-- CreateIndex
+CREATE INDEX "StoredFile_consigneeId_idx" ON "StoredFile"("consigneeId");
+
+-- AddForeignKey
+ALTER TABLE "StoredFile" ADD CONSTRAINT "StoredFile_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoredFile" ADD CONSTRAINT "StoredFile_consigneeId_fkey" FOREIGN KEY ("consigneeId") REFERENCES "Consignee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "TimelineEntry" ADD COLUMN     "actorId" TEXT,
+ADD COLUMN     "actorName" TEXT,
+ADD COLUMN     "reason" TEXT;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "AccreditationCase" (
+    "id" TEXT NOT NULL,
+    "referenceNumber" TEXT NOT NULL,
+    "transactionType" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "consigneeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accreditationNumber" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "approvedAt" TIMESTAMP(3),
+    "expiryDate" TIMESTAMP(3),
+    "remarks" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccreditationCase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AccreditationRequirement" (
+    "id" TEXT NOT NULL,
+    "caseId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isRequired" BOOLEAN NOT NULL DEFAULT true,
+    "isSubmitted" BOOLEAN NOT NULL DEFAULT false,
+    "fileUrl" TEXT,
+    "submittedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AccreditationRequirement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccreditationCase_referenceNumber_key" ON "AccreditationCase"("referenceNumber");
+
+-- CreateIndex
+CREATE INDEX "AccreditationCase_consigneeId_expiryDate_idx" ON "AccreditationCase"("consigneeId", "expiryDate");
+
+-- CreateIndex
+CREATE INDEX "AccreditationCase_userId_idx" ON "AccreditationCase"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccreditationRequirement_caseId_name_key" ON "AccreditationRequirement"("caseId", "name");
+
+-- AddForeignKey
+ALTER TABLE "AccreditationCase" ADD CONSTRAINT "AccreditationCase_consigneeId_fkey" FOREIGN KEY ("consigneeId") REFERENCES "Consignee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccreditationCase" ADD CONSTRAINT "AccreditationCase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccreditationRequirement" ADD CONSTRAINT "AccreditationRequirement_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "AccreditationCase"("id") ON DELETE CASCADE ON UPDATE CASCADE;
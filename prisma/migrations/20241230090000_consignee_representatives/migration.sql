@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ConsigneeRepresentative" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "consigneeId" TEXT NOT NULL,
+    "grantedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConsigneeRepresentative_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConsigneeRepresentative_consigneeId_idx" ON "ConsigneeRepresentative"("consigneeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConsigneeRepresentative_userId_consigneeId_key" ON "ConsigneeRepresentative"("userId", "consigneeId");
+
+-- AddForeignKey
+ALTER TABLE "ConsigneeRepresentative" ADD CONSTRAINT "ConsigneeRepresentative_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConsigneeRepresentative" ADD CONSTRAINT "ConsigneeRepresentative_consigneeId_fkey" FOREIGN KEY ("consigneeId") REFERENCES "Consignee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationMember" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrganizationMember_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every user who owns records, and every broker, gets an organization
+-- of their own so existing data keeps exactly the visibility it had
+INSERT INTO "Organization" ("id", "name", "createdAt", "updatedAt")
+SELECT 'org_' || u."id", COALESCE(NULLIF(u."companyName", ''), u."name"), CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "User" u
+WHERE u."role" <> 'CLIENT'
+   OR EXISTS (SELECT 1 FROM "Shipment" s WHERE s."userId" = u."id")
+   OR EXISTS (SELECT 1 FROM "Consignee" c WHERE c."userId" = u."id")
+   OR EXISTS (SELECT 1 FROM "Exporter" e WHERE e."userId" = u."id");
+
+INSERT INTO "OrganizationMember" ("id", "organizationId", "userId", "role", "createdAt")
+SELECT 'mem_' || o."id", o."id", substring(o."id" from 5), 'OWNER', CURRENT_TIMESTAMP
+FROM "Organization" o;
+
+-- AlterTable
+ALTER TABLE "Consignee" ADD COLUMN     "assigneeId" TEXT,
+ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Exporter" ADD COLUMN     "assigneeId" TEXT,
+ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "assigneeId" TEXT,
+ADD COLUMN     "organizationId" TEXT;
+
+UPDATE "Consignee" SET "organizationId" = 'org_' || "userId", "assigneeId" = "userId";
+UPDATE "Exporter" SET "organizationId" = 'org_' || "userId", "assigneeId" = "userId";
+UPDATE "Shipment" SET "organizationId" = 'org_' || "userId", "assigneeId" = "userId";
+
+ALTER TABLE "Consignee" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "Exporter" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "Shipment" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "OrganizationMember_userId_idx" ON "OrganizationMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationMember_organizationId_userId_key" ON "OrganizationMember"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Consignee_organizationId_idx" ON "Consignee"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Exporter_organizationId_idx" ON "Exporter"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Shipment_organizationId_status_idx" ON "Shipment"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "Shipment_assigneeId_idx" ON "Shipment"("assigneeId");
+
+-- AddForeignKey
+ALTER TABLE "Consignee" ADD CONSTRAINT "Consignee_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Consignee" ADD CONSTRAINT "Consignee_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Exporter" ADD CONSTRAINT "Exporter_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Exporter" ADD CONSTRAINT "Exporter_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "signOffRemarks" TEXT,
+ADD COLUMN     "signedOffAt" TIMESTAMP(3),
+ADD COLUMN     "signedOffById" TEXT,
+ADD COLUMN     "signedOffByName" TEXT;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "E2mMessage" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "entryNumber" TEXT,
+    "assessedAmount" DOUBLE PRECISION,
+    "paymentReference" TEXT,
+    "releaseReference" TEXT,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "E2mMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "E2mMessage_shipmentId_createdAt_idx" ON "E2mMessage"("shipmentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "E2mMessage_entryNumber_idx" ON "E2mMessage"("entryNumber");
+
+-- AddForeignKey
+ALTER TABLE "E2mMessage" ADD CONSTRAINT "E2mMessage_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
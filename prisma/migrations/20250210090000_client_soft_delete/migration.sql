@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Consignee" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "mergedIntoId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Exporter" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "mergedIntoId" TEXT;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "ShipmentContainer" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "number" TEXT NOT NULL,
+    "sizeType" TEXT NOT NULL,
+    "sealNumber" TEXT NOT NULL DEFAULT '',
+    "blNumber" TEXT NOT NULL DEFAULT '',
+    "cargoLineIds" TEXT[],
+
+    CONSTRAINT "ShipmentContainer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShipmentContainer_shipmentId_position_idx" ON "ShipmentContainer"("shipmentId", "position");
+
+-- CreateIndex
+CREATE INDEX "ShipmentContainer_number_idx" ON "ShipmentContainer"("number");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentContainer" ADD CONSTRAINT "ShipmentContainer_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Split the free-text container numbers already on file into rows. Their
+-- size/type was never recorded, so it is left blank for the user to fill in.
+-- The helper may already exist from an earlier migration in the same session.
+CREATE OR REPLACE FUNCTION pg_temp.parse_json(value TEXT, fallback JSONB) RETURNS JSONB AS $$
+BEGIN
+    RETURN COALESCE(NULLIF(value, '')::JSONB, fallback);
+EXCEPTION WHEN OTHERS THEN
+    RETURN fallback;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO "ShipmentContainer" ("id", "shipmentId", "position", "number", "sizeType", "blNumber", "cargoLineIds")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    c.position - 1,
+    UPPER(REGEXP_REPLACE(c.number, '[^A-Za-z0-9]', '', 'g')),
+    '',
+    COALESCE(pg_temp.parse_json(s."shipmentDetails", '{}'::JSONB)->>'bl_number', ''),
+    ARRAY[]::TEXT[]
+FROM "Shipment" s,
+    REGEXP_SPLIT_TO_TABLE(COALESCE(pg_temp.parse_json(s."shipmentDetails", '{}'::JSONB)->>'container_number', ''), '[,;/]') WITH ORDINALITY AS c(number, position)
+WHERE TRIM(c.number) <> '';
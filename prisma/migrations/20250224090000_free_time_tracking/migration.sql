@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "ShipmentContainer" ADD COLUMN     "emptyReturnedAt" TIMESTAMP(3),
+ADD COLUMN     "pulledOutAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "FreeTimeRule" (
+    "id" TEXT NOT NULL,
+    "shippingLine" TEXT NOT NULL,
+    "chargeType" TEXT NOT NULL,
+    "sizeClass" TEXT NOT NULL DEFAULT '',
+    "freeDays" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "tiers" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FreeTimeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FreeTimeRule_shippingLine_chargeType_sizeClass_key" ON "FreeTimeRule"("shippingLine", "chargeType", "sizeClass");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "letterheadAddress" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "letterheadContact" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "letterheadName" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "logoFileId" TEXT;
+
+-- AlterTable
+ALTER TABLE "StoredFile" ADD COLUMN     "organizationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_logoFileId_key" ON "Organization"("logoFileId");
+
+-- CreateIndex
+CREATE INDEX "StoredFile_organizationId_idx" ON "StoredFile"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "Organization" ADD CONSTRAINT "Organization_logoFileId_fkey" FOREIGN KEY ("logoFileId") REFERENCES "StoredFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoredFile" ADD CONSTRAINT "StoredFile_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
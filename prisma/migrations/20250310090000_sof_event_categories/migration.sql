@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SofEvent" ADD COLUMN     "category" TEXT NOT NULL DEFAULT 'OTHER',
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'MANUAL';
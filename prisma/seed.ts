@@ -23,6 +23,20 @@ async function main() {
     })
     console.log('Created admin user:', admin)
 
+    // The admin's brokerage owns all of the sample records
+    const organization = await prisma.organization.upsert({
+      where: { id: 'org_clex' },
+      update: {},
+      create: {
+        id: 'org_clex',
+        name: 'CLEX Customs Brokerage',
+        members: {
+          create: { userId: admin.id, role: 'OWNER' }
+        }
+      },
+    })
+    console.log('Created organization:', organization)
+
     // Create some sample consignees
     const consignees = await Promise.all([
       prisma.consignee.upsert({
@@ -37,7 +51,9 @@ async function main() {
           contactPerson: 'John Doe',
           contactNumber: '+63 987 654 3210',
           email: 'john@abcmfg.com',
-          userId: admin.id
+          userId: admin.id,
+          organizationId: organization.id,
+          assigneeId: admin.id
         },
       }),
       prisma.consignee.upsert({
@@ -52,7 +68,9 @@ async function main() {
           contactPerson: 'Jane Smith',
           contactNumber: '+63 912 345 6789',
           email: 'jane@xyztrading.com',
-          userId: admin.id
+          userId: admin.id,
+          organizationId: organization.id,
+          assigneeId: admin.id
         },
       }),
     ])
@@ -67,7 +85,9 @@ async function main() {
           contactPerson: 'Li Wei',
           contactNumber: '+86 123 4567 8900',
           email: 'li.wei@chinaexports.com',
-          userId: admin.id
+          userId: admin.id,
+          organizationId: organization.id,
+          assigneeId: admin.id
         },
       }),
       prisma.exporter.create({
@@ -77,7 +97,9 @@ async function main() {
           contactPerson: 'Kim Min-ji',
           contactNumber: '+82 10 1234 5678',
           email: 'kim.minji@koreatrade.co.kr',
-          userId: admin.id
+          userId: admin.id,
+          organizationId: organization.id,
+          assigneeId: admin.id
         },
       }),
     ])
@@ -90,6 +112,8 @@ async function main() {
         freightType: 'IMS',
         status: 'CLIENT_DETAILS',
         userId: admin.id,
+        organizationId: organization.id,
+        assigneeId: admin.id,
         consigneeId: consignees[0].id,
         exporterId: exporters[0].id,
         consigneeData: JSON.stringify({
@@ -113,28 +137,30 @@ async function main() {
           description_of_goods: 'Industrial machinery parts',
           volume: '40ft container'
         }),
-        documentsData: JSON.stringify([
-          {
-            name: 'Bill of Lading',
-            status: 'not_uploaded',
-            isVerified: false,
-            isRequired: true,
-            files: []
-          },
-          {
-            name: 'Commercial Invoice',
-            status: 'not_uploaded',
-            isVerified: false,
-            isRequired: true,
-            files: []
+        documents: {
+          create: [
+            {
+              name: 'Bill of Lading',
+              status: 'not_uploaded',
+              isVerified: false,
+              isRequired: true,
+              files: []
+            },
+            {
+              name: 'Commercial Invoice',
+              status: 'not_uploaded',
+              isVerified: false,
+              isRequired: true,
+              files: []
+            }
+          ]
+        },
+        timeline: {
+          create: {
+            stage: 'CLIENT_DETAILS',
+            status: 'in_progress'
           }
-        ]),
-        timelineData: JSON.stringify([{
-          stage: 'CLIENT_DETAILS',
-          status: 'in_progress',
-          timestamp: new Date().toISOString()
-        }]),
-        notesData: JSON.stringify([]),
+        },
       }
     })
     console.log('Created sample shipment:', shipment)
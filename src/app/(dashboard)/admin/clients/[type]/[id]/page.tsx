@@ -2,16 +2,23 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useParams } from 'next/navigation'
+import { useParams, useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { getConsigneeById, getExporterById } from '@/app/actions/clients'
+import { Badge } from '@/components/ui/badge'
+import { Dialog } from '@/components/ui/dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { getConsigneeById, getExporterById, setClientActiveAction } from '@/app/actions/clients'
 import { EntityDetails } from '@/components/clients/EntityDetails'
 import { EntityDocuments } from '@/components/clients/EntityDocuments'
 import { EntityShipments } from '@/components/clients/EntityShipments'
+import { EntityPortalAccess } from '@/components/clients/EntityPortalAccess'
+import { EntityHistory } from '@/components/clients/EntityHistory'
+import { ClientMergeDialog } from '@/components/clients/ClientMergeDialog'
 import { Loader2 } from 'lucide-react'
 import type { ConsigneeData, ExporterData } from '@/app/actions/clients'
+import type { ClientMergeResult, ClientType } from '@/types/clients'
 
 type EntityData = (ConsigneeData | ExporterData) & {
   id: string
@@ -21,9 +28,13 @@ type EntityData = (ConsigneeData | ExporterData) & {
 
 export default function EntityDetailPage() {
   const params = useParams()
+  const router = useRouter()
+  const { toast } = useToast()
   const [data, setData] = useState<EntityData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [isMergeOpen, setIsMergeOpen] = useState(false)
+  const type = params.type as ClientType
 
   const handleUpdateAction = async () => {
     await loadEntity()
@@ -55,6 +66,25 @@ export default function EntityDetailPage() {
     }
   }
 
+  const handleToggleActive = async () => {
+    if (!data) return
+    const result = await setClientActiveAction(type, data.id, !data.isActive)
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive'
+      })
+      return
+    }
+    await loadEntity()
+  }
+
+  const handleMerged = async (result: ClientMergeResult) => {
+    setIsMergeOpen(false)
+    router.push(`/admin/clients/${type}/${result.canonicalId}`)
+  }
+
   useEffect(() => {
     loadEntity()
   }, [params.id, params.type])
@@ -79,8 +109,31 @@ export default function EntityDetailPage() {
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-semibold">{data.name}</h1>
-        <Button onClick={() => loadEntity()}>Refresh</Button>
+        <div className="flex items-center gap-2">
+          <h1 className="text-2xl font-semibold">{data.name}</h1>
+          {data.mergedIntoId ? (
+            <Badge variant="outline" className="text-gray-500">Merged</Badge>
+          ) : data.deletedAt ? (
+            <Badge variant="outline" className="text-gray-500">Archived</Badge>
+          ) : !data.isActive && (
+            <Badge variant="outline" className="text-gray-500">Inactive</Badge>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {data.mergedIntoId ? (
+            <Button variant="outline" onClick={() => router.push(`/admin/clients/${type}/${data.mergedIntoId}`)}>
+              View Merged Record
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setIsMergeOpen(true)}>Merge Into…</Button>
+              <Button variant="outline" onClick={handleToggleActive}>
+                {data.isActive ? 'Deactivate' : data.deletedAt ? 'Restore' : 'Reactivate'}
+              </Button>
+            </>
+          )}
+          <Button onClick={() => loadEntity()}>Refresh</Button>
+        </div>
       </div>
       <EntityDetails 
       data={data} 
@@ -99,6 +152,25 @@ export default function EntityDetailPage() {
       shipments={data.shipments || []}
     />
 
+    {params.type === 'consignee' && (
+      <EntityPortalAccess consigneeId={data.id} />
+    )}
+
+    <EntityHistory
+      entityId={data.id}
+      type={params.type as 'consignee' | 'exporter'}
+    />
+
+    <Dialog open={isMergeOpen} onOpenChange={setIsMergeOpen}>
+      {isMergeOpen && (
+        <ClientMergeDialog
+          type={type}
+          duplicate={{ id: data.id, name: data.name }}
+          onMergedAction={handleMerged}
+        />
+      )}
+    </Dialog>
+
 
       
     </div>
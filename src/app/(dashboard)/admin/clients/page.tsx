@@ -5,11 +5,12 @@ import { useState } from 'react'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Plus } from 'lucide-react'
+import { Plus, Upload } from 'lucide-react'
 import { Dialog } from '@/components/ui/dialog'
 import { ConsigneeForm } from '@/components/clients/ConsigneeForm'
 import { ExporterForm } from '@/components/clients/ExporterForm'
 import { ClientsList } from '@/components/clients/ClientsList'
+import { ClientImportDialog } from '@/components/clients/ClientImportDialog'
 import { useToast } from '@/components/ui/use-toast'
 import { RequireAuth } from '@/components/auth/RequireAuth'
 import { useAuth } from '@/components/layout/AuthProvider'
@@ -19,6 +20,8 @@ import { getResourcePermissions } from '@/lib/utils/permissions'
 export default function ClientsPage() {
     const [activeTab, setActiveTab] = useState('consignees')
     const [isNewDialogOpen, setIsNewDialogOpen] = useState(false)
+    const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
+    const [listVersion, setListVersion] = useState(0)
     const { toast } = useToast()
     const { user } = useAuth()
     
@@ -37,15 +40,26 @@ export default function ClientsPage() {
         return Promise.resolve()
     }
 
+    // Remounts the lists so they pick up the imported clients
+    const handleImportedAction = async () => {
+        setListVersion(version => version + 1)
+    }
+
     const baseContent = (
         <div className="p-6">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-2xl font-semibold">Client Management</h1>
                 {permissions.canCreate && (
-                    <Button onClick={() => setIsNewDialogOpen(true)}>
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add New {activeTab === 'consignees' ? 'Consignee' : 'Exporter'}
-                    </Button>
+                    <div className="flex gap-2">
+                        <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                            <Upload className="w-4 h-4 mr-2" />
+                            Import {activeTab === 'consignees' ? 'Consignees' : 'Exporters'}
+                        </Button>
+                        <Button onClick={() => setIsNewDialogOpen(true)}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add New {activeTab === 'consignees' ? 'Consignee' : 'Exporter'}
+                        </Button>
+                    </div>
                 )}
             </div>
 
@@ -61,7 +75,7 @@ export default function ClientsPage() {
                             <CardTitle>Consignees</CardTitle>
                         </CardHeader>
                         <CardContent>
-                            <ClientsList type="consignee" />
+                            <ClientsList key={`consignee-${listVersion}`} type="consignee" />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -72,7 +86,7 @@ export default function ClientsPage() {
                             <CardTitle>Exporters</CardTitle>
                         </CardHeader>
                         <CardContent>
-                            <ClientsList type="exporter" />
+                            <ClientsList key={`exporter-${listVersion}`} type="exporter" />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -91,6 +105,15 @@ export default function ClientsPage() {
                     />
                 )}
             </Dialog>
+
+            <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+                {isImportDialogOpen && (
+                    <ClientImportDialog
+                        type={activeTab === 'consignees' ? 'consignee' : 'exporter'}
+                        onImportedAction={handleImportedAction}
+                    />
+                )}
+            </Dialog>
         </div>
     )
 
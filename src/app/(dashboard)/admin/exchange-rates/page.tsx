@@ -0,0 +1,158 @@
+// src/app/(dashboard)/admin/exchange-rates/page.tsx
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Upload } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { RequireAuth } from '@/components/auth/RequireAuth'
+import { useAuth } from '@/components/layout/AuthProvider'
+import { USER_ROLES } from '@/types/auth'
+import { getExchangeRatesAction, importExchangeRatesAction } from '@/app/actions/exchange-rate'
+import type { ExchangeRateEntry, ExchangeRateImportSummary } from '@/types/exchange-rate'
+
+export default function ExchangeRatesPage() {
+    const { user } = useAuth()
+    const { toast } = useToast()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [rates, setRates] = useState<ExchangeRateEntry[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [isImporting, setIsImporting] = useState(false)
+    const [summary, setSummary] = useState<ExchangeRateImportSummary | null>(null)
+
+    const loadRates = useCallback(async () => {
+        setIsLoading(true)
+        try {
+            setRates(await getExchangeRatesAction())
+        } finally {
+            setIsLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadRates()
+    }, [loadRates])
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file) return
+
+        setIsImporting(true)
+        try {
+            const formData = new FormData()
+            formData.append('file', file)
+
+            const result = await importExchangeRatesAction(formData)
+            if (!result.success) {
+                throw new Error(result.error)
+            }
+
+            setSummary(result.data)
+            await loadRates()
+            toast({
+                title: 'Success',
+                description: `Imported ${result.data.rates} exchange rates`,
+            })
+        } catch (error) {
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to import exchange rates',
+                variant: 'destructive',
+            })
+        } finally {
+            setIsImporting(false)
+            if (fileInputRef.current) fileInputRef.current.value = ''
+        }
+    }
+
+    const baseContent = (
+        <div className="p-6 space-y-6">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-semibold">Customs Exchange Rates</h1>
+                    <p className="text-sm text-gray-500">
+                        Weekly BOC rates in pesos per unit. Shipments use the rate in force on their arrival date.
+                    </p>
+                </div>
+                {user?.role === USER_ROLES.SUPERADMIN && (
+                    <>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,.xlsx"
+                            className="hidden"
+                            onChange={handleImport}
+                        />
+                        <Button onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                            {isImporting ? (
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                                <Upload className="w-4 h-4 mr-2" />
+                            )}
+                            Import Rates
+                        </Button>
+                    </>
+                )}
+            </div>
+
+            {summary && summary.errors.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{summary.errors.length} rows skipped</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-1 text-sm">
+                        {summary.errors.slice(0, 20).map(error => (
+                            <p key={`${error.row}-${error.message}`} className="text-red-500">
+                                Row {error.row}: {error.message}
+                            </p>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Published Rates</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Week Starting</TableHead>
+                                <TableHead>Currency</TableHead>
+                                <TableHead className="text-right">PHP per Unit</TableHead>
+                                <TableHead>Source</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rates.map(rate => (
+                                <TableRow key={`${rate.currency}-${rate.weekStart}`}>
+                                    <TableCell>{format(new Date(rate.weekStart), 'MMM dd, yyyy')}</TableCell>
+                                    <TableCell className="font-medium">{rate.currency}</TableCell>
+                                    <TableCell className="text-right">{rate.rate.toFixed(4)}</TableCell>
+                                    <TableCell className="text-gray-500">{rate.source || '-'}</TableCell>
+                                </TableRow>
+                            ))}
+                            {rates.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="text-center text-gray-500">
+                                        {isLoading ? 'Loading...' : 'No exchange rates imported yet'}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    )
+
+    return (
+        <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+            {baseContent}
+        </RequireAuth>
+    )
+}
@@ -0,0 +1,347 @@
+// src/app/(dashboard)/admin/free-time/page.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Edit, Loader2, Plus, Trash2, X } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { RequireAuth } from '@/components/auth/RequireAuth'
+import { useAuth } from '@/components/layout/AuthProvider'
+import { USER_ROLES } from '@/types/auth'
+import { deleteFreeTimeRuleAction, getFreeTimeRulesAction, saveFreeTimeRuleAction } from '@/app/actions/demurrage'
+import { validateFreeTimeRule } from '@/lib/utils/demurrage'
+import { formatCurrencyAmount } from '@/lib/customs/currency'
+import {
+    FREE_TIME_CHARGE_LABELS,
+    FREE_TIME_CHARGE_TYPES,
+    type ContainerSizeClass,
+    type FreeTimeChargeType,
+    type FreeTimeRuleEntry,
+    type FreeTimeRuleInput,
+} from '@/types/demurrage'
+
+const SIZE_CLASS_LABELS: Record<ContainerSizeClass, string> = {
+    '': 'All sizes',
+    '20': "20'",
+    '40': "40'",
+    '45': "45'",
+}
+
+// Select items cannot carry an empty value
+const ALL_SIZES = 'ALL'
+
+const emptyRule = (): FreeTimeRuleInput => ({
+    shippingLine: '',
+    chargeType: 'DEMURRAGE',
+    sizeClass: '',
+    freeDays: 5,
+    currency: 'USD',
+    tiers: [{ fromDay: 6, ratePerDay: 0 }],
+})
+
+const describeTiers = (rule: FreeTimeRuleEntry) =>
+    rule.tiers
+        .map((tier, index) => {
+            const next = rule.tiers[index + 1]
+            const days = next ? `Days ${tier.fromDay}-${next.fromDay - 1}` : `Day ${tier.fromDay}+`
+            return `${days}: ${formatCurrencyAmount(tier.ratePerDay, rule.currency)}/day`
+        })
+        .join(', ')
+
+export default function FreeTimeRulesPage() {
+    const { user } = useAuth()
+    const { toast } = useToast()
+    const [rules, setRules] = useState<FreeTimeRuleEntry[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [form, setForm] = useState<FreeTimeRuleInput | null>(null)
+    const [issues, setIssues] = useState<string[]>([])
+    const [isSaving, setIsSaving] = useState(false)
+    const canEdit = user?.role === USER_ROLES.SUPERADMIN
+
+    const loadRules = useCallback(async () => {
+        setIsLoading(true)
+        try {
+            setRules(await getFreeTimeRulesAction())
+        } finally {
+            setIsLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadRules()
+    }, [loadRules])
+
+    const openEditor = (rule?: FreeTimeRuleEntry) => {
+        setEditingId(rule?.id ?? null)
+        setForm(rule ? {
+            shippingLine: rule.shippingLine,
+            chargeType: rule.chargeType,
+            sizeClass: rule.sizeClass,
+            freeDays: rule.freeDays,
+            currency: rule.currency,
+            tiers: rule.tiers,
+        } : emptyRule())
+        setIssues([])
+    }
+
+    const updateForm = (changes: Partial<FreeTimeRuleInput>) =>
+        setForm(prev => prev && { ...prev, ...changes })
+
+    const updateTier = (index: number, field: 'fromDay' | 'ratePerDay', value: string) =>
+        setForm(prev => prev && {
+            ...prev,
+            tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [field]: Number(value) } : tier)),
+        })
+
+    const handleSave = async () => {
+        if (!form) return
+        const found = validateFreeTimeRule(form)
+        if (found.length) {
+            setIssues(found)
+            return
+        }
+
+        setIsSaving(true)
+        try {
+            const result = await saveFreeTimeRuleAction(form, editingId ?? undefined)
+            if (!result.success) {
+                throw new Error(result.error)
+            }
+            setForm(null)
+            await loadRules()
+            toast({
+                title: 'Success',
+                description: `Saved ${FREE_TIME_CHARGE_LABELS[result.data.chargeType].toLowerCase()} rule for ${result.data.shippingLine}`,
+            })
+        } catch (error) {
+            setIssues([error instanceof Error ? error.message : 'Failed to save free-time rule'])
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleDelete = async (rule: FreeTimeRuleEntry) => {
+        if (!confirm(`Delete the ${FREE_TIME_CHARGE_LABELS[rule.chargeType].toLowerCase()} rule for ${rule.shippingLine}?`)) return
+
+        const result = await deleteFreeTimeRuleAction(rule.id)
+        if (!result.success) {
+            toast({ title: 'Error', description: result.error, variant: 'destructive' })
+            return
+        }
+        await loadRules()
+    }
+
+    const baseContent = (
+        <div className="p-6 space-y-6">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-semibold">Free Time & Charges</h1>
+                    <p className="text-sm text-gray-500">
+                        Demurrage and detention free days and daily charges per shipping line. Day 1 is the day of discharge for demurrage and the day of pull-out for detention.
+                    </p>
+                </div>
+                {canEdit && (
+                    <Button onClick={() => openEditor()}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Rule
+                    </Button>
+                )}
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Shipping Line Rules</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Shipping Line</TableHead>
+                                <TableHead>Charge</TableHead>
+                                <TableHead>Container Size</TableHead>
+                                <TableHead className="text-right">Free Days</TableHead>
+                                <TableHead>Charges After Free Time</TableHead>
+                                {canEdit && <TableHead></TableHead>}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rules.map(rule => (
+                                <TableRow key={rule.id}>
+                                    <TableCell className="font-medium">{rule.shippingLine}</TableCell>
+                                    <TableCell>{FREE_TIME_CHARGE_LABELS[rule.chargeType]}</TableCell>
+                                    <TableCell>{SIZE_CLASS_LABELS[rule.sizeClass]}</TableCell>
+                                    <TableCell className="text-right">{rule.freeDays}</TableCell>
+                                    <TableCell className="text-sm">{describeTiers(rule)}</TableCell>
+                                    {canEdit && (
+                                        <TableCell className="whitespace-nowrap">
+                                            <Button variant="ghost" size="sm" onClick={() => openEditor(rule)}>
+                                                <Edit className="w-4 h-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </TableCell>
+                                    )}
+                                </TableRow>
+                            ))}
+                            {rules.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={canEdit ? 6 : 5} className="text-center text-gray-500">
+                                        {isLoading ? 'Loading...' : 'No free-time rules yet'}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <Dialog open={form !== null} onOpenChange={open => !open && setForm(null)}>
+                {form && (
+                    <DialogContent className="max-w-2xl">
+                        <DialogHeader>
+                            <DialogTitle>{editingId ? 'Edit' : 'Add'} Free-Time Rule</DialogTitle>
+                        </DialogHeader>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Shipping Line</Label>
+                                <Input
+                                    value={form.shippingLine}
+                                    onChange={(e) => updateForm({ shippingLine: e.target.value })}
+                                    placeholder="e.g. MAERSK"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Charge</Label>
+                                <Select
+                                    value={form.chargeType}
+                                    onValueChange={(value) => updateForm({ chargeType: value as FreeTimeChargeType })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {FREE_TIME_CHARGE_TYPES.map(type => (
+                                            <SelectItem key={type} value={type}>{FREE_TIME_CHARGE_LABELS[type]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Container Size</Label>
+                                <Select
+                                    value={form.sizeClass || ALL_SIZES}
+                                    onValueChange={(value) =>
+                                        updateForm({ sizeClass: (value === ALL_SIZES ? '' : value) as ContainerSizeClass })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(SIZE_CLASS_LABELS).map(([sizeClass, label]) => (
+                                            <SelectItem key={sizeClass || ALL_SIZES} value={sizeClass || ALL_SIZES}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div className="space-y-2">
+                                    <Label>Free Days</Label>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        value={form.freeDays}
+                                        onChange={(e) => updateForm({ freeDays: Number(e.target.value) })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Currency</Label>
+                                    <Input
+                                        value={form.currency}
+                                        maxLength={3}
+                                        onChange={(e) => updateForm({ currency: e.target.value.toUpperCase() })}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="flex justify-between items-center">
+                                <Label>Daily Charges</Label>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => updateForm({
+                                        tiers: [
+                                            ...form.tiers,
+                                            { fromDay: (form.tiers[form.tiers.length - 1]?.fromDay ?? form.freeDays) + 1, ratePerDay: 0 },
+                                        ],
+                                    })}
+                                >
+                                    <Plus className="w-4 h-4 mr-2" />
+                                    Add Tier
+                                </Button>
+                            </div>
+                            {form.tiers.map((tier, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <span className="text-sm text-gray-500 w-16">From day</span>
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={tier.fromDay}
+                                        onChange={(e) => updateTier(index, 'fromDay', e.target.value)}
+                                        className="w-24"
+                                    />
+                                    <span className="text-sm text-gray-500">{form.currency || 'Rate'} per day</span>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        step="0.01"
+                                        value={tier.ratePerDay}
+                                        onChange={(e) => updateTier(index, 'ratePerDay', e.target.value)}
+                                        className="w-32"
+                                    />
+                                    {form.tiers.length > 1 && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => updateForm({ tiers: form.tiers.filter((_, i) => i !== index) })}
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                            <p className="text-xs text-gray-500">Each tier runs until the next one starts; the last runs until the container moves on.</p>
+                        </div>
+
+                        {issues.length > 0 && (
+                            <ul className="list-disc pl-5 text-sm text-red-600">
+                                {issues.map(issue => <li key={issue}>{issue}</li>)}
+                            </ul>
+                        )}
+
+                        <DialogFooter>
+                            {isSaving && <Loader2 className="w-4 h-4 animate-spin self-center" />}
+                            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                            <Button onClick={handleSave} disabled={isSaving}>Save Rule</Button>
+                        </DialogFooter>
+                    </DialogContent>
+                )}
+            </Dialog>
+        </div>
+    )
+
+    return (
+        <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+            {baseContent}
+        </RequireAuth>
+    )
+}
@@ -0,0 +1,301 @@
+// src/app/(dashboard)/admin/organization/page.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ImageUp, Trash2, UserPlus } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { RequireAuth } from '@/components/auth/RequireAuth'
+import { useAuth } from '@/components/layout/AuthProvider'
+import { USER_ROLES } from '@/types/auth'
+import { ORGANIZATION_ROLES, type OrganizationData, type OrganizationRole } from '@/types/organization'
+import {
+    addOrganizationMemberAction,
+    getOrganizationsAction,
+    removeOrganizationMemberAction,
+    updateLetterheadAction,
+    updateOrganizationMemberRoleAction,
+    uploadLetterheadLogoAction
+} from '@/app/actions/organization'
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+    OWNER: 'Owner',
+    ADMIN: 'Admin',
+    MEMBER: 'Member'
+}
+
+// Printed at the top of every generated document
+function LetterheadSection({
+    organization,
+    run,
+    isSaving
+}: {
+    organization: OrganizationData
+    run: (action: () => Promise<{ success: boolean; error?: string }>) => Promise<boolean>
+    isSaving: boolean
+}) {
+    const { toast } = useToast()
+    const [letterhead, setLetterhead] = useState({
+        name: organization.letterhead.name,
+        address: organization.letterhead.address,
+        contact: organization.letterhead.contact
+    })
+
+    const handleSave = async () => {
+        if (await run(() => updateLetterheadAction(organization.id, letterhead))) {
+            toast({ title: 'Letterhead saved' })
+        }
+    }
+
+    const handleLogo = async (file: File | undefined) => {
+        if (!file) return
+        const formData = new FormData()
+        formData.append('file', file)
+        await run(() => uploadLetterheadLogoAction(organization.id, formData))
+    }
+
+    return (
+        <div className="space-y-3 border-t pt-4">
+            <div>
+                <h3 className="font-medium">Letterhead</h3>
+                <p className="text-sm text-gray-500">
+                    Shown on statements of facts, computation sheets and shipment summaries. Leave the name
+                    empty to use the organization name.
+                </p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2 max-w-3xl">
+                <div className="space-y-1">
+                    <Label htmlFor={`letterhead-name-${organization.id}`}>Company Name</Label>
+                    <Input
+                        id={`letterhead-name-${organization.id}`}
+                        value={letterhead.name}
+                        onChange={e => setLetterhead({ ...letterhead, name: e.target.value })}
+                        placeholder={organization.name}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor={`letterhead-contact-${organization.id}`}>Contact</Label>
+                    <Input
+                        id={`letterhead-contact-${organization.id}`}
+                        value={letterhead.contact}
+                        onChange={e => setLetterhead({ ...letterhead, contact: e.target.value })}
+                        placeholder="Phone · Email · TIN"
+                    />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                    <Label htmlFor={`letterhead-address-${organization.id}`}>Address</Label>
+                    <Textarea
+                        id={`letterhead-address-${organization.id}`}
+                        rows={2}
+                        value={letterhead.address}
+                        onChange={e => setLetterhead({ ...letterhead, address: e.target.value })}
+                    />
+                </div>
+            </div>
+            <div className="flex items-center gap-4">
+                {organization.letterhead.logoUrl ? (
+                    <img
+                        src={organization.letterhead.logoUrl}
+                        alt="Letterhead logo"
+                        className="h-12 max-w-[160px] object-contain border rounded p-1"
+                    />
+                ) : (
+                    <span className="text-sm text-gray-500">No logo</span>
+                )}
+                <Button variant="outline" size="sm" disabled={isSaving} asChild>
+                    <label className="cursor-pointer">
+                        <ImageUp className="w-4 h-4 mr-2" />
+                        {organization.letterhead.logoUrl ? 'Replace Logo' : 'Upload Logo'}
+                        <input
+                            type="file"
+                            accept="image/png,image/jpeg"
+                            className="hidden"
+                            onChange={e => {
+                                handleLogo(e.target.files?.[0])
+                                e.target.value = ''
+                            }}
+                        />
+                    </label>
+                </Button>
+                {organization.letterhead.logoUrl && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() => run(() => uploadLetterheadLogoAction(organization.id, new FormData()))}
+                    >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Remove
+                    </Button>
+                )}
+                <Button className="ml-auto" onClick={handleSave} disabled={isSaving}>
+                    Save Letterhead
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+function OrganizationCard({
+    organization,
+    onChanged
+}: {
+    organization: OrganizationData
+    onChanged: () => Promise<void>
+}) {
+    const { user } = useAuth()
+    const { toast } = useToast()
+    const [email, setEmail] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+    const canManage = organization.role !== ORGANIZATION_ROLES.MEMBER || user?.role === USER_ROLES.SUPERADMIN
+
+    const run = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+        setIsSaving(true)
+        try {
+            const result = await action()
+            if (!result.success) throw new Error(result.error)
+            await onChanged()
+            return true
+        } catch (error) {
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to update organization',
+                variant: 'destructive',
+            })
+            return false
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleAdd = async () => {
+        if (!email.trim()) return
+        if (await run(() => addOrganizationMemberAction(organization.id, email))) {
+            setEmail('')
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{organization.name}</CardTitle>
+                <p className="text-sm text-gray-500">You are {ROLE_LABELS[organization.role].toLowerCase()} of this organization</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {canManage && (
+                    <div className="flex gap-2 max-w-md">
+                        <Input
+                            type="email"
+                            value={email}
+                            onChange={e => setEmail(e.target.value)}
+                            placeholder="Broker account email"
+                        />
+                        <Button onClick={handleAdd} disabled={isSaving}>
+                            <UserPlus className="w-4 h-4 mr-2" />
+                            Add
+                        </Button>
+                    </div>
+                )}
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Email</TableHead>
+                            <TableHead>Role</TableHead>
+                            <TableHead>Since</TableHead>
+                            {canManage && <TableHead className="text-right">Actions</TableHead>}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {organization.members.map(member => (
+                            <TableRow key={member.userId}>
+                                <TableCell className="font-medium">{member.name}</TableCell>
+                                <TableCell>{member.email}</TableCell>
+                                <TableCell>
+                                    {canManage ? (
+                                        <Select
+                                            value={member.role}
+                                            onValueChange={role => run(() =>
+                                                updateOrganizationMemberRoleAction(organization.id, member.userId, role as OrganizationRole)
+                                            )}
+                                            disabled={isSaving}
+                                        >
+                                            <SelectTrigger className="w-32">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.values(ORGANIZATION_ROLES).map(role => (
+                                                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    ) : ROLE_LABELS[member.role]}
+                                </TableCell>
+                                <TableCell>{new Date(member.joinedAt).toLocaleDateString()}</TableCell>
+                                {canManage && (
+                                    <TableCell className="text-right">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            disabled={isSaving}
+                                            onClick={() => run(() => removeOrganizationMemberAction(organization.id, member.userId))}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </Button>
+                                    </TableCell>
+                                )}
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+                {canManage && (
+                    <LetterheadSection organization={organization} run={run} isSaving={isSaving} />
+                )}
+            </CardContent>
+        </Card>
+    )
+}
+
+export default function OrganizationPage() {
+    const [organizations, setOrganizations] = useState<OrganizationData[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+
+    const loadOrganizations = useCallback(async () => {
+        const result = await getOrganizationsAction()
+        if (result.success) setOrganizations(result.data)
+        setIsLoading(false)
+    }, [])
+
+    useEffect(() => {
+        loadOrganizations()
+    }, [loadOrganizations])
+
+    return (
+        <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+            <div className="p-6 space-y-6">
+                <div>
+                    <h1 className="text-2xl font-semibold">Organization</h1>
+                    <p className="text-sm text-gray-500">
+                        Everyone in an organization shares its shipments, consignees and exporters.
+                    </p>
+                </div>
+                {organizations.map(organization => (
+                    <OrganizationCard
+                        key={organization.id}
+                        organization={organization}
+                        onChanged={loadOrganizations}
+                    />
+                ))}
+                {!isLoading && organizations.length === 0 && (
+                    <p className="text-gray-500">You are not a member of any organization</p>
+                )}
+            </div>
+        </RequireAuth>
+    )
+}
@@ -1,42 +1,90 @@
-import { Card, CardContent } from "@/components/ui/card";
-import { Package, Clock, CheckCircle, AlertCircle } from "lucide-react";
-
-const stats = [
-  {
-    label: "Active Shipments",
-    value: "12",
-    icon: Package,
-    color: "text-blue-600",
-    bgColor: "bg-blue-100",
-  },
-  {
-    label: "Pending Clearance",
-    value: "5",
-    icon: Clock,
-    color: "text-yellow-600",
-    bgColor: "bg-yellow-100",
-  },
-  {
-    label: "Completed Today",
-    value: "8",
-    icon: CheckCircle,
-    color: "text-green-600",
-    bgColor: "bg-green-100",
-  },
-  {
-    label: "Requires Attention",
-    value: "3",
-    icon: AlertCircle,
-    color: "text-red-600",
-    bgColor: "bg-red-100",
-  },
-];
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Package, Clock, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+import { WORKFLOW_STATES } from "@/lib/constants/workflow-states";
+import { WORKFLOW_STAGES } from "@/lib/utils/workflow";
+import { getDashboardMetricsAction } from "@/app/actions/dashboard";
+import { getFreeTimeAlertsAction } from "@/app/actions/demurrage";
+import { formatCurrencyAmount } from "@/lib/customs/currency";
+import { formatDaysLeft } from "@/lib/utils/demurrage";
+import { FREE_TIME_CHARGE_LABELS, type FreeTimeAlert } from "@/types/demurrage";
+import type { DashboardMetrics } from "@/types/metrics";
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours} hrs`;
+};
 
 export default function AdminOverview() {
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [freeTimeAlerts, setFreeTimeAlerts] = useState<FreeTimeAlert[]>([]);
+
+  useEffect(() => {
+    getDashboardMetricsAction().then((result) => {
+      if (result.success) {
+        setMetrics(result.data);
+      } else {
+        setError(result.error);
+      }
+    });
+    getFreeTimeAlertsAction().then((result) => {
+      if (result.success) setFreeTimeAlerts(result.data);
+    });
+  }, []);
+
+  if (error) {
+    return <p className="p-6 text-sm text-red-500">{error}</p>;
+  }
+
+  if (!metrics) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const stats = [
+    {
+      label: "Active Shipments",
+      value: metrics.active,
+      icon: Package,
+      color: "text-blue-600",
+      bgColor: "bg-blue-100",
+    },
+    {
+      label: "Pending Clearance",
+      value: metrics.pendingClearance,
+      icon: Clock,
+      color: "text-yellow-600",
+      bgColor: "bg-yellow-100",
+    },
+    {
+      label: "Completed Today",
+      value: metrics.completedToday,
+      icon: CheckCircle,
+      color: "text-green-600",
+      bgColor: "bg-green-100",
+    },
+    {
+      label: "Requires Attention",
+      value: metrics.overdue.length,
+      icon: AlertCircle,
+      color: "text-red-600",
+      bgColor: "bg-red-100",
+    },
+  ];
+
   return (
     <div>
       <h1 className="text-2xl font-bold mb-6">Dashboard Overview</h1>
-      
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat) => (
           <Card key={stat.label}>
@@ -54,6 +102,166 @@ export default function AdminOverview() {
           </Card>
         ))}
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Shipments by Stage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Shipments</TableHead>
+                  <TableHead className="text-right">Avg. Time in Stage</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {WORKFLOW_STAGES.map((stage) => {
+                  const dwell = metrics.dwellTimes.find((d) => d.stage === stage);
+                  return (
+                    <TableRow key={stage}>
+                      <TableCell>{WORKFLOW_STATES[stage].label}</TableCell>
+                      <TableCell className="text-right">{metrics.stageCounts[stage]}</TableCell>
+                      <TableCell className="text-right" title={dwell ? `${dwell.samples} completed stays` : undefined}>
+                        {formatHours(dwell?.averageHours ?? null)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Overdue Shipments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {metrics.overdue.length === 0 ? (
+              <p className="text-sm text-gray-500">No shipments past their ETA without release.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reference No.</TableHead>
+                    <TableHead>Consignee</TableHead>
+                    <TableHead>ETA</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Days Overdue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metrics.overdue.map((shipment) => (
+                    <TableRow key={shipment.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/admin/services/import/${shipment.id}`} className="hover:underline">
+                          {shipment.referenceNumber}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{shipment.consignee}</TableCell>
+                      <TableCell>{format(new Date(shipment.eta), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>
+                        {WORKFLOW_STATES[shipment.status as keyof typeof WORKFLOW_STATES]?.label || shipment.status}
+                      </TableCell>
+                      <TableCell className="text-right text-red-600">{shipment.daysOverdue}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Free Time Running Out</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {freeTimeAlerts.length === 0 ? (
+            <p className="text-sm text-gray-500">No containers close to the end of their free time.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference No.</TableHead>
+                  <TableHead>Consignee</TableHead>
+                  <TableHead>Shipping Line</TableHead>
+                  <TableHead>Container</TableHead>
+                  <TableHead>Free Until</TableHead>
+                  <TableHead>Days Left</TableHead>
+                  <TableHead className="text-right">Running Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {freeTimeAlerts.map((alert) => (
+                  <TableRow key={alert.shipmentId}>
+                    <TableCell className="font-medium">
+                      <Link href={`/admin/services/import/${alert.shipmentId}`} className="hover:underline">
+                        {alert.referenceNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{alert.consignee}</TableCell>
+                    <TableCell>{alert.shippingLine}</TableCell>
+                    <TableCell>
+                      <span className="font-mono">{alert.containerNumber}</span>{" "}
+                      <span className="text-gray-500">({FREE_TIME_CHARGE_LABELS[alert.chargeType]})</span>
+                    </TableCell>
+                    <TableCell>{format(new Date(alert.freeUntil), "MMM dd, yyyy")}</TableCell>
+                    <TableCell className={alert.daysLeft < 0 ? "text-red-600" : "text-amber-600"}>
+                      {formatDaysLeft(alert.daysLeft)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {alert.totals.map((total) => formatCurrencyAmount(total.amount, total.currency)).join(" + ") || "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {metrics.brokers && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>By Broker</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Broker</TableHead>
+                  <TableHead className="text-right">Active</TableHead>
+                  <TableHead className="text-right">Pending Clearance</TableHead>
+                  <TableHead className="text-right">Completed Today</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metrics.brokers.map((broker) => (
+                  <TableRow key={broker.userId}>
+                    <TableCell className="font-medium">{broker.name}</TableCell>
+                    <TableCell className="text-right">{broker.active}</TableCell>
+                    <TableCell className="text-right">{broker.pendingClearance}</TableCell>
+                    <TableCell className="text-right">{broker.completedToday}</TableCell>
+                    <TableCell className={`text-right ${broker.overdue > 0 ? "text-red-600" : ""}`}>
+                      {broker.overdue}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">
+        Updated {format(new Date(metrics.generatedAt), "MMM dd, yyyy HH:mm")}
+      </p>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+// src/app/(dashboard)/admin/services/accreditation/[id]/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { getAccreditationCaseByIdAction } from '@/app/actions/accreditation'
+import AccreditationCaseDetail from '@/components/accreditation/AccreditationCaseDetail'
+import { RequireAuth } from '@/components/auth/RequireAuth'
+import { USER_ROLES } from '@/types/auth'
+import { Loader2 } from 'lucide-react'
+import type { AccreditationCaseData } from '@/types/accreditation'
+
+export default function AccreditationCasePage() {
+    const params = useParams()
+    const [isLoading, setIsLoading] = useState(true)
+    const [caseData, setCaseData] = useState<AccreditationCaseData | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const loadCase = async () => {
+            if (!params.id) return
+
+            try {
+                const data = await getAccreditationCaseByIdAction(params.id as string)
+                if (!data) {
+                    setError('Accreditation case not found')
+                } else {
+                    setCaseData(data)
+                }
+            } catch (error) {
+                console.error('Error loading accreditation case:', error)
+                setError('Failed to load accreditation case')
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        loadCase()
+    }, [params.id])
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-screen">
+                <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+        )
+    }
+
+    if (error || !caseData) {
+        return (
+            <div className="flex items-center justify-center h-screen">
+                <div className="text-center">
+                    <h2 className="text-lg font-semibold text-red-600">{error}</h2>
+                    <p className="text-gray-600">Please try again later</p>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+            <AccreditationCaseDetail initialData={caseData} />
+        </RequireAuth>
+    )
+}
@@ -0,0 +1,303 @@
+// src/app/(dashboard)/admin/services/accreditation/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, isValid } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, FileText, Loader2 } from 'lucide-react';
+import { useAuth } from '@/components/layout/AuthProvider';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { useToast } from '@/components/ui/use-toast';
+import { USER_ROLES } from '@/types/auth';
+import { getResourcePermissions } from '@/lib/utils/permissions';
+import {
+  ACCREDITATION_KINDS,
+  ACCREDITATION_STATUSES,
+  ACCREDITATION_TYPES,
+  type AccreditationKind
+} from '@/lib/constants/accreditation';
+import { getAccreditationStanding } from '@/lib/utils/accreditation';
+import type { AccreditationTransactionType } from '@/lib/utils/reference-number';
+import type { AccreditationCaseData } from '@/types/accreditation';
+import { createAccreditationCaseAction, getAccreditationCasesAction } from '@/app/actions/accreditation';
+import { getSavedEntitiesAction } from '@/app/actions/import';
+
+const STATUS_STYLES: Record<string, string> = {
+  DOCUMENT_COLLECTION: 'bg-blue-100 text-blue-800',
+  SUBMITTED: 'bg-indigo-100 text-indigo-800',
+  UNDER_EVALUATION: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+};
+
+const CLOSED_STATUSES = ['APPROVED', 'REJECTED', 'CANCELLED'];
+
+const AccreditationListPage = () => {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isNewCaseOpen, setIsNewCaseOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState('active');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cases, setCases] = useState<AccreditationCaseData[]>([]);
+  const [consignees, setConsignees] = useState<Array<{ id: string; name: string }>>([]);
+  const [newCase, setNewCase] = useState<{
+    consigneeId: string;
+    transactionType: AccreditationTransactionType;
+    kind: AccreditationKind;
+  }>({ consigneeId: '', transactionType: 'ACN', kind: 'IMPORTER' });
+
+  const permissions = getResourcePermissions(user);
+
+  const formatDate = (dateString: string | undefined | null, defaultText: string = 'N/A') => {
+    if (!dateString) return defaultText;
+    const date = new Date(dateString);
+    return isValid(date) ? format(date, 'MMM dd, yyyy') : defaultText;
+  };
+
+  useEffect(() => {
+    const fetchCases = async () => {
+      setIsLoading(true);
+      setError(null);
+      const result = await getAccreditationCasesAction();
+      if (result.success) {
+        setCases(result.data);
+      } else {
+        setError(result.error);
+      }
+      setIsLoading(false);
+    };
+
+    fetchCases();
+  }, [isNewCaseOpen]);
+
+  useEffect(() => {
+    if (!isNewCaseOpen) return;
+    getSavedEntitiesAction('consignee')
+      .then(result => setConsignees(result.map(c => ({ id: c.id, name: c.name }))))
+      .catch(() => setConsignees([]));
+  }, [isNewCaseOpen]);
+
+  const handleCreate = async () => {
+    if (!newCase.consigneeId) {
+      toast({ title: 'Error', description: 'Select a client first', variant: 'destructive' });
+      return;
+    }
+
+    setIsCreating(true);
+    const result = await createAccreditationCaseAction(newCase);
+    setIsCreating(false);
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    setIsNewCaseOpen(false);
+    router.push(`/admin/services/accreditation/${result.data.id}`);
+  };
+
+  // Approved cases show how close they are to lapsing
+  const renderExpiry = (accreditation: AccreditationCaseData) => {
+    if (accreditation.status !== 'APPROVED') return formatDate(accreditation.expiryDate, '—');
+
+    const standing = getAccreditationStanding([accreditation]);
+    return (
+      <div className="flex items-center gap-2">
+        {formatDate(accreditation.expiryDate)}
+        {standing.state === 'expiring' && (
+          <Badge className="bg-yellow-100 text-yellow-800 border-none" variant="outline">
+            {standing.daysRemaining} days left
+          </Badge>
+        )}
+        {standing.state === 'expired' && (
+          <Badge className="bg-red-100 text-red-800 border-none" variant="outline">
+            Expired
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const renderTable = (isHistorical: boolean) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Reference No.</TableHead>
+          <TableHead>Client</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Kind</TableHead>
+          <TableHead>{isHistorical ? 'Expiry Date' : 'Submitted'}</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Last Update</TableHead>
+          <TableHead>Action</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {cases
+          .filter(c => CLOSED_STATUSES.includes(c.status) === isHistorical)
+          .map(accreditation => (
+            <TableRow key={accreditation.id}>
+              <TableCell className="font-medium">{accreditation.referenceNumber}</TableCell>
+              <TableCell>{accreditation.consignee.name}</TableCell>
+              <TableCell>{ACCREDITATION_TYPES[accreditation.transactionType]}</TableCell>
+              <TableCell>{ACCREDITATION_KINDS[accreditation.kind]}</TableCell>
+              <TableCell>
+                {isHistorical ? renderExpiry(accreditation) : formatDate(accreditation.submittedAt, 'Pending')}
+              </TableCell>
+              <TableCell>
+                <Badge className={`${STATUS_STYLES[accreditation.status]} border-none`} variant="outline">
+                  {ACCREDITATION_STATUSES[accreditation.status]}
+                </Badge>
+              </TableCell>
+              <TableCell>{formatDate(accreditation.updatedAt, 'Recent')}</TableCell>
+              <TableCell>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push(`/admin/services/accreditation/${accreditation.id}`)}
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  View
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-semibold">Accreditation</h1>
+        {permissions.canCreate && (
+          <Dialog open={isNewCaseOpen} onOpenChange={setIsNewCaseOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                New Case
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Open Accreditation Case</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Client</Label>
+                  <Select
+                    value={newCase.consigneeId}
+                    onValueChange={consigneeId => setNewCase(prev => ({ ...prev, consigneeId }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {consignees.map(consignee => (
+                        <SelectItem key={consignee.id} value={consignee.id}>{consignee.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={newCase.transactionType}
+                      onValueChange={value =>
+                        setNewCase(prev => ({ ...prev, transactionType: value as AccreditationTransactionType }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ACCREDITATION_TYPES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Accreditation For</Label>
+                    <Select
+                      value={newCase.kind}
+                      onValueChange={value => setNewCase(prev => ({ ...prev, kind: value as AccreditationKind }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ACCREDITATION_KINDS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsNewCaseOpen(false)}>Cancel</Button>
+                <Button onClick={handleCreate} disabled={isCreating}>
+                  {isCreating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Create Case
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-2 max-w-[400px]">
+          <TabsTrigger value="active">Open Cases</TabsTrigger>
+          <TabsTrigger value="history">Closed Cases</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="active">
+          <Card>
+            <CardHeader>
+              <CardTitle>Open Cases</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? <div>Loading...</div> : renderTable(false)}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Closed Cases</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? <div>Loading...</div> : renderTable(true)}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default function AccreditationPage() {
+  return (
+    <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+      <AccreditationListPage />
+    </RequireAuth>
+  );
+}
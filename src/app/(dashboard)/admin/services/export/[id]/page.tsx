@@ -0,0 +1,65 @@
+// src/app/(dashboard)/admin/services/export/[id]/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { getExportShipmentByIdAction } from '@/app/actions/export'
+import ExportClearanceWorkflow from '@/components/export/ExportClearanceWorkflow'
+import { RequireAuth } from '@/components/auth/RequireAuth'
+import { USER_ROLES } from '@/types/auth'
+import { Loader2 } from 'lucide-react'
+import type { ExportShipmentData } from '@/types/export'
+
+export default function ExportWorkflowPage() {
+    const params = useParams()
+    const [isLoading, setIsLoading] = useState(true)
+    const [shipmentData, setShipmentData] = useState<ExportShipmentData | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const loadShipment = async () => {
+            if (!params.id) return
+
+            try {
+                const data = await getExportShipmentByIdAction(params.id as string)
+                if (!data) {
+                    setError('Export shipment not found')
+                } else {
+                    setShipmentData(data)
+                }
+            } catch (error) {
+                console.error('Error loading export shipment:', error)
+                setError('Failed to load export shipment')
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        loadShipment()
+    }, [params.id])
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-screen">
+                <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+        )
+    }
+
+    if (error || !shipmentData) {
+        return (
+            <div className="flex items-center justify-center h-screen">
+                <div className="text-center">
+                    <h2 className="text-lg font-semibold text-red-600">{error}</h2>
+                    <p className="text-gray-600">Please try again later</p>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+            <ExportClearanceWorkflow initialData={shipmentData} />
+        </RequireAuth>
+    )
+}
@@ -0,0 +1,184 @@
+// src/app/(dashboard)/admin/services/export/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, isValid } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, FileText, Ship, Plane } from 'lucide-react';
+import { useAuth } from '@/components/layout/AuthProvider';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { USER_ROLES } from '@/types/auth';
+import { getResourcePermissions } from '@/lib/utils/permissions';
+import { EXPORT_WORKFLOW_STATES } from '@/lib/constants/export-workflow-states';
+
+import NewExportForm from '@/components/export/NewExportForm';
+import type { ExportShipmentListItem } from '@/types/export';
+import { getExportShipmentsAction } from '@/app/actions/export';
+
+const ExportClearancePage = () => {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [isNewExportOpen, setIsNewExportOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState('active');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [shipments, setShipments] = useState<ExportShipmentListItem[]>([]);
+
+  const permissions = getResourcePermissions(user);
+
+  const formatDate = (dateString: string | undefined | null, defaultText: string = 'N/A') => {
+    if (!dateString) return defaultText;
+    const date = new Date(dateString);
+    return isValid(date) ? format(date, 'MMM dd, yyyy') : defaultText;
+  };
+
+  const getStatusLabel = (status: string) =>
+    EXPORT_WORKFLOW_STATES[status as keyof typeof EXPORT_WORKFLOW_STATES]?.label || status.replace(/_/g, ' ');
+
+  const getStatusStyle = (status: string) => {
+    const state = EXPORT_WORKFLOW_STATES[status as keyof typeof EXPORT_WORKFLOW_STATES];
+    return state ? `${state.bgColor} ${state.color}` : 'bg-gray-100 text-gray-800';
+  };
+
+  useEffect(() => {
+    const fetchShipments = async () => {
+      setIsLoading(true);
+      setError(null);
+      const result = await getExportShipmentsAction();
+      if (result.success) {
+        setShipments(result.data);
+      } else {
+        setError(result.error);
+      }
+      setIsLoading(false);
+    };
+
+    fetchShipments();
+  }, [isNewExportOpen]);
+
+  const renderTable = (isHistorical: boolean) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Reference No.</TableHead>
+          <TableHead>Shipper</TableHead>
+          <TableHead>Buyer</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Destination</TableHead>
+          <TableHead>{isHistorical ? 'Completion Date' : 'ETD'}</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Last Update</TableHead>
+          <TableHead>Action</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {shipments
+          .filter(s => isHistorical ? s.status === 'DEPARTED' : s.status !== 'DEPARTED')
+          .map(shipment => (
+            <TableRow key={shipment.id}>
+              <TableCell className="font-medium">{shipment.referenceNumber}</TableCell>
+              <TableCell>{shipment.shipper}</TableCell>
+              <TableCell>{shipment.buyer}</TableCell>
+              <TableCell>
+                <div className="flex items-center">
+                  {shipment.mode === 'sea' ? <Ship className="w-4 h-4 mr-1" /> : <Plane className="w-4 h-4 mr-1" />}
+                  {shipment.mode.toUpperCase()}
+                </div>
+              </TableCell>
+              <TableCell>{shipment.portOfDestination || 'N/A'}</TableCell>
+              <TableCell>
+                {formatDate(isHistorical ? shipment.completionDate : shipment.etd, 'Pending')}
+              </TableCell>
+              <TableCell>
+                <Badge className={`${getStatusStyle(shipment.status)} border-none`} variant="outline">
+                  {getStatusLabel(shipment.status)}
+                </Badge>
+              </TableCell>
+              <TableCell>{formatDate(shipment.lastUpdate, 'Recent')}</TableCell>
+              <TableCell>
+                {getResourcePermissions(user, shipment.userId).canView && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => router.push(`/admin/services/export/${shipment.id}`)}
+                  >
+                    <FileText className="w-4 h-4 mr-1" />
+                    View
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-semibold">Export Clearance</h1>
+        {permissions.canCreate && (
+          <Dialog open={isNewExportOpen} onOpenChange={setIsNewExportOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                New Export
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-5xl">
+              <DialogHeader>
+                <DialogTitle>Create New Export Clearance</DialogTitle>
+              </DialogHeader>
+              <NewExportForm onComplete={() => setIsNewExportOpen(false)} />
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-2 max-w-[400px]">
+          <TabsTrigger value="active">Active Exports</TabsTrigger>
+          <TabsTrigger value="history">Export History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="active">
+          <Card>
+            <CardHeader>
+              <CardTitle>Active Exports</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? <div>Loading...</div> : renderTable(false)}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Export History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? <div>Loading...</div> : renderTable(true)}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default function ExportPage() {
+  return (
+    <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+      <ExportClearancePage />
+    </RequireAuth>
+  );
+}
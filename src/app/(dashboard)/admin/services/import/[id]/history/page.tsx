@@ -0,0 +1,114 @@
+// src/app/(dashboard)/admin/services/import/[id]/history/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AuditHistory } from '@/components/audit/AuditHistory'
+import { ShipmentSnapshotView } from '@/components/audit/ShipmentSnapshotView'
+import { getShipmentAsOfAction, getShipmentHistoryAction } from '@/app/actions/audit'
+import type { AuditEventData, ShipmentAsOf } from '@/types/audit'
+
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm:ss")
+
+export default function ShipmentHistoryPage() {
+  const params = useParams()
+  const router = useRouter()
+  const id = params.id as string
+  const [events, setEvents] = useState<AuditEventData[]>([])
+  const [asOf, setAsOf] = useState(toInputValue(new Date()))
+  const [state, setState] = useState<ShipmentAsOf | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getShipmentHistoryAction(id).then(result => {
+      if (result.success) {
+        setEvents(result.data)
+      } else {
+        setError(result.error)
+      }
+      setIsLoading(false)
+    })
+  }, [id])
+
+  useEffect(() => {
+    if (!asOf) return
+    getShipmentAsOfAction(id, new Date(asOf).toISOString()).then(result => {
+      if (result.success) setState(result.data)
+    })
+  }, [id, asOf])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 text-center text-red-600">{error}</div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push(`/admin/services/import/${id}`)}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <h1 className="text-2xl font-semibold">
+          Shipment History {state?.snapshot.referenceNumber}
+        </h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AuditHistory
+            events={events}
+            onSelectEvent={event => setAsOf(toInputValue(new Date(event.createdAt)))}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>As It Stood</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs space-y-1.5">
+            <Label htmlFor="as-of">As of</Label>
+            <Input
+              id="as-of"
+              type="datetime-local"
+              step={1}
+              value={asOf}
+              onChange={e => setAsOf(e.target.value)}
+            />
+          </div>
+          {state ? (
+            <>
+              <p className="text-sm text-gray-500">
+                As recorded on {format(new Date(state.recordedAt), 'MMM d, yyyy HH:mm:ss')}
+              </p>
+              <ShipmentSnapshotView snapshot={state.snapshot} />
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">No recorded state at or before this time.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
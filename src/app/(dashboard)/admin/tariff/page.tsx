@@ -0,0 +1,190 @@
+// src/app/(dashboard)/admin/tariff/page.tsx
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Search, Upload } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { RequireAuth } from '@/components/auth/RequireAuth'
+import { useAuth } from '@/components/layout/AuthProvider'
+import { USER_ROLES } from '@/types/auth'
+import { searchTariffAction, importTariffScheduleAction } from '@/app/actions/tariff'
+import type { TariffImportSummary, TariffLookupResult } from '@/types/tariff'
+
+export default function TariffPage() {
+    const { user } = useAuth()
+    const { toast } = useToast()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [query, setQuery] = useState('')
+    const [results, setResults] = useState<TariffLookupResult[]>([])
+    const [isSearching, setIsSearching] = useState(false)
+    const [isImporting, setIsImporting] = useState(false)
+    const [summary, setSummary] = useState<TariffImportSummary | null>(null)
+
+    useEffect(() => {
+        const timer = setTimeout(async () => {
+            setIsSearching(true)
+            try {
+                setResults(await searchTariffAction(query))
+            } finally {
+                setIsSearching(false)
+            }
+        }, 300)
+
+        return () => clearTimeout(timer)
+    }, [query])
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file) return
+
+        setIsImporting(true)
+        try {
+            const formData = new FormData()
+            formData.append('file', file)
+
+            const result = await importTariffScheduleAction(formData)
+            if (!result.success) {
+                throw new Error(result.error)
+            }
+
+            setSummary(result.data)
+            toast({
+                title: 'Success',
+                description: `Imported ${result.data.subheadings} tariff lines`,
+            })
+        } catch (error) {
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Failed to import tariff schedule',
+                variant: 'destructive',
+            })
+        } finally {
+            setIsImporting(false)
+            if (fileInputRef.current) fileInputRef.current.value = ''
+        }
+    }
+
+    const baseContent = (
+        <div className="p-6 space-y-6">
+            <div className="flex justify-between items-center">
+                <h1 className="text-2xl font-semibold">Tariff Schedule (AHTN)</h1>
+                {user?.role === USER_ROLES.SUPERADMIN && (
+                    <>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,.xlsx"
+                            className="hidden"
+                            onChange={handleImport}
+                        />
+                        <Button onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                            {isImporting ? (
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                                <Upload className="w-4 h-4 mr-2" />
+                            )}
+                            Import Schedule
+                        </Button>
+                    </>
+                )}
+            </div>
+
+            {summary && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Last Import</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3 text-sm">
+                        <p>
+                            {summary.headings} headings, {summary.subheadings} subheadings,{' '}
+                            {summary.mfnRates} MFN rates, {summary.preferentialRates} preferential rates
+                        </p>
+                        {summary.errors.length > 0 && (
+                            <div className="space-y-1">
+                                <p className="font-medium text-red-600">{summary.errors.length} rows skipped</p>
+                                {summary.errors.slice(0, 20).map(error => (
+                                    <p key={`${error.row}-${error.message}`} className="text-red-500">
+                                        Row {error.row}: {error.message}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Lookup</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                        <Input
+                            className="pl-9"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search by HS code or description"
+                        />
+                    </div>
+
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>HS Code</TableHead>
+                                <TableHead>Description</TableHead>
+                                <TableHead>Unit</TableHead>
+                                <TableHead className="text-right">MFN</TableHead>
+                                <TableHead>Preferential</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {results.map(result => (
+                                <TableRow key={result.code}>
+                                    <TableCell className="font-medium">{result.code}</TableCell>
+                                    <TableCell>
+                                        <p>{result.description}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {result.headingCode} {result.headingDescription}
+                                        </p>
+                                    </TableCell>
+                                    <TableCell>{result.unit || '-'}</TableCell>
+                                    <TableCell className="text-right">{result.mfnRate ?? '-'}%</TableCell>
+                                    <TableCell className="space-x-1">
+                                        {result.preferentialRates.map(p => (
+                                            <Badge key={p.agreement} variant="secondary">
+                                                {p.agreement} {p.rate}%
+                                            </Badge>
+                                        ))}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                            {results.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={5} className="text-center text-gray-500">
+                                        {isSearching
+                                            ? 'Searching...'
+                                            : query.trim().length < 2
+                                                ? 'Type at least 2 characters to search'
+                                                : 'No matching tariff lines'}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    )
+
+    return (
+        <RequireAuth allowedRoles={[USER_ROLES.SUPERADMIN, USER_ROLES.BROKER]}>
+            {baseContent}
+        </RequireAuth>
+    )
+}
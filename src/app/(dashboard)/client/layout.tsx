@@ -0,0 +1,21 @@
+// src/app/(dashboard)/client/layout.tsx
+import DashboardHeader from '@/components/layout/DashboardHeader';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { USER_ROLES } from '@/types/auth';
+
+export default function ClientLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequireAuth allowedRoles={[USER_ROLES.CLIENT]}>
+      <div className="min-h-screen">
+        <DashboardHeader />
+        <main className="bg-gray-50 min-h-screen p-6">
+          {children}
+        </main>
+      </div>
+    </RequireAuth>
+  );
+}
@@ -0,0 +1,123 @@
+// src/app/(dashboard)/client/overview/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, isValid } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileText, Ship, Plane } from 'lucide-react';
+import { WORKFLOW_STATES } from '@/lib/constants/workflow-states';
+import type { ClientShipmentListItem } from '@/types/client-portal';
+import { getClientShipmentsAction } from '@/app/actions/client-portal';
+
+export default function ClientOverviewPage() {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [shipments, setShipments] = useState<ClientShipmentListItem[]>([]);
+
+  const formatDate = (dateString: string | undefined | null, defaultText: string = 'N/A') => {
+    if (!dateString) return defaultText;
+    const date = new Date(dateString);
+    return isValid(date) ? format(date, 'MMM dd, yyyy') : defaultText;
+  };
+
+  const getStatusState = (status: string) => WORKFLOW_STATES[status as keyof typeof WORKFLOW_STATES];
+
+  useEffect(() => {
+    const fetchShipments = async () => {
+      const result = await getClientShipmentsAction();
+      if (result.success) {
+        setShipments(result.data);
+      } else {
+        setError(result.error);
+      }
+      setIsLoading(false);
+    };
+
+    fetchShipments();
+  }, []);
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold mb-6">My Shipments</h1>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shipments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : shipments.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No shipments yet. Ask your broker to link your account to your company.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference No.</TableHead>
+                  <TableHead>Consignee</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>BL/AWB No.</TableHead>
+                  <TableHead>ETA</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Documents Needed</TableHead>
+                  <TableHead>Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shipments.map(shipment => {
+                  const state = getStatusState(shipment.status);
+                  return (
+                    <TableRow key={shipment.id}>
+                      <TableCell className="font-medium">{shipment.referenceNumber}</TableCell>
+                      <TableCell>{shipment.consignee}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center">
+                          {shipment.type === 'sea' ? <Ship className="w-4 h-4 mr-1" /> : <Plane className="w-4 h-4 mr-1" />}
+                          {shipment.type.toUpperCase()}
+                        </div>
+                      </TableCell>
+                      <TableCell>{shipment.blNumber || shipment.awbNumber || 'N/A'}</TableCell>
+                      <TableCell>{formatDate(shipment.eta, 'Pending')}</TableCell>
+                      <TableCell>
+                        <Badge
+                          className={`${state ? `${state.bgColor} ${state.color}` : 'bg-gray-100 text-gray-800'} border-none`}
+                          variant="outline"
+                        >
+                          {shipment.completionDate ? 'Completed' : state?.label || shipment.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {shipment.pendingDocuments > 0
+                          ? <span className="text-red-600">{shipment.pendingDocuments}</span>
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => router.push(`/client/shipments/${shipment.id}`)}
+                        >
+                          <FileText className="w-4 h-4 mr-1" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
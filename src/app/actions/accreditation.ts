@@ -0,0 +1,294 @@
+// app/actions/accreditation.ts
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { revalidatePath } from 'next/cache';
+
+import { accreditationInclude, toAccreditationCaseData } from '@/lib/db/accreditation';
+import { issueReferenceNumber, attachReferenceNumber } from '@/lib/db/reference-number';
+import {
+  ACCREDITATION_CHECKLISTS,
+  ACCREDITATION_KINDS,
+  type AccreditationKind,
+  type AccreditationStatus
+} from '@/lib/constants/accreditation';
+import {
+  checkAccreditationTransition,
+  getAccreditationStanding,
+  isAccreditationStatus,
+  type AccreditationTransitionInput
+} from '@/lib/utils/accreditation';
+import type { AccreditationTransactionType } from '@/lib/utils/reference-number';
+import type { AccreditationCaseData, AccreditationStanding } from '@/types/accreditation';
+import { organizationWhere, type OrganizationScope } from '@/lib/db/organization';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import type { AuthorizationFailure } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// Cases follow their consignee: brokers see those of their organizations' clients
+const ownerFilter = (scope: OrganizationScope) => ({ consignee: organizationWhere(scope) });
+
+const toDate = (value?: string | null) => (value ? new Date(value) : value === null ? null : undefined);
+
+export async function getAccreditationCasesAction(): Promise<ActionResult<AccreditationCaseData[]>> {
+  try {
+    const { scope } = await authorize('view');
+
+    const cases = await prisma.accreditationCase.findMany({
+      where: ownerFilter(scope),
+      include: accreditationInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return { success: true, data: cases.map(toAccreditationCaseData) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching accreditation cases:', error);
+    return { success: false, error: 'Failed to fetch accreditation cases' };
+  }
+}
+
+export async function getAccreditationCaseByIdAction(id: string): Promise<AccreditationCaseData | null> {
+  try {
+    const { scope } = await authorize('view');
+
+    const accreditation = await prisma.accreditationCase.findFirst({
+      where: { id, ...ownerFilter(scope) },
+      include: accreditationInclude
+    });
+
+    return accreditation ? toAccreditationCaseData(accreditation) : null;
+  } catch (error) {
+    console.error('Error fetching accreditation case:', error);
+    return null;
+  }
+}
+
+export async function createAccreditationCaseAction(input: {
+  consigneeId: string;
+  transactionType: AccreditationTransactionType;
+  kind: AccreditationKind;
+}): Promise<ActionResult<{ id: string; referenceNumber: string }>> {
+  try {
+    const { scope } = await authorize('create');
+
+    const checklist = ACCREDITATION_CHECKLISTS[input.transactionType]?.[input.kind];
+    if (!checklist || !(input.kind in ACCREDITATION_KINDS)) {
+      return { success: false, error: 'Invalid accreditation type' };
+    }
+
+    await authorize('edit', { type: 'consignee', id: input.consigneeId });
+    const consignee = await prisma.consignee.findUniqueOrThrow({
+      where: { id: input.consigneeId }
+    });
+
+    const created = await prisma.$transaction(async (tx) => {
+      const { referenceNumber } = await issueReferenceNumber(tx, input.transactionType, {
+        issuedById: scope.user.id
+      });
+
+      const accreditation = await tx.accreditationCase.create({
+        data: {
+          referenceNumber,
+          transactionType: input.transactionType,
+          kind: input.kind,
+          status: 'DOCUMENT_COLLECTION',
+          consigneeId: consignee.id,
+          userId: scope.user.id,
+          requirements: {
+            create: checklist.map((item, position) => ({ ...item, position }))
+          }
+        }
+      });
+
+      await attachReferenceNumber(tx, referenceNumber, 'AccreditationCase', accreditation.id);
+      return accreditation;
+    });
+
+    revalidatePath('/admin/services/accreditation');
+    return {
+      success: true,
+      data: { id: created.id, referenceNumber: created.referenceNumber }
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error creating accreditation case:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create accreditation case'
+    };
+  }
+}
+
+export async function updateAccreditationRequirementAction(
+  caseId: string,
+  requirementId: string,
+  updates: { isSubmitted?: boolean; fileUrl?: string | null }
+): Promise<ActionResult<AccreditationCaseData>> {
+  try {
+    const { scope } = await authorize('edit');
+
+    const accreditation = await prisma.accreditationCase.findFirst({
+      where: { id: caseId, ...ownerFilter(scope) }
+    });
+    if (!accreditation) {
+      return { success: false, error: 'Accreditation case not found' };
+    }
+    if (accreditation.status !== 'DOCUMENT_COLLECTION') {
+      return { success: false, error: 'The checklist is closed once the case is submitted' };
+    }
+
+    // A file on record counts as submitted unless told otherwise
+    const isSubmitted = updates.isSubmitted ?? (updates.fileUrl ? true : undefined);
+
+    await prisma.accreditationRequirement.update({
+      where: { id: requirementId, caseId },
+      data: {
+        fileUrl: updates.fileUrl,
+        isSubmitted,
+        submittedAt: isSubmitted === undefined ? undefined : isSubmitted ? new Date() : null
+      }
+    });
+
+    const updated = await prisma.accreditationCase.update({
+      where: { id: caseId },
+      data: { updatedAt: new Date() },
+      include: accreditationInclude
+    });
+
+    revalidatePath(`/admin/services/accreditation/${caseId}`);
+    return { success: true, data: toAccreditationCaseData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error updating accreditation requirement:', error);
+    return { success: false, error: 'Failed to update requirement' };
+  }
+}
+
+export async function updateAccreditationCaseAction(
+  id: string,
+  updates: AccreditationTransitionInput
+): Promise<ActionResult<AccreditationCaseData>> {
+  try {
+    const { scope } = await authorize('edit');
+
+    const accreditation = await prisma.accreditationCase.findFirst({
+      where: { id, ...ownerFilter(scope) }
+    });
+    if (!accreditation) {
+      return { success: false, error: 'Accreditation case not found' };
+    }
+
+    const updated = await prisma.accreditationCase.update({
+      where: { id },
+      data: {
+        accreditationNumber: updates.accreditationNumber,
+        submittedAt: toDate(updates.submittedAt),
+        approvedAt: toDate(updates.approvedAt),
+        expiryDate: toDate(updates.expiryDate),
+        remarks: updates.remarks
+      },
+      include: accreditationInclude
+    });
+
+    revalidatePath(`/admin/services/accreditation/${id}`);
+    return { success: true, data: toAccreditationCaseData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error updating accreditation case:', error);
+    return { success: false, error: 'Failed to update accreditation case' };
+  }
+}
+
+/**
+ * Moves a case along its status workflow. Dates and remarks sent with the
+ * move are saved with it, so an approval and its expiry land together.
+ */
+export async function updateAccreditationStatusAction(
+  id: string,
+  status: AccreditationStatus,
+  input: AccreditationTransitionInput = {}
+): Promise<ActionResult<AccreditationCaseData>> {
+  try {
+    const { scope } = await authorize('edit');
+
+    if (!isAccreditationStatus(status)) {
+      return { success: false, error: 'Invalid status' };
+    }
+
+    const accreditation = await prisma.accreditationCase.findFirst({
+      where: { id, ...ownerFilter(scope) },
+      include: accreditationInclude
+    });
+    if (!accreditation) {
+      return { success: false, error: 'Accreditation case not found' };
+    }
+
+    const current = toAccreditationCaseData(accreditation);
+    const merged: AccreditationTransitionInput = {
+      approvedAt: input.approvedAt ?? current.approvedAt,
+      expiryDate: input.expiryDate ?? current.expiryDate,
+      accreditationNumber: input.accreditationNumber ?? current.accreditationNumber,
+      remarks: input.remarks ?? current.remarks,
+      submittedAt: input.submittedAt ?? current.submittedAt
+    };
+
+    const problems = checkAccreditationTransition(current, status, merged);
+    if (problems.length > 0) {
+      return { success: false, error: problems.join('; ') };
+    }
+
+    const { count } = await prisma.accreditationCase.updateMany({
+      where: { id, status: current.status },
+      data: {
+        status,
+        accreditationNumber: merged.accreditationNumber,
+        remarks: merged.remarks,
+        submittedAt: status === 'SUBMITTED' ? toDate(merged.submittedAt) ?? new Date() : undefined,
+        approvedAt: status === 'APPROVED' ? toDate(merged.approvedAt) : undefined,
+        expiryDate: status === 'APPROVED' ? toDate(merged.expiryDate) : undefined
+      }
+    });
+    if (count === 0) {
+      return { success: false, error: 'Case status changed while updating; reload and try again' };
+    }
+
+    const updated = await prisma.accreditationCase.findUniqueOrThrow({
+      where: { id },
+      include: accreditationInclude
+    });
+
+    revalidatePath('/admin/services/accreditation');
+    revalidatePath(`/admin/services/accreditation/${id}`);
+    return { success: true, data: toAccreditationCaseData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error updating accreditation status:', error);
+    return { success: false, error: 'Failed to update accreditation status' };
+  }
+}
+
+// Used by the import form to warn before filing for a lapsing consignee
+export async function getConsigneeAccreditationAction(
+  consigneeId: string
+): Promise<ActionResult<AccreditationStanding>> {
+  try {
+    const { scope } = await authorize('view', { type: 'consignee', id: consigneeId });
+
+    const cases = await prisma.accreditationCase.findMany({
+      where: { consigneeId, ...ownerFilter(scope) },
+      include: accreditationInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      success: true,
+      data: getAccreditationStanding(cases.map(toAccreditationCaseData))
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching consignee accreditation:', error);
+    return { success: false, error: 'Failed to fetch accreditation' };
+  }
+}
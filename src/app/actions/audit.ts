@@ -0,0 +1,70 @@
+// app/actions/audit.ts
+'use server';
+
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { getAuditHistory, getShipmentAsOf } from '@/lib/db/audit';
+import { checkPermission } from '@/lib/utils/permissions';
+import { AUDIT_ENTITY_TYPES, type AuditEventData, type ShipmentAsOf } from '@/types/audit';
+import type { AuthorizationFailure } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// Audit trails carry actors and addresses, so they stay on the broker side
+async function authorizeHistory(type: 'shipment' | 'consignee' | 'exporter', id: string) {
+  const context = await authorize('view', { type, id });
+  if (!checkPermission(context.user, 'canAccessAdmin')) {
+    throw new AuthorizationError(`You do not have permission to view this ${type}'s history`);
+  }
+  return context;
+}
+
+export async function getShipmentHistoryAction(id: string): Promise<ActionResult<AuditEventData[]>> {
+  try {
+    await authorizeHistory('shipment', id);
+    return { success: true, data: await getAuditHistory(AUDIT_ENTITY_TYPES.SHIPMENT, id) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching shipment history:', error);
+    return { success: false, error: 'Failed to fetch shipment history' };
+  }
+}
+
+/**
+ * The shipment as it stood at `asOf`, from the last change recorded at or
+ * before that time. Shipments changed before the audit log existed have
+ * nothing to show for those earlier times.
+ */
+export async function getShipmentAsOfAction(
+  id: string,
+  asOf: string
+): Promise<ActionResult<ShipmentAsOf | null>> {
+  try {
+    await authorizeHistory('shipment', id);
+
+    const at = new Date(asOf);
+    if (Number.isNaN(at.getTime())) {
+      return { success: false, error: 'Invalid date' };
+    }
+
+    return { success: true, data: await getShipmentAsOf(id, at) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching shipment as of date:', error);
+    return { success: false, error: 'Failed to fetch shipment history' };
+  }
+}
+
+export async function getClientHistoryAction(
+  type: 'consignee' | 'exporter',
+  id: string
+): Promise<ActionResult<AuditEventData[]>> {
+  try {
+    await authorizeHistory(type, id);
+    const entityType = type === 'consignee' ? AUDIT_ENTITY_TYPES.CONSIGNEE : AUDIT_ENTITY_TYPES.EXPORTER;
+    return { success: true, data: await getAuditHistory(entityType, id) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching client history:', error);
+    return { success: false, error: 'Failed to fetch client history' };
+  }
+}
@@ -1,10 +1,21 @@
 // app/actions/auth.ts
 'use server'
 
-import { cookies } from 'next/headers'
 import { revalidatePath } from 'next/cache'
 import { prisma } from '@/lib/prisma'
-import { hashPassword, comparePasswords, createSession, validateSession } from '@/lib/auth'
+import {
+  hashPassword,
+  comparePasswords,
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  validateSession
+} from '@/lib/auth'
+import { createOrganizationForUser, getOrganizationScope, organizationWhere } from '@/lib/db/organization'
+import { recordAuditEvent } from '@/lib/db/audit'
+import { toClientAuditSnapshot, toUserAuditSnapshot } from '@/lib/utils/audit'
+import { AUDIT_ENTITY_TYPES } from '@/types/audit'
 import { USER_ROLES } from '@/types/auth'
 import type { UserRole, User, Session } from '@/types/auth'
 
@@ -36,47 +47,69 @@ export async function signUp(data: SignUpData) {
 
     const hashedPassword = await hashPassword(data.password)
 
-    // Create user with proper role validation
-    const user = await prisma.user.create({
-      data: {
-        email: data.email,
-        name: data.name,
-        password: hashedPassword,
-        role: data.role,
-        companyName: data.companyName,
-        companyAddress: data.companyAddress,
-        contactNumber: data.contactNumber
+    // Create user with proper role validation. Brokers get an organization of
+    // their own so the records they create have somewhere to live.
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email: data.email,
+          name: data.name,
+          password: hashedPassword,
+          role: data.role,
+          companyName: data.companyName,
+          companyAddress: data.companyAddress,
+          contactNumber: data.contactNumber
+        }
+      })
+
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.USER,
+        entityId: created.id,
+        action: 'user.sign_up',
+        actor: created,
+        after: toUserAuditSnapshot(created)
+      })
+
+      if (data.role === USER_ROLES.BROKER) {
+        const organization = await createOrganizationForUser(tx, created)
+
+        // Seed the broker's own company as their first consignee
+        if (data.companyName) {
+          const consignee = await tx.consignee.create({
+            data: {
+              name: data.companyName,
+              registeredName: data.companyName,
+              businessAddress: data.companyAddress || '',
+              tin: '', // You might want to add these to SignUpData
+              brn: '',
+              contactPerson: data.name,
+              contactNumber: data.contactNumber || '',
+              email: data.email,
+              userId: created.id,
+              organizationId: organization.id,
+              assigneeId: created.id
+            }
+          })
+          await recordAuditEvent(tx, {
+            entityType: AUDIT_ENTITY_TYPES.CONSIGNEE,
+            entityId: consignee.id,
+            action: 'consignee.create',
+            actor: created,
+            after: toClientAuditSnapshot(consignee)
+          })
+        }
       }
+
+      return created
     })
 
     // Create session with proper UserRole type
-    const session = await createSession(user.id, user.role as UserRole)
-
-    // Set up initial client relationships if needed
-    if (data.role === USER_ROLES.BROKER || data.role === USER_ROLES.CLIENT) {
-      // You might want to create initial consignee/exporter records
-      // based on the company information provided
-      if (data.companyName) {
-        await prisma.consignee.create({
-          data: {
-            name: data.companyName,
-            registeredName: data.companyName,
-            businessAddress: data.companyAddress || '',
-            tin: '', // You might want to add these to SignUpData
-            brn: '',
-            contactPerson: data.name,
-            contactNumber: data.contactNumber || '',
-            email: data.email,
-            userId: user.id
-          }
-        })
-      }
-    }
+    await createSession(user.id, user.role as UserRole)
 
     revalidatePath('/admin/clients')
     revalidatePath('/admin/services/import')
 
-    return { success: true, user, session }
+    return { success: true, user }
   } catch (error) {
     console.error('SignUp error:', error)
     return { error: 'Failed to create account' }
@@ -107,11 +140,17 @@ export async function signIn(data: SignInData) {
       return { error: 'Invalid credentials' }
     }
 
-    const session = await createSession(user.id, user.role as UserRole)
+    await createSession(user.id, user.role as UserRole)
+    await recordAuditEvent(prisma, {
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      action: 'user.sign_in',
+      actor: user,
+      changes: []
+    })
 
     return { 
       success: true, 
-      session, 
       role: user.role,
       hasClients: user.consignees.length > 0 || user.exporters.length > 0
     }
@@ -121,9 +160,10 @@ export async function signIn(data: SignInData) {
   }
 }
 
+// Also rotates the session token when it is due, since actions can write cookies
 export async function validateSessionAction(): Promise<Session | null> {
   try {
-    const session = await validateSession()
+    const session = await refreshSession()
     return session
   } catch (error) {
     console.error('Session validation error:', error)
@@ -133,15 +173,18 @@ export async function validateSessionAction(): Promise<Session | null> {
 
 export async function signOutAction() {
   try {
-    const cookieStore = await cookies()
-    // Use set with expired date to remove the cookie
-    cookieStore.set('session', '', {
-      expires: new Date(0),
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      path: '/'
-    })
+    const session = await validateSession()
+    await revokeSession()
+
+    if (session?.user) {
+      await recordAuditEvent(prisma, {
+        entityType: AUDIT_ENTITY_TYPES.USER,
+        entityId: session.user.id,
+        action: 'user.sign_out',
+        actor: session.user,
+        changes: []
+      })
+    }
     
     revalidatePath('/admin/clients')
     revalidatePath('/admin/services/import')
@@ -153,6 +196,33 @@ export async function signOutAction() {
   }
 }
 
+// Signs the user out on every device, this one included
+export async function signOutAllAction() {
+  try {
+    const session = await validateSession()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await revokeAllSessions(session.user.id)
+    await recordAuditEvent(prisma, {
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: session.user.id,
+      action: 'user.sign_out_all',
+      actor: session.user,
+      changes: []
+    })
+
+    revalidatePath('/admin/clients')
+    revalidatePath('/admin/services/import')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Sign out all error:', error)
+    return { success: false, error: 'Failed to sign out' }
+  }
+}
+
 export async function createInitialSuperAdmin() {
   try {
     const existingSuperAdmin = await prisma.user.findFirst({
@@ -165,13 +235,23 @@ export async function createInitialSuperAdmin() {
 
     const hashedPassword = await hashPassword('superadmin123')
 
-    await prisma.user.create({
-      data: {
-        email: 'superadmin@clexcb.com',
-        name: 'Super Admin',
-        password: hashedPassword,
-        role: USER_ROLES.SUPERADMIN as UserRole
-      }
+    await prisma.$transaction(async (tx) => {
+      const superAdmin = await tx.user.create({
+        data: {
+          email: 'superadmin@clexcb.com',
+          name: 'Super Admin',
+          password: hashedPassword,
+          role: USER_ROLES.SUPERADMIN as UserRole
+        }
+      })
+      await createOrganizationForUser(tx, superAdmin)
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.USER,
+        entityId: superAdmin.id,
+        action: 'user.create',
+        actor: null,
+        after: toUserAuditSnapshot(superAdmin)
+      })
     })
 
     return { success: true }
@@ -181,19 +261,11 @@ export async function createInitialSuperAdmin() {
   }
 }
 
-// New helper function to check user permissions
+// Checks whether a shipment, consignee or exporter belongs to one of the user's organizations
 export async function checkUserPermissions(userId: string, entityId: string) {
   try {
     const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        consignees: {
-          where: { id: entityId }
-        },
-        exporters: {
-          where: { id: entityId }
-        }
-      }
+      where: { id: userId }
     })
 
     if (!user) return false
@@ -201,10 +273,23 @@ export async function checkUserPermissions(userId: string, entityId: string) {
     // Super admin has access to everything
     if (user.role === USER_ROLES.SUPERADMIN) return true
 
-    // Check if the entity belongs to the user
-    return user.consignees.length > 0 || user.exporters.length > 0
+    const scope = await getOrganizationScope({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role as UserRole
+    })
+    const where = { id: entityId, ...organizationWhere(scope) }
+
+    const [shipments, consignees, exporters] = await Promise.all([
+      prisma.shipment.count({ where }),
+      prisma.consignee.count({ where }),
+      prisma.exporter.count({ where })
+    ])
+
+    return shipments + consignees + exporters > 0
   } catch (error) {
     console.error('Permission check error:', error)
     return false
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,78 @@
+// app/actions/client-import.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { ClientImportError, commitClientImport, previewClientImport } from '@/lib/db/client-import';
+import { OrganizationAccessError } from '@/lib/db/organization';
+import { isSpreadsheetFile } from '@/lib/utils/spreadsheet';
+import type { AuthorizationFailure } from '@/types/auth';
+import type {
+  ClientColumnMapping,
+  ClientImportPreview,
+  ClientImportResult,
+  ClientImportType
+} from '@/types/client-import';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// The form carries the file, the client type and any columns the user re-mapped
+function readImportForm(formData: FormData) {
+  const type = formData.get('type');
+  if (type !== 'consignee' && type !== 'exporter') {
+    throw new ClientImportError('Choose whether to import consignees or exporters');
+  }
+
+  const file = formData.get('file');
+  if (!(file instanceof File) || !isSpreadsheetFile(file.name)) {
+    throw new ClientImportError('Please upload a CSV or XLSX file');
+  }
+
+  const rawMapping = formData.get('mapping');
+  let mapping: ClientColumnMapping = {};
+  if (typeof rawMapping === 'string' && rawMapping) {
+    try {
+      mapping = JSON.parse(rawMapping);
+    } catch {
+      throw new ClientImportError('Invalid column mapping');
+    }
+  }
+
+  return { type: type as ClientImportType, file, mapping };
+}
+
+export async function previewClientImportAction(formData: FormData): Promise<ActionResult<ClientImportPreview>> {
+  try {
+    const { scope } = await authorize('create');
+    const { type, file, mapping } = readImportForm(formData);
+
+    return { success: true, data: await previewClientImport(type, await file.arrayBuffer(), mapping, scope) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof ClientImportError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error previewing client import:', error);
+    return { success: false, error: 'Failed to read the client file' };
+  }
+}
+
+// Creates the rows that pass; the rest are returned for the error report
+export async function commitClientImportAction(formData: FormData): Promise<ActionResult<ClientImportResult>> {
+  try {
+    const { scope } = await authorize('create');
+    const { type, file, mapping } = readImportForm(formData);
+
+    const result = await commitClientImport(type, await file.arrayBuffer(), mapping, scope);
+
+    revalidatePath('/admin/clients');
+    return { success: true, data: result };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof ClientImportError || error instanceof OrganizationAccessError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error importing clients:', error);
+    return { success: false, error: 'Failed to import clients' };
+  }
+}
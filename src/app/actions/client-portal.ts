@@ -0,0 +1,261 @@
+// app/actions/client-portal.ts
+'use server';
+
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { prisma } from '@/lib/prisma';
+import { revalidatePath } from 'next/cache';
+
+import { IMPORT_FREIGHT_TYPES, shipmentInclude, toShipmentData } from '@/lib/db/shipment';
+import { isConsigneeRepresentative, representedShipmentsWhere } from '@/lib/db/client-access';
+import { getOrganizationScope, organizationWhere } from '@/lib/db/organization';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { recordSofEvents } from '@/lib/db/sof';
+import { storeUpload, getFileUrl, UploadError } from '@/lib/storage/upload';
+import { isReleasedDocument, toClientShipmentData } from '@/lib/utils/client-portal';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { ClientShipmentListItem, PortalUser } from '@/types/client-portal';
+import { USER_ROLES, type AuthorizationFailure, type User } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+const clientShipmentsWhere = (user: User) => ({
+  ...representedShipmentsWhere(user.id),
+  freightType: { in: IMPORT_FREIGHT_TYPES }
+});
+
+export async function getClientShipmentsAction(): Promise<ActionResult<ClientShipmentListItem[]>> {
+  try {
+    const { user } = await authorize('view');
+
+    const shipments = await prisma.shipment.findMany({
+      where: clientShipmentsWhere(user),
+      include: {
+        consignee: { select: { name: true } },
+        documents: { select: { isRequired: true, status: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      success: true,
+      data: shipments.map(shipment => {
+        const details = JSON.parse(shipment.shipmentDetails);
+        const type = shipment.freightType === 'IMS' ? 'sea' as const : 'air' as const;
+        return {
+          id: shipment.id,
+          referenceNumber: shipment.referenceNumber,
+          consignee: shipment.consignee?.name || 'N/A',
+          type,
+          blNumber: type === 'sea' ? details.bl_number || undefined : undefined,
+          awbNumber: type === 'air' ? details.awb_number || undefined : undefined,
+          status: shipment.status,
+          eta: details.eta || null,
+          completionDate: shipment.completionDate?.toISOString() || null,
+          lastUpdate: shipment.updatedAt.toISOString(),
+          pendingDocuments: shipment.documents.filter(doc => doc.isRequired && doc.status === 'not_uploaded').length
+        };
+      })
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching client shipments:', error);
+    return { success: false, error: 'Failed to fetch shipments' };
+  }
+}
+
+export async function getClientShipmentByIdAction(id: string): Promise<ShipmentData | null> {
+  try {
+    const { user } = await authorize('view', { type: 'shipment', id });
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id, ...clientShipmentsWhere(user) },
+      include: shipmentInclude
+    });
+    if (!shipment) return null;
+
+    const ownFiles = await prisma.storedFile.findMany({
+      where: { shipmentId: id, uploadedById: user.id },
+      select: { id: true }
+    });
+
+    return toClientShipmentData(toShipmentData(shipment), ownFiles.map(file => getFileUrl(file.id)));
+  } catch (error) {
+    console.error('Error fetching client shipment:', error);
+    return null;
+  }
+}
+
+/**
+ * Uploads a file into one of the shipment's document slots. Clients can only
+ * fill slots the broker has set up and not yet finalised; what they send is
+ * filed as a draft for the broker to review.
+ */
+export async function uploadClientDocumentAction(
+  shipmentId: string,
+  documentName: string,
+  file: File
+): Promise<ActionResult<{ fileUrl: string }>> {
+  try {
+    const { user } = await authorize('upload', { type: 'shipment', id: shipmentId });
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: shipmentId, ...clientShipmentsWhere(user) },
+      select: { id: true }
+    });
+    if (!shipment) {
+      return { success: false, error: 'Shipment not found' };
+    }
+
+    const document = await prisma.shipmentDocument.findUnique({
+      where: { shipmentId_name: { shipmentId, name: documentName } }
+    });
+    if (!document) {
+      return { success: false, error: `${documentName} has not been requested for this shipment` };
+    }
+    if (isReleasedDocument(document)) {
+      return { success: false, error: `${documentName} has already been finalised` };
+    }
+
+    const stored = await storeUpload(
+      {
+        stream: Readable.fromWeb(file.stream() as WebReadableStream),
+        fileName: file.name,
+        contentType: file.type
+      },
+      { shipmentId, documentName },
+      user.id
+    );
+    const fileUrl = getFileUrl(stored.id);
+
+    await prisma.$transaction(async tx => {
+      await tx.shipmentDocument.update({
+        where: { id: document.id },
+        data: {
+          status: document.status === 'not_uploaded' ? 'draft' : undefined,
+          files: { push: fileUrl }
+        }
+      });
+      await recordSofEvents(
+        tx,
+        shipmentId,
+        [{ category: 'DOCUMENTS', description: `${documentName} received from client`, timestamp: new Date().toISOString() }],
+        user
+      );
+    });
+
+    revalidatePath(`/client/shipments/${shipmentId}`);
+    return { success: true, data: { fileUrl } };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof UploadError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error uploading client document:', error);
+    return { success: false, error: 'Failed to upload document' };
+  }
+}
+
+// Portal access is managed by members of the organization that owns the consignee
+async function findManagedConsignee(consigneeId: string, user: User) {
+  const scope = await getOrganizationScope(user);
+  return prisma.consignee.findFirst({
+    where: {
+      id: consigneeId,
+      ...organizationWhere(scope)
+    }
+  });
+}
+
+export async function getPortalUsersAction(consigneeId: string): Promise<ActionResult<PortalUser[]>> {
+  try {
+    const { user } = await authorize('edit', { type: 'consignee', id: consigneeId });
+
+    if (!(await findManagedConsignee(consigneeId, user))) {
+      return { success: false, error: 'Consignee not found' };
+    }
+
+    const representatives = await prisma.consigneeRepresentative.findMany({
+      where: { consigneeId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return {
+      success: true,
+      data: representatives.map(rep => ({
+        ...rep.user,
+        grantedAt: rep.createdAt.toISOString()
+      }))
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching portal users:', error);
+    return { success: false, error: 'Failed to fetch portal users' };
+  }
+}
+
+export async function grantPortalAccessAction(
+  consigneeId: string,
+  email: string
+): Promise<ActionResult<PortalUser>> {
+  try {
+    const { user } = await authorize('edit', { type: 'consignee', id: consigneeId });
+
+    if (!(await findManagedConsignee(consigneeId, user))) {
+      return { success: false, error: 'Consignee not found' };
+    }
+
+    const client = await prisma.user.findUnique({
+      where: { email: email.trim() },
+      select: { id: true, name: true, email: true, role: true }
+    });
+    if (!client || client.role !== USER_ROLES.CLIENT) {
+      return { success: false, error: 'No client account is registered with that email' };
+    }
+    if (await isConsigneeRepresentative(client.id, consigneeId)) {
+      return { success: false, error: `${client.name} already has access` };
+    }
+
+    const representative = await prisma.consigneeRepresentative.create({
+      data: { userId: client.id, consigneeId, grantedById: user.id }
+    });
+
+    revalidatePath('/admin/clients');
+    return {
+      success: true,
+      data: {
+        id: client.id,
+        name: client.name,
+        email: client.email,
+        grantedAt: representative.createdAt.toISOString()
+      }
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error granting portal access:', error);
+    return { success: false, error: 'Failed to grant portal access' };
+  }
+}
+
+export async function revokePortalAccessAction(
+  consigneeId: string,
+  userId: string
+): Promise<ActionResult<null>> {
+  try {
+    const { user } = await authorize('edit', { type: 'consignee', id: consigneeId });
+
+    if (!(await findManagedConsignee(consigneeId, user))) {
+      return { success: false, error: 'Consignee not found' };
+    }
+
+    await prisma.consigneeRepresentative.deleteMany({ where: { consigneeId, userId } });
+
+    revalidatePath('/admin/clients');
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error revoking portal access:', error);
+    return { success: false, error: 'Failed to revoke portal access' };
+  }
+}
@@ -3,13 +3,26 @@
 
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
-import { getServerSession } from 'next-auth/next'
-import type { Session } from '@/types/auth'
+import { authorize, AuthorizationError } from '@/lib/db/authorization'
+import { organizationWhere, ownedBy } from '@/lib/db/organization'
+import { recordAuditEvent } from '@/lib/db/audit'
+import {
+  archiveClient,
+  ClientLifecycleError,
+  deleteClient,
+  mergeClients,
+  notArchivedWhere,
+  setClientActive
+} from '@/lib/db/clients'
+import { toClientAuditSnapshot } from '@/lib/utils/audit'
+import { AUDIT_ENTITY_TYPES } from '@/types/audit'
+import type { ClientMergeResult, ClientType } from '@/types/clients'
 
 // Response type
 interface ActionResponse<T> {
     success?: boolean
     error?: string
+    status?: number
     data?: T
   }
   
@@ -37,6 +50,9 @@ interface ActionResponse<T> {
     contactNumber: string
     email: string
     isActive: boolean
+    // Set once the client is archived, or merged into `mergedIntoId`
+    deletedAt: string | null
+    mergedIntoId: string | null
     documents: DocumentData[]
     shipments: ShipmentData[]
   }
@@ -95,10 +111,7 @@ export async function handleEntityUpdateAction() {
 
 export async function createConsignee(data: ConsigneeFormData) {
     try {
-      const session = await getServerSession() as Session | null;
-      if (!session?.user) {
-        throw new Error('Unauthorized');
-      }
+      const { user, scope } = await authorize('create')
   
       const existingConsignee = await prisma.consignee.findFirst({
         where: {
@@ -106,9 +119,7 @@ export async function createConsignee(data: ConsigneeFormData) {
             { tin: data.tin },
             { name: data.name }
           ],
-          createdBy: {  // This references the User relation in your schema
-            id: session.user.id
-          }
+          ...organizationWhere(scope)
         }
       })
   
@@ -118,20 +129,29 @@ export async function createConsignee(data: ConsigneeFormData) {
         }
       }
   
-      const consignee = await prisma.consignee.create({
-        data: {
-          ...data,
-          createdBy: {  // This is how we connect to the User model
-            connect: {
-              id: session.user.id
-            }
+      const consignee = await prisma.$transaction(async (tx) => {
+        const created = await tx.consignee.create({
+          data: {
+            ...data,
+            ...ownedBy(scope)
           }
-        }
+        })
+        await recordAuditEvent(tx, {
+          entityType: AUDIT_ENTITY_TYPES.CONSIGNEE,
+          entityId: created.id,
+          action: 'consignee.create',
+          actor: user,
+          after: toClientAuditSnapshot(created)
+        })
+        return created
       })
   
       revalidatePath('/admin/clients')
       return { success: true, data: consignee }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error creating consignee:', error)
       return { error: 'Failed to create consignee' }
     }
@@ -139,10 +159,7 @@ export async function createConsignee(data: ConsigneeFormData) {
   
 export async function createExporter(data: ExporterFormData) {
     try {
-      const session = await getServerSession() as Session | null;
-      if (!session?.user) {
-        throw new Error('Unauthorized');
-      }
+      const { user, scope } = await authorize('create')
   
       const existingExporter = await prisma.exporter.findFirst({
         where: {
@@ -150,9 +167,7 @@ export async function createExporter(data: ExporterFormData) {
             { email: data.email },
             { name: data.name }
           ],
-          createdBy: {  // This references the User relation in your schema
-            id: session.user.id
-          }
+          ...organizationWhere(scope)
         }
       })
   
@@ -162,20 +177,29 @@ export async function createExporter(data: ExporterFormData) {
         }
       }
   
-      const exporter = await prisma.exporter.create({
-        data: {
-          ...data,
-          createdBy: {  // This is how we connect to the User model
-            connect: {
-              id: session.user.id
-            }
+      const exporter = await prisma.$transaction(async (tx) => {
+        const created = await tx.exporter.create({
+          data: {
+            ...data,
+            ...ownedBy(scope)
           }
-        }
+        })
+        await recordAuditEvent(tx, {
+          entityType: AUDIT_ENTITY_TYPES.EXPORTER,
+          entityId: created.id,
+          action: 'exporter.create',
+          actor: user,
+          after: toClientAuditSnapshot(created)
+        })
+        return created
       })
   
       revalidatePath('/admin/clients')
       return { success: true, data: exporter }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error creating exporter:', error)
       return { error: 'Failed to create exporter' }
     }
@@ -183,10 +207,7 @@ export async function createExporter(data: ExporterFormData) {
   
   export async function getConsignees(query?: string) {
     try {
-      const session = await getServerSession() as Session | null;
-      if (!session?.user) {
-        throw new Error('Unauthorized');
-      }
+      const { scope } = await authorize('view')
   
       const consignees = await prisma.consignee.findMany({
         where: query ? {
@@ -197,17 +218,10 @@ export async function createExporter(data: ExporterFormData) {
                 { tin: { contains: query } }
               ]
             },
-            {
-              createdBy: {  // Reference the User relation
-                id: session.user.id
-              }
-            }
+            organizationWhere(scope),
+            notArchivedWhere
           ]
-        } : {
-          createdBy: {
-            id: session.user.id
-          }
-        },
+        } : { ...organizationWhere(scope), ...notArchivedWhere },
         orderBy: { name: 'asc' },
         include: {
           documents: true,
@@ -223,6 +237,9 @@ export async function createExporter(data: ExporterFormData) {
   
       return { success: true, data: consignees }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error fetching consignees:', error)
       return { error: 'Failed to fetch consignees' }
     }
@@ -230,10 +247,7 @@ export async function createExporter(data: ExporterFormData) {
   
   export async function getExporters(query?: string) {
     try {
-      const session = await getServerSession() as Session | null;
-      if (!session?.user) {
-        throw new Error('Unauthorized');
-      }
+      const { scope } = await authorize('view')
   
       const exporter = await prisma.exporter.findMany({
         where: query ? {
@@ -244,17 +258,10 @@ export async function createExporter(data: ExporterFormData) {
                 { email: { contains: query } }
               ]
             },
-            {
-              createdBy: {  // Reference the User relation
-                id: session.user.id
-              }
-            }
+            organizationWhere(scope),
+            notArchivedWhere
           ]
-        } : {
-          createdBy: {
-            id: session.user.id
-          }
-        },
+        } : { ...organizationWhere(scope), ...notArchivedWhere },
         orderBy: { name: 'asc' },
         include: {
             shipments: {
@@ -269,6 +276,9 @@ export async function createExporter(data: ExporterFormData) {
   
       return { success: true, data: exporter }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error fetching exporter:', error)
       return { error: 'Failed to fetch exporter' }
     }
@@ -276,24 +286,41 @@ export async function createExporter(data: ExporterFormData) {
 
 export async function updateConsignee(id: string, data: Partial<ConsigneeFormData>) {
     try {
-      const updatedConsignee = await prisma.consignee.update({
-        where: { id },
-        data: {
-          name: data.name,
-          registeredName: data.registeredName,
-          businessAddress: data.businessAddress,
-          tin: data.tin,
-          brn: data.brn,
-          contactPerson: data.contactPerson,
-          contactNumber: data.contactNumber,
-          email: data.email,
-          updatedAt: new Date()
-        }
+      const { user } = await authorize('edit', { type: 'consignee', id })
+
+      const updatedConsignee = await prisma.$transaction(async (tx) => {
+        const before = await tx.consignee.findUniqueOrThrow({ where: { id } })
+        const updated = await tx.consignee.update({
+          where: { id },
+          data: {
+            name: data.name,
+            registeredName: data.registeredName,
+            businessAddress: data.businessAddress,
+            tin: data.tin,
+            brn: data.brn,
+            contactPerson: data.contactPerson,
+            contactNumber: data.contactNumber,
+            email: data.email,
+            updatedAt: new Date()
+          }
+        })
+        await recordAuditEvent(tx, {
+          entityType: AUDIT_ENTITY_TYPES.CONSIGNEE,
+          entityId: id,
+          action: 'consignee.update',
+          actor: user,
+          before: toClientAuditSnapshot(before),
+          after: toClientAuditSnapshot(updated)
+        })
+        return updated
       })
   
       revalidatePath('/admin/clients')
       return { success: true, data: updatedConsignee }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error updating consignee:', error)
       return { error: 'Failed to update consignee' }
     }
@@ -301,21 +328,38 @@ export async function updateConsignee(id: string, data: Partial<ConsigneeFormDat
   
   export async function updateExporter(id: string, data: Partial<ExporterFormData>) {
     try {
-      const updatedExporter = await prisma.exporter.update({
-        where: { id },
-        data: {
-          name: data.name,
-          businessAddress: data.businessAddress,
-          contactPerson: data.contactPerson,
-          contactNumber: data.contactNumber,
-          email: data.email,
-          updatedAt: new Date()
-        }
+      const { user } = await authorize('edit', { type: 'exporter', id })
+
+      const updatedExporter = await prisma.$transaction(async (tx) => {
+        const before = await tx.exporter.findUniqueOrThrow({ where: { id } })
+        const updated = await tx.exporter.update({
+          where: { id },
+          data: {
+            name: data.name,
+            businessAddress: data.businessAddress,
+            contactPerson: data.contactPerson,
+            contactNumber: data.contactNumber,
+            email: data.email,
+            updatedAt: new Date()
+          }
+        })
+        await recordAuditEvent(tx, {
+          entityType: AUDIT_ENTITY_TYPES.EXPORTER,
+          entityId: id,
+          action: 'exporter.update',
+          actor: user,
+          before: toClientAuditSnapshot(before),
+          after: toClientAuditSnapshot(updated)
+        })
+        return updated
       })
   
       revalidatePath('/admin/clients')
       return { success: true, data: updatedExporter }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error updating exporter:', error)
       return { error: 'Failed to update exporter' }
     }
@@ -326,17 +370,32 @@ export async function addConsigneeDocument(
   document: ConsigneeDocumentData
 ) {
   try {
-    const doc = await prisma.consigneeDocument.create({
-      data: {
-        consigneeId,
-        name: document.name,
-        fileUrl: document.fileUrl,
-      }
+    const { user } = await authorize('edit', { type: 'consignee', id: consigneeId })
+
+    const doc = await prisma.$transaction(async (tx) => {
+      const created = await tx.consigneeDocument.create({
+        data: {
+          consigneeId,
+          name: document.name,
+          fileUrl: document.fileUrl,
+        }
+      })
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.CONSIGNEE,
+        entityId: consigneeId,
+        action: 'consignee.document_add',
+        actor: user,
+        changes: [{ field: `documents.${document.name}`, before: null, after: document.fileUrl }]
+      })
+      return created
     })
 
     revalidatePath('/admin/clients')
     return { success: true, data: doc }
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return { success: false, error: error.message, status: error.status }
+    }
     console.error('Error adding consignee document:', error)
     return { error: 'Failed to add document' }
   }
@@ -344,6 +403,7 @@ export async function addConsigneeDocument(
 
 export async function getConsigneeById(id: string): Promise<ActionResponse<ConsigneeData>> {
     try {
+      await authorize('view', { type: 'consignee', id })
       const consignee = await prisma.consignee.findUnique({
         where: { id },
         include: {
@@ -374,6 +434,8 @@ export async function getConsigneeById(id: string): Promise<ActionResponse<Consi
         contactNumber: consignee.contactNumber,
         email: consignee.email,
         isActive: consignee.isActive,
+        deletedAt: consignee.deletedAt?.toISOString() ?? null,
+        mergedIntoId: consignee.mergedIntoId,
         documents: consignee.documents.map(doc => ({
           id: doc.id,
           name: doc.name,
@@ -389,6 +451,9 @@ export async function getConsigneeById(id: string): Promise<ActionResponse<Consi
   
       return { success: true, data }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error fetching consignee:', error)
       return { error: 'Failed to fetch consignee' }
     }
@@ -396,6 +461,7 @@ export async function getConsigneeById(id: string): Promise<ActionResponse<Consi
   
 export async function getExporterById(id: string): Promise<ActionResponse<ExporterData>> {
     try {
+      await authorize('view', { type: 'exporter', id })
       const exporter = await prisma.exporter.findUnique({
         where: { id },
         include: {
@@ -422,6 +488,8 @@ export async function getExporterById(id: string): Promise<ActionResponse<Export
         contactNumber: exporter.contactNumber,
         email: exporter.email,
         isActive: exporter.isActive,
+        deletedAt: exporter.deletedAt?.toISOString() ?? null,
+        mergedIntoId: exporter.mergedIntoId,
         documents: [], // Exporters don't have documents in the schema
         shipments: exporter.shipments.map(ship => ({
           referenceNumber: ship.referenceNumber,
@@ -432,8 +500,82 @@ export async function getExporterById(id: string): Promise<ActionResponse<Export
   
       return { success: true, data }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, error: error.message, status: error.status }
+      }
       console.error('Error fetching exporter:', error)
       return { error: 'Failed to fetch exporter' }
     }
   }
 
+
+const toLifecycleFailure = (error: unknown, fallback: string) => {
+  if (error instanceof AuthorizationError) {
+    return { success: false, error: error.message, status: error.status }
+  }
+  if (error instanceof ClientLifecycleError) {
+    return { success: false, error: error.message }
+  }
+  console.error(`${fallback}:`, error)
+  return { success: false, error: fallback }
+}
+
+// Inactive clients stay listed but are no longer offered when filing shipments
+export async function setClientActiveAction(
+  type: ClientType,
+  id: string,
+  isActive: boolean
+): Promise<ActionResponse<void>> {
+  try {
+    const { user } = await authorize('edit', { type, id })
+    await setClientActive(type, id, isActive, user)
+
+    revalidatePath('/admin/clients')
+    return { success: true }
+  } catch (error) {
+    return toLifecycleFailure(error, `Failed to ${isActive ? 'reactivate' : 'deactivate'} ${type}`)
+  }
+}
+
+export async function archiveClientAction(type: ClientType, id: string): Promise<ActionResponse<void>> {
+  try {
+    const { user } = await authorize('delete', { type, id })
+    await archiveClient(type, id, user)
+
+    revalidatePath('/admin/clients')
+    return { success: true }
+  } catch (error) {
+    return toLifecycleFailure(error, `Failed to archive ${type}`)
+  }
+}
+
+// Refused while shipments refer to the client; those are archived instead
+export async function deleteClientAction(type: ClientType, id: string): Promise<ActionResponse<void>> {
+  try {
+    const { user } = await authorize('delete', { type, id })
+    await deleteClient(type, id, user)
+
+    revalidatePath('/admin/clients')
+    return { success: true }
+  } catch (error) {
+    return toLifecycleFailure(error, `Failed to delete ${type}`)
+  }
+}
+
+export async function mergeClientsAction(
+  type: ClientType,
+  duplicateId: string,
+  canonicalId: string
+): Promise<ActionResponse<ClientMergeResult>> {
+  try {
+    // The duplicate is retired, so merging needs the same rights as deleting it
+    const { user } = await authorize('delete', { type, id: duplicateId })
+    await authorize('edit', { type, id: canonicalId })
+    const result = await mergeClients(type, duplicateId, canonicalId, user)
+
+    revalidatePath('/admin/clients')
+    return { success: true, data: result }
+  } catch (error) {
+    return toLifecycleFailure(error, `Failed to merge ${type}s`)
+  }
+}
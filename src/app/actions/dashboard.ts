@@ -0,0 +1,69 @@
+// app/actions/dashboard.ts
+'use server';
+
+import { prisma } from '@/lib/prisma';
+
+import { IMPORT_FREIGHT_TYPES, importShipmentsWhere } from '@/lib/db/shipment';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { loadMetricsShipments } from '@/lib/db/metrics';
+import { computeShipmentMetrics } from '@/lib/utils/metrics';
+import type { BrokerMetrics, DashboardMetrics } from '@/types/metrics';
+import { USER_ROLES, type AuthorizationFailure } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// Per-broker numbers across every import shipment, grouped by assignee, for SUPERADMIN only
+async function getBrokerBreakdown(now: Date): Promise<BrokerMetrics[]> {
+  const shipments = await loadMetricsShipments({ freightType: { in: IMPORT_FREIGHT_TYPES } });
+
+  const byUser = new Map<string, typeof shipments>();
+  shipments.forEach(shipment => {
+    byUser.set(shipment.userId, [...(byUser.get(shipment.userId) || []), shipment]);
+  });
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: Array.from(byUser.keys()) } },
+    select: { id: true, name: true }
+  });
+
+  return users
+    .map(broker => {
+      const metrics = computeShipmentMetrics(byUser.get(broker.id) || [], now);
+      return {
+        userId: broker.id,
+        name: broker.name,
+        stageCounts: metrics.stageCounts,
+        active: metrics.active,
+        pendingClearance: metrics.pendingClearance,
+        completedToday: metrics.completedToday,
+        overdue: metrics.overdue.length
+      };
+    })
+    .sort((a, b) => b.active - a.active);
+}
+
+/**
+ * Metrics over the same import shipments `getShipmentsAction` lists for the
+ * user, computed on the server so the dashboard always matches the data.
+ */
+export async function getDashboardMetricsAction(): Promise<ActionResult<DashboardMetrics>> {
+  try {
+    const { user, scope } = await authorize('view');
+    const now = new Date();
+
+    const shipments = await loadMetricsShipments(importShipmentsWhere(scope));
+
+    return {
+      success: true,
+      data: {
+        ...computeShipmentMetrics(shipments, now),
+        brokers: user.role === USER_ROLES.SUPERADMIN ? await getBrokerBreakdown(now) : undefined,
+        generatedAt: now.toISOString()
+      }
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error computing dashboard metrics:', error);
+    return { success: false, error: 'Failed to load dashboard metrics' };
+  }
+}
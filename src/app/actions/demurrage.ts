@@ -0,0 +1,124 @@
+// app/actions/demurrage.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { prisma } from '@/lib/prisma';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { auditShipmentChange } from '@/lib/db/audit';
+import { importShipmentsWhere } from '@/lib/db/shipment';
+import {
+  deleteFreeTimeRule,
+  FreeTimeError,
+  getFreeTimeAlerts,
+  getShipmentFreeTime,
+  listFreeTimeRules,
+  recordContainerMoves,
+  saveFreeTimeRule
+} from '@/lib/db/demurrage';
+import type {
+  ContainerMovesInput,
+  FreeTimeAlert,
+  FreeTimeRuleEntry,
+  FreeTimeRuleInput,
+  ShipmentFreeTime
+} from '@/types/demurrage';
+import type { AuthorizationFailure } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// Shipments with this many free days left or fewer are flagged
+const ALERT_WINDOW_DAYS = 3;
+
+export async function getFreeTimeRulesAction(): Promise<FreeTimeRuleEntry[]> {
+  try {
+    await authorize('view');
+    return await listFreeTimeRules();
+  } catch (error) {
+    console.error('Error fetching free-time rules:', error);
+    return [];
+  }
+}
+
+export async function saveFreeTimeRuleAction(
+  input: FreeTimeRuleInput,
+  id?: string
+): Promise<ActionResult<FreeTimeRuleEntry>> {
+  try {
+    // Shipping-line tariffs are shared reference data, like the exchange rates
+    await authorize('edit', { type: 'shared' });
+    const rule = await saveFreeTimeRule(input, id);
+
+    revalidatePath('/admin/free-time');
+    return { success: true, data: rule };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error saving free-time rule:', error);
+    return {
+      success: false,
+      error: error instanceof FreeTimeError ? error.message : 'Failed to save free-time rule'
+    };
+  }
+}
+
+export async function deleteFreeTimeRuleAction(id: string): Promise<ActionResult<void>> {
+  try {
+    await authorize('edit', { type: 'shared' });
+    await deleteFreeTimeRule(id);
+
+    revalidatePath('/admin/free-time');
+    return { success: true, data: undefined };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error deleting free-time rule:', error);
+    return { success: false, error: 'Failed to delete free-time rule' };
+  }
+}
+
+export async function getShipmentFreeTimeAction(shipmentId: string): Promise<ActionResult<ShipmentFreeTime>> {
+  try {
+    await authorize('view', { type: 'shipment', id: shipmentId });
+    return { success: true, data: await getShipmentFreeTime(shipmentId) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error computing free time:', error);
+    return { success: false, error: 'Failed to compute demurrage and detention' };
+  }
+}
+
+export async function recordContainerMovesAction(
+  shipmentId: string,
+  containerId: string,
+  moves: ContainerMovesInput
+): Promise<ActionResult<ShipmentFreeTime>> {
+  try {
+    const { user } = await authorize('edit', { type: 'shipment', id: shipmentId });
+
+    await prisma.$transaction(tx =>
+      auditShipmentChange(tx, shipmentId, { action: 'shipment.container_moves', actor: user }, () =>
+        recordContainerMoves(tx, shipmentId, containerId, moves)
+      )
+    );
+
+    revalidatePath(`/admin/services/import/${shipmentId}`);
+    return { success: true, data: await getShipmentFreeTime(shipmentId) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error recording container movements:', error);
+    return {
+      success: false,
+      error: error instanceof FreeTimeError ? error.message : 'Failed to record container movements'
+    };
+  }
+}
+
+// Import shipments the user works on that are close to or past their free time
+export async function getFreeTimeAlertsAction(): Promise<ActionResult<FreeTimeAlert[]>> {
+  try {
+    const { scope } = await authorize('view');
+    return { success: true, data: await getFreeTimeAlerts(importShipmentsWhere(scope), ALERT_WINDOW_DAYS) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching free-time alerts:', error);
+    return { success: false, error: 'Failed to load free-time alerts' };
+  }
+}
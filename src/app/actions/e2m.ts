@@ -0,0 +1,179 @@
+// app/actions/e2m.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { prisma } from '@/lib/prisma';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { auditShipmentChange } from '@/lib/db/audit';
+import { shipmentInclude, toSadDeclaration, toShipmentData } from '@/lib/db/shipment';
+import { applyE2mResponse, E2mLodgementError, getE2mLodgement, recordE2mExport } from '@/lib/db/e2m';
+import { E2mFormatError, toE2mExportFile } from '@/lib/customs/e2m';
+import { getNextE2mResponseType, isE2mSimulatorEnabled, simulateE2mResponse } from '@/lib/customs/e2m-simulator';
+import { validateSadDeclaration } from '@/lib/customs/sad';
+import { checkPermission } from '@/lib/utils/permissions';
+import { E2M_FORMATS, type E2mExportFile, type E2mFormat, type E2mLodgementData, type E2mResponseResult } from '@/types/e2m';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { AuthorizationFailure, User } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// Response files are a few hundred bytes; anything near this is not one
+const MAX_RESPONSE_SIZE = 256 * 1024;
+
+// Lodgement is broker work, even on a client's own shipment
+async function authorizeLodgement(permission: 'view' | 'edit', id: string) {
+  const context = await authorize(permission, { type: 'shipment', id });
+  if (!checkPermission(context.user, 'canAccessAdmin')) {
+    throw new AuthorizationError('You do not have permission to lodge shipments in E2M');
+  }
+  return context;
+}
+
+async function loadDeclaration(id: string) {
+  const shipment = await prisma.shipment.findUnique({
+    where: { id },
+    include: shipmentInclude
+  });
+  if (!shipment) {
+    throw new E2mLodgementError('Shipment not found');
+  }
+  const declaration = toSadDeclaration(shipment);
+  if (!declaration) {
+    throw new E2mLodgementError('Only import shipments are lodged in E2M');
+  }
+  return declaration;
+}
+
+async function importResponse(
+  id: string,
+  file: { fileName: string; content: string },
+  user: User
+): Promise<E2mResponseResult & { shipment: ShipmentData }> {
+  const { shipment, pending } = await prisma.$transaction(async tx => {
+    const { pending } = await auditShipmentChange(tx, id, { action: 'shipment.e2m_response', actor: user }, () =>
+      applyE2mResponse(tx, id, file, user)
+    );
+    // Read after the audit so the SOF events it recorded are included
+    const shipment = await tx.shipment.findUniqueOrThrow({
+      where: { id },
+      include: shipmentInclude
+    });
+    return { shipment, pending };
+  });
+
+  revalidatePath('/admin/services/import');
+  revalidatePath(`/admin/services/import/${id}`);
+  return { shipment: toShipmentData(shipment), lodgement: await getE2mLodgement(id), pending };
+}
+
+export async function getE2mLodgementAction(id: string): Promise<ActionResult<E2mLodgementData>> {
+  try {
+    await authorizeLodgement('view', id);
+    return { success: true, data: await getE2mLodgement(id) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching E2M lodgement:', error);
+    return { success: false, error: 'Failed to fetch E2M lodgement' };
+  }
+}
+
+/**
+ * Produces the declaration file to lodge in E2M and logs the export. The
+ * declaration must pass SAD validation first; customs would reject it anyway.
+ */
+export async function exportE2mLodgementAction(
+  id: string,
+  format: E2mFormat
+): Promise<ActionResult<{ file: E2mExportFile; lodgement: E2mLodgementData }>> {
+  try {
+    const { user } = await authorizeLodgement('edit', id);
+    if (!E2M_FORMATS.includes(format)) {
+      return { success: false, error: `Unknown E2M format: ${format}` };
+    }
+
+    const declaration = await loadDeclaration(id);
+    const issues = validateSadDeclaration(declaration);
+    if (issues.length) {
+      return {
+        success: false,
+        error: `The declaration is incomplete: ${issues.map(issue => `Box ${issue.box}: ${issue.message}`).join('; ')}`
+      };
+    }
+
+    const file = toE2mExportFile(declaration, format);
+    await prisma.$transaction(tx =>
+      auditShipmentChange(tx, id, { action: 'shipment.e2m_export', actor: user }, () =>
+        recordE2mExport(tx, id, file, format, user)
+      )
+    );
+
+    revalidatePath(`/admin/services/import/${id}`);
+    return { success: true, data: { file, lodgement: await getE2mLodgement(id) } };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof E2mLodgementError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error exporting E2M lodgement:', error);
+    return { success: false, error: 'Failed to export E2M lodgement' };
+  }
+}
+
+// Imports a response file downloaded from E2M and moves the shipment on accordingly
+export async function importE2mResponseAction(
+  id: string,
+  file: { fileName: string; content: string }
+): Promise<ActionResult<E2mResponseResult & { shipment: ShipmentData }>> {
+  try {
+    const { user } = await authorizeLodgement('edit', id);
+    if (!file.content?.trim()) {
+      return { success: false, error: 'The response file is empty' };
+    }
+    if (file.content.length > MAX_RESPONSE_SIZE) {
+      return { success: false, error: 'The file is too large to be an E2M response' };
+    }
+
+    return { success: true, data: await importResponse(id, file, user) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof E2mFormatError || error instanceof E2mLodgementError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error importing E2M response:', error);
+    return { success: false, error: 'Failed to import E2M response' };
+  }
+}
+
+/**
+ * Has the local stand-in issue the next response for the lodgement and
+ * imports it exactly as an uploaded file would be.
+ */
+export async function simulateE2mResponseAction(
+  id: string,
+  format: E2mFormat = 'XML'
+): Promise<ActionResult<E2mResponseResult & { shipment: ShipmentData }>> {
+  try {
+    const { user } = await authorizeLodgement('edit', id);
+    if (!isE2mSimulatorEnabled()) {
+      return { success: false, error: 'The E2M simulator is not enabled' };
+    }
+
+    const lodgement = await getE2mLodgement(id);
+    const type = getNextE2mResponseType(
+      lodgement.messages.filter(message => message.direction === 'INBOUND').map(message => message.type)
+    );
+    if (!type) {
+      return { success: false, error: 'The shipment has already been released' };
+    }
+
+    const file = simulateE2mResponse(await loadDeclaration(id), type, lodgement.entryNumber, format);
+    return { success: true, data: await importResponse(id, file, user) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof E2mFormatError || error instanceof E2mLodgementError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error simulating E2M response:', error);
+    return { success: false, error: 'Failed to simulate E2M response' };
+  }
+}
@@ -0,0 +1,63 @@
+// app/actions/exchange-rate.ts
+'use server';
+
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { revalidatePath } from 'next/cache';
+import { findRatesInForce, importExchangeRates, listExchangeRates } from '@/lib/customs/exchange-rate';
+import { isSpreadsheetFile } from '@/lib/utils/spreadsheet';
+import type { AuthorizationFailure } from '@/types/auth';
+import type { ExchangeRateEntry, ExchangeRateImportSummary } from '@/types/exchange-rate';
+
+export async function getExchangeRatesAction(): Promise<ExchangeRateEntry[]> {
+  try {
+    await authorize('view');
+    return await listExchangeRates();
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    return [];
+  }
+}
+
+// Rates in force on `date` (ISO string), keyed by currency
+export async function getRatesInForceAction(
+  currencies: string[],
+  date: string
+): Promise<Record<string, ExchangeRateEntry>> {
+  try {
+    await authorize('view');
+
+    const asOf = new Date(date);
+    if (isNaN(asOf.getTime())) return {};
+
+    return await findRatesInForce(currencies, asOf);
+  } catch (error) {
+    console.error('Error fetching exchange rates in force:', error);
+    return {};
+  }
+}
+
+export async function importExchangeRatesAction(
+  formData: FormData
+): Promise<{ success: true; data: ExchangeRateImportSummary } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    // Reference data is shared by everyone, so only an "All" edit grant may replace it
+    await authorize('edit', { type: 'shared' });
+
+    const file = formData.get('file');
+    if (!(file instanceof File) || !isSpreadsheetFile(file.name)) {
+      throw new Error('Please upload a CSV or XLSX exchange-rate file');
+    }
+
+    const summary = await importExchangeRates(await file.arrayBuffer(), file.name);
+
+    revalidatePath('/admin/exchange-rates');
+    return { success: true, data: summary };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error importing exchange rates:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import exchange rates'
+    };
+  }
+}
@@ -0,0 +1,293 @@
+// app/actions/export.ts
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { revalidatePath } from 'next/cache';
+import type { Prisma } from '@prisma/client';
+
+import { createDocumentSlots, shipmentInclude, syncShipmentRelations, toExportShipmentData } from '@/lib/db/shipment';
+import { issueReferenceNumber, attachReferenceNumber } from '@/lib/db/reference-number';
+import { openShipmentTimeline, transitionShipment, WorkflowTransitionError } from '@/lib/db/workflow';
+import { EXPORT_REQUIRED_DOCUMENTS } from '@/lib/constants/export-workflow-states';
+import { organizationWhere, ownedBy, type RecordOwner } from '@/lib/db/organization';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+
+import type {
+  ExportBuyer,
+  ExportShipmentData,
+  ExportShipmentListItem,
+  ExportShipper,
+  NewExportInput
+} from '@/types/export';
+import type { AuthorizationFailure } from '@/types/auth';
+
+type Tx = Prisma.TransactionClient;
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// The Philippine shipper is kept as a Consignee record in the shipment's organization
+async function resolveShipper(tx: Tx, shipper: ExportShipper, owner: RecordOwner) {
+  const { organizationId } = owner;
+  if (shipper.id) {
+    const existing = await tx.consignee.findFirst({ where: { id: shipper.id, organizationId } });
+    if (existing) return existing.id;
+  }
+
+  if (!shipper.tin) {
+    throw new Error('Shipper TIN is required');
+  }
+
+  const existing = await tx.consignee.findFirst({ where: { tin: shipper.tin, organizationId } });
+  if (existing) return existing.id;
+
+  const created = await tx.consignee.create({
+    data: {
+      name: shipper.name,
+      registeredName: shipper.name,
+      businessAddress: shipper.address,
+      tin: shipper.tin,
+      brn: shipper.brn || '',
+      contactPerson: shipper.contactPerson || '',
+      contactNumber: shipper.contactNumber || '',
+      email: shipper.email || '',
+      ...owner
+    }
+  });
+  return created.id;
+}
+
+// The overseas buyer is kept as an Exporter record in the shipment's organization
+async function resolveBuyer(tx: Tx, buyer: ExportBuyer, owner: RecordOwner) {
+  const { organizationId } = owner;
+  if (buyer.id) {
+    const existing = await tx.exporter.findFirst({ where: { id: buyer.id, organizationId } });
+    if (existing) return existing.id;
+  }
+
+  const existing = await tx.exporter.findFirst({
+    where: { name: buyer.name, businessAddress: buyer.address, organizationId }
+  });
+  if (existing) return existing.id;
+
+  const created = await tx.exporter.create({
+    data: {
+      name: buyer.name,
+      businessAddress: buyer.address,
+      contactPerson: buyer.contactPerson || '',
+      contactNumber: buyer.contactNumber || '',
+      email: buyer.email || '',
+      ...owner
+    }
+  });
+  return created.id;
+}
+
+export async function createExportShipmentAction(
+  input: NewExportInput
+): Promise<ActionResult<{ id: string; referenceNumber: string }>> {
+  try {
+    const { user, scope } = await authorize('create');
+
+    if (!input.shipper?.name || !input.buyer?.name) {
+      return { success: false, error: 'Shipper and buyer are required' };
+    }
+
+    const owner = ownedBy(scope);
+
+    const shipment = await prisma.$transaction(async (tx) => {
+      const consigneeId = await resolveShipper(tx, input.shipper, owner);
+      const exporterId = await resolveBuyer(tx, input.buyer, owner);
+
+      const { referenceNumber } = await issueReferenceNumber(tx, 'EXP', {
+        issuedById: user.id
+      });
+
+      const created = await tx.shipment.create({
+        data: {
+          referenceNumber,
+          freightType: 'EXP',
+          status: 'SHIPPER_DETAILS',
+          consigneeId,
+          exporterId,
+          ...owner,
+          consigneeData: JSON.stringify(input.shipper),
+          exporterData: JSON.stringify(input.buyer),
+          shipmentDetails: JSON.stringify(input.shipmentDetails)
+        }
+      });
+
+      await attachReferenceNumber(tx, referenceNumber, 'Shipment', created.id);
+
+      await createDocumentSlots(tx, created.id, EXPORT_REQUIRED_DOCUMENTS);
+      await syncShipmentRelations(tx, created.id, { cargo: input.cargo || [] });
+      await openShipmentTimeline(tx, created.id, 'SHIPPER_DETAILS', {
+        actor: user,
+        description: 'Export shipment created'
+      });
+
+      return created;
+    });
+
+    revalidatePath('/admin/services/export');
+    return {
+      success: true,
+      data: { id: shipment.id, referenceNumber: shipment.referenceNumber }
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error creating export shipment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create export shipment'
+    };
+  }
+}
+
+export async function getExportShipmentsAction(): Promise<ActionResult<ExportShipmentListItem[]>> {
+  try {
+    const { scope } = await authorize('view');
+
+    const shipments = await prisma.shipment.findMany({
+      where: {
+        ...organizationWhere(scope),
+        freightType: 'EXP'
+      },
+      include: {
+        consignee: true,
+        exporter: true
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return {
+      success: true,
+      data: shipments.map(shipment => {
+        const details = JSON.parse(shipment.shipmentDetails);
+        return {
+          id: shipment.id,
+          referenceNumber: shipment.referenceNumber,
+          shipper: shipment.consignee?.name || JSON.parse(shipment.consigneeData).name || 'N/A',
+          buyer: shipment.exporter?.name || JSON.parse(shipment.exporterData).name || 'N/A',
+          mode: details.mode === 'air' ? 'air' : 'sea',
+          portOfDestination: details.port_of_destination || '',
+          etd: details.etd || null,
+          status: shipment.status,
+          completionDate: shipment.completionDate?.toISOString() || null,
+          lastUpdate: shipment.updatedAt.toISOString(),
+          userId: shipment.userId,
+          isLocked: shipment.isLocked
+        };
+      })
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching export shipments:', error);
+    return { success: false, error: 'Failed to fetch export shipments' };
+  }
+}
+
+export async function getExportShipmentByIdAction(id: string): Promise<ExportShipmentData | null> {
+  try {
+    await authorize('view', { type: 'shipment', id });
+
+    const shipment = await prisma.shipment.findUnique({
+      where: {
+        id,
+        freightType: 'EXP'
+      },
+      include: shipmentInclude
+    });
+
+    return shipment ? toExportShipmentData(shipment) : null;
+  } catch (error) {
+    console.error('Error fetching export shipment:', error);
+    return null;
+  }
+}
+
+export async function updateExportShipmentAction(
+  id: string,
+  updates: Partial<Pick<ExportShipmentData, 'shipper' | 'buyer' | 'shipmentDetails' | 'cargo' | 'notes'>>
+): Promise<ActionResult<ExportShipmentData>> {
+  try {
+    const { user } = await authorize('edit', { type: 'shipment', id });
+
+    const current = await prisma.shipment.findUnique({
+      where: { id, freightType: 'EXP' }
+    });
+    if (!current) {
+      return { success: false, error: 'Shipment not found' };
+    }
+
+    // Shippers and buyers picked during edits belong with the shipment, not the editor's home organization
+    const owner: RecordOwner = {
+      userId: user.id,
+      organizationId: current.organizationId,
+      assigneeId: user.id
+    };
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await syncShipmentRelations(tx, id, {
+        cargo: updates.cargo,
+        notes: updates.notes
+      });
+
+      return tx.shipment.update({
+        where: { id },
+        data: {
+          consigneeId: updates.shipper ? await resolveShipper(tx, updates.shipper, owner) : undefined,
+          consigneeData: updates.shipper ? JSON.stringify(updates.shipper) : undefined,
+          exporterId: updates.buyer ? await resolveBuyer(tx, updates.buyer, owner) : undefined,
+          exporterData: updates.buyer ? JSON.stringify(updates.buyer) : undefined,
+          shipmentDetails: updates.shipmentDetails ? JSON.stringify(updates.shipmentDetails) : undefined,
+          updatedAt: new Date()
+        },
+        include: shipmentInclude
+      });
+    });
+
+    revalidatePath(`/admin/services/export/${id}`);
+    return { success: true, data: toExportShipmentData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error updating export shipment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update export shipment'
+    };
+  }
+}
+
+// Stage changes go through the same transition engine as imports
+export async function updateExportStatusAction(
+  id: string,
+  status: string,
+  options: { reason?: string } = {}
+): Promise<ActionResult<ExportShipmentData>> {
+  try {
+    const { user } = await authorize('edit', { type: 'shipment', id });
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id, freightType: 'EXP' }
+    });
+    if (!shipment) {
+      return { success: false, error: 'Shipment not found' };
+    }
+
+    const updated = await prisma.$transaction(tx =>
+      transitionShipment(tx, id, status, { actor: user, reason: options.reason })
+    );
+
+    revalidatePath(`/admin/services/export/${id}`);
+    return { success: true, data: toExportShipmentData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof WorkflowTransitionError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error updating export status:', error);
+    return { success: false, error: 'Failed to update export status' };
+  }
+}
@@ -1,33 +1,78 @@
 // app/actions/import.ts
 'use server';
 
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import { prisma } from '@/lib/prisma';
-import { validateSession } from '@/lib/auth';
 import { revalidatePath } from 'next/cache';
 
+import { computeLandedCost, LandedCostError, type LandedCostInput } from '@/lib/customs/landed-cost';
+import { getArrivalDate, getCargoCurrency, getShipmentCurrency } from '@/lib/customs/currency';
+import { resolveExchangeRates, ExchangeRateError } from '@/lib/customs/exchange-rate';
+import {
+  shipmentInclude,
+  toShipmentData,
+  toCargoItem,
+  createDocumentSlots,
+  saveComputation,
+  syncShipmentRelations,
+  type ShipmentRelationUpdates,
+  importShipmentsWhere,
+  toSadDeclaration
+} from '@/lib/db/shipment';
+import { issueReferenceNumber, attachReferenceNumber } from '@/lib/db/reference-number';
+import { storeUpload, getFileUrl, UploadError } from '@/lib/storage/upload';
+import {
+  closeShipmentFile,
+  openShipmentTimeline,
+  transitionShipment,
+  unlockShipmentFile,
+  WorkflowTransitionError
+} from '@/lib/db/workflow';
+import {
+  getHomeOrganizationId,
+  organizationWhere,
+  ownedBy,
+  OrganizationAccessError
+} from '@/lib/db/organization';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { auditShipmentChange, loadShipmentAuditSnapshot, recordAuditEvent } from '@/lib/db/audit';
+import { activeClientWhere } from '@/lib/db/clients';
+import { listSofEvents } from '@/lib/db/sof';
+import { toClientAuditSnapshot } from '@/lib/utils/audit';
+import { getBlNumbers, validateContainers } from '@/lib/utils/container';
+import { AUDIT_ENTITY_TYPES } from '@/types/audit';
+import { validateSadDeclaration } from '@/lib/customs/sad';
+
 import type { 
   ShipmentData, 
-  DocumentStatus 
+  DocumentStatus,
+  CargoItem,
+  ComputationDetails,
+  ShipmentDetails,
+  StatementOfFactEvent
 } from '@/types/import/workflow';
 import type { ImportTransactionType } from '@/lib/utils/reference-number';
 import type { ShipmentListItem } from '@/types/import';
-import type { User } from '@/types/auth';
-
-// Helper function to get the current user or throw if unauthorized
-async function getCurrentUser(): Promise<User> {
-  const session = await validateSession();
-  if (!session?.user) {
-    throw new Error('Unauthorized');
-  }
-  return session.user;
-}
+import type { AuthorizationFailure } from '@/types/auth';
+import type { SadDeclarationResult } from '@/types/sad';
 
 export async function createShipmentAction(data: {
   shipmentType: ImportTransactionType;
   formData: Partial<ShipmentData>;
 }) {
   try {
-    const user = await getCurrentUser();
+    const { user, scope } = await authorize('create');
+    // The shipment and any consignee or exporter it creates share one organization
+    const organizationId = getHomeOrganizationId(scope);
+
+    const containerIssues = validateContainers(data.formData.containers || [], {
+      blNumbers: getBlNumbers(data.formData.shipmentDetails || { bl_number: '' }),
+      cargoIds: (data.formData.cargo || []).map(item => item.id)
+    });
+    if (containerIssues.length) {
+      return { success: false as const, error: containerIssues.join('; ') };
+    }
 
     return await prisma.$transaction(async (tx) => {
       let consigneeId: string | null = null;
@@ -42,7 +87,7 @@ export async function createShipmentAction(data: {
               { tin: data.formData.consignee.tin },
               { name: data.formData.consignee.name }
             ],
-            userId: user.id
+            organizationId
           }
         });
 
@@ -59,9 +104,16 @@ export async function createShipmentAction(data: {
               contactPerson: data.formData.shipmentDetails?.contact_person || '',
               contactNumber: data.formData.shipmentDetails?.contact_number || '',
               email: '',
-              userId: user.id
+              ...ownedBy(scope)
             }
           });
+          await recordAuditEvent(tx, {
+            entityType: AUDIT_ENTITY_TYPES.CONSIGNEE,
+            entityId: newConsignee.id,
+            action: 'consignee.create',
+            actor: user,
+            after: toClientAuditSnapshot(newConsignee)
+          });
           consigneeId = newConsignee.id;
         }
       }}
@@ -74,7 +126,7 @@ export async function createShipmentAction(data: {
               { name: data.formData.exporter.name },
               { businessAddress: data.formData.exporter.address }
             ],
-            userId: user.id
+            organizationId
           }
         });
 
@@ -88,35 +140,58 @@ export async function createShipmentAction(data: {
               contactPerson: '',
               contactNumber: '',
               email: '',
-              userId: user.id
+              ...ownedBy(scope)
             }
           });
+          await recordAuditEvent(tx, {
+            entityType: AUDIT_ENTITY_TYPES.EXPORTER,
+            entityId: newExporter.id,
+            action: 'exporter.create',
+            actor: user,
+            after: toClientAuditSnapshot(newExporter)
+          });
           exporterId = newExporter.id;
         }
       }
 
+      const { referenceNumber } = await issueReferenceNumber(tx, data.shipmentType, {
+        issuedById: user.id
+      });
+
       const shipment = await tx.shipment.create({
         data: {
-          referenceNumber: `CLEX-${data.shipmentType}${new Date().getFullYear().toString().slice(-2)}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`,
+          referenceNumber,
           freightType: data.shipmentType,
           status: 'CLIENT_DETAILS',
           consigneeId,
           exporterId,
-          userId: user.id,
+          ...ownedBy(scope),
           consigneeData: JSON.stringify(data.formData.consignee || {}),
           exporterData: JSON.stringify(data.formData.exporter || {}),
-          shipmentDetails: JSON.stringify(data.formData.shipmentDetails || {}),
-          documentsData: JSON.stringify(data.formData.documents || []),
-          timelineData: JSON.stringify([{
-            status: 'CLIENT_DETAILS',
-            timestamp: new Date(),
-            description: 'Shipment created'
-          }]),
-          notesData: JSON.stringify([]),
-          computations: JSON.stringify({})
+          shipmentDetails: JSON.stringify(data.formData.shipmentDetails || {})
         }
       });
 
+      await attachReferenceNumber(tx, referenceNumber, 'Shipment', shipment.id);
+
+      await createDocumentSlots(tx, shipment.id, data.formData.documents || []);
+      await syncShipmentRelations(tx, shipment.id, {
+        cargo: data.formData.cargo || [],
+        containers: data.formData.containers || []
+      });
+      await openShipmentTimeline(tx, shipment.id, 'CLIENT_DETAILS', {
+        actor: user,
+        description: 'Shipment created'
+      });
+
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.SHIPMENT,
+        entityId: shipment.id,
+        action: 'shipment.create',
+        actor: user,
+        after: await loadShipmentAuditSnapshot(tx, shipment.id)
+      });
+
       return {
         success: true,
         referenceNumber: shipment.referenceNumber,
@@ -124,6 +199,7 @@ export async function createShipmentAction(data: {
       };
     });
   } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
     console.error('Error in shipment creation:', error);
     throw new Error('Failed to create shipment');
   }
@@ -131,13 +207,11 @@ export async function createShipmentAction(data: {
 
 export async function getSavedEntitiesAction(type: 'consignee' | 'exporter') {
   try {
-    const user = await getCurrentUser();
+    const { scope } = await authorize('view');
 
     if (type === 'consignee') {
       const consignees = await prisma.consignee.findMany({
-        where: {
-          userId: user.id
-        },
+        where: { ...organizationWhere(scope), ...activeClientWhere },
         select: {
           id: true,
           name: true,
@@ -165,9 +239,7 @@ export async function getSavedEntitiesAction(type: 'consignee' | 'exporter') {
       }));
     } else {
       const exporters = await prisma.exporter.findMany({
-        where: {
-          userId: user.id
-        },
+        where: { ...organizationWhere(scope), ...activeClientWhere },
         select: {
           id: true,
           name: true,
@@ -199,67 +271,64 @@ export async function getSavedEntitiesAction(type: 'consignee' | 'exporter') {
 export async function processDocumentUploadAction(
   shipmentId: string,
   documentType: string,
-  file: File
-): Promise<{ success: boolean; fileUrl: string; status: DocumentStatus }> {
+  file: File,
+  status: Extract<DocumentStatus, 'draft' | 'final'> = 'draft'
+): Promise<{ success: boolean; fileUrl: string; status: DocumentStatus; statementOfFacts: StatementOfFactEvent[] }> {
   try {
-    const user = await getCurrentUser();
-
-    // Get current shipment and verify ownership
-    const shipment = await prisma.shipment.findUnique({
-      where: { 
-        id: shipmentId,
-        userId: user.id
-      }
-    });
-
-    if (!shipment) {
-      throw new Error('Shipment not found or unauthorized');
-    }
+    const { user } = await authorize('edit', { type: 'shipment', id: shipmentId });
 
-    // Simulate file upload delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    const timestamp = new Date().getTime();
-    const simulatedUrl = `/simulated-uploads/${shipmentId}/${documentType}-${timestamp}-${file.name}`;
-
-    // Parse and update documents
-    const documents = JSON.parse(shipment.documentsData);
-    const updatedDocuments = documents.map((doc: any) => {
-      if (doc.name === documentType) {
-        return {
-          ...doc,
-          status: 'draft' as DocumentStatus,
-          files: [...(doc.files || []), simulatedUrl]
-        };
-      }
-      return doc;
-    });
-
-    await prisma.shipment.update({
-      where: { id: shipmentId },
-      data: {
-        documentsData: JSON.stringify(updatedDocuments)
-      }
-    });
+    const stored = await storeUpload(
+      {
+        stream: Readable.fromWeb(file.stream() as WebReadableStream),
+        fileName: file.name,
+        contentType: file.type
+      },
+      { shipmentId, documentName: documentType },
+      user.id
+    );
+    const fileUrl = getFileUrl(stored.id);
+
+    // Only this document's row changes, so concurrent uploads don't clobber each other
+    await prisma.$transaction(tx =>
+      auditShipmentChange(tx, shipmentId, { action: 'shipment.document_upload', actor: user }, () =>
+        tx.shipmentDocument.upsert({
+          where: { shipmentId_name: { shipmentId, name: documentType } },
+          update: {
+            status,
+            files: { push: fileUrl }
+          },
+          create: {
+            shipmentId,
+            name: documentType,
+            status,
+            files: [fileUrl]
+          }
+        })
+      )
+    );
 
     return {
       success: true,
-      fileUrl: simulatedUrl,
-      status: 'draft' as DocumentStatus
+      fileUrl,
+      status,
+      // Including the event the upload recorded
+      statementOfFacts: await listSofEvents(shipmentId)
     };
   } catch (error) {
     console.error('Error processing document upload:', error);
+    if (error instanceof UploadError || error instanceof AuthorizationError) {
+      throw error;
+    }
     throw new Error('Failed to process document upload');
   }
 }
 
 export async function getShipmentsAction(): Promise<{ success: boolean; data: ShipmentListItem[] }> {
   try {
-    const user = await getCurrentUser();
+    const { scope } = await authorize('view');
 
     const shipments = await prisma.shipment.findMany({
-      where: {
-        userId: user.id
-      },
+      where: importShipmentsWhere(scope),
       include: {
         consignee: true,
         exporter: true
@@ -277,6 +346,7 @@ export async function getShipmentsAction(): Promise<{ success: boolean; data: Sh
         id: shipment.id,
         referenceNumber: shipment.referenceNumber,
         consignee: shipment.consignee?.name || JSON.parse(shipment.consigneeData).name || 'N/A',
+        userId: shipment.userId,
         type: shipmentType,
         blNumber: shipmentType === 'sea' ? shipmentDetails.bl_number || undefined : undefined,
         awbNumber: shipmentType === 'air' ? shipmentDetails.awb_number || undefined : undefined,
@@ -303,128 +373,173 @@ export async function getShipmentsAction(): Promise<{ success: boolean; data: Sh
 
 export async function getShipmentByIdAction(id: string): Promise<ShipmentData | null> {
   try {
-    const user = await getCurrentUser();
+    await authorize('view', { type: 'shipment', id });
 
     const shipment = await prisma.shipment.findUnique({
-      where: { 
-        id,
-        userId: user.id
-      },
-      include: {
-        consignee: {
-          include: {
-            documents: true
-          }
-        },
-        exporter: true
-      }
+      where: { id },
+      include: shipmentInclude
     });
 
     if (!shipment) return null;
 
-    // Combine database relations with JSON data for backward compatibility
-    const consigneeData = shipment.consignee 
-      ? {
-          id: shipment.consignee.id,
-          name: shipment.consignee.name,
-          address: shipment.consignee.businessAddress,
-          tin: shipment.consignee.tin,
-          brn: shipment.consignee.brn,
-          contactPerson: shipment.consignee.contactPerson,
-          contactNumber: shipment.consignee.contactNumber,
-          email: shipment.consignee.email,
-          documents: shipment.consignee.documents
-        }
-      : JSON.parse(shipment.consigneeData);
-
-    const exporterData = shipment.exporter
-      ? {
-          id: shipment.exporter.id,
-          name: shipment.exporter.name,
-          address: shipment.exporter.businessAddress,
-          contactPerson: shipment.exporter.contactPerson,
-          contactNumber: shipment.exporter.contactNumber,
-          email: shipment.exporter.email
-        }
-      : JSON.parse(shipment.exporterData);
-
-    return {
-      id: shipment.id,
-      referenceNumber: shipment.referenceNumber,
-      status: shipment.status,
-      consignee: consigneeData,
-      exporter: exporterData,
-      shipmentDetails: JSON.parse(shipment.shipmentDetails),
-      documents: JSON.parse(shipment.documentsData),
-      timeline: JSON.parse(shipment.timelineData),
-      notes: JSON.parse(shipment.notesData),
-      computations: shipment.computations ? JSON.parse(shipment.computations) : null,
-      cargo: shipment.cargoData ? JSON.parse(shipment.cargoData) : [],
-      statementOfFacts: shipment.statementOfFactsData 
-        ? JSON.parse(shipment.statementOfFactsData) 
-        : []
-    };
+    return toShipmentData(shipment);
   } catch (error) {
     console.error('Error fetching shipment:', error);
     return null;
   }
 }
 
+/**
+ * Moves a shipment to another workflow stage. Guards and the rollback rules
+ * live in lib/utils/workflow.ts; anything they reject comes back as an error.
+ */
 export async function updateShipmentStatusAction(
   id: string,
   status: string,
-  timelineUpdate?: { stage: string; status: string; timestamp: string }
-) {
+  options: { reason?: string; partial?: boolean } = {}
+): Promise<{ success: true; data: ShipmentData } | { success: false; error: string } | AuthorizationFailure> {
   try {
-    const user = await getCurrentUser();
-
-    const shipment = await prisma.shipment.findUnique({
-      where: { 
-        id,
-        userId: user.id
-      }
+    const { user } = await authorize('edit', { type: 'shipment', id });
+
+    const updated = await prisma.$transaction(async tx => {
+      await auditShipmentChange(tx, id, { action: 'shipment.status', actor: user }, () =>
+        transitionShipment(tx, id, status, {
+          actor: user,
+          reason: options.reason,
+          partial: options.partial
+        })
+      );
+      // Read after the audit so the SOF event for the transition is included
+      return tx.shipment.findUniqueOrThrow({ where: { id }, include: shipmentInclude });
     });
 
-    if (!shipment) throw new Error('Shipment not found');
+    revalidatePath(`/admin/services/import/${id}`);
+    return { success: true, data: toShipmentData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof WorkflowTransitionError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error updating shipment status:', error);
+    return { success: false, error: 'Failed to update shipment status' };
+  }
+}
 
-    const timeline = JSON.parse(shipment.timelineData);
-    const updatedTimeline = timelineUpdate ? [...timeline, timelineUpdate] : timeline;
+/**
+ * Closes a delivered shipment's file under the acting user's sign-off and
+ * locks it; from then on every update action refuses changes.
+ */
+export async function closeShipmentFileAction(
+  id: string,
+  remarks?: string
+): Promise<{ success: true; data: ShipmentData } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    const { user } = await authorize('lock', { type: 'shipment', id });
 
-    await prisma.shipment.update({
+    const updated = await prisma.$transaction(tx =>
+      auditShipmentChange(tx, id, { action: 'shipment.close', actor: user }, () =>
+        closeShipmentFile(tx, id, { actor: user, reason: remarks })
+      )
+    );
+
+    revalidatePath('/admin/services/import');
+    revalidatePath(`/admin/services/import/${id}`);
+    return { success: true, data: toShipmentData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof WorkflowTransitionError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error closing shipment file:', error);
+    return { success: false, error: 'Failed to close shipment file' };
+  }
+}
+
+// Reopening a closed file is kept to SUPERADMIN, and the reason is logged
+export async function unlockShipmentAction(
+  id: string,
+  reason: string
+): Promise<{ success: true; data: ShipmentData } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    const { user } = await authorize('unlock', { type: 'shipment', id });
+
+    const updated = await prisma.$transaction(tx =>
+      auditShipmentChange(tx, id, { action: 'shipment.unlock', actor: user }, () =>
+        unlockShipmentFile(tx, id, { actor: user, reason })
+      )
+    );
+
+    revalidatePath('/admin/services/import');
+    revalidatePath(`/admin/services/import/${id}`);
+    return { success: true, data: toShipmentData(updated) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof WorkflowTransitionError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error unlocking shipment:', error);
+    return { success: false, error: 'Failed to unlock shipment' };
+  }
+}
+
+/**
+ * The Import Entry Declaration as it would be lodged today, with every box
+ * still missing. Nothing is stored: the SAD is rebuilt from the shipment on
+ * each request so it never drifts from the file.
+ */
+export async function getSadDeclarationAction(
+  id: string
+): Promise<{ success: true; data: SadDeclarationResult } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    await authorize('view', { type: 'shipment', id });
+
+    const shipment = await prisma.shipment.findUnique({
       where: { id },
-      data: {
-        status,
-        timelineData: JSON.stringify(updatedTimeline),
-        updatedAt: new Date()
-      }
+      include: shipmentInclude
     });
+    if (!shipment) {
+      return { success: false, error: 'Shipment not found' };
+    }
+    const declaration = toSadDeclaration(shipment);
+    if (!declaration) {
+      return { success: false, error: 'An import entry can only be generated for import shipments' };
+    }
 
-    revalidatePath(`/admin/services/import/${id}`);
-    return true;
+    return { success: true, data: { declaration, issues: validateSadDeclaration(declaration) } };
   } catch (error) {
-    console.error('Error updating shipment status:', error);
-    return false;
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error generating SAD:', error);
+    return { success: false, error: 'Failed to generate SAD' };
   }
 }
 
 export async function updateShipmentDetailsAction(
   id: string,
-  updates: Partial<ShipmentData>
-): Promise<{ success: true; data: ShipmentData } | { success: false; error: string }> {
+  updates: Partial<Pick<ShipmentData, 'consignee' | 'exporter' | 'shipmentDetails'>> & ShipmentRelationUpdates
+): Promise<{ success: true; data: ShipmentData } | { success: false; error: string } | AuthorizationFailure> {
   try {
-    const user = await getCurrentUser();
+    const { user } = await authorize('edit', { type: 'shipment', id });
 
     const currentShipment = await prisma.shipment.findUnique({
-      where: { 
-        id,
-        userId: user.id
-      }
+      where: { id }
     });
 
     if (!currentShipment) {
       throw new Error('Shipment not found');
     }
 
+    // Containers are checked against the BLs and cargo lines they will sit beside once saved
+    if (updates.containers) {
+      const details: ShipmentDetails = updates.shipmentDetails ?? JSON.parse(currentShipment.shipmentDetails);
+      const cargoIds = updates.cargo
+        ? updates.cargo.map(item => item.id)
+        : (await prisma.cargoLine.findMany({ where: { shipmentId: id }, select: { id: true } })).map(line => line.id);
+      const issues = validateContainers(updates.containers, { blNumbers: getBlNumbers(details), cargoIds });
+      if (issues.length) {
+        return { success: false, error: issues.join('; ') };
+      }
+    }
+
     // Prepare update data
     const updateData: any = {};
 
@@ -432,8 +547,8 @@ export async function updateShipmentDetailsAction(
     if (updates.consignee) {
       let consigneeId = currentShipment.consigneeId;
       if (updates.consignee.id) {
-        const consignee = await prisma.consignee.findUnique({
-          where: { id: updates.consignee.id }
+        const consignee = await prisma.consignee.findFirst({
+          where: { id: updates.consignee.id, organizationId: currentShipment.organizationId }
         });
         if (consignee) {
           consigneeId = consignee.id;
@@ -447,8 +562,8 @@ export async function updateShipmentDetailsAction(
     if (updates.exporter) {
       let exporterId = currentShipment.exporterId;
       if (updates.exporter.id) {
-        const exporter = await prisma.exporter.findUnique({
-          where: { id: updates.exporter.id }
+        const exporter = await prisma.exporter.findFirst({
+          where: { id: updates.exporter.id, organizationId: currentShipment.organizationId }
         });
         if (exporter) {
           exporterId = exporter.id;
@@ -462,83 +577,30 @@ export async function updateShipmentDetailsAction(
     if (updates.shipmentDetails) {
       updateData.shipmentDetails = JSON.stringify(updates.shipmentDetails);
     }
-    if (updates.documents) {
-      updateData.documentsData = JSON.stringify(updates.documents);
-    }
-    if (updates.timeline) {
-      updateData.timelineData = JSON.stringify(updates.timeline);
-    }
-    if (updates.notes) {
-      updateData.notesData = JSON.stringify(updates.notes);
-    }
-    if (updates.cargo) {
-      updateData.cargoData = JSON.stringify(updates.cargo);
-    }
-    if (updates.statementOfFacts) {
-      updateData.statementOfFactsData = JSON.stringify(updates.statementOfFacts);
-    }
 
-    // Update the shipment
-    const updated = await prisma.shipment.update({
-      where: { id },
-      data: {
-        ...updateData,
-        updatedAt: new Date(),
-      },
-      include: {
-        consignee: {
-          include: {
-            documents: true
+    const updated = await prisma.$transaction(async tx => {
+      await auditShipmentChange(tx, id, { action: 'shipment.update', actor: user }, async () => {
+        // Named one by one so nothing else sent along is written: duty
+        // computations, timeline entries, document files and SOF events have their own actions
+        await syncShipmentRelations(tx, id, {
+          notes: updates.notes,
+          cargo: updates.cargo,
+          containers: updates.containers
+        });
+
+        await tx.shipment.update({
+          where: { id },
+          data: {
+            ...updateData,
+            updatedAt: new Date(),
           }
-        },
-        exporter: true
-      }
+        });
+      });
+      // Read after the audit so SOF events for schedule and document changes are included
+      return tx.shipment.findUniqueOrThrow({ where: { id }, include: shipmentInclude });
     });
 
-    // Parse and format the updated data
-    const parsedData: ShipmentData = {
-      id: updated.id,
-      referenceNumber: updated.referenceNumber,
-      status: updated.status,
-      consignee: updated.consignee 
-        ? {
-            id: updated.consignee.id,
-            name: updated.consignee.name,
-            address: updated.consignee.businessAddress,
-            tin: updated.consignee.tin,
-            brn: updated.consignee.brn,
-            contactPerson: updated.consignee.contactPerson,
-            contactNumber: updated.consignee.contactNumber,
-            email: updated.consignee.email,
-            documents: updated.consignee.documents.map(doc => ({
-              id: doc.id,
-              name: doc.name,
-              url: doc.fileUrl,
-              uploadedAt: doc.uploadedAt,
-              isVerified: doc.isVerified
-            }))
-          }
-        : JSON.parse(updated.consigneeData),
-      exporter: updated.exporter
-        ? {
-            id: updated.exporter.id,
-            name: updated.exporter.name,
-            address: updated.exporter.businessAddress,
-            contactPerson: updated.exporter.contactPerson,
-            contactNumber: updated.exporter.contactNumber,
-            email: updated.exporter.email
-          }
-        : JSON.parse(updated.exporterData),
-      shipmentDetails: JSON.parse(updated.shipmentDetails),
-      documents: JSON.parse(updated.documentsData),
-      timeline: JSON.parse(updated.timelineData),
-      notes: JSON.parse(updated.notesData),
-      computations: updated.computations ? JSON.parse(updated.computations) : null,
-      cargo: updated.cargoData ? JSON.parse(updated.cargoData) : [],
-      statementOfFacts: updated.statementOfFactsData 
-        ? JSON.parse(updated.statementOfFactsData) 
-        : []
-    };
+    const parsedData = toShipmentData(updated);
 
     revalidatePath(`/admin/services/import/${id}`);
     return {
@@ -546,6 +608,7 @@ export async function updateShipmentDetailsAction(
       data: parsedData
     };
   } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
     console.error('Error updating shipment:', error);
     return {
       success: false,
@@ -560,57 +623,61 @@ export async function linkClientToShipmentAction(
   type: 'consignee' | 'exporter'
 ) {
   try {
-    const user = await getCurrentUser();
+    const { user } = await authorize('edit', { type: 'shipment', id: shipmentId });
 
     const shipment = await prisma.shipment.findUnique({
-      where: { 
-        id: shipmentId,
-        userId: user.id
-      }
+      where: { id: shipmentId }
     });
 
     if (!shipment) {
       throw new Error('Shipment not found');
     }
 
-    // Check if client exists and belongs to user
+    // Check if client exists, is still active and belongs to the shipment's organization
     const clientExists = type === 'consignee'
       ? await prisma.consignee.findFirst({
           where: {
             id: clientId,
-            userId: user.id
+            organizationId: shipment.organizationId,
+            ...activeClientWhere
           }
         })
       : await prisma.exporter.findFirst({
           where: {
             id: clientId,
-            userId: user.id
+            organizationId: shipment.organizationId,
+            ...activeClientWhere
           }
         });
 
     if (!clientExists) {
-      throw new Error(`${type} not found or unauthorized`);
+      throw new Error(`${type} not found, inactive or unauthorized`);
     }
 
     // Update shipment with client link
-    const updated = await prisma.shipment.update({
-      where: { id: shipmentId },
-      data: type === 'consignee'
-        ? { consigneeId: clientId }
-        : { exporterId: clientId },
-      include: {
-        consignee: {
+    const updated = await prisma.$transaction(tx =>
+      auditShipmentChange(tx, shipmentId, { action: 'shipment.link_client', actor: user }, () =>
+        tx.shipment.update({
+          where: { id: shipmentId },
+          data: type === 'consignee'
+            ? { consigneeId: clientId }
+            : { exporterId: clientId },
           include: {
-            documents: true
+            consignee: {
+              include: {
+                documents: true
+              }
+            },
+            exporter: true
           }
-        },
-        exporter: true
-      }
-    });
+        })
+      )
+    );
 
     revalidatePath(`/admin/services/import/${shipmentId}`);
     return { success: true, shipment: updated };
   } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
     console.error('Error linking client to shipment:', error);
     return { 
       success: false, 
@@ -628,7 +695,7 @@ export async function createClientDuringShipmentAction(
   }
 ) {
   try {
-    const user = await getCurrentUser();
+    const { user, scope } = await authorize('create');
 
     if (data.type === 'consignee') {
       const consignee = await prisma.consignee.create({
@@ -641,9 +708,16 @@ export async function createClientDuringShipmentAction(
           contactPerson: data.contactPerson || '',
           contactNumber: data.contactNumber || '',
           email: data.email || '',
-          userId: user.id
+          ...ownedBy(scope)
         }
       });
+      await recordAuditEvent(prisma, {
+        entityType: AUDIT_ENTITY_TYPES.CONSIGNEE,
+        entityId: consignee.id,
+        action: 'consignee.create',
+        actor: user,
+        after: toClientAuditSnapshot(consignee)
+      });
       return { success: true, client: consignee };
     } else {
       const exporter = await prisma.exporter.create({
@@ -653,16 +727,146 @@ export async function createClientDuringShipmentAction(
           contactPerson: data.contactPerson || '',
           contactNumber: data.contactNumber || '',
           email: data.email || '',
-          userId: user.id
+          ...ownedBy(scope)
         }
       });
+      await recordAuditEvent(prisma, {
+        entityType: AUDIT_ENTITY_TYPES.EXPORTER,
+        entityId: exporter.id,
+        action: 'exporter.create',
+        actor: user,
+        after: toClientAuditSnapshot(exporter)
+      });
       return { success: true, client: exporter };
     }
   } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
     console.error('Error creating client:', error);
     return { 
       success: false, 
       error: error instanceof Error ? error.message : 'Failed to create client' 
     };
   }
-}
\ No newline at end of file
+}
+export async function computeShipmentDutiesAction(
+  id: string,
+  input: Omit<LandedCostInput, 'cargo' | 'termsOfDelivery' | 'currency' | 'exchangeRates'>
+): Promise<{ success: true; data: ComputationDetails } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    const { user } = await authorize('computeDuties', { type: 'shipment', id });
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id },
+      include: { cargoLines: { orderBy: { position: 'asc' } } }
+    });
+
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    const cargo: CargoItem[] = shipment.cargoLines.map(toCargoItem);
+    const shipmentDetails = JSON.parse(shipment.shipmentDetails);
+
+    const arrivalDate = getArrivalDate(shipmentDetails);
+    if (!arrivalDate) {
+      throw new ExchangeRateError('Set the ETA or ATA before computing so the exchange rate can be determined');
+    }
+
+    const currency = getShipmentCurrency(shipmentDetails);
+    const rates = await resolveExchangeRates(
+      [currency, ...cargo.map(item => getCargoCurrency(item, currency))],
+      arrivalDate
+    );
+
+    const computations: ComputationDetails = {
+      ...computeLandedCost({
+        ...input,
+        cargo,
+        currency,
+        exchangeRates: Object.fromEntries(
+          Object.entries(rates).map(([code, entry]) => [code, entry.rate])
+        ),
+        termsOfDelivery: shipmentDetails.terms_of_delivery
+      }),
+      rate_date: arrivalDate.toISOString(),
+      computed_at: new Date().toISOString(),
+      computed_by: {
+        id: user.id,
+        name: user.name
+      }
+    };
+
+    await prisma.$transaction(tx =>
+      auditShipmentChange(tx, id, { action: 'shipment.compute_duties', actor: user }, async () => {
+        await saveComputation(tx, id, computations);
+        await tx.shipment.update({
+          where: { id },
+          data: { updatedAt: new Date() }
+        });
+      })
+    );
+
+    revalidatePath(`/admin/services/import/${id}`);
+    return { success: true, data: computations };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (!(error instanceof LandedCostError || error instanceof ExchangeRateError)) {
+      console.error('Error computing duties:', error);
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compute duties'
+    };
+  }
+}
+
+/**
+ * Hands a shipment to another member of its organization. Unassigning is
+ * allowed; the creator stays on record either way.
+ */
+export async function assignShipmentAction(
+  id: string,
+  assigneeId: string | null
+): Promise<{ success: true } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    const { user } = await authorize('edit', { type: 'shipment', id });
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id }
+    });
+
+    if (!shipment) {
+      throw new OrganizationAccessError('Shipment not found');
+    }
+
+    if (assigneeId) {
+      const membership = await prisma.organizationMember.findUnique({
+        where: {
+          organizationId_userId: { organizationId: shipment.organizationId, userId: assigneeId }
+        }
+      });
+      if (!membership) {
+        throw new OrganizationAccessError('The assignee must be a member of the shipment\'s organization');
+      }
+    }
+
+    await prisma.$transaction(tx =>
+      auditShipmentChange(tx, id, { action: 'shipment.assign', actor: user }, () =>
+        tx.shipment.update({
+          where: { id },
+          data: { assigneeId }
+        })
+      )
+    );
+
+    revalidatePath(`/admin/services/import/${id}`);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OrganizationAccessError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error assigning shipment:', error);
+    return { success: false, error: 'Failed to assign shipment' };
+  }
+}
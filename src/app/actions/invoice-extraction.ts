@@ -0,0 +1,53 @@
+// app/actions/invoice-extraction.ts
+'use server';
+
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { MAX_UPLOAD_BYTES } from '@/lib/constants/storage';
+import { OcrError, recognizeDocument } from '@/lib/ocr';
+import { extractInvoice } from '@/lib/utils/invoice-extraction';
+import type { ExtractableDocumentType, InvoiceExtraction } from '@/types/invoice-extraction';
+import type { AuthorizationFailure } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+const EXTRACTABLE_TYPES: ExtractableDocumentType[] = ['commercial_invoice', 'packing_list'];
+
+/**
+ * Reads an invoice or packing list and proposes goods rows from it. Nothing
+ * is stored: the file is only read, and the rows come back for the user to
+ * accept or edit. With a `clearanceId` the caller must be able to edit that
+ * shipment; without one, to create shipments.
+ */
+export async function extractInvoiceAction(formData: FormData): Promise<ActionResult<InvoiceExtraction>> {
+  try {
+    const clearanceId = formData.get('clearanceId');
+    if (typeof clearanceId === 'string' && clearanceId) {
+      await authorize('edit', { type: 'shipment', id: clearanceId });
+    } else {
+      await authorize('create');
+    }
+
+    const documentType = formData.get('documentType') as ExtractableDocumentType;
+    if (!EXTRACTABLE_TYPES.includes(documentType)) {
+      return { success: false, error: 'Goods can only be read from commercial invoices and packing lists' };
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File) || !file.size) {
+      return { success: false, error: 'No file was uploaded' };
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return { success: false, error: `File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB limit` };
+    }
+
+    const { engine, lines } = await recognizeDocument(Buffer.from(await file.arrayBuffer()), file.type);
+    return { success: true, data: extractInvoice(lines, documentType, engine) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OcrError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error extracting invoice:', error);
+    return { success: false, error: 'Failed to read the document' };
+  }
+}
@@ -0,0 +1,311 @@
+// app/actions/organization.ts
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { revalidatePath } from 'next/cache';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { Prisma } from '@prisma/client';
+
+import {
+  canManageOrganization,
+  OrganizationAccessError,
+  type OrganizationScope
+} from '@/lib/db/organization';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import {
+  letterheadInclude,
+  LOGO_CONTENT_TYPES,
+  replaceLetterheadLogo,
+  saveLetterhead,
+  toLetterheadSettings
+} from '@/lib/db/documents';
+import { storeUpload, UploadError } from '@/lib/storage/upload';
+import type { LetterheadSettings } from '@/types/documents';
+import {
+  ORGANIZATION_ROLES,
+  type OrganizationData,
+  type OrganizationMemberData,
+  type OrganizationRole
+} from '@/types/organization';
+import { USER_ROLES, type AuthorizationFailure } from '@/types/auth';
+
+type Tx = Prisma.TransactionClient;
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+function assertCanManage(
+  scope: OrganizationScope,
+  organizationId: string,
+  message = 'Only owners and admins can manage members'
+) {
+  if (!canManageOrganization(scope, organizationId)) {
+    throw new OrganizationAccessError(message);
+  }
+}
+
+const isOrganizationRole = (role: string): role is OrganizationRole =>
+  Object.values(ORGANIZATION_ROLES).includes(role as OrganizationRole);
+
+// An organization must always keep someone who can manage it
+async function assertKeepsOwner(tx: Tx, organizationId: string, userId: string) {
+  const otherOwners = await tx.organizationMember.count({
+    where: { organizationId, role: ORGANIZATION_ROLES.OWNER, userId: { not: userId } }
+  });
+  if (otherOwners === 0) {
+    throw new OrganizationAccessError('An organization needs at least one owner');
+  }
+}
+
+/**
+ * A broker who signed up on their own starts with a one-person organization.
+ * When they join a firm and that organization is still empty, it is dropped
+ * so their new work lands in the firm instead.
+ */
+async function dropPlaceholderOrganization(tx: Tx, userId: string, joiningId: string) {
+  const memberships = await tx.organizationMember.findMany({
+    where: { userId, organizationId: { not: joiningId } },
+    include: {
+      organization: {
+        include: { _count: { select: { members: true, shipments: true, consignees: true, exporters: true } } }
+      }
+    }
+  });
+  if (memberships.length !== 1) return;
+
+  const { organization } = memberships[0];
+  const { members, shipments, consignees, exporters } = organization._count;
+  if (members === 1 && shipments + consignees + exporters === 0) {
+    await tx.organization.delete({ where: { id: organization.id } });
+  }
+}
+
+const toMemberData = (member: {
+  role: string;
+  createdAt: Date;
+  user: { id: string; name: string; email: string };
+}): OrganizationMemberData => ({
+  userId: member.user.id,
+  name: member.user.name,
+  email: member.user.email,
+  role: member.role as OrganizationRole,
+  joinedAt: member.createdAt.toISOString()
+});
+
+const memberInclude = { user: { select: { id: true, name: true, email: true } } } as const;
+
+export async function getOrganizationsAction(): Promise<ActionResult<OrganizationData[]>> {
+  try {
+    const { scope } = await authorize('view');
+
+    const organizations = await prisma.organization.findMany({
+      where: { id: { in: scope.memberships.map(m => m.organizationId) } },
+      include: {
+        ...letterheadInclude,
+        members: { include: memberInclude, orderBy: { createdAt: 'asc' } }
+      }
+    });
+
+    return {
+      success: true,
+      data: scope.memberships.flatMap(membership => {
+        const organization = organizations.find(o => o.id === membership.organizationId);
+        if (!organization) return [];
+        return [{
+          id: organization.id,
+          name: organization.name,
+          role: membership.role,
+          members: organization.members.map(toMemberData),
+          letterhead: toLetterheadSettings(organization)
+        }];
+      })
+    };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error fetching organizations:', error);
+    return { success: false, error: 'Failed to fetch organizations' };
+  }
+}
+
+export async function addOrganizationMemberAction(
+  organizationId: string,
+  email: string,
+  role: OrganizationRole = ORGANIZATION_ROLES.MEMBER
+): Promise<ActionResult<OrganizationMemberData>> {
+  try {
+    const { scope } = await authorize('edit');
+    assertCanManage(scope, organizationId);
+
+    if (!isOrganizationRole(role)) {
+      throw new OrganizationAccessError('Invalid role');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim() },
+      select: { id: true, role: true }
+    });
+    // Client users reach shipments through the portal, never through membership
+    if (!user || user.role === USER_ROLES.CLIENT) {
+      throw new OrganizationAccessError('No broker account is registered with that email');
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const existing = await tx.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId, userId: user.id } }
+      });
+      if (existing) {
+        throw new OrganizationAccessError('That user is already a member');
+      }
+
+      await dropPlaceholderOrganization(tx, user.id, organizationId);
+
+      return tx.organizationMember.create({
+        data: { organizationId, userId: user.id, role },
+        include: memberInclude
+      });
+    });
+
+    revalidatePath('/admin/organization');
+    return { success: true, data: toMemberData(member) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OrganizationAccessError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error adding organization member:', error);
+    return { success: false, error: 'Failed to add member' };
+  }
+}
+
+export async function updateOrganizationMemberRoleAction(
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole
+): Promise<ActionResult<OrganizationMemberData>> {
+  try {
+    const { scope } = await authorize('edit');
+    assertCanManage(scope, organizationId);
+
+    if (!isOrganizationRole(role)) {
+      throw new OrganizationAccessError('Invalid role');
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      if (role !== ORGANIZATION_ROLES.OWNER) {
+        await assertKeepsOwner(tx, organizationId, userId);
+      }
+
+      return tx.organizationMember.update({
+        where: { organizationId_userId: { organizationId, userId } },
+        data: { role },
+        include: memberInclude
+      });
+    });
+
+    revalidatePath('/admin/organization');
+    return { success: true, data: toMemberData(member) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OrganizationAccessError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error updating organization member:', error);
+    return { success: false, error: 'Failed to update member' };
+  }
+}
+
+// Records assigned to the departing member go back to unassigned
+export async function removeOrganizationMemberAction(
+  organizationId: string,
+  userId: string
+): Promise<ActionResult<null>> {
+  try {
+    const { scope } = await authorize('edit');
+    assertCanManage(scope, organizationId);
+
+    await prisma.$transaction(async (tx) => {
+      await assertKeepsOwner(tx, organizationId, userId);
+
+      const assigned = { organizationId, assigneeId: userId };
+      await tx.shipment.updateMany({ where: assigned, data: { assigneeId: null } });
+      await tx.consignee.updateMany({ where: assigned, data: { assigneeId: null } });
+      await tx.exporter.updateMany({ where: assigned, data: { assigneeId: null } });
+
+      await tx.organizationMember.delete({
+        where: { organizationId_userId: { organizationId, userId } }
+      });
+    });
+
+    revalidatePath('/admin/organization');
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OrganizationAccessError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error removing organization member:', error);
+    return { success: false, error: 'Failed to remove member' };
+  }
+}
+
+export async function updateLetterheadAction(
+  organizationId: string,
+  letterhead: Pick<LetterheadSettings, 'name' | 'address' | 'contact'>
+): Promise<ActionResult<null>> {
+  try {
+    const { scope } = await authorize('edit');
+    assertCanManage(scope, organizationId, 'Only owners and admins can change the letterhead');
+
+    await saveLetterhead(organizationId, letterhead);
+
+    revalidatePath('/admin/organization');
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OrganizationAccessError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error updating letterhead:', error);
+    return { success: false, error: 'Failed to update letterhead' };
+  }
+}
+
+// A PNG or JPEG logo; an empty form removes the current one
+export async function uploadLetterheadLogoAction(
+  organizationId: string,
+  formData: FormData
+): Promise<ActionResult<null>> {
+  try {
+    const { user, scope } = await authorize('edit');
+    assertCanManage(scope, organizationId, 'Only owners and admins can change the letterhead');
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      await replaceLetterheadLogo(organizationId, null);
+    } else {
+      if (!LOGO_CONTENT_TYPES.includes(file.type)) {
+        throw new UploadError('The logo must be a PNG or JPEG image');
+      }
+      const stored = await storeUpload(
+        {
+          stream: Readable.fromWeb(file.stream() as WebReadableStream),
+          fileName: file.name,
+          contentType: file.type
+        },
+        { organizationId },
+        user.id
+      );
+      await replaceLetterheadLogo(organizationId, stored.id);
+    }
+
+    revalidatePath('/admin/organization');
+    return { success: true, data: null };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof OrganizationAccessError || error instanceof UploadError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error uploading letterhead logo:', error);
+    return { success: false, error: 'Failed to upload logo' };
+  }
+}
@@ -0,0 +1,111 @@
+// app/actions/sof.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { prisma } from '@/lib/prisma';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { recordAuditEvent } from '@/lib/db/audit';
+import { deleteSofEvent, listSofEvents, recordSofEvents, SofEventError } from '@/lib/db/sof';
+import { getFileUrl, storeUpload, UploadError } from '@/lib/storage/upload';
+import { validateSofEventInput } from '@/lib/utils/sof';
+import { AUDIT_ENTITY_TYPES } from '@/types/audit';
+import type { StatementOfFactEvent } from '@/types/import/workflow';
+import type { SofEventCategory } from '@/types/sof';
+import type { AuthorizationFailure } from '@/types/auth';
+
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string } | AuthorizationFailure;
+
+// Supporting files are stored against the shipment under this document name
+const SOF_DOCUMENT_NAME = 'Statement of Facts';
+
+/**
+ * Adds an event typed in by the user, with any supporting files. The form
+ * carries `category`, `description`, `timestamp` (ISO) and `files`; the
+ * event is recorded under the signed-in user.
+ */
+export async function addSofEventAction(
+  shipmentId: string,
+  formData: FormData
+): Promise<ActionResult<StatementOfFactEvent[]>> {
+  try {
+    const { user } = await authorize('edit', { type: 'shipment', id: shipmentId });
+
+    const input = {
+      category: String(formData.get('category') ?? '') as SofEventCategory,
+      description: String(formData.get('description') ?? '').trim(),
+      timestamp: String(formData.get('timestamp') ?? '')
+    };
+    const issues = validateSofEventInput(input);
+    if (issues.length) {
+      return { success: false, error: issues.join('; ') };
+    }
+
+    const documents: NonNullable<StatementOfFactEvent['documents']> = [];
+    for (const file of formData.getAll('files')) {
+      if (!(file instanceof File) || !file.size) continue;
+      const stored = await storeUpload(
+        {
+          stream: Readable.fromWeb(file.stream() as WebReadableStream),
+          fileName: file.name,
+          contentType: file.type
+        },
+        { shipmentId, documentName: SOF_DOCUMENT_NAME },
+        user.id
+      );
+      documents.push({ id: stored.id, name: file.name, url: getFileUrl(stored.id), type: stored.contentType });
+    }
+
+    await prisma.$transaction(async tx => {
+      await recordSofEvents(tx, shipmentId, [input], user, { source: 'MANUAL', documents });
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.SHIPMENT,
+        entityId: shipmentId,
+        action: 'shipment.sof_add',
+        actor: user,
+        changes: [{ field: 'statementOfFacts', before: null, after: input.description }]
+      });
+    });
+
+    revalidatePath(`/admin/services/import/${shipmentId}`);
+    return { success: true, data: await listSofEvents(shipmentId) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof UploadError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error adding SOF event:', error);
+    return { success: false, error: 'Failed to add event' };
+  }
+}
+
+export async function deleteSofEventAction(
+  shipmentId: string,
+  eventId: string
+): Promise<ActionResult<StatementOfFactEvent[]>> {
+  try {
+    const { user } = await authorize('edit', { type: 'shipment', id: shipmentId });
+
+    await prisma.$transaction(async tx => {
+      const description = await deleteSofEvent(tx, shipmentId, eventId);
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.SHIPMENT,
+        entityId: shipmentId,
+        action: 'shipment.sof_delete',
+        actor: user,
+        changes: [{ field: 'statementOfFacts', before: description, after: null }]
+      });
+    });
+
+    revalidatePath(`/admin/services/import/${shipmentId}`);
+    return { success: true, data: await listSofEvents(shipmentId) };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    if (error instanceof SofEventError) {
+      return { success: false, error: error.message };
+    }
+    console.error('Error deleting SOF event:', error);
+    return { success: false, error: 'Failed to delete event' };
+  }
+}
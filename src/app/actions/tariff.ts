@@ -0,0 +1,110 @@
+// app/actions/tariff.ts
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { revalidatePath } from 'next/cache';
+import { formatHsCode, toHsCodePrefix } from '@/lib/customs/hs-code';
+import { importTariffSchedule } from '@/lib/customs/tariff-import';
+import { isSpreadsheetFile } from '@/lib/utils/spreadsheet';
+import type { AuthorizationFailure } from '@/types/auth';
+import type { TariffImportSummary, TariffLookupResult } from '@/types/tariff';
+
+const subheadingInclude = {
+  heading: true,
+  mfnRate: true,
+  preferentialRates: {
+    orderBy: { agreement: 'asc' as const }
+  }
+};
+
+function toLookupResult(subheading: {
+  code: string;
+  description: string;
+  unit: string | null;
+  heading: { code: string; description: string };
+  mfnRate: { rate: number } | null;
+  preferentialRates: Array<{ agreement: string; rate: number }>;
+}): TariffLookupResult {
+  return {
+    code: subheading.code,
+    description: subheading.description,
+    headingCode: subheading.heading.code,
+    headingDescription: subheading.heading.description,
+    unit: subheading.unit,
+    mfnRate: subheading.mfnRate?.rate ?? null,
+    preferentialRates: subheading.preferentialRates.map(({ agreement, rate }) => ({ agreement, rate }))
+  };
+}
+
+export async function searchTariffAction(query: string): Promise<TariffLookupResult[]> {
+  try {
+    await authorize('view');
+
+    const term = query.trim();
+    if (term.length < 2) return [];
+
+    // Match codes by prefix whether or not the user typed the dots
+    const codePrefix = /^[\d.\s]+$/.test(term) ? toHsCodePrefix(term) : null;
+
+    const subheadings = await prisma.tariffSubheading.findMany({
+      where: codePrefix
+        ? { code: { startsWith: codePrefix } }
+        : { description: { contains: term, mode: 'insensitive' } },
+      include: subheadingInclude,
+      orderBy: { code: 'asc' },
+      take: 20
+    });
+
+    return subheadings.map(toLookupResult);
+  } catch (error) {
+    console.error('Error searching tariff schedule:', error);
+    return [];
+  }
+}
+
+export async function getTariffRatesAction(
+  codes: string[]
+): Promise<Record<string, TariffLookupResult | null>> {
+  try {
+    await authorize('view');
+
+    const formatted = Array.from(new Set(codes.filter(Boolean).map(formatHsCode)));
+    const subheadings = await prisma.tariffSubheading.findMany({
+      where: { code: { in: formatted } },
+      include: subheadingInclude
+    });
+
+    const byCode = new Map(subheadings.map(s => [s.code, toLookupResult(s)]));
+    return Object.fromEntries(codes.map(code => [code, byCode.get(formatHsCode(code)) ?? null]));
+  } catch (error) {
+    console.error('Error fetching tariff rates:', error);
+    return {};
+  }
+}
+
+export async function importTariffScheduleAction(
+  formData: FormData
+): Promise<{ success: true; data: TariffImportSummary } | { success: false; error: string } | AuthorizationFailure> {
+  try {
+    // Reference data is shared by everyone, so only an "All" edit grant may replace it
+    await authorize('edit', { type: 'shared' });
+
+    const file = formData.get('file');
+    if (!(file instanceof File) || !isSpreadsheetFile(file.name)) {
+      throw new Error('Please upload a CSV or XLSX tariff file');
+    }
+
+    const summary = await importTariffSchedule(await file.arrayBuffer());
+
+    revalidatePath('/admin/tariff');
+    return { success: true, data: summary };
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.toResult();
+    console.error('Error importing tariff schedule:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import tariff schedule'
+    };
+  }
+}
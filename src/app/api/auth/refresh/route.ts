@@ -0,0 +1,35 @@
+// src/app/api/auth/refresh/route.ts
+import { NextResponse } from 'next/server';
+import { refreshSession } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// Only same-origin targets, checked after resolving since URL parsers read a
+// backslash as a slash (so "/\evil.com" is another host); the redirect can't leave the site
+const safeNextUrl = (next: string | null, base: URL) => {
+  if (next?.startsWith('/') && !next.includes('\\')) {
+    const resolved = new URL(next, base);
+    if (resolved.origin === base.origin) return resolved;
+  }
+  return new URL('/', base);
+};
+
+// The middleware sends requests here once a token's access window has closed
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const session = await refreshSession();
+
+  if (!session) {
+    return NextResponse.redirect(new URL('/sign-in', url));
+  }
+  return NextResponse.redirect(safeNextUrl(url.searchParams.get('next'), url));
+}
+
+// For clients that refresh in the background rather than by navigating
+export async function POST() {
+  const session = await refreshSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json({ user: session.user });
+}
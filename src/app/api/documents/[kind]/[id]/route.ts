@@ -0,0 +1,44 @@
+// src/app/api/documents/[kind]/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { authorize, AuthorizationError } from '@/lib/db/authorization';
+import { DocumentRenderError, renderShipmentDocumentFile } from '@/lib/db/documents';
+import { DOCUMENT_KINDS, type DocumentKind } from '@/types/documents';
+
+export const runtime = 'nodejs';
+
+// Every generated shipment document comes through here, rendered on demand for
+// anyone who may view the shipment
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  const { kind, id } = await params;
+  if (!DOCUMENT_KINDS.includes(kind as DocumentKind)) {
+    return NextResponse.json({ error: 'Unknown document' }, { status: 404 });
+  }
+
+  try {
+    await authorize('view', { type: 'shipment', id });
+
+    const file = await renderShipmentDocumentFile(kind as DocumentKind, id);
+    const disposition = new URL(request.url).searchParams.get('download') ? 'attachment' : 'inline';
+
+    return new NextResponse(Buffer.from(file.content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(file.content.byteLength),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof DocumentRenderError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error rendering document:', error);
+    return NextResponse.json({ error: 'Failed to render document' }, { status: 500 });
+  }
+}
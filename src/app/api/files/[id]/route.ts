@@ -0,0 +1,63 @@
+// src/app/api/files/[id]/route.ts
+import { Readable } from 'stream';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { validateSession } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { canRepresentativeReadFile } from '@/lib/db/client-access';
+import { getOrganizationScope, isMemberOf } from '@/lib/db/organization';
+import { USER_ROLES } from '@/types/auth';
+
+export const runtime = 'nodejs';
+
+// Serves a stored file to members of the organization owning it or the
+// shipment or consignee it belongs to, or to a client user representing that consignee
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await validateSession();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const file = await prisma.storedFile.findUnique({
+    where: { id },
+    include: {
+      shipment: { select: { organizationId: true, consigneeId: true } },
+      consignee: { select: { organizationId: true } }
+    }
+  });
+
+  const organizationId = file?.shipment?.organizationId ?? file?.consignee?.organizationId ?? file?.organizationId;
+  const canRead = !!file && (
+    (!!organizationId && isMemberOf(await getOrganizationScope(session.user), organizationId)) ||
+    (session.user.role === USER_ROLES.CLIENT && await canRepresentativeReadFile(file, session.user.id))
+  );
+  if (!file || !canRead) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  if (request.headers.get('if-none-match') === `"${file.checksum}"`) {
+    return new NextResponse(null, { status: 304 });
+  }
+
+  try {
+    const object = await getStorage().get(file.key);
+    const disposition = new URL(request.url).searchParams.get('download') ? 'attachment' : 'inline';
+
+    return new NextResponse(Readable.toWeb(object.stream) as ReadableStream, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.size),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.originalName)}`,
+        'Cache-Control': 'private, no-cache',
+        ETag: `"${file.checksum}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error reading stored file:', error);
+    return NextResponse.json({ error: 'File is unavailable' }, { status: 500 });
+  }
+}
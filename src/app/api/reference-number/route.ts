@@ -0,0 +1,80 @@
+// src/app/api/reference-number/route.ts
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { validateSession } from '@/lib/auth';
+import {
+  auditReferenceSequence,
+  getReferenceYear,
+  issueReferenceNumber,
+  voidReferenceNumber,
+  ReferenceNumberError
+} from '@/lib/db/reference-number';
+import { isTransactionType, validateReferenceNumber } from '@/lib/utils/reference-number';
+import { USER_ROLES } from '@/types/auth';
+
+const STAFF_ROLES: string[] = [USER_ROLES.SUPERADMIN, USER_ROLES.BROKER];
+
+// Issues the next number. The year always comes from the server clock.
+export async function POST(request: Request) {
+  const session = await validateSession();
+  if (!session?.user || !STAFF_ROLES.includes(session.user.role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { transactionType } = await request.json().catch(() => ({}));
+  if (!isTransactionType(transactionType)) {
+    return NextResponse.json({ error: 'Invalid transaction type' }, { status: 400 });
+  }
+
+  try {
+    const result = await prisma.$transaction(tx =>
+      issueReferenceNumber(tx, transactionType, { issuedById: session.user.id })
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ReferenceNumberError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error issuing reference number:', error);
+    return NextResponse.json({ error: 'Failed to generate reference number' }, { status: 500 });
+  }
+}
+
+// Gap audit: GET /api/reference-number?transactionType=IMS&year=24
+export async function GET(request: Request) {
+  const session = await validateSession();
+  if (!session?.user || !STAFF_ROLES.includes(session.user.role)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const transactionType = searchParams.get('transactionType');
+  const year = searchParams.get('year') || getReferenceYear();
+
+  if (!isTransactionType(transactionType) || !/^\d{2}$/.test(year)) {
+    return NextResponse.json({ error: 'Invalid transaction type or year' }, { status: 400 });
+  }
+
+  return NextResponse.json(await auditReferenceSequence(transactionType, year));
+}
+
+// Voids an issued number that will never be used, e.g. a cancelled file
+export async function DELETE(request: Request) {
+  const session = await validateSession();
+  if (session?.user?.role !== USER_ROLES.SUPERADMIN) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { referenceNumber, reason } = await request.json().catch(() => ({}));
+  if (typeof referenceNumber !== 'string' || !validateReferenceNumber(referenceNumber) || !reason) {
+    return NextResponse.json({ error: 'A valid reference number and reason are required' }, { status: 400 });
+  }
+
+  try {
+    await voidReferenceNumber(referenceNumber, String(reason));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error voiding reference number:', error);
+    return NextResponse.json({ error: 'Reference number not found' }, { status: 404 });
+  }
+}
@@ -0,0 +1,124 @@
+// src/app/api/upload/route.ts
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import busboy from 'busboy';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { validateSession } from '@/lib/auth';
+import { MAX_UPLOAD_BYTES } from '@/lib/constants/storage';
+import { storeUpload, getFileUrl, UploadError, type UploadTarget } from '@/lib/storage/upload';
+import { getOrganizationScope, isMemberOf } from '@/lib/db/organization';
+import type { User } from '@/types/auth';
+import type { StoredFile } from '@prisma/client';
+
+// Route handlers are not subject to the server action body limit
+export const runtime = 'nodejs';
+
+async function resolveTarget(fields: Record<string, string>, user: User): Promise<UploadTarget> {
+  const shipmentId = fields.shipmentId || fields.clearanceId;
+  const scope = await getOrganizationScope(user);
+
+  if (shipmentId) {
+    if (!fields.documentType) {
+      throw new UploadError('documentType is required');
+    }
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      select: { organizationId: true, isLocked: true }
+    });
+    if (!shipment || !isMemberOf(scope, shipment.organizationId)) {
+      throw new UploadError('Shipment not found or unauthorized');
+    }
+    if (shipment.isLocked) {
+      throw new UploadError('Shipment is locked');
+    }
+    return { shipmentId, documentName: fields.documentType };
+  }
+
+  if (fields.consigneeId) {
+    const consignee = await prisma.consignee.findUnique({
+      where: { id: fields.consigneeId },
+      select: { organizationId: true }
+    });
+    if (!consignee || !isMemberOf(scope, consignee.organizationId)) {
+      throw new UploadError('Consignee not found or unauthorized');
+    }
+    return { consigneeId: fields.consigneeId };
+  }
+
+  throw new UploadError('shipmentId or consigneeId is required');
+}
+
+/**
+ * Streams a multipart upload straight into storage. Form fields naming the
+ * target must come before the file part so ownership is checked before any
+ * bytes are written.
+ */
+function receiveUpload(request: Request, user: User): Promise<StoredFile> {
+  return new Promise((resolve, reject) => {
+    const fields: Record<string, string> = {};
+    let pending: Promise<StoredFile> | null = null;
+
+    const parser = busboy({
+      headers: Object.fromEntries(request.headers),
+      limits: { files: 1, fileSize: MAX_UPLOAD_BYTES + 1 }
+    });
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (_name, stream, info) => {
+      pending = resolveTarget(fields, user)
+        .then(target => storeUpload(
+          { stream, fileName: info.filename, contentType: info.mimeType },
+          target,
+          user.id
+        ))
+        .catch(error => {
+          stream.resume();
+          throw error;
+        });
+      // Settled on close; don't let an early failure count as unhandled
+      pending.catch(() => undefined);
+    });
+
+    parser.on('error', reject);
+    parser.on('close', () => {
+      if (!pending) {
+        reject(new UploadError('No file was uploaded'));
+        return;
+      }
+      pending.then(resolve, reject);
+    });
+
+    Readable.fromWeb(request.body as WebReadableStream).pipe(parser);
+  });
+}
+
+export async function POST(request: Request) {
+  const session = await validateSession();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!request.body || !request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return NextResponse.json({ error: 'Expected a multipart upload' }, { status: 400 });
+  }
+
+  try {
+    const stored = await receiveUpload(request, session.user);
+    return NextResponse.json({
+      fileUrl: getFileUrl(stored.id),
+      size: stored.size,
+      checksum: stored.checksum,
+      message: 'File uploaded successfully'
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error uploading file:', error);
+    return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 });
+  }
+}
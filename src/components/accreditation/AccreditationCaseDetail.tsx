@@ -0,0 +1,332 @@
+// src/components/accreditation/AccreditationCaseDetail.tsx
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { format, addYears, isValid } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle2, Circle, Eye, Loader2, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  ACCREDITATION_KINDS,
+  ACCREDITATION_STATUSES,
+  ACCREDITATION_TYPES,
+  DEFAULT_VALIDITY_YEARS,
+  type AccreditationStatus
+} from '@/lib/constants/accreditation';
+import { UPLOAD_ACCEPT } from '@/lib/constants/storage';
+import {
+  ACCREDITATION_TRANSITIONS,
+  checkAccreditationTransition,
+  getAccreditationStanding
+} from '@/lib/utils/accreditation';
+import type { AccreditationCaseData } from '@/types/accreditation';
+import {
+  updateAccreditationCaseAction,
+  updateAccreditationRequirementAction,
+  updateAccreditationStatusAction
+} from '@/app/actions/accreditation';
+
+interface AccreditationCaseDetailProps {
+  initialData: AccreditationCaseData;
+}
+
+const ACTION_LABELS: Record<AccreditationStatus, string> = {
+  DOCUMENT_COLLECTION: 'Return to Document Collection',
+  SUBMITTED: 'Mark as Submitted',
+  UNDER_EVALUATION: 'Mark as Under Evaluation',
+  APPROVED: 'Record Approval',
+  REJECTED: 'Record Rejection',
+  CANCELLED: 'Cancel Case',
+};
+
+// <input type="date"> works in yyyy-MM-dd
+const toInputDate = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : '';
+};
+
+const fromInputDate = (value: string) => (value ? new Date(`${value}T00:00:00`).toISOString() : null);
+
+export default function AccreditationCaseDetail({ initialData }: AccreditationCaseDetailProps) {
+  const { toast } = useToast();
+  const [accreditation, setAccreditation] = useState(initialData);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingRequirementId = useRef<string | null>(null);
+  const [fields, setFields] = useState({
+    accreditationNumber: initialData.accreditationNumber || '',
+    approvedAt: toInputDate(initialData.approvedAt),
+    expiryDate: toInputDate(initialData.expiryDate),
+    remarks: initialData.remarks || ''
+  });
+
+  const isChecklistOpen = accreditation.status === 'DOCUMENT_COLLECTION';
+  const standing = accreditation.status === 'APPROVED' ? getAccreditationStanding([accreditation]) : null;
+  const fieldInput = {
+    accreditationNumber: fields.accreditationNumber || null,
+    approvedAt: fromInputDate(fields.approvedAt),
+    expiryDate: fromInputDate(fields.expiryDate),
+    remarks: fields.remarks || null
+  };
+
+  const handleApprovedAtChange = (value: string) => {
+    setFields(prev => ({
+      ...prev,
+      approvedAt: value,
+      // Suggest the usual validity when no expiry has been entered yet
+      expiryDate: prev.expiryDate || (value
+        ? format(addYears(new Date(`${value}T00:00:00`), DEFAULT_VALIDITY_YEARS), 'yyyy-MM-dd')
+        : '')
+    }));
+  };
+
+  const handleToggle = async (requirementId: string, isSubmitted: boolean) => {
+    const result = await updateAccreditationRequirementAction(accreditation.id, requirementId, { isSubmitted });
+    if (result.success) {
+      setAccreditation(result.data);
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleUploadClick = (requirementId: string) => {
+    pendingRequirementId.current = requirementId;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const requirementId = pendingRequirementId.current;
+    event.target.value = '';
+    if (!file || !requirementId) return;
+
+    setUploadingId(requirementId);
+    try {
+      // Target fields go before the file so the server can check ownership first
+      const formData = new FormData();
+      formData.append('consigneeId', accreditation.consignee.id);
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload', { method: 'POST', body: formData });
+      const upload = await response.json();
+      if (!response.ok) {
+        throw new Error(upload.error || 'Failed to upload document');
+      }
+
+      const result = await updateAccreditationRequirementAction(accreditation.id, requirementId, {
+        fileUrl: upload.fileUrl
+      });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setAccreditation(result.data);
+      toast({ title: 'Success', description: 'Document uploaded successfully' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload document',
+        variant: 'destructive'
+      });
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    setIsSaving(true);
+    const result = await updateAccreditationCaseAction(accreditation.id, fieldInput);
+    setIsSaving(false);
+
+    if (result.success) {
+      setAccreditation(result.data);
+      toast({ title: 'Success', description: 'Case details saved' });
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleTransition = async (status: AccreditationStatus) => {
+    setIsSaving(true);
+    const result = await updateAccreditationStatusAction(accreditation.id, status, fieldInput);
+    setIsSaving(false);
+
+    if (result.success) {
+      setAccreditation(result.data);
+      toast({ title: 'Success', description: `Case moved to ${ACCREDITATION_STATUSES[status]}` });
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const submittedCount = accreditation.requirements.filter(r => r.isSubmitted).length;
+  const nextStatuses = ACCREDITATION_TRANSITIONS[accreditation.status];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-2xl font-semibold">{accreditation.referenceNumber}</h1>
+          <p className="text-gray-600">
+            {ACCREDITATION_TYPES[accreditation.transactionType]} · {ACCREDITATION_KINDS[accreditation.kind]} ·{' '}
+            {accreditation.consignee.name} (TIN {accreditation.consignee.tin})
+          </p>
+        </div>
+        <Badge variant="outline">{ACCREDITATION_STATUSES[accreditation.status]}</Badge>
+      </div>
+
+      {standing && standing.state !== 'active' && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {standing.state === 'expired'
+              ? 'This accreditation has expired. Open a renewal case for this client.'
+              : `This accreditation expires in ${standing.daysRemaining} days. Open a renewal case for this client.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Requirements ({submittedCount}/{accreditation.requirements.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept={UPLOAD_ACCEPT}
+            onChange={handleFileSelected}
+          />
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12"></TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accreditation.requirements.map(requirement => (
+                <TableRow key={requirement.id}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      disabled={!isChecklistOpen}
+                      onClick={() => handleToggle(requirement.id, !requirement.isSubmitted)}
+                    >
+                      {requirement.isSubmitted
+                        ? <CheckCircle2 className="w-5 h-5 text-green-600" />
+                        : <Circle className="w-5 h-5 text-gray-400" />}
+                    </button>
+                  </TableCell>
+                  <TableCell>
+                    {requirement.name}
+                    {!requirement.isRequired && <span className="ml-2 text-xs text-gray-500">(optional)</span>}
+                  </TableCell>
+                  <TableCell>
+                    {requirement.submittedAt ? format(new Date(requirement.submittedAt), 'MMM dd, yyyy') : '—'}
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    {requirement.fileUrl && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={requirement.fileUrl} target="_blank" rel="noopener noreferrer">
+                          <Eye className="w-4 h-4 mr-1" />
+                          View
+                        </a>
+                      </Button>
+                    )}
+                    {isChecklistOpen && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={uploadingId !== null}
+                        onClick={() => handleUploadClick(requirement.id)}
+                      >
+                        {uploadingId === requirement.id
+                          ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          : <Upload className="w-4 h-4 mr-1" />}
+                        Upload
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Case Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Date Submitted to BOC</Label>
+              <Input value={toInputDate(accreditation.submittedAt)} type="date" disabled />
+            </div>
+            <div className="space-y-2">
+              <Label>Accreditation Number</Label>
+              <Input
+                value={fields.accreditationNumber}
+                onChange={e => setFields(prev => ({ ...prev, accreditationNumber: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Approval Date</Label>
+              <Input type="date" value={fields.approvedAt} onChange={e => handleApprovedAtChange(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Expiry Date</Label>
+              <Input
+                type="date"
+                value={fields.expiryDate}
+                onChange={e => setFields(prev => ({ ...prev, expiryDate: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Remarks</Label>
+            <Textarea
+              value={fields.remarks}
+              onChange={e => setFields(prev => ({ ...prev, remarks: e.target.value }))}
+              placeholder="Evaluator findings, reasons for rejection or cancellation"
+            />
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" onClick={handleSaveDetails} disabled={isSaving}>
+              Save Details
+            </Button>
+            {nextStatuses.map(status => {
+              const problems = checkAccreditationTransition(accreditation, status, fieldInput);
+              return (
+                <Button
+                  key={status}
+                  variant={status === 'CANCELLED' || status === 'REJECTED' ? 'destructive' : 'default'}
+                  disabled={isSaving || problems.length > 0}
+                  title={problems.join('\n') || undefined}
+                  onClick={() => handleTransition(status)}
+                >
+                  {ACTION_LABELS[status]}
+                </Button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// src/components/audit/AuditHistory.tsx
+'use client';
+
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { format } from 'date-fns';
+import { AUDIT_ACTION_LABELS, type AuditEventData, type AuditValue } from '@/types/audit';
+
+interface AuditHistoryProps {
+  events: AuditEventData[];
+  // Lets the shipment history jump to the state right after an event
+  onSelectEvent?: (event: AuditEventData) => void;
+}
+
+const formatValue = (value: AuditValue) =>
+  value === null ? <span className="text-gray-400">empty</span> : String(value);
+
+export function AuditHistory({ events, onSelectEvent }: AuditHistoryProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-44">When</TableHead>
+          <TableHead className="w-40">Who</TableHead>
+          <TableHead className="w-44">Action</TableHead>
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {events.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={4} className="text-center">
+              No changes recorded
+            </TableCell>
+          </TableRow>
+        ) : (
+          events.map(event => (
+            <TableRow
+              key={event.id}
+              className={onSelectEvent ? 'cursor-pointer' : undefined}
+              onClick={() => onSelectEvent?.(event)}
+            >
+              <TableCell className="align-top whitespace-nowrap">
+                {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm:ss')}
+              </TableCell>
+              <TableCell className="align-top">
+                <div>{event.actor?.name || 'System'}</div>
+                {event.ipAddress && <div className="text-xs text-gray-500">{event.ipAddress}</div>}
+              </TableCell>
+              <TableCell className="align-top">
+                {AUDIT_ACTION_LABELS[event.action] || event.action}
+              </TableCell>
+              <TableCell className="align-top">
+                {event.changes.length === 0 ? (
+                  <span className="text-sm text-gray-400">No field changes</span>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {event.changes.map(change => (
+                      <li key={change.field}>
+                        <span className="font-mono text-xs text-gray-600">{change.field}</span>:{' '}
+                        <span className="line-through text-red-600">{formatValue(change.before)}</span>{' '}
+                        → <span className="text-green-700">{formatValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
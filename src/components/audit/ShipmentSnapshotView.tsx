@@ -0,0 +1,142 @@
+// src/components/audit/ShipmentSnapshotView.tsx
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ShipmentAuditSnapshot } from '@/types/audit';
+
+interface ShipmentSnapshotViewProps {
+  snapshot: ShipmentAuditSnapshot;
+}
+
+const Field = ({ label, value }: { label: string; value?: string | number | null }) => (
+  <div>
+    <dt className="text-xs text-gray-500">{label}</dt>
+    <dd className="text-sm">{value === undefined || value === null || value === '' ? '—' : value}</dd>
+  </div>
+);
+
+// Read-only rendering of a shipment as the audit log recorded it
+export function ShipmentSnapshotView({ snapshot }: ShipmentSnapshotViewProps) {
+  const { consignee, exporter, shipmentDetails, computations } = snapshot;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{snapshot.status}</Badge>
+        {snapshot.isLocked && <Badge variant="secondary">Locked</Badge>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Consignee</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-3">
+              <Field label="Name" value={consignee?.name} />
+              <Field label="TIN" value={consignee?.tin} />
+              <Field label="Address" value={consignee?.address} />
+              <Field label="BRN" value={consignee?.brn} />
+            </dl>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Exporter</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-3">
+              <Field label="Name" value={exporter?.name} />
+              <Field label="Address" value={exporter?.address} />
+            </dl>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Shipment Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {Object.entries(shipmentDetails).map(([key, value]) => (
+              <Field key={key} label={key.replace(/_/g, ' ')} value={value as string} />
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Cargo</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead>HS Code</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Invoice Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshot.cargo.map((item, index) => (
+                <TableRow key={index}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell>{item.hsCode}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">
+                    {item.currency} {item.invoiceValue.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Documents</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {Object.entries(snapshot.documents).map(([name, doc]) => (
+                <li key={name} className="flex justify-between">
+                  <span>{name}</span>
+                  <span className="text-gray-500">
+                    {doc.isVerified ? 'verified' : doc.status} ({doc.files})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Duties and Taxes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {computations ? (
+              <dl className="grid grid-cols-2 gap-3">
+                <Field label="Dutiable value" value={computations.dutiable_value.toLocaleString()} />
+                <Field label="Customs duty" value={computations.customs_duty.toLocaleString()} />
+                <Field label="VAT" value={computations.vat.toLocaleString()} />
+                <Field label="Other charges" value={computations.other_charges.toLocaleString()} />
+                <Field label="Total payable" value={computations.total_payable.toLocaleString()} />
+                <Field label="Exchange rate" value={computations.exchange_rate} />
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">Not computed</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
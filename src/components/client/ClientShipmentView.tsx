@@ -0,0 +1,220 @@
+// src/components/client/ClientShipmentView.tsx
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle2, Circle, Download, FileText, Loader2, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { WORKFLOW_STATES } from '@/lib/constants/workflow-states';
+import { UPLOAD_ACCEPT } from '@/lib/constants/storage';
+import { WORKFLOW_STAGES } from '@/lib/utils/workflow';
+import { isReleasedDocument } from '@/lib/utils/client-portal';
+import { formatCurrencyAmount } from '@/lib/customs/currency';
+import { getDocumentUrl } from '@/lib/documents/url';
+import { getClientShipmentByIdAction, uploadClientDocumentAction } from '@/app/actions/client-portal';
+import type { ShipmentData } from '@/types/import/workflow';
+
+interface ClientShipmentViewProps {
+  initialData: ShipmentData;
+}
+
+const DOCUMENT_STATUS_LABELS: Record<string, string> = {
+  not_uploaded: 'Requested',
+  draft: 'Under review',
+  final: 'Released',
+  verified: 'Released',
+};
+
+export default function ClientShipmentView({ initialData }: ClientShipmentViewProps) {
+  const { toast } = useToast();
+  const [shipment, setShipment] = useState(initialData);
+  const [uploadingDocument, setUploadingDocument] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingDocument = useRef<string | null>(null);
+
+  const currentIndex = WORKFLOW_STAGES.indexOf(shipment.status as typeof WORKFLOW_STAGES[number]);
+  // Reaching the last stage closes the file
+  const isComplete = currentIndex === WORKFLOW_STAGES.length - 1;
+  const computation = shipment.computations;
+
+  const handleUploadClick = (documentName: string) => {
+    pendingDocument.current = documentName;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const documentName = pendingDocument.current;
+    event.target.value = '';
+    if (!file || !documentName) return;
+
+    setUploadingDocument(documentName);
+    const result = await uploadClientDocumentAction(shipment.id, documentName, file);
+    if (result.success) {
+      const refreshed = await getClientShipmentByIdAction(shipment.id);
+      if (refreshed) setShipment(refreshed);
+      toast({ title: 'Success', description: `${documentName} sent to your broker for review` });
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+    setUploadingDocument(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-2xl font-semibold">{shipment.referenceNumber}</h1>
+          <p className="text-gray-600">
+            {shipment.consignee?.name} · {shipment.shipmentDetails.bl_number || shipment.shipmentDetails.flight_number || 'No BL/AWB yet'}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          disabled={shipment.statementOfFacts.length === 0}
+          onClick={() => window.location.assign(`${getDocumentUrl('statement-of-facts', shipment.id)}?download=1`)}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Statement of Facts
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Progress</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-3">
+            {WORKFLOW_STAGES.map((stage, index) => {
+              const isDone = index < currentIndex || (index === currentIndex && isComplete);
+              const isCurrent = index === currentIndex && !isComplete;
+              return (
+                <li key={stage} className="flex items-center gap-3">
+                  {isDone
+                    ? <CheckCircle2 className="w-5 h-5 text-green-600" />
+                    : <Circle className={`w-5 h-5 ${isCurrent ? 'text-blue-600' : 'text-gray-300'}`} />}
+                  <span className={isCurrent ? 'font-medium' : isDone ? '' : 'text-gray-400'}>
+                    {WORKFLOW_STATES[stage].label}
+                  </span>
+                  {isCurrent && <Badge variant="outline">Current</Badge>}
+                </li>
+              );
+            })}
+          </ol>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Documents</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept={UPLOAD_ACCEPT}
+            onChange={handleFileSelected}
+          />
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Files</TableHead>
+                <TableHead>Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shipment.documents.map(document => (
+                <TableRow key={document.name}>
+                  <TableCell>
+                    {document.name}
+                    {document.isRequired && <span className="ml-1 text-red-500">*</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {isReleasedDocument(document) ? 'Released' : DOCUMENT_STATUS_LABELS[document.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    {(document.files || []).map((url, index) => (
+                      <a
+                        key={url}
+                        href={`${url}?download=1`}
+                        className="flex items-center text-sm text-blue-600 hover:underline"
+                      >
+                        <FileText className="w-4 h-4 mr-1" />
+                        File {index + 1}
+                      </a>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    {!isReleasedDocument(document) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={uploadingDocument !== null}
+                        onClick={() => handleUploadClick(document.name)}
+                      >
+                        {uploadingDocument === document.name
+                          ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          : <Upload className="w-4 h-4 mr-1" />}
+                        Upload
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Duties and Taxes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!computation ? (
+            <p className="text-sm text-gray-500">Your broker has not computed the duties for this shipment yet.</p>
+          ) : (
+            <Table>
+              <TableBody>
+                {(computation.charges?.length
+                  ? computation.charges.map(charge => ({ label: charge.label, amount: charge.amount }))
+                  : [
+                      { label: 'Dutiable Value', amount: computation.dutiable_value },
+                      { label: 'Customs Duty', amount: computation.customs_duty },
+                      { label: 'VAT', amount: computation.vat },
+                      { label: 'Other Charges', amount: computation.other_charges },
+                    ]
+                ).map(row => (
+                  <TableRow key={row.label}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell className="text-right">{formatCurrencyAmount(row.amount, 'PHP')}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-semibold">Total Payable</TableCell>
+                  <TableCell className="text-right font-semibold">
+                    {formatCurrencyAmount(computation.total_payable, 'PHP')}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+          {computation?.computed_at && (
+            <p className="mt-2 text-xs text-gray-500">
+              Computed {format(new Date(computation.computed_at), 'MMM dd, yyyy HH:mm')}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
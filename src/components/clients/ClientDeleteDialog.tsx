@@ -0,0 +1,71 @@
+// src/components/clients/ClientDeleteDialog.tsx
+'use client'
+
+import { useState } from 'react'
+import { DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Loader2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { archiveClientAction, deleteClientAction } from '@/app/actions/clients'
+import type { ClientType } from '@/types/clients'
+
+interface ClientDeleteDialogProps {
+  type: ClientType
+  client: { id: string; name: string; shipmentCount: number }
+  onDoneAction: () => Promise<void>
+}
+
+export function ClientDeleteDialog({ type, client, onDoneAction }: ClientDeleteDialogProps) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const hasShipments = client.shipmentCount > 0
+
+  const run = async (mode: 'archive' | 'delete') => {
+    setIsLoading(true)
+    try {
+      const result = mode === 'archive'
+        ? await archiveClientAction(type, client.id)
+        : await deleteClientAction(type, client.id)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      toast({
+        title: 'Success',
+        description: `${client.name} was ${mode === 'archive' ? 'archived' : 'deleted'}`
+      })
+      await onDoneAction()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to ${mode} ${type}`,
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Remove {client.name}</DialogTitle>
+        <DialogDescription>
+          {hasShipments
+            ? `This ${type} is on ${client.shipmentCount} shipment${client.shipmentCount === 1 ? '' : 's'}, so it can only be archived. Archived clients are hidden from lists and pickers; their shipments and history are kept.`
+            : `Archiving hides this ${type} but keeps its record and history. Deleting removes it permanently.`}
+        </DialogDescription>
+      </DialogHeader>
+      <DialogFooter>
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin self-center" />}
+        <Button variant="outline" onClick={() => run('archive')} disabled={isLoading}>
+          Archive
+        </Button>
+        {!hasShipments && (
+          <Button variant="destructive" onClick={() => run('delete')} disabled={isLoading}>
+            Delete Permanently
+          </Button>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  )
+}
@@ -0,0 +1,252 @@
+// src/components/clients/ClientImportDialog.tsx
+'use client'
+
+import { useRef, useState } from 'react'
+import { DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Download, FileUp, Loader2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { commitClientImportAction, previewClientImportAction } from '@/app/actions/client-import'
+import { CLIENT_IMPORT_COLUMNS } from '@/lib/constants/client-import'
+import { toClientImportReport } from '@/lib/utils/client-import'
+import { toCsv } from '@/lib/utils/spreadsheet'
+import type {
+  ClientColumnMapping,
+  ClientImportField,
+  ClientImportPreview,
+  ClientImportRowStatus,
+  ClientImportType
+} from '@/types/client-import'
+
+interface ClientImportDialogProps {
+  type: ClientImportType
+  onImportedAction: () => Promise<void>
+}
+
+// Select items cannot carry an empty value
+const UNMAPPED = '__unmapped__'
+
+const STATUS_STYLES: Record<ClientImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  created: 'bg-green-100 text-green-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  invalid: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+export function ClientImportDialog({ type, onImportedAction }: ClientImportDialogProps) {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [mapping, setMapping] = useState<ClientColumnMapping>({})
+  const [preview, setPreview] = useState<ClientImportPreview | null>(null)
+  const [isCommitted, setIsCommitted] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const label = type === 'consignee' ? 'Consignees' : 'Exporters'
+  const columns = CLIENT_IMPORT_COLUMNS[type]
+
+  const toFormData = (selected: File, overrides: ClientColumnMapping) => {
+    const formData = new FormData()
+    formData.append('type', type)
+    formData.append('file', selected)
+    formData.append('mapping', JSON.stringify(overrides))
+    return formData
+  }
+
+  const runPreview = async (selected: File, overrides: ClientColumnMapping) => {
+    setIsLoading(true)
+    try {
+      const result = await previewClientImportAction(toFormData(selected, overrides))
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      setPreview(result.data)
+      setMapping(result.data.mapping)
+      setIsCommitted(false)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to read the file',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    if (!selected) return
+    setFile(selected)
+    await runPreview(selected, {})
+  }
+
+  const handleMappingChange = async (field: ClientImportField, header: string) => {
+    if (!file) return
+    await runPreview(file, { ...mapping, [field]: header === UNMAPPED ? '' : header })
+  }
+
+  const handleCommit = async () => {
+    if (!file) return
+    setIsLoading(true)
+    try {
+      const result = await commitClientImportAction(toFormData(file, mapping))
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      setPreview(result.data)
+      setIsCommitted(true)
+      await onImportedAction()
+      toast({
+        title: 'Success',
+        description: `Imported ${result.data.created} ${label.toLowerCase()}`
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import clients',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDownloadReport = () => {
+    if (!preview) return
+    const csv = toCsv(toClientImportReport(type, preview.rows))
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${type}-import-errors.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const counts = (preview?.rows ?? []).reduce<Partial<Record<ClientImportRowStatus, number>>>(
+    (totals, row) => ({ ...totals, [row.status]: (totals[row.status] ?? 0) + 1 }),
+    {}
+  )
+  const problemRows = (counts.invalid ?? 0) + (counts.duplicate ?? 0) + (counts.failed ?? 0)
+
+  return (
+    <DialogContent className="max-w-4xl">
+      <DialogHeader>
+        <DialogTitle>Import {label}</DialogTitle>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+            <FileUp className="w-4 h-4 mr-2" />
+            {file ? 'Choose Another File' : 'Choose CSV or XLSX'}
+          </Button>
+          {file && <span className="text-sm text-gray-500">{file.name}</span>}
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+        </div>
+
+        {preview && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {columns.map(column => (
+                <div key={column.field} className="space-y-1">
+                  <Label>
+                    {column.label}
+                    {column.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[column.field] || UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(column.field, value)}
+                    disabled={isLoading || isCommitted}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {preview.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-4 text-sm">
+              {isCommitted ? (
+                <span className="text-green-600">{counts.created ?? 0} created</span>
+              ) : (
+                <span className="text-green-600">{counts.valid ?? 0} ready to import</span>
+              )}
+              <span className="text-yellow-600">{counts.duplicate ?? 0} duplicates</span>
+              <span className="text-red-600">{(counts.invalid ?? 0) + (counts.failed ?? 0)} with errors</span>
+            </div>
+
+            <ScrollArea className="h-72 border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>{type === 'consignee' ? 'TIN' : 'Email'}</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.values.name || '-'}</TableCell>
+                      <TableCell>{(type === 'consignee' ? row.values.tin : row.values.email) || '-'}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[row.status]}>{row.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-red-600">{row.errors.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                  {preview.rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500">
+                        No rows found in this file
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </>
+        )}
+      </div>
+
+      <DialogFooter>
+        {problemRows > 0 && (
+          <Button variant="outline" onClick={handleDownloadReport}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Error Report
+          </Button>
+        )}
+        {preview && !isCommitted && (
+          <Button onClick={handleCommit} disabled={isLoading || !counts.valid}>
+            Import {counts.valid ?? 0} {counts.valid === 1 ? 'Row' : 'Rows'}
+          </Button>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  )
+}
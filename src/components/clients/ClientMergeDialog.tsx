@@ -0,0 +1,111 @@
+// src/components/clients/ClientMergeDialog.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { getConsignees, getExporters, mergeClientsAction } from '@/app/actions/clients'
+import type { ClientMergeResult, ClientType } from '@/types/clients'
+
+interface ClientMergeDialogProps {
+  type: ClientType
+  duplicate: { id: string; name: string }
+  onMergedAction: (result: ClientMergeResult) => Promise<void>
+}
+
+interface MergeCandidate {
+  id: string
+  name: string
+  detail: string
+}
+
+export function ClientMergeDialog({ type, duplicate, onMergedAction }: ClientMergeDialogProps) {
+  const { toast } = useToast()
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([])
+  const [canonicalId, setCanonicalId] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const loadCandidates = async () => {
+      const clients: MergeCandidate[] = []
+      if (type === 'consignee') {
+        const result = await getConsignees()
+        clients.push(...(result.data ?? []).map(client => ({ id: client.id, name: client.name, detail: client.tin })))
+      } else {
+        const result = await getExporters()
+        clients.push(...(result.data ?? []).map(client => ({ id: client.id, name: client.name, detail: client.email })))
+      }
+      setCandidates(clients.filter(client => client.id !== duplicate.id))
+      setIsLoading(false)
+    }
+    loadCandidates()
+  }, [type, duplicate.id])
+
+  const handleMerge = async () => {
+    const canonical = candidates.find(candidate => candidate.id === canonicalId)
+    if (!canonical) return
+    if (!confirm(`Merge ${duplicate.name} into ${canonical.name}? This cannot be undone.`)) return
+
+    setIsLoading(true)
+    try {
+      const result = await mergeClientsAction(type, duplicate.id, canonical.id)
+      if (!result.success || !result.data) {
+        throw new Error(result.error)
+      }
+      toast({
+        title: 'Success',
+        description: `Merged into ${canonical.name}; ${result.data.shipments} shipment${result.data.shipments === 1 ? '' : 's'} moved`
+      })
+      await onMergedAction(result.data)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to merge ${type}s`,
+        variant: 'destructive'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Merge {duplicate.name}</DialogTitle>
+        <DialogDescription>
+          {type === 'consignee'
+            ? 'Shipments, documents, files, accreditation cases and portal representatives move to the record you keep.'
+            : 'Shipments move to the record you keep.'}
+          {' '}This {type} is then archived and points to it.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label>Keep</Label>
+        <Select value={canonicalId} onValueChange={setCanonicalId} disabled={isLoading}>
+          <SelectTrigger>
+            <SelectValue placeholder={`Select the ${type} to keep`} />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(candidate => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                {candidate.name}{candidate.detail ? ` (${candidate.detail})` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DialogFooter>
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin self-center" />}
+        <Button onClick={handleMerge} disabled={isLoading || !canonicalId}>
+          Merge
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
@@ -13,7 +13,8 @@ import { useAuth } from '@/components/layout/AuthProvider'
 import { USER_ROLES } from '@/types/auth'
 import { getResourcePermissions } from '@/lib/utils/permissions'
 import { Badge } from '@/components/ui/badge'
-import { useToast } from '@/components/ui/use-toast'
+import { Dialog } from '@/components/ui/dialog'
+import { ClientDeleteDialog } from '@/components/clients/ClientDeleteDialog'
 
 interface ClientsListProps {
   type: 'consignee' | 'exporter'
@@ -38,11 +39,12 @@ type ExporterWithRelations = Exporter & {
   export function ClientsList({ type }: ClientsListProps) {
     const router = useRouter()
     const { user } = useAuth()
-    const { toast } = useToast()
     const [searchQuery, setSearchQuery] = useState('')
     const [isLoading, setIsLoading] = useState(true)
     const [items, setItems] = useState<any[]>([])
     const [error, setError] = useState<string | null>(null)
+    const [version, setVersion] = useState(0)
+    const [removing, setRemoving] = useState<any | null>(null)
   
     useEffect(() => {
       const loadItems = async () => {
@@ -76,7 +78,7 @@ type ExporterWithRelations = Exporter & {
       }
     
       loadItems()
-    }, [type, searchQuery, user])
+    }, [type, searchQuery, user, version])
   
     // Action handlers
   const handleView = (id: string) => {
@@ -87,22 +89,9 @@ type ExporterWithRelations = Exporter & {
     router.push(`/admin/clients/${type}/${id}/edit`)
   }
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this item?')) return
-
-    try {
-      // TODO: Implement delete functionality with API call
-      toast({
-        title: 'Success',
-        description: `${type} deleted successfully`
-      })
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to delete item',
-        variant: 'destructive'
-      })
-    }
+  const handleRemoved = async () => {
+    setRemoving(null)
+    setVersion(v => v + 1)
   }
 
   // Get permissions for each item
@@ -176,7 +165,12 @@ type ExporterWithRelations = Exporter & {
               const permissions = getItemPermissions(item.userId)
               return (
                 <TableRow key={item.id}>
-                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell className="font-medium">
+                    {item.name}
+                    {!item.isActive && (
+                      <Badge variant="outline" className="ml-2 text-gray-500">Inactive</Badge>
+                    )}
+                  </TableCell>
                   <TableCell>{item.contactPerson}</TableCell>
                   {type === 'consignee' && 
                     <TableCell>{item.tin}</TableCell>
@@ -213,7 +207,7 @@ type ExporterWithRelations = Exporter & {
                         <Button
                           variant="ghost"
                           size="icon"
-                          onClick={() => handleDelete(item.id)}
+                          onClick={() => setRemoving(item)}
                           className="text-red-500 hover:text-red-600"
                         >
                           <Trash2 className="h-4 w-4" />
@@ -229,6 +223,16 @@ type ExporterWithRelations = Exporter & {
       </Table>
     </div>
         )}
+
+        <Dialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+          {removing && (
+            <ClientDeleteDialog
+              type={type}
+              client={{ id: removing.id, name: removing.name, shipmentCount: removing.shipments.length }}
+              onDoneAction={handleRemoved}
+            />
+          )}
+        </Dialog>
       </div>
     )
   }
\ No newline at end of file
@@ -9,6 +9,7 @@ import { Input } from '@/components/ui/input'
 import { useToast } from '@/components/ui/use-toast'
 import { Upload, FileText, Trash2 } from 'lucide-react'
 import { addConsigneeDocument } from '@/app/actions/clients'
+import { UPLOAD_ACCEPT } from '@/lib/constants/storage'
 
 interface EntityDocumentsProps {
   entityId: string
@@ -38,14 +39,24 @@ export function EntityDocuments({
 
     setIsUploading(true)
     try {
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('name', file.name)
-      
       if (type === 'consignee') {
+        // Target fields go before the file so the server can check ownership first
+        const formData = new FormData()
+        formData.append('consigneeId', entityId)
+        formData.append('file', file)
+
+        const response = await fetch('/api/upload', {
+          method: 'POST',
+          body: formData
+        })
+        const upload = await response.json()
+        if (!response.ok) {
+          throw new Error(upload.error || 'Failed to upload document')
+        }
+
         const result = await addConsigneeDocument(entityId, {
           name: file.name,
-          fileUrl: URL.createObjectURL(file) // In production, use proper file upload
+          fileUrl: upload.fileUrl
         })
 
         if (result.error) {
@@ -64,7 +75,7 @@ export function EntityDocuments({
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to upload document',
+        description: error instanceof Error ? error.message : 'Failed to upload document',
         variant: 'destructive'
       })
     } finally {
@@ -88,7 +99,14 @@ export function EntityDocuments({
               <div className="flex items-center space-x-2">
                 <FileText className="w-4 h-4" />
                 <div>
-                  <p className="font-medium">{doc.name}</p>
+                  <a
+                    href={doc.fileUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium hover:underline"
+                  >
+                    {doc.name}
+                  </a>
                   <p className="text-sm text-gray-500">
                     {new Date(doc.uploadedAt).toLocaleDateString()}
                   </p>
@@ -110,6 +128,7 @@ export function EntityDocuments({
           <div className="space-y-4">
             <Input
               type="file"
+              accept={UPLOAD_ACCEPT}
               onChange={handleFileUpload}
               disabled={isUploading}
             />
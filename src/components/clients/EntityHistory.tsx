@@ -0,0 +1,29 @@
+// src/components/clients/EntityHistory.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AuditHistory } from '@/components/audit/AuditHistory'
+import { getClientHistoryAction } from '@/app/actions/audit'
+import type { AuditEventData } from '@/types/audit'
+
+interface EntityHistoryProps {
+  entityId: string
+  type: 'consignee' | 'exporter'
+}
+
+export function EntityHistory({ entityId, type }: EntityHistoryProps) {
+  const [events, setEvents] = useState<AuditEventData[]>([])
+
+  useEffect(() => {
+    getClientHistoryAction(type, entityId).then(result => {
+      if (result.success) setEvents(result.data)
+    })
+  }, [entityId, type])
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h2 className="text-lg font-semibold">History</h2>
+      <AuditHistory events={events} />
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+// src/components/clients/EntityPortalAccess.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+import { UserPlus, Trash2 } from 'lucide-react'
+import {
+  getPortalUsersAction,
+  grantPortalAccessAction,
+  revokePortalAccessAction
+} from '@/app/actions/client-portal'
+import type { PortalUser } from '@/types/client-portal'
+
+interface EntityPortalAccessProps {
+  consigneeId: string
+}
+
+export function EntityPortalAccess({ consigneeId }: EntityPortalAccessProps) {
+  const [users, setUsers] = useState<PortalUser[]>([])
+  const [email, setEmail] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    getPortalUsersAction(consigneeId).then(result => {
+      if (result.success) setUsers(result.data)
+    })
+  }, [consigneeId])
+
+  const handleGrant = async () => {
+    if (!email.trim()) return
+
+    setIsSaving(true)
+    const result = await grantPortalAccessAction(consigneeId, email)
+    setIsSaving(false)
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' })
+      return
+    }
+    setUsers(prev => [...prev, result.data])
+    setEmail('')
+    toast({ title: 'Success', description: `${result.data.name} can now view this client's shipments` })
+  }
+
+  const handleRevoke = async (user: PortalUser) => {
+    const result = await revokePortalAccessAction(consigneeId, user.id)
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' })
+      return
+    }
+    setUsers(prev => prev.filter(u => u.id !== user.id))
+  }
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h2 className="text-lg font-semibold">Client Portal Access</h2>
+      <div className="flex gap-2 max-w-md">
+        <Input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="Client account email"
+        />
+        <Button onClick={handleGrant} disabled={isSaving}>
+          <UserPlus className="w-4 h-4 mr-2" />
+          Grant
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>Since</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center">
+                No client users have portal access
+              </TableCell>
+            </TableRow>
+          ) : (
+            users.map(user => (
+              <TableRow key={user.id}>
+                <TableCell className="font-medium">{user.name}</TableCell>
+                <TableCell>{user.email}</TableCell>
+                <TableCell>{new Date(user.grantedAt).toLocaleDateString()}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(user)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
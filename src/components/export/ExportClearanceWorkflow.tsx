@@ -0,0 +1,449 @@
+// src/components/export/ExportClearanceWorkflow.tsx
+'use client'
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, FileText, Loader2, Plane, Save, Ship, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/components/layout/AuthProvider';
+import { EXPORT_WORKFLOW_STATES } from '@/lib/constants/export-workflow-states';
+import { EXPORT_WORKFLOW, type ExportWorkflowStage } from '@/lib/utils/export-workflow';
+import { getLatestStageStatus, getNextStage, ROLLBACK_ROLES } from '@/lib/utils/workflow';
+import { UPLOAD_ACCEPT } from '@/lib/constants/storage';
+import { processDocumentUploadAction } from '@/app/actions/import';
+import { updateExportShipmentAction, updateExportStatusAction } from '@/app/actions/export';
+import type { ExportShipmentData, ExportShipmentDetails } from '@/types/export';
+
+interface ExportClearanceWorkflowProps {
+  initialData: ExportShipmentData;
+}
+
+// Certificate of Origin forms commonly issued for Philippine exports
+const CO_FORMS = ['Non-preferential', 'Form A (GSP)', 'Form D (ATIGA)', 'Form E (ACFTA)', 'Form AK (AKFTA)', 'Form AJ (AJCEP)', 'Form JP (PJEPA)', 'Form AANZ', 'Form AI (AIFTA)', 'RCEP'];
+
+type DetailField = {
+  key: keyof ExportShipmentDetails;
+  label: string;
+  type?: 'text' | 'date' | 'datetime-local';
+  modes?: Array<ExportShipmentDetails['mode']>;
+};
+
+// Shipment details captured at each stage
+const STAGE_FIELDS: Partial<Record<ExportWorkflowStage, DetailField[]>> = {
+  EXPORT_DECLARATION: [
+    { key: 'ed_number', label: 'Export Declaration No.' },
+    { key: 'ed_date', label: 'Declaration Date', type: 'date' }
+  ],
+  CO_ISSUANCE: [
+    { key: 'co_number', label: 'Certificate of Origin No.' },
+    { key: 'co_issued_date', label: 'Date Issued', type: 'date' }
+  ],
+  LOADING: [
+    { key: 'bl_number', label: 'BL Number', modes: ['sea'] },
+    { key: 'awb_number', label: 'AWB Number', modes: ['air'] },
+    { key: 'vessel_name', label: 'Vessel', modes: ['sea'] },
+    { key: 'voyage_number', label: 'Voyage', modes: ['sea'] },
+    { key: 'container_number', label: 'Container No.', modes: ['sea'] },
+    { key: 'flight_number', label: 'Flight No.', modes: ['air'] },
+    { key: 'atd', label: 'Actual Time of Departure', type: 'datetime-local' }
+  ]
+};
+
+const ExportClearanceWorkflow: React.FC<ExportClearanceWorkflowProps> = ({ initialData }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [shipment, setShipment] = useState<ExportShipmentData>(initialData);
+  const [details, setDetails] = useState<ExportShipmentDetails>(initialData.shipmentDetails);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [upload, setUpload] = useState<{
+    document: string | null;
+    status: 'draft' | 'final';
+    file: File | null;
+    isUploading: boolean;
+  }>({ document: null, status: 'draft', file: null, isUploading: false });
+  const [rollback, setRollback] = useState<{
+    stage: ExportWorkflowStage | null;
+    reason: string;
+    isSubmitting: boolean;
+  }>({ stage: null, reason: '', isSubmitting: false });
+
+  const currentStage = shipment.status as ExportWorkflowStage;
+  const currentIndex = EXPORT_WORKFLOW.stages.indexOf(currentStage);
+  const nextStage = getNextStage(EXPORT_WORKFLOW, currentStage);
+  const canRollback = !!user && ROLLBACK_ROLES.includes(user.role);
+  const stageFields = (STAGE_FIELDS[currentStage] || [])
+    .filter(field => !field.modes || field.modes.includes(details.mode));
+
+  const applyResult = (data: ExportShipmentData) => {
+    setShipment(data);
+    setDetails(data.shipmentDetails);
+  };
+
+  const handleSaveDetails = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateExportShipmentAction(shipment.id, { shipmentDetails: details });
+      if (!result.success) throw new Error(result.error);
+      applyResult(result.data);
+      toast({ title: 'Success', description: 'Shipment details saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save details',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdvance = async () => {
+    if (!nextStage) return;
+
+    setIsAdvancing(true);
+    try {
+      const result = await updateExportStatusAction(shipment.id, nextStage);
+      if (!result.success) throw new Error(result.error);
+      applyResult(result.data);
+      toast({ title: 'Success', description: `Moved to ${EXPORT_WORKFLOW_STATES[nextStage].label}` });
+    } catch (error) {
+      toast({
+        title: 'Cannot complete stage',
+        description: error instanceof Error ? error.message : 'Failed to update status',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsAdvancing(false);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!rollback.stage) return;
+
+    setRollback(prev => ({ ...prev, isSubmitting: true }));
+    const result = await updateExportStatusAction(shipment.id, rollback.stage, { reason: rollback.reason });
+    setRollback({ stage: null, reason: '', isSubmitting: false });
+
+    if (!result.success) {
+      toast({ title: 'Rollback failed', description: result.error, variant: 'destructive' });
+      return;
+    }
+    applyResult(result.data);
+  };
+
+  const handleUpload = async () => {
+    if (!upload.document || !upload.file) return;
+
+    setUpload(prev => ({ ...prev, isUploading: true }));
+    try {
+      const result = await processDocumentUploadAction(shipment.id, upload.document, upload.file, upload.status);
+      setShipment(prev => ({
+        ...prev,
+        documents: prev.documents.map(doc => doc.name === upload.document
+          ? { ...doc, status: result.status, files: [...(doc.files || []), result.fileUrl] }
+          : doc)
+      }));
+      setUpload({ document: null, status: 'draft', file: null, isUploading: false });
+      toast({ title: 'Success', description: 'Document uploaded successfully' });
+    } catch (error) {
+      setUpload(prev => ({ ...prev, isUploading: false }));
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload document',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">{shipment.referenceNumber}</h2>
+          <p className="text-sm text-gray-500 flex items-center gap-1">
+            {details.mode === 'air' ? <Plane className="w-4 h-4" /> : <Ship className="w-4 h-4" />}
+            {details.port_of_loading || 'N/A'} to {details.port_of_destination || 'N/A'}
+            {details.country_of_destination ? `, ${details.country_of_destination}` : ''}
+          </p>
+        </div>
+        {nextStage && (
+          <Button onClick={handleAdvance} disabled={isAdvancing}>
+            {isAdvancing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCircle className="w-4 h-4 mr-2" />
+            )}
+            Complete {EXPORT_WORKFLOW_STATES[currentStage].label}
+          </Button>
+        )}
+      </div>
+
+      <div className="relative">
+        <div className="absolute left-0 w-full h-1 bg-gray-200 top-5" />
+        <div className="relative flex justify-between">
+          {EXPORT_WORKFLOW.stages.map((stage, index) => {
+            const info = EXPORT_WORKFLOW_STATES[stage];
+            const StageIcon = info.icon;
+            const isActive = index <= currentIndex;
+            const isRollbackTarget = canRollback && index < currentIndex;
+            const stageStatus = getLatestStageStatus(shipment, stage);
+
+            return (
+              <div key={stage} className="flex flex-col items-center">
+                <div
+                  className={`z-10 flex items-center justify-center w-10 h-10 rounded-full
+                    ${isActive ? `${info.bgColor} ${info.color}` : 'bg-gray-200 text-gray-400'}
+                    ${stage === currentStage ? 'ring-2 ring-offset-2 ring-blue-500' : ''}
+                    ${isRollbackTarget ? 'cursor-pointer' : ''}`}
+                  title={isRollbackTarget ? 'Roll back to this stage' : stageStatus || undefined}
+                  onClick={() => isRollbackTarget && setRollback({ stage, reason: '', isSubmitting: false })}
+                >
+                  <StageIcon className="w-5 h-5" />
+                </div>
+                <span className={`mt-2 text-sm font-medium ${isActive ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {info.label}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Shipper</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p className="font-medium">{shipment.shipper?.name || 'N/A'}</p>
+            <p className="text-gray-500">{shipment.shipper?.address}</p>
+            {shipment.shipper?.tin && <p className="text-gray-500">TIN: {shipment.shipper.tin}</p>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Buyer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p className="font-medium">{shipment.buyer?.name || 'N/A'}</p>
+            <p className="text-gray-500">{shipment.buyer?.address}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {(stageFields.length > 0 || currentStage === 'CO_ISSUANCE') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{EXPORT_WORKFLOW_STATES[currentStage].label}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {currentStage === 'CO_ISSUANCE' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Certificate of Origin</Label>
+                    <Select
+                      value={details.co_required === false ? 'no' : 'yes'}
+                      onValueChange={(value) => setDetails(prev => ({ ...prev, co_required: value === 'yes' }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="yes">Required</SelectItem>
+                        <SelectItem value="no">Not required</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Form</Label>
+                    <Select
+                      value={details.co_form || ''}
+                      onValueChange={(value) => setDetails(prev => ({ ...prev, co_form: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select form" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CO_FORMS.map(form => (
+                          <SelectItem key={form} value={form}>{form}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+              {stageFields.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label>{field.label}</Label>
+                  <Input
+                    type={field.type || 'text'}
+                    value={(details[field.key] as string) || ''}
+                    onChange={(e) => setDetails(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={handleSaveDetails} disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Documents</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {shipment.documents.map(doc => (
+            <div key={doc.name} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span>{doc.name}</span>
+                  {doc.isRequired && <span className="text-xs text-red-500">Required</span>}
+                  {doc.status !== 'not_uploaded' && (
+                    <Badge variant="outline">{doc.status}</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  {(doc.files || []).map((url, index) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:underline flex items-center"
+                    >
+                      <FileText className="w-3 h-3 mr-1" />
+                      File {index + 1}
+                    </a>
+                  ))}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setUpload({ document: doc.name, status: 'draft', file: null, isUploading: false })}
+              >
+                <Upload className="w-4 h-4 mr-1" />
+                Upload
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Goods</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead>HS Code</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Gross Wt (kg)</TableHead>
+                <TableHead className="text-right">Invoice Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shipment.cargo.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell>{item.hsCode || '-'}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{item.grossWeight}</TableCell>
+                  <TableCell className="text-right">
+                    {item.currency || details.currency} {item.invoiceValue.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!upload.document}
+        onOpenChange={(open) => !open && setUpload({ document: null, status: 'draft', file: null, isUploading: false })}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upload {upload.document}</DialogTitle>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="flex gap-4">
+              {(['draft', 'final'] as const).map(status => (
+                <Button
+                  key={status}
+                  variant={upload.status === status ? 'default' : 'outline'}
+                  onClick={() => setUpload(prev => ({ ...prev, status }))}
+                >
+                  {status === 'draft' ? 'Draft' : 'Final'}
+                </Button>
+              ))}
+            </div>
+            <input
+              type="file"
+              accept={UPLOAD_ACCEPT}
+              onChange={(e) => setUpload(prev => ({ ...prev, file: e.target.files?.[0] || null }))}
+              className="w-full"
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleUpload} disabled={!upload.file || upload.isUploading}>
+              {upload.isUploading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Upload
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!rollback.stage}
+        onOpenChange={(open) => !open && setRollback({ stage: null, reason: '', isSubmitting: false })}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Roll back to {rollback.stage ? EXPORT_WORKFLOW_STATES[rollback.stage].label : ''}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="py-4">
+            <Textarea
+              value={rollback.reason}
+              onChange={(e) => setRollback(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="Reason for rollback"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={handleRollback}
+              disabled={!rollback.reason.trim() || rollback.isSubmitting}
+            >
+              Roll Back
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ExportClearanceWorkflow;
@@ -0,0 +1,430 @@
+// src/components/export/NewExportForm.tsx
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Plane, Plus, Ship, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { ComboboxInput } from '@/components/import/ComboboxInput';
+import { HsCodeInput } from '@/components/import/HsCodeInput';
+import { INCOTERMS } from '@/lib/constants';
+import { SUPPORTED_CURRENCIES, DEFAULT_INVOICE_CURRENCY } from '@/lib/constants/currency';
+import { getSavedEntitiesAction } from '@/app/actions/import';
+import { createExportShipmentAction } from '@/app/actions/export';
+import type { CustomEntity } from '@/types/import';
+import type { CargoItem } from '@/types/import/workflow';
+import type { ExportBuyer, ExportMode, ExportShipmentDetails, ExportShipper } from '@/types/export';
+
+interface NewExportFormProps {
+  onComplete: () => void;
+}
+
+const emptyGoods = (): CargoItem => ({
+  id: crypto.randomUUID(),
+  description: '',
+  invoiceValue: 0,
+  currency: DEFAULT_INVOICE_CURRENCY,
+  grossWeight: 0,
+  netWeight: 0,
+  quantity: 0,
+  hsCode: ''
+});
+
+const NewExportForm: React.FC<NewExportFormProps> = ({ onComplete }) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [savedShippers, setSavedShippers] = useState<CustomEntity[]>([]);
+  const [savedBuyers, setSavedBuyers] = useState<CustomEntity[]>([]);
+
+  const [shipper, setShipper] = useState<ExportShipper>({ name: '', address: '', tin: '' });
+  const [buyer, setBuyer] = useState<ExportBuyer>({ name: '', address: '' });
+  const [details, setDetails] = useState<ExportShipmentDetails>({
+    mode: 'sea',
+    port_of_loading: '',
+    port_of_destination: '',
+    country_of_destination: '',
+    terms_of_delivery: '',
+    currency: DEFAULT_INVOICE_CURRENCY,
+    co_required: true
+  });
+  const [goods, setGoods] = useState<CargoItem[]>([emptyGoods()]);
+
+  useEffect(() => {
+    getSavedEntitiesAction('consignee').then(setSavedShippers);
+    getSavedEntitiesAction('exporter').then(setSavedBuyers);
+  }, []);
+
+  const updateDetails = (field: keyof ExportShipmentDetails, value: string | boolean) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateGoods = (index: number, field: keyof CargoItem, value: string | number) => {
+    setGoods(prev => prev.map((item, i) => i === index ? { ...item, [field]: value } : item));
+  };
+
+  const validate = () => {
+    const problems: string[] = [];
+    if (!shipper.name) problems.push('Shipper is required');
+    if (!shipper.tin) problems.push('Shipper TIN is required');
+    if (!buyer.name) problems.push('Buyer is required');
+    if (!details.port_of_loading) problems.push('Port of loading is required');
+    if (!details.port_of_destination) problems.push('Port of destination is required');
+    if (!goods.some(item => item.description)) problems.push('At least one goods line is required');
+    return problems;
+  };
+
+  const handleSubmit = async () => {
+    const problems = validate();
+    setErrors(problems);
+    if (problems.length) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await createExportShipmentAction({
+        shipper,
+        buyer,
+        shipmentDetails: details,
+        cargo: goods
+          .filter(item => item.description)
+          .map(item => ({ ...item, currency: details.currency }))
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: 'Success',
+        description: `Export ${result.data.referenceNumber} created`
+      });
+      onComplete();
+      router.push(`/admin/services/export/${result.data.id}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create export shipment',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8 max-h-[75vh] overflow-y-auto pr-2">
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <ul className="list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        {(['sea', 'air'] as ExportMode[]).map(mode => (
+          <Button
+            key={mode}
+            variant={details.mode === mode ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => updateDetails('mode', mode)}
+          >
+            {mode === 'sea' ? <Ship className="w-4 h-4 mr-2" /> : <Plane className="w-4 h-4 mr-2" />}
+            {mode === 'sea' ? 'Sea Freight' : 'Air Freight'}
+          </Button>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-4">Parties</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Shipper (Philippine exporter)</Label>
+            <ComboboxInput
+              type="consignee"
+              value={shipper.name}
+              initialEntities={savedShippers}
+              placeholder="Select or enter shipper"
+              onChangeAction={async (value, entityId) => {
+                const selected = entityId ? savedShippers.find(c => c.id === entityId) : undefined;
+                setShipper(prev => selected
+                  ? {
+                      id: selected.id,
+                      name: selected.name,
+                      address: selected.address || '',
+                      tin: selected.tin,
+                      brn: selected.brn,
+                      contactPerson: selected.contactPerson,
+                      contactNumber: selected.contactNumber,
+                      email: selected.email
+                    }
+                  : { ...prev, id: undefined, name: value });
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Shipper TIN</Label>
+            <Input
+              value={shipper.tin || ''}
+              onChange={(e) => setShipper(prev => ({ ...prev, tin: e.target.value }))}
+              disabled={!!shipper.id}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Shipper Address</Label>
+            <Input
+              value={shipper.address}
+              onChange={(e) => setShipper(prev => ({ ...prev, address: e.target.value }))}
+              disabled={!!shipper.id}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Buyer (overseas consignee)</Label>
+            <ComboboxInput
+              type="exporter"
+              value={buyer.name}
+              initialEntities={savedBuyers}
+              placeholder="Select or enter buyer"
+              onChangeAction={async (value, entityId) => {
+                const selected = entityId ? savedBuyers.find(e => e.id === entityId) : undefined;
+                setBuyer(prev => selected
+                  ? {
+                      id: selected.id,
+                      name: selected.name,
+                      address: selected.address || '',
+                      contactPerson: selected.contactPerson,
+                      contactNumber: selected.contactNumber,
+                      email: selected.email
+                    }
+                  : { ...prev, id: undefined, name: value });
+              }}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Buyer Address</Label>
+            <Input
+              value={buyer.address}
+              onChange={(e) => setBuyer(prev => ({ ...prev, address: e.target.value }))}
+              disabled={!!buyer.id}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-4">Shipment Details</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Label>Port of Loading</Label>
+            <Input
+              value={details.port_of_loading}
+              onChange={(e) => updateDetails('port_of_loading', e.target.value)}
+              placeholder={details.mode === 'sea' ? 'e.g. Manila International Container Port' : 'e.g. NAIA'}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Port of Destination</Label>
+            <Input
+              value={details.port_of_destination}
+              onChange={(e) => updateDetails('port_of_destination', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Country of Destination</Label>
+            <Input
+              value={details.country_of_destination}
+              onChange={(e) => updateDetails('country_of_destination', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Booking Number</Label>
+            <Input
+              value={details.booking_number || ''}
+              onChange={(e) => updateDetails('booking_number', e.target.value)}
+            />
+          </div>
+          {details.mode === 'sea' ? (
+            <div className="space-y-2">
+              <Label>Vessel / Voyage</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={details.vessel_name || ''}
+                  onChange={(e) => updateDetails('vessel_name', e.target.value)}
+                  placeholder="Vessel"
+                />
+                <Input
+                  value={details.voyage_number || ''}
+                  onChange={(e) => updateDetails('voyage_number', e.target.value)}
+                  placeholder="Voyage"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Flight Number</Label>
+              <Input
+                value={details.flight_number || ''}
+                onChange={(e) => updateDetails('flight_number', e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>ETD</Label>
+            <Input
+              type="date"
+              value={details.etd || ''}
+              onChange={(e) => updateDetails('etd', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Terms of Delivery</Label>
+            <Select
+              value={details.terms_of_delivery || ''}
+              onValueChange={(value) => updateDetails('terms_of_delivery', value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select terms" />
+              </SelectTrigger>
+              <SelectContent>
+                {INCOTERMS.map(term => (
+                  <SelectItem key={term} value={term.split(' - ')[0]}>{term}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Invoice Currency</Label>
+            <Select
+              value={details.currency || DEFAULT_INVOICE_CURRENCY}
+              onValueChange={(value) => updateDetails('currency', value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Certificate of Origin</Label>
+            <Select
+              value={details.co_required === false ? 'no' : 'yes'}
+              onValueChange={(value) => updateDetails('co_required', value === 'yes')}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="yes">Required</SelectItem>
+                <SelectItem value="no">Not required</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Goods</h3>
+          <Button variant="outline" size="sm" onClick={() => setGoods(prev => [...prev, emptyGoods()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Line
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Description</TableHead>
+              <TableHead>HS Code</TableHead>
+              <TableHead>Quantity</TableHead>
+              <TableHead>Gross Wt (kg)</TableHead>
+              <TableHead>Net Wt (kg)</TableHead>
+              <TableHead>Invoice Value</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {goods.map((item, index) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <Input
+                    value={item.description}
+                    onChange={(e) => updateGoods(index, 'description', e.target.value)}
+                  />
+                </TableCell>
+                <TableCell className="min-w-[180px]">
+                  <HsCodeInput
+                    value={item.hsCode}
+                    onChangeAction={(value) => updateGoods(index, 'hsCode', value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={item.quantity || ''}
+                    onChange={(e) => updateGoods(index, 'quantity', parseFloat(e.target.value) || 0)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={item.grossWeight || ''}
+                    onChange={(e) => updateGoods(index, 'grossWeight', parseFloat(e.target.value) || 0)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={item.netWeight || ''}
+                    onChange={(e) => updateGoods(index, 'netWeight', parseFloat(e.target.value) || 0)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={item.invoiceValue || ''}
+                    onChange={(e) => updateGoods(index, 'invoiceValue', parseFloat(e.target.value) || 0)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setGoods(prev => prev.filter((_, i) => i !== index))}
+                    disabled={goods.length === 1}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onComplete} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Create Export
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NewExportForm;
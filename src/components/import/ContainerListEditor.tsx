@@ -0,0 +1,190 @@
+// src/components/import/ContainerListEditor.tsx
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, X } from 'lucide-react';
+import { CONTAINER_SIZE_TYPES, DEFAULT_CONTAINER_SIZE_TYPE } from '@/lib/constants/containers';
+import { isValidContainerNumber, normalizeContainerNumber } from '@/lib/utils/container';
+import type { CargoItem, ShipmentContainer } from '@/types/import/workflow';
+
+interface BlNumberListEditorProps {
+  value: string[];
+  onChange: (blNumbers: string[]) => void;
+}
+
+// One input per BL; the first is the one shown where a single BL is expected
+export const BlNumberListEditor: React.FC<BlNumberListEditorProps> = ({ value, onChange }) => {
+  const blNumbers = value.length ? value : [''];
+
+  return (
+    <div className="space-y-2">
+      {blNumbers.map((blNumber, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={blNumber}
+            onChange={(e) => onChange(blNumbers.map((bl, i) => (i === index ? e.target.value : bl)))}
+            placeholder={index === 0 ? 'Enter B/L number' : 'Enter additional B/L number'}
+          />
+          {blNumbers.length > 1 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(blNumbers.filter((_, i) => i !== index))}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...blNumbers, ''])}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add B/L
+      </Button>
+    </div>
+  );
+};
+
+interface ContainerListEditorProps {
+  containers: ShipmentContainer[];
+  blNumbers: string[];
+  cargo: Pick<CargoItem, 'id' | 'description'>[];
+  onChange: (containers: ShipmentContainer[]) => void;
+}
+
+export const ContainerListEditor: React.FC<ContainerListEditorProps> = ({ containers, blNumbers, cargo, onChange }) => {
+  const declaredBls = blNumbers.map(bl => bl.trim()).filter(Boolean);
+
+  const update = (index: number, changes: Partial<ShipmentContainer>) =>
+    onChange(containers.map((container, i) => (i === index ? { ...container, ...changes } : container)));
+
+  const toggleCargo = (index: number, cargoId: string) => {
+    const { cargoIds } = containers[index];
+    update(index, {
+      cargoIds: cargoIds.includes(cargoId) ? cargoIds.filter(id => id !== cargoId) : [...cargoIds, cargoId]
+    });
+  };
+
+  const handleAdd = () =>
+    onChange([
+      ...containers,
+      {
+        id: Math.random().toString(),
+        number: '',
+        sizeType: DEFAULT_CONTAINER_SIZE_TYPE,
+        sealNumber: '',
+        blNumber: declaredBls[0] || '',
+        cargoIds: []
+      }
+    ]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <Label>Containers</Label>
+        <Button variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Container
+        </Button>
+      </div>
+
+      {containers.length > 0 && (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Container No.</TableHead>
+                <TableHead>Size/Type</TableHead>
+                <TableHead>Seal No.</TableHead>
+                <TableHead>B/L</TableHead>
+                <TableHead>Cargo Lines</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {containers.map((container, index) => {
+                const number = normalizeContainerNumber(container.number);
+                const isInvalid = number.length === 11 && !isValidContainerNumber(number);
+                return (
+                  <TableRow key={container.id}>
+                    <TableCell className="min-w-[160px]">
+                      <Input
+                        value={container.number}
+                        onChange={(e) => update(index, { number: e.target.value.toUpperCase() })}
+                        onBlur={() => update(index, { number })}
+                        placeholder="MSKU1234565"
+                        className={isInvalid ? 'border-red-500' : undefined}
+                      />
+                      {isInvalid && <p className="text-xs text-red-500 mt-1">Check digit does not match</p>}
+                    </TableCell>
+                    <TableCell className="min-w-[180px]">
+                      <Select value={container.sizeType} onValueChange={(value) => update(index, { sizeType: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select size/type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONTAINER_SIZE_TYPES.map(type => (
+                            <SelectItem key={type.code} value={type.code}>
+                              {type.code} - {type.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="min-w-[120px]">
+                      <Input
+                        value={container.sealNumber}
+                        onChange={(e) => update(index, { sealNumber: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell className="min-w-[150px]">
+                      <Select
+                        value={container.blNumber}
+                        onValueChange={(value) => update(index, { blNumber: value })}
+                        disabled={declaredBls.length === 0}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select B/L" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {declaredBls.map(bl => (
+                            <SelectItem key={bl} value={bl}>{bl}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="min-w-[180px]">
+                      {cargo.length === 0 ? (
+                        <span className="text-sm text-gray-500">No cargo lines yet</span>
+                      ) : (
+                        <div className="space-y-1">
+                          {cargo.map((item, cargoIndex) => (
+                            <label key={item.id} className="flex items-center gap-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={container.cargoIds.includes(item.id)}
+                                onChange={() => toggleCargo(index, item.id)}
+                              />
+                              {item.description || `Item ${cargoIndex + 1}`}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onChange(containers.filter((_, i) => i !== index))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
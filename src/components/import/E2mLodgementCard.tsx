@@ -0,0 +1,167 @@
+// src/components/import/E2mLodgementCard.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { ArrowDownToLine, ArrowUpFromLine, FlaskConical, Loader2, Send, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+
+import {
+  exportE2mLodgementAction,
+  getE2mLodgementAction,
+  importE2mResponseAction,
+  simulateE2mResponseAction
+} from '@/app/actions/e2m';
+import { formatCurrencyAmount } from '@/lib/customs/currency';
+import { E2M_RESPONSE_LABELS, type E2mFormat, type E2mLodgementData, type E2mResponseType } from '@/types/e2m';
+import type { ShipmentData } from '@/types/import/workflow';
+
+interface E2mLodgementCardProps {
+  data: ShipmentData;
+  onUpdated: (data: ShipmentData) => void;
+}
+
+const downloadFile = (fileName: string, content: string, contentType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Lodging the declaration in E2M and filing the responses customs sends back
+export const E2mLodgementCard: React.FC<E2mLodgementCardProps> = ({ data, onUpdated }) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [lodgement, setLodgement] = useState<E2mLodgementData | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    getE2mLodgementAction(data.id).then(result => {
+      if (result.success) setLodgement(result.data);
+    });
+  }, [data.id]);
+
+  const handleExport = async (fileFormat: E2mFormat) => {
+    setBusy(fileFormat);
+    const result = await exportE2mLodgementAction(data.id, fileFormat);
+    setBusy(null);
+
+    if (!result.success) {
+      toast({ title: 'Cannot lodge', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setLodgement(result.data.lodgement);
+    downloadFile(result.data.file.fileName, result.data.file.content, result.data.file.contentType);
+  };
+
+  const handleResponse = async (
+    action: () => ReturnType<typeof importE2mResponseAction>
+  ) => {
+    const result = await action();
+    setBusy(null);
+
+    if (!result.success) {
+      toast({ title: 'Response not imported', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setLodgement(result.data.lodgement);
+    onUpdated(result.data.shipment);
+    toast({
+      title: 'Response imported',
+      description: result.data.pending.length
+        ? `Not advanced: ${result.data.pending.join('; ')}`
+        : `Shipment is now ${result.data.shipment.status}`,
+    });
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setBusy('import');
+    const content = await file.text();
+    await handleResponse(() => importE2mResponseAction(data.id, { fileName: file.name, content }));
+  };
+
+  const handleSimulate = async () => {
+    setBusy('simulate');
+    await handleResponse(() => simulateE2mResponseAction(data.id));
+  };
+
+  const isLodged = lodgement?.messages.some(message => message.direction === 'OUTBOUND') ?? false;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="w-5 h-5" />
+          E2M Lodgement
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lodgement && (lodgement.entryNumber || lodgement.assessedAmount !== null) && (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <p><span className="font-medium">Entry No:</span> {lodgement.entryNumber || '—'}</p>
+            <p>
+              <span className="font-medium">Assessment:</span>{' '}
+              {lodgement.assessedAmount !== null ? formatCurrencyAmount(lodgement.assessedAmount, 'PHP') : '—'}
+            </p>
+            <p><span className="font-medium">Payment Ref:</span> {lodgement.paymentReference || '—'}</p>
+            <p><span className="font-medium">Release Ref:</span> {lodgement.releaseReference || '—'}</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" disabled={busy !== null} onClick={() => handleExport('XML')}>
+            {busy === 'XML' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ArrowUpFromLine className="w-4 h-4 mr-2" />}
+            Export XML
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleExport('FLAT')}>
+            {busy === 'FLAT' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ArrowUpFromLine className="w-4 h-4 mr-2" />}
+            Export Flat File
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy !== null || !isLodged}
+            onClick={() => fileInput.current?.click()}
+          >
+            {busy === 'import' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Import Response
+          </Button>
+          <input ref={fileInput} type="file" accept=".xml,.txt" className="hidden" onChange={handleFile} />
+          {lodgement?.simulatorEnabled && (
+            <Button size="sm" variant="ghost" disabled={busy !== null || !isLodged} onClick={handleSimulate}>
+              {busy === 'simulate' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-2" />}
+              Simulate Next Response
+            </Button>
+          )}
+        </div>
+
+        {lodgement && lodgement.messages.length > 0 && (
+          <ul className="space-y-2">
+            {lodgement.messages.map(message => (
+              <li key={message.id} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  {message.direction === 'OUTBOUND'
+                    ? <ArrowUpFromLine className="w-4 h-4 text-blue-500" />
+                    : <ArrowDownToLine className="w-4 h-4 text-green-500" />}
+                  {message.direction === 'OUTBOUND'
+                    ? 'Declaration lodged'
+                    : E2M_RESPONSE_LABELS[message.type as E2mResponseType] ?? message.type}
+                  <Badge variant="outline">{message.format}</Badge>
+                </span>
+                <span className="text-gray-500">
+                  {message.actor?.name} · {format(new Date(message.createdAt), 'MMM d, yyyy HH:mm')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
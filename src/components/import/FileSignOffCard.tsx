@@ -0,0 +1,155 @@
+// src/components/import/FileSignOffCard.tsx
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { format } from 'date-fns';
+import { CheckCircle, Loader2, Lock, Unlock, XCircle } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+
+import { closeShipmentFileAction, unlockShipmentAction } from '@/app/actions/import';
+import { checkCloseFile } from '@/lib/utils/workflow';
+import { getPermissionGrant } from '@/lib/utils/permissions';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { User } from '@/types/auth';
+
+interface FileSignOffCardProps {
+  data: ShipmentData;
+  currentUser: User;
+  onUpdated: (data: ShipmentData) => void;
+}
+
+// Closing a delivered file under the approver's sign-off, and reopening it
+export const FileSignOffCard: React.FC<FileSignOffCardProps> = ({ data, currentUser, onUpdated }) => {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<'close' | 'unlock' | null>(null);
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canClose = getPermissionGrant(currentUser.role, 'lock') !== null;
+  const canUnlock = getPermissionGrant(currentUser.role, 'unlock') !== null;
+  const unmet = checkCloseFile(data);
+
+  const closeDialog = () => {
+    setDialog(null);
+    setText('');
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const result = dialog === 'unlock'
+      ? await unlockShipmentAction(data.id, text)
+      : await closeShipmentFileAction(data.id, text);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({
+        title: dialog === 'unlock' ? 'Unlock failed' : 'Cannot close file',
+        description: result.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    onUpdated(result.data);
+    toast({
+      title: 'Success',
+      description: dialog === 'unlock' ? 'Shipment unlocked' : 'File closed and locked',
+    });
+    closeDialog();
+  };
+
+  if (!data.isLocked && data.status !== 'DELIVERED') return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {data.isLocked ? <Lock className="w-5 h-5" /> : <CheckCircle className="w-5 h-5" />}
+          {data.isLocked ? 'File Closed' : 'Close File'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.isLocked ? (
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm space-y-1">
+              {data.signOff && (
+                <p>
+                  Signed off by <span className="font-medium">{data.signOff.approver.name}</span> on{' '}
+                  {format(new Date(data.signOff.approvedAt), 'MMM d, yyyy HH:mm')}
+                </p>
+              )}
+              {data.signOff?.remarks && (
+                <p className="text-gray-500">{data.signOff.remarks}</p>
+              )}
+              <p className="text-gray-500">This shipment is locked and can no longer be changed.</p>
+            </div>
+            {canUnlock && (
+              <Button variant="outline" size="sm" onClick={() => setDialog('unlock')}>
+                <Unlock className="w-4 h-4 mr-2" />
+                Unlock
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {unmet.length > 0 ? (
+              <ul className="space-y-1 text-sm">
+                {unmet.map(reason => (
+                  <li key={reason} className="flex items-center gap-2 text-red-600">
+                    <XCircle className="w-4 h-4" />
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">
+                All required documents are final and duties are on record.
+              </p>
+            )}
+            {canClose && (
+              <Button onClick={() => setDialog('close')} disabled={unmet.length > 0}>
+                <Lock className="w-4 h-4 mr-2" />
+                Sign Off &amp; Close File
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === 'unlock' ? 'Unlock Shipment' : 'Sign Off & Close File'}</DialogTitle>
+          </DialogHeader>
+          <div className="py-4 space-y-2">
+            <p className="text-sm text-gray-500">
+              {dialog === 'unlock'
+                ? 'The sign-off is withdrawn and the reason is recorded in the shipment timeline.'
+                : `You are signing off ${data.referenceNumber} as ${currentUser.name}. The shipment will be locked against further changes.`}
+            </p>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={dialog === 'unlock' ? 'Reason for unlocking' : 'Remarks (optional)'}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialog === 'unlock' ? 'destructive' : 'default'}
+              onClick={handleSubmit}
+              disabled={isSubmitting || (dialog === 'unlock' && !text.trim())}
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {dialog === 'unlock' ? 'Unlock' : 'Sign Off'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+// src/components/import/FreeTimeCard.tsx
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { format } from 'date-fns';
+import { Edit, Hourglass, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+
+import { getShipmentFreeTimeAction, recordContainerMovesAction } from '@/app/actions/demurrage';
+import { formatCurrencyAmount } from '@/lib/customs/currency';
+import { formatDaysLeft } from '@/lib/utils/demurrage';
+import type { ContainerFreeTime, FreeTimeCharge, ShipmentFreeTime } from '@/types/demurrage';
+import type { ShipmentData } from '@/types/import/workflow';
+
+interface FreeTimeCardProps {
+  data: ShipmentData;
+}
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), 'MMM dd, yyyy') : '—');
+
+// Date inputs take local yyyy-MM-dd
+const toDateInput = (value?: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+const daysLeftClass = (daysLeft: number) =>
+  daysLeft < 0 ? 'text-red-600' : daysLeft <= 2 ? 'text-amber-600' : 'text-green-600';
+
+const ChargeCell: React.FC<{ charge: FreeTimeCharge }> = ({ charge }) => {
+  if (charge.status === 'not_started') {
+    return <span className="text-gray-500">Not started</span>;
+  }
+  if (charge.status === 'no_rule') {
+    return <span className="text-gray-500">{charge.daysUsed} days, no rule</span>;
+  }
+  return (
+    <div className="space-y-0.5">
+      <p>
+        Day {charge.daysUsed} of {charge.freeDays} free
+        {charge.status === 'stopped' && <span className="text-gray-500"> (ended {formatDate(charge.endedAt)})</span>}
+      </p>
+      {charge.status === 'running' && charge.daysLeft !== null && (
+        <p className={`text-xs ${daysLeftClass(charge.daysLeft)}`}>
+          {formatDaysLeft(charge.daysLeft)} · free until {formatDate(charge.freeUntil)}
+        </p>
+      )}
+      {charge.cost > 0 && charge.currency && (
+        <p className="text-xs font-medium">{formatCurrencyAmount(charge.cost, charge.currency)}</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Demurrage and detention per container against the shipping line's
+ * free-time rules, costed to today while the clock is running.
+ */
+export const FreeTimeCard: React.FC<FreeTimeCardProps> = ({ data }) => {
+  const { toast } = useToast();
+  const [freeTime, setFreeTime] = useState<ShipmentFreeTime | null>(null);
+  const [editing, setEditing] = useState<ContainerFreeTime | null>(null);
+  const [pulledOutAt, setPulledOutAt] = useState('');
+  const [emptyReturnedAt, setEmptyReturnedAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getShipmentFreeTimeAction(data.id).then(result => {
+      if (result.success) setFreeTime(result.data);
+    });
+  }, [data]);
+
+  const handleEdit = (container: ContainerFreeTime) => {
+    setPulledOutAt(container.pullOutRecorded ? toDateInput(container.pulledOutAt) : '');
+    setEmptyReturnedAt(toDateInput(container.emptyReturnedAt));
+    setEditing(container);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    const result = await recordContainerMovesAction(data.id, editing.containerId, {
+      pulledOutAt: pulledOutAt || null,
+      emptyReturnedAt: emptyReturnedAt || null
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({ title: 'Not saved', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setFreeTime(result.data);
+    setEditing(null);
+  };
+
+  if (!freeTime || freeTime.containers.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Hourglass className="w-5 h-5" />
+            Demurrage & Detention
+          </span>
+          {freeTime.daysLeft !== null && (
+            <Badge variant={freeTime.daysLeft < 0 ? 'destructive' : 'outline'} className={daysLeftClass(freeTime.daysLeft)}>
+              {formatDaysLeft(freeTime.daysLeft)}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <p><span className="font-medium">Shipping Line:</span> {freeTime.shippingLine || 'Not set'}</p>
+          <p><span className="font-medium">Discharged:</span> {formatDate(freeTime.dischargedAt)}</p>
+          <p>
+            <span className="font-medium">Running Cost:</span>{' '}
+            {freeTime.totals.length
+              ? freeTime.totals.map(total => formatCurrencyAmount(total.amount, total.currency)).join(' + ')
+              : 'None'}
+          </p>
+        </div>
+
+        {!freeTime.shippingLine && (
+          <p className="text-sm text-gray-500">
+            Set the shipping line under Containers & Bills of Lading to apply its free-time rules.
+          </p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Container No.</TableHead>
+              <TableHead>Demurrage</TableHead>
+              <TableHead>Pulled Out</TableHead>
+              <TableHead>Detention</TableHead>
+              <TableHead>Empty Returned</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {freeTime.containers.map(container => (
+              <TableRow key={container.containerId}>
+                <TableCell className="font-mono">{container.number}</TableCell>
+                <TableCell><ChargeCell charge={container.demurrage} /></TableCell>
+                <TableCell>{formatDate(container.pulledOutAt)}</TableCell>
+                <TableCell><ChargeCell charge={container.detention} /></TableCell>
+                <TableCell>{formatDate(container.emptyReturnedAt)}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleEdit(container)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Movements for {editing?.number}</DialogTitle>
+              <DialogDescription>
+                Leave the pull-out date blank to use the day the shipment went into transit
+                {freeTime.workflowPulledOutAt ? ` (${formatDate(freeTime.workflowPulledOutAt)})` : ''}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Pulled Out</Label>
+                <Input type="date" value={pulledOutAt} onChange={(e) => setPulledOutAt(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Empty Returned</Label>
+                <Input type="date" value={emptyReturnedAt} onChange={(e) => setEmptyReturnedAt(e.target.value)} />
+              </div>
+            </div>
+            <DialogFooter>
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin self-center" />}
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={isSaving}>Save</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
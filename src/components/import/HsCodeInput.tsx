@@ -0,0 +1,129 @@
+// src/components/import/HsCodeInput.tsx
+'use client'
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+import { Input } from '@/components/ui/input'
+import { formatHsCode, isValidHsCode } from '@/lib/customs/hs-code'
+import { searchTariffAction, getTariffRatesAction } from '@/app/actions/tariff'
+import type { TariffLookupResult } from '@/types/tariff'
+
+interface HsCodeInputProps {
+  value: string;
+  onChangeAction: (value: string, match?: TariffLookupResult) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const SEARCH_DELAY_MS = 300
+
+export function HsCodeInput({
+  value = '',
+  onChangeAction,
+  placeholder = 'Search code or description',
+  className
+}: HsCodeInputProps) {
+  const [open, setOpen] = React.useState(false)
+  const [suggestions, setSuggestions] = React.useState<TariffLookupResult[]>([])
+  const [match, setMatch] = React.useState<TariffLookupResult | null>(null)
+  const [isChecking, setIsChecking] = React.useState(false)
+
+  // Suggestions while typing
+  React.useEffect(() => {
+    if (!open || value.trim().length < 2) {
+      setSuggestions([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      setSuggestions(await searchTariffAction(value))
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [value, open])
+
+  // Validate the current value against the schedule
+  React.useEffect(() => {
+    if (!isValidHsCode(value)) {
+      setMatch(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      setIsChecking(true)
+      try {
+        const rates = await getTariffRatesAction([value])
+        setMatch(rates[value] ?? null)
+      } finally {
+        setIsChecking(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [value])
+
+  const handleSelect = (result: TariffLookupResult) => {
+    onChangeAction(result.code, result)
+    setOpen(false)
+  }
+
+  const renderStatus = () => {
+    if (!value) return null
+    if (!isValidHsCode(value)) {
+      return <span className="text-xs text-red-500">Use an 8-digit AHTN code (0000.00.00)</span>
+    }
+    if (isChecking) {
+      return <span className="text-xs text-muted-foreground">Checking tariff...</span>
+    }
+    if (!match) {
+      return <span className="text-xs text-red-500">Not in the tariff schedule</span>
+    }
+    return (
+      <span className="text-xs text-green-700">
+        MFN {match.mfnRate ?? '-'}%
+        {match.preferentialRates.length > 0 && (
+          <> · {match.preferentialRates.map(p => `${p.agreement} ${p.rate}%`).join(', ')}</>
+        )}
+      </span>
+    )
+  }
+
+  return (
+    <div className={cn("relative w-full", className)}>
+      <Input
+        value={value}
+        onChange={(e) => onChangeAction(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          // Let a click on a suggestion land before closing
+          setTimeout(() => setOpen(false), 150)
+          if (isValidHsCode(value) && formatHsCode(value) !== value) {
+            onChangeAction(formatHsCode(value))
+          }
+        }}
+        placeholder={placeholder}
+      />
+      <div className="mt-1 min-h-[1rem]">{renderStatus()}</div>
+
+      {open && suggestions.length > 0 && (
+        <div className="absolute z-50 w-[28rem] mt-1 max-h-[240px] overflow-y-auto bg-popover rounded-md border shadow-md">
+          {suggestions.map(result => (
+            <button
+              key={result.code}
+              type="button"
+              className="w-full text-left px-3 py-2 hover:bg-accent"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(result)}
+            >
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{result.code}</span>
+                <span className="text-muted-foreground">MFN {result.mfnRate ?? '-'}%</span>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">{result.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
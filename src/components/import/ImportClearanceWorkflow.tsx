@@ -3,21 +3,28 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
 import { Edit, Loader2 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/components/ui/use-toast';
 
-import { uploadDocument, updateShipment } from '@/lib/db/import';
 import { WORKFLOW_STATES, REQUIRED_DOCUMENTS } from '@/lib/constants/workflow-states';
 import type { DocumentData, DocumentStatus, ShipmentData, WorkflowStageStatus } from '@/types/import/workflow';
 import type { ImportTransactionType } from '@/lib/utils/reference-number';
-import { createShipmentAction, processDocumentUploadAction, updateShipmentDetailsAction } from '@/app/actions/import';
+import { createShipmentAction, processDocumentUploadAction, updateShipmentDetailsAction, updateShipmentStatusAction } from '@/app/actions/import';
+import { getLatestStageStatus, getNextStage, IMPORT_WORKFLOW, ROLLBACK_ROLES, WORKFLOW_STAGES, type WorkflowStage } from '@/lib/utils/workflow';
 import { CardLayout } from './cards/CardLayout';
+import { ContainersCard } from './cards/ShipmentCards';
+import { FreeTimeCard } from './FreeTimeCard';
 import { StatementOfFacts } from './StatementOfFacts';
+import { FileSignOffCard } from './FileSignOffCard';
+import { SadDeclarationCard } from './SadDeclarationCard';
+import { E2mLodgementCard } from './E2mLodgementCard';
 import { ConfirmationDialog } from './dialogs/ConfirmationDialog';
 import type { ImportWorkflowState } from '@/types/import/state';
 import ModernWorkflowLayout from './layout/ModernWorkflowLayout';
 import ClientDetailsForm from './forms/ClientDetailsForm';
+import TaxComputationForm from './forms/TaxComputationForm';
 import WorkflowEditDialog from './dialogs/WorkflowEditDialog';
 import { useAuth } from '@/components/layout/AuthProvider';
 import { checkUserPermissions } from '@/app/actions/auth'
@@ -96,6 +103,7 @@ const ImportClearanceWorkflow: React.FC<ImportClearanceWorkflowProps> = ({ initi
     timeline: [],
     notes: [],
     cargo: [],
+    containers: [],
     statementOfFacts: [],
     computations: null
   });
@@ -190,11 +198,11 @@ const ImportClearanceWorkflow: React.FC<ImportClearanceWorkflowProps> = ({ initi
     const currentIndex = states.indexOf(state.currentState);
     const stageIndex = states.indexOf(stage);
     
-    const timeline = shipmentData.timeline.find(t => t.stage === stage);
+    const latestStatus = getLatestStageStatus(shipmentData, stage);
     
     // If we have a timeline entry, use its status
-    if (timeline) {
-      return timeline.status;
+    if (latestStatus) {
+      return latestStatus;
     }
     
     // If no timeline entry, determine based on position
@@ -207,32 +215,67 @@ const ImportClearanceWorkflow: React.FC<ImportClearanceWorkflowProps> = ({ initi
     }
   };
 
-  // Stage completion handler to use API
+  // Stage completion handler; the server checks the transition's guard
   const handleStageCompletion = async () => {
-    try {
-      await updateShipment(shipmentData.id, {
-        timeline: [
-          ...shipmentData.timeline,
-          {
-            stage: state.currentState,
-            status: 'complete' as WorkflowStageStatus,
-            timestamp: new Date().toISOString()
-          }
-        ]
+    const nextStage = getNextStage(IMPORT_WORKFLOW, state.currentState);
+    if (!nextStage) return;
+
+    const result = await updateShipmentStatusAction(shipmentData.id, nextStage, {
+      partial: state.confirmationType === 'partial'
+    });
+    setState(prev => ({ ...prev, showConfirmDialog: false }));
+
+    if (!result.success) {
+      toast({
+        title: 'Cannot complete stage',
+        description: result.error,
+        variant: 'destructive',
       });
-  
-      const states = Object.keys(WORKFLOW_STATES);
-      const currentIndex = states.indexOf(state.currentState);
-      if (currentIndex < states.length - 1) {
-        setState(prev => ({
-          ...prev,
-          currentState: states[currentIndex + 1] as keyof typeof WORKFLOW_STATES,
-          showConfirmDialog: false
-        }));
-      }
-    } catch (error) {
-      console.error('Error completing stage:', error);
+      return;
     }
+
+    setShipmentData(result.data);
+    setState(prev => ({
+      ...prev,
+      currentState: result.data.status as keyof typeof WORKFLOW_STATES
+    }));
+  };
+
+  // Rollback to an earlier stage, restricted to ROLLBACK_ROLES; a closed file must be unlocked first
+  const canRollback = !!user && ROLLBACK_ROLES.includes(user.role) && !shipmentData.isLocked;
+  const [rollback, setRollback] = useState<{
+    stage: keyof typeof WORKFLOW_STATES | null;
+    reason: string;
+    isSubmitting: boolean;
+  }>({ stage: null, reason: '', isSubmitting: false });
+
+  const handleRollback = async () => {
+    if (!rollback.stage) return;
+
+    setRollback(prev => ({ ...prev, isSubmitting: true }));
+    const result = await updateShipmentStatusAction(shipmentData.id, rollback.stage, {
+      reason: rollback.reason
+    });
+    setRollback({ stage: null, reason: '', isSubmitting: false });
+
+    if (!result.success) {
+      toast({
+        title: 'Rollback failed',
+        description: result.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setShipmentData(result.data);
+    setState(prev => ({
+      ...prev,
+      currentState: result.data.status as keyof typeof WORKFLOW_STATES
+    }));
+    toast({
+      title: 'Success',
+      description: `Shipment rolled back to ${WORKFLOW_STATES[rollback.stage].label}`,
+    });
   };
 
   const [editDialog, setEditDialog] = useState<{
@@ -316,14 +359,19 @@ const ImportClearanceWorkflow: React.FC<ImportClearanceWorkflowProps> = ({ initi
 
 
   // Document Upload Handler
-  const handleDocumentUpload = async (file: File, documentType: string) => {
+  const handleDocumentUpload = async (
+    file: File,
+    documentType: string,
+    status: 'draft' | 'final' = 'draft'
+  ) => {
     try {
       if (!shipmentData?.id) return;
   
       const result = await processDocumentUploadAction(
         shipmentData.id,
         documentType,
-        file
+        file,
+        status
       );
   
       if (result.success) {
@@ -341,7 +389,8 @@ const ImportClearanceWorkflow: React.FC<ImportClearanceWorkflowProps> = ({ initi
   
         setShipmentData(prev => ({
           ...prev,
-          documents: updatedDocuments
+          documents: updatedDocuments,
+          statementOfFacts: result.statementOfFacts
         }));
   
         toast({
@@ -460,7 +509,14 @@ const WorkflowTimeline: React.FC = () => {
               <div
                 className={`z-10 flex items-center justify-center w-10 h-10 rounded-full 
                   ${getIconColor()}
-                  ${isCurrent ? 'ring-2 ring-offset-2 ring-blue-500' : ''}`}
+                  ${isCurrent ? 'ring-2 ring-offset-2 ring-blue-500' : ''}
+                  ${canRollback && index < currentIndex ? 'cursor-pointer' : ''}`}
+                title={canRollback && index < currentIndex ? 'Roll back to this stage' : undefined}
+                onClick={() => {
+                  if (canRollback && index < currentIndex) {
+                    setRollback({ stage: key as keyof typeof WORKFLOW_STATES, reason: '', isSubmitting: false });
+                  }
+                }}
               >
                 <StateIcon className="w-5 h-5" />
               </div>
@@ -485,7 +541,7 @@ const DocumentUploadDialog: React.FC = () => {
   const handleUpload = async () => {
     if (!file || !state.selectedDocument) return;
     
-    await handleDocumentUpload(file, state.selectedDocument);
+    await handleDocumentUpload(file, state.selectedDocument, uploadType);
     setState(prev => ({ ...prev, showUploadDialog: false, selectedDocument: null }));
     setFile(null);
   };
@@ -583,6 +639,7 @@ return (
       stageStatus={getStageStatus(state.currentState)}
       shipmentData={shipmentData}
       onRefresh={() => window.location.reload()}
+      onShowHistory={() => router.push(`/admin/services/import/${shipmentData.id}/history`)}
     >
     <Card className="mt-6">
       <CardHeader>
@@ -609,6 +666,19 @@ return (
   />
 )}
           
+          {state.currentState === 'TAX_COMPUTATION' && (
+            <TaxComputationForm
+              data={shipmentData}
+              onComputed={(computations) => setShipmentData(prev => ({ ...prev, computations }))}
+              onConfirm={() => setState(prev => ({
+                ...prev,
+                showConfirmDialog: true,
+                confirmationType: 'complete',
+                missingFields: []
+              }))}
+            />
+          )}
+
           {state.currentState === 'DOCUMENT_COLLECTION' && (
             <div className="space-y-4">
               {shipmentData.documents.map((doc) => (
@@ -657,16 +727,35 @@ return (
       </CardContent>
     </Card>
 
+    {state.freightType === 'IMS' && (
+      <>
+        <ContainersCard data={shipmentData} onUpdate={handleUpdate} />
+        <FreeTimeCard data={shipmentData} />
+      </>
+    )}
+
     {/* Statement of Facts */}
-    <StatementOfFacts 
-      data={shipmentData} 
-      onUpdate={updateShipmentData}
-      currentUser={{ 
-        id: '1',
-        name: 'John Doe'
-      }}
+    <StatementOfFacts
+      data={shipmentData}
+      onEventsChanged={(statementOfFacts) => setShipmentData(prev => ({ ...prev, statementOfFacts }))}
     />
 
+    {WORKFLOW_STAGES.indexOf(shipmentData.status as WorkflowStage) >= WORKFLOW_STAGES.indexOf('TAX_COMPUTATION') && (
+      <SadDeclarationCard data={shipmentData} />
+    )}
+
+    {WORKFLOW_STAGES.indexOf(shipmentData.status as WorkflowStage) >= WORKFLOW_STAGES.indexOf('READY_FOR_LODGEMENT') && (
+      <E2mLodgementCard data={shipmentData} onUpdated={setShipmentData} />
+    )}
+
+    {user && (
+      <FileSignOffCard
+        data={shipmentData}
+        currentUser={user}
+        onUpdated={setShipmentData}
+      />
+    )}
+
     <ConfirmationDialog 
       isOpen={state.showConfirmDialog}
       onClose={() => setState(prev => ({ ...prev, showConfirmDialog: false }))}
@@ -687,6 +776,45 @@ return (
     )}
 
     <DocumentUploadDialog />
+
+    <Dialog
+      open={!!rollback.stage}
+      onOpenChange={(open) => !open && setRollback({ stage: null, reason: '', isSubmitting: false })}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Roll back to {rollback.stage ? WORKFLOW_STATES[rollback.stage].label : ''}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-4 space-y-2">
+          <p className="text-sm text-gray-500">
+            The reason is recorded in the shipment timeline.
+          </p>
+          <Textarea
+            value={rollback.reason}
+            onChange={(e) => setRollback(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="Reason for rollback"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setRollback({ stage: null, reason: '', isSubmitting: false })}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleRollback}
+            disabled={!rollback.reason.trim() || rollback.isSubmitting}
+          >
+            {rollback.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Roll Back
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
   </ModernWorkflowLayout>
 );
 };
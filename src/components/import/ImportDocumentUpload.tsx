@@ -1,18 +1,23 @@
 // src/components/import/ImportDocumentUpload.tsx
 import React from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { Upload, FileUp, Loader2 } from 'lucide-react';
+import { Upload, FileUp, Loader2, ScanText } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
+import { ALLOWED_UPLOAD_TYPES, UPLOAD_ACCEPT, UPLOAD_TYPES_LABEL } from '@/lib/constants/storage';
+import { extractInvoiceAction } from '@/app/actions/invoice-extraction';
 import type { DocumentType } from '@/types/import/index';
+import type { InvoiceExtraction } from '@/types/invoice-extraction';
 
 interface ImportDocumentUploadProps {
+  // Without a shipment to attach it to, the file can only be read for goods, not uploaded
   clearanceId?: string;
   documentType: DocumentType;
   maxFileSize?: number;
   onUploadSuccess?: (fileUrl: string) => void;
+  // Offers to read goods rows from invoices and packing lists
+  onExtracted?: (extraction: InvoiceExtraction) => void;
 }
 
 interface UploadResponse {
@@ -27,58 +32,79 @@ const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
   other: 'Other Document'
 } as const;
 
+const EXTRACTABLE_TYPES: DocumentType[] = ['commercial_invoice', 'packing_list'];
+
 const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
   clearanceId,
   documentType,
   maxFileSize = 5 * 1024 * 1024,
-  onUploadSuccess
+  onUploadSuccess,
+  onExtracted
 }) => {
   const [file, setFile] = React.useState<File | null>(null);
+  const [pending, setPending] = React.useState<'upload' | 'extract' | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
   const { toast } = useToast();
-  
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File): Promise<UploadResponse> => {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('documentType', documentType);
-      if (clearanceId) {
-        formData.append('clearanceId', clearanceId);
-      }
-      
-      try {
-        // Using server action directly
-        const response = await fetch('/api/upload', {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.message || 'Upload failed');
-        }
-
-        return response.json();
-      } catch (error) {
-        console.error('Upload error:', error);
-        throw error;
-      }
-    },
-    onSuccess: (data) => {
-      toast({
-        title: 'Success',
-        description: `${DOCUMENT_TYPE_LABELS[documentType]} uploaded successfully`,
-        variant: 'default',
-      });
-      onUploadSuccess?.(data.fileUrl);
-      setFile(null);
-    },
-    onError: (error: Error) => {
+  const canExtract = Boolean(onExtracted) && EXTRACTABLE_TYPES.includes(documentType);
+
+  const run = async (kind: 'upload' | 'extract', task: (file: File) => Promise<void>) => {
+    if (!file) return;
+    setPending(kind);
+    setError(null);
+    try {
+      await task(file);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to process document';
+      setError(message);
       toast({
         title: 'Error',
-        description: error.message || 'Failed to upload document',
+        description: message,
         variant: 'destructive',
       });
-    },
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleUpload = () => run('upload', async (file) => {
+    // Target fields go before the file so the server can check ownership first
+    const formData = new FormData();
+    formData.append('documentType', documentType);
+    if (clearanceId) {
+      formData.append('clearanceId', clearanceId);
+    }
+    formData.append('file', file);
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Upload failed');
+    }
+    const data: UploadResponse = await response.json();
+
+    toast({
+      title: 'Success',
+      description: `${DOCUMENT_TYPE_LABELS[documentType]} uploaded successfully`,
+      variant: 'default',
+    });
+    onUploadSuccess?.(data.fileUrl);
+    setFile(null);
+  });
+
+  const handleExtract = () => run('extract', async (file) => {
+    const formData = new FormData();
+    formData.append('documentType', documentType);
+    if (clearanceId) {
+      formData.append('clearanceId', clearanceId);
+    }
+    formData.append('file', file);
+
+    const result = await extractInvoiceAction(formData);
+    if (!result.success) throw new Error(result.error);
+    onExtracted?.(result.data);
   });
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -95,20 +121,11 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
       return;
     }
     
-    // Allow only PDF and image files
-    const allowedTypes = [
-      'application/pdf', 
-      'image/jpeg', 
-      'image/png',
-      'application/msword',                                                  // .doc
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
-      'application/vnd.ms-word'                                             // Alternative Word format
-    ];
-    
-    if (!allowedTypes.includes(selectedFile.type)) {
+    // The same types the upload route accepts
+    if (!ALLOWED_UPLOAD_TYPES.includes(selectedFile.type)) {
       toast({
         title: 'Error',
-        description: 'Only PDF, Word, JPEG, and PNG files are allowed',
+        description: `Only ${UPLOAD_TYPES_LABEL} files are allowed`,
         variant: 'destructive',
       });
       return;
@@ -117,11 +134,6 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
     setFile(selectedFile);
     };
     
-    const handleUpload = () => {
-      if (!file) return;
-      uploadMutation.mutate(file);
-    };
-    
     return (
       <Card className="w-full">
         <CardHeader>
@@ -131,7 +143,7 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
           <div className="space-y-4">
             <div 
               className={`border-2 border-dashed rounded-lg p-6 text-center 
-                ${uploadMutation.isPending ? 'bg-gray-50' : 'hover:bg-gray-50'} 
+                ${pending ? 'bg-gray-50' : 'hover:bg-gray-50'} 
                 transition-colors duration-150`}
             >
               <input
@@ -139,8 +151,8 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
                 onChange={handleFileChange}
                 className="hidden"
                 id={`file-upload-${documentType}`}
-                accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
-                disabled={uploadMutation.isPending}
+                accept={UPLOAD_ACCEPT}
+                disabled={pending !== null}
               />
               <label
                 htmlFor={`file-upload-${documentType}`}
@@ -151,18 +163,18 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
                   {file ? file.name : 'Click to select file'}
                 </span>
                 <span className="text-xs text-gray-400">
-                  PDF, Word, JPEG, or PNG (Max {maxFileSize / (1024 * 1024)}MB)
+                  {UPLOAD_TYPES_LABEL} (Max {maxFileSize / (1024 * 1024)}MB)
                 </span>
               </label>
             </div>
 
-          {file && (
+          {file && clearanceId && (
             <Button
               onClick={handleUpload}
               className="w-full"
-              disabled={uploadMutation.isPending}
+              disabled={pending !== null}
             >
-              {uploadMutation.isPending ? (
+              {pending === 'upload' ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Uploading...
@@ -176,12 +188,31 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
             </Button>
           )}
 
-          {uploadMutation.isError && (
+          {file && canExtract && (
+            <Button
+              variant="outline"
+              onClick={handleExtract}
+              className="w-full"
+              disabled={pending !== null}
+            >
+              {pending === 'extract' ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Reading document...
+                </>
+              ) : (
+                <>
+                  <ScanText className="mr-2 h-4 w-4" />
+                  Extract Goods
+                </>
+              )}
+            </Button>
+          )}
+
+          {error && (
             <Alert variant="destructive">
               <AlertTitle>Error</AlertTitle>
-              <AlertDescription>
-                {uploadMutation.error.message || 'Failed to upload document'}
-              </AlertDescription>
+              <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
         </div>
@@ -190,4 +221,4 @@ const ImportDocumentUpload: React.FC<ImportDocumentUploadProps> = ({
   );
 };
 
-export default ImportDocumentUpload;
\ No newline at end of file
+export default ImportDocumentUpload;
@@ -0,0 +1,176 @@
+// src/components/import/InvoiceExtractionReview.tsx
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { CargoItem } from '@/types/import/workflow';
+import type { ExtractedField, InvoiceExtraction } from '@/types/invoice-extraction';
+
+interface InvoiceExtractionReviewProps {
+  extraction: InvoiceExtraction;
+  onAccept: (items: Omit<CargoItem, 'id'>[]) => void;
+  onCancel: () => void;
+}
+
+// Rows below this are left unticked so the user looks at them first
+const ACCEPT_THRESHOLD = 0.6;
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.85
+    ? 'bg-green-100 text-green-800'
+    : confidence >= ACCEPT_THRESHOLD
+      ? 'bg-amber-100 text-amber-800'
+      : 'bg-red-100 text-red-800';
+
+const ConfidenceBadge: React.FC<{ confidence: number }> = ({ confidence }) => (
+  <Badge variant="outline" className={`border-transparent ${confidenceClass(confidence)}`}>
+    {Math.round(confidence * 100)}%
+  </Badge>
+);
+
+const NUMERIC_FIELDS: Array<{ field: Exclude<ExtractedField, 'description' | 'hsCode'>; label: string }> = [
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'invoiceValue', label: 'Value' },
+  { field: 'netWeight', label: 'Net Wt' },
+  { field: 'grossWeight', label: 'Gross Wt' }
+];
+
+/**
+ * The goods rows read from an invoice or packing list, editable before
+ * they are added. Fields the engine was unsure of are outlined.
+ */
+export const InvoiceExtractionReview: React.FC<InvoiceExtractionReviewProps> = ({
+  extraction,
+  onAccept,
+  onCancel
+}) => {
+  const [rows, setRows] = React.useState(() =>
+    extraction.lines.map(line => ({ ...line, selected: line.confidence >= ACCEPT_THRESHOLD }))
+  );
+  const selectedCount = rows.filter(row => row.selected).length;
+
+  const updateRow = (index: number, changes: Partial<(typeof rows)[number]['item']>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, item: { ...row.item, ...changes } } : row)));
+  };
+
+  const fieldClass = (fields: Partial<Record<ExtractedField, number>>, field: ExtractedField) =>
+    fields[field] !== undefined && fields[field]! < ACCEPT_THRESHOLD ? 'border-red-400' : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <div>
+          <span className="text-gray-500">Invoice No: </span>
+          {extraction.invoiceNumber ? (
+            <>
+              <span className="font-medium">{extraction.invoiceNumber.value}</span>{' '}
+              <ConfidenceBadge confidence={extraction.invoiceNumber.confidence} />
+            </>
+          ) : 'Not found'}
+        </div>
+        <div>
+          <span className="text-gray-500">Currency: </span>
+          {extraction.currency ? (
+            <>
+              <span className="font-medium">{extraction.currency.value}</span>{' '}
+              <ConfidenceBadge confidence={extraction.currency.confidence} />
+            </>
+          ) : 'Not found'}
+        </div>
+        {extraction.total !== null && (
+          <div>
+            <span className="text-gray-500">Document Total: </span>
+            <span className="font-medium">{extraction.total.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="text-gray-500">
+          {extraction.engine === 'text-layer' ? 'Read from the PDF text' : 'Read by OCR'}
+        </div>
+      </div>
+
+      {extraction.warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {extraction.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="overflow-x-auto max-h-[50vh]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8"></TableHead>
+              <TableHead>Description</TableHead>
+              {NUMERIC_FIELDS.map(({ field, label }) => <TableHead key={field}>{label}</TableHead>)}
+              <TableHead>HS Code</TableHead>
+              <TableHead>Confidence</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No goods lines were found in this document
+                </TableCell>
+              </TableRow>
+            ) : rows.map((row, index) => (
+              <TableRow key={index} title={row.sourceText}>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    checked={row.selected}
+                    onChange={(e) => setRows(prev => prev.map((r, i) => (i === index ? { ...r, selected: e.target.checked } : r)))}
+                  />
+                </TableCell>
+                <TableCell className="min-w-[200px]">
+                  <Input
+                    value={row.item.description}
+                    className={fieldClass(row.fields, 'description')}
+                    onChange={(e) => updateRow(index, { description: e.target.value })}
+                  />
+                </TableCell>
+                {NUMERIC_FIELDS.map(({ field }) => (
+                  <TableCell key={field} className="min-w-[90px]">
+                    <Input
+                      type="number"
+                      value={row.item[field]}
+                      className={fieldClass(row.fields, field)}
+                      onChange={(e) => updateRow(index, { [field]: parseFloat(e.target.value) || 0 })}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="min-w-[110px]">
+                  <Input
+                    value={row.item.hsCode}
+                    className={fieldClass(row.fields, 'hsCode')}
+                    onChange={(e) => updateRow(index, { hsCode: e.target.value.replace(/\D/g, '').slice(0, 8) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <ConfidenceBadge confidence={row.confidence} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button
+          disabled={selectedCount === 0}
+          onClick={() => onAccept(rows.filter(row => row.selected).map(row => row.item))}
+        >
+          Add {selectedCount} Item{selectedCount === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </div>
+  );
+};
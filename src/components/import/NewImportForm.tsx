@@ -10,7 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Ship, Plane, Plus, Upload, FileText, X } from 'lucide-react';
+import { Ship, Plane, Plus, Upload, FileText, X, AlertTriangle, ScanText } from 'lucide-react';
 import { DialogDescription } from '@/components/ui/dialog';
 import { useAuth } from '@/components/layout/AuthProvider'
 import type { 
@@ -21,11 +21,24 @@ import type {
   ShipmentForm 
 } from '@/types/import/index';
 import type { ImportTransactionType } from '@/lib/utils/reference-number';
-import type { ShipmentData, DocumentStatus, DocumentData } from '@/types/import/workflow';
+import type { ShipmentData, DocumentStatus, DocumentData, CargoItem } from '@/types/import/workflow';
+import type { ExtractableDocumentType, InvoiceExtraction } from '@/types/invoice-extraction';
 import { REQUIRED_DOCUMENTS } from '@/lib/constants/workflow-states';
 import { ComboboxInput } from './ComboboxInput';
+import { HsCodeInput } from './HsCodeInput';
+import { BlNumberListEditor, ContainerListEditor } from './ContainerListEditor';
+import ImportDocumentUpload from './ImportDocumentUpload';
+import { InvoiceExtractionReview } from './InvoiceExtractionReview';
 import { MOCK_CLIENTS, MOCK_EXPORTERS, INCOTERMS, PACKAGE_CODES } from '@/lib/constants';
 import { createShipmentAction, getSavedEntitiesAction } from '@/app/actions/import';
+import { getTariffRatesAction } from '@/app/actions/tariff';
+import { getConsigneeAccreditationAction } from '@/app/actions/accreditation';
+import type { AccreditationStanding } from '@/types/accreditation';
+import { isValidHsCode } from '@/lib/customs/hs-code';
+import { validateContainers } from '@/lib/utils/container';
+import { normalizeShippingLine } from '@/lib/utils/demurrage';
+import { SUPPORTED_CURRENCIES, DEFAULT_INVOICE_CURRENCY } from '@/lib/constants/currency';
+import { MAX_UPLOAD_BYTES } from '@/lib/constants/storage';
 
 
 
@@ -38,6 +51,12 @@ interface ShipmentFormFieldsProps {
   onGoodsChange: (formIndex: number, goodsIndex: number, field: string, value: any) => void;
   onGoodsRemove: (formIndex: number, goodsIndex: number) => void;
   onGoodsAdd: (formIndex: number) => void;
+  onGoodsImport: (
+    formIndex: number,
+    items: Omit<CargoItem, 'id'>[],
+    documentType: ExtractableDocumentType,
+    currency?: string
+  ) => void;
   onDocumentUpload: (event: React.ChangeEvent<HTMLInputElement>, docType: string, formIndex: number) => void;
   savedConsignees: CustomEntity[];
   savedExporters: CustomEntity[];
@@ -51,10 +70,19 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
   onGoodsChange,
   onGoodsRemove,
   onGoodsAdd,
+  onGoodsImport,
   onDocumentUpload,
   savedConsignees = [],
   savedExporters = []
 }) => {
+  const [isExtractOpen, setIsExtractOpen] = useState(false);
+  const [extraction, setExtraction] = useState<InvoiceExtraction | null>(null);
+
+  const closeExtract = () => {
+    setIsExtractOpen(false);
+    setExtraction(null);
+  };
+
   return (
     <div className="space-y-8 p-6 bg-card rounded-lg border shadow-sm">
       <div>
@@ -190,6 +218,23 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
               </SelectContent>
             </Select>
           </div>
+
+          <div className="space-y-2">
+            <Label>Invoice Currency</Label>
+            <Select 
+              value={form.currency || DEFAULT_INVOICE_CURRENCY}
+              onValueChange={(value) => onChange(formIndex, 'currency', value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </div>
 
@@ -203,10 +248,9 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
           <>
             <div>
               <Label>Bill of Lading No.</Label>
-              <Input 
-                value={form.blNumber}
-                onChange={(e) => onChange(formIndex, 'blNumber', e.target.value)}
-                placeholder="Enter B/L number"
+              <BlNumberListEditor
+                value={form.blNumbers}
+                onChange={(blNumbers) => onChange(formIndex, 'blNumbers', blNumbers)}
               />
             </div>
             <div>
@@ -234,11 +278,11 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
               />
             </div>
             <div>
-              <Label>Container No.</Label>
+              <Label>Shipping Line</Label>
               <Input 
-                value={form.containerNo}
-                onChange={(e) => onChange(formIndex, 'containerNo', e.target.value)}
-                placeholder="Enter container number"
+                value={form.shippingLine}
+                onChange={(e) => onChange(formIndex, 'shippingLine', e.target.value)}
+                placeholder="Enter shipping line"
               />
             </div>
           </>
@@ -300,26 +344,83 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
         </div>
       </div>
 
+      {shipmentType === 'sea' && (
+        <div className="mt-6">
+          <ContainerListEditor
+            containers={form.containers}
+            blNumbers={form.blNumbers}
+            cargo={form.goods}
+            onChange={(containers) => onChange(formIndex, 'containers', containers)}
+          />
+        </div>
+      )}
+
       {/* Goods Section */}
       <div>
         <div className="flex justify-between items-center mb-4">
           <Label className="text-lg">Goods Declaration</Label>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onGoodsAdd(formIndex)}
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Item
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsExtractOpen(true)}
+            >
+              <ScanText className="w-4 h-4 mr-2" />
+              Extract from Invoice
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onGoodsAdd(formIndex)}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Item
+            </Button>
+          </div>
         </div>
+
+        <Dialog open={isExtractOpen} onOpenChange={(open) => !open && closeExtract()}>
+          <DialogContent className="max-w-5xl">
+            <DialogHeader>
+              <DialogTitle>Extract Goods</DialogTitle>
+              <DialogDescription>
+                Read the goods lines from a commercial invoice, or the weights from a packing list.
+                Check each row before adding it.
+              </DialogDescription>
+            </DialogHeader>
+            {extraction ? (
+              <InvoiceExtractionReview
+                extraction={extraction}
+                onCancel={() => setExtraction(null)}
+                onAccept={(items) => {
+                  onGoodsImport(formIndex, items, extraction.documentType, extraction.currency?.value);
+                  closeExtract();
+                }}
+              />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <ImportDocumentUpload
+                  documentType="commercial_invoice"
+                  maxFileSize={MAX_UPLOAD_BYTES}
+                  onExtracted={setExtraction}
+                />
+                <ImportDocumentUpload
+                  documentType="packing_list"
+                  maxFileSize={MAX_UPLOAD_BYTES}
+                  onExtracted={setExtraction}
+                />
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
         
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Description</TableHead>
-                <TableHead>Invoice Value (USD)</TableHead>
+                <TableHead>Invoice Value</TableHead>
+                <TableHead>Currency</TableHead>
                 <TableHead>Gross Weight</TableHead>
                 <TableHead>Net Weight</TableHead>
                 <TableHead>Quantity</TableHead>
@@ -343,6 +444,21 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
                       onChange={(e) => onGoodsChange(formIndex, goodsIndex, 'invoiceValue', parseFloat(e.target.value))}
                     />
                   </TableCell>
+                  <TableCell className="min-w-[100px]">
+                    <Select 
+                      value={item.currency || form.currency || DEFAULT_INVOICE_CURRENCY}
+                      onValueChange={(value) => onGoodsChange(formIndex, goodsIndex, 'currency', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map(code => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
                   <TableCell>
                     <Input 
                       type="number"
@@ -364,10 +480,10 @@ const ShipmentFormFields: React.FC<ShipmentFormFieldsProps> = ({
                       onChange={(e) => onGoodsChange(formIndex, goodsIndex, 'quantity', parseInt(e.target.value))}
                     />
                   </TableCell>
-                  <TableCell>
-                    <Input 
+                  <TableCell className="min-w-[180px]">
+                    <HsCodeInput
                       value={item.hsCode}
-                      onChange={(e) => onGoodsChange(formIndex, goodsIndex, 'hsCode', e.target.value)}
+                      onChangeAction={(value) => onGoodsChange(formIndex, goodsIndex, 'hsCode', value)}
                     />
                   </TableCell>
                   <TableCell>
@@ -489,6 +605,7 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [savedConsignees, setSavedConsignees] = useState<CustomEntity[]>([]);
   const [savedExporters, setSavedExporters] = useState<CustomEntity[]>([]);
+  const [accreditation, setAccreditation] = useState<AccreditationStanding | null>(null);
   const [forms, setForms] = useState<ShipmentForm[]>([{
     id: '1',
     consignee: '',
@@ -500,16 +617,17 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
     countryOfOrigin: '',
     portOfDischarge: '',
     termsOfDelivery: '',
+    currency: DEFAULT_INVOICE_CURRENCY,
     markingsAndNumbers: '',
     packagingCode: '',
     
     // Sea freight fields
-    blNumber: '',
-    isMultipleBL: false,
+    blNumbers: [''],
     vesselName: '',
     registryNo: '',
     voyageNo: '',
-    containerNo: '',
+    shippingLine: '',
+    containers: [],
     
     // Air freight fields
     awbNumber: '',
@@ -550,13 +668,56 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
       netWeight: 0,
       quantity: 0,
       hsCode: '',
+      currency: updatedForms[formIndex].currency,
     });
     setForms(updatedForms);
   };
 
+  // Invoice rows are appended; packing-list rows fill in the weights of goods already listed under the same description
+  const handleGoodsImport = (
+    formIndex: number,
+    items: Omit<CargoItem, 'id'>[],
+    documentType: ExtractableDocumentType,
+    currency?: string
+  ) => {
+    const updatedForms = [...forms];
+    const form = updatedForms[formIndex];
+    const goods = [...form.goods];
+    const sameDescription = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+    items.forEach(item => {
+      const match = documentType === 'packing_list'
+        ? goods.findIndex(existing => sameDescription(existing.description, item.description))
+        : -1;
+      if (match === -1) {
+        goods.push({ ...item, id: Math.random().toString(), currency: item.currency || form.currency });
+        return;
+      }
+      goods[match] = {
+        ...goods[match],
+        quantity: goods[match].quantity || item.quantity,
+        netWeight: item.netWeight || goods[match].netWeight,
+        grossWeight: item.grossWeight || goods[match].grossWeight
+      };
+    });
+
+    updatedForms[formIndex] = {
+      ...form,
+      goods,
+      // The invoice currency is taken from the first document read
+      currency: currency && !form.goods.length ? currency : form.currency
+    };
+    setForms(updatedForms);
+  };
+
   const handleGoodsRemove = (formIndex: number, goodsIndex: number) => {
     const updatedForms = [...forms];
-    updatedForms[formIndex].goods.splice(goodsIndex, 1);
+    const [removed] = updatedForms[formIndex].goods.splice(goodsIndex, 1);
+    // Containers stop carrying the removed line
+    updatedForms[formIndex].containers = updatedForms[formIndex].containers.map(container => ({
+      ...container,
+      cargoIds: container.cargoIds.filter(id => id !== removed?.id)
+    }));
     setForms(updatedForms);
   };
   
@@ -594,6 +755,27 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
     loadSavedEntries();
   }, []);
 
+  // Look up the selected consignee's accreditation so a lapse is flagged before filing
+  const selectedConsigneeId = forms[0].consigneeId;
+  useEffect(() => {
+    setAccreditation(null);
+    if (!selectedConsigneeId) return;
+
+    let cancelled = false;
+    getConsigneeAccreditationAction(selectedConsigneeId).then(result => {
+      if (!cancelled && result.success) setAccreditation(result.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedConsigneeId]);
+
+  const accreditationWarning = accreditation?.state === 'expired'
+    ? `${forms[0].consignee}'s accreditation expired on ${new Date(accreditation.expiryDate!).toLocaleDateString()}.`
+    : accreditation?.state === 'expiring'
+      ? `${forms[0].consignee}'s accreditation expires in ${accreditation.daysRemaining} day(s), on ${new Date(accreditation.expiryDate!).toLocaleDateString()}.`
+      : null;
+
   const handleSubmitForm = async () => {
     try {
       if (!user) {
@@ -614,6 +796,18 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
       setIsSubmitting(true)
       
       const formData = forms[0]
+      const blNumbers = formData.blNumbers.map(bl => bl.trim()).filter(Boolean)
+
+      // HS codes must exist in the local tariff schedule
+      const tariffMatches = await getTariffRatesAction(formData.goods.map(g => g.hsCode))
+      const unknownCodes = formData.goods.filter(g => !tariffMatches[g.hsCode])
+      if (unknownCodes.length > 0) {
+        setFormErrors(Object.fromEntries(unknownCodes.map(g => [
+          `goods_hs_${g.id}`,
+          `HS code ${g.hsCode} is not in the tariff schedule`
+        ])))
+        return
+      }
   
       // Explicitly type the shipmentType
       const shipmentData: {
@@ -639,19 +833,38 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
             address: formData.exporterAddress || ''
           },
           shipmentDetails: {
-            bl_number: shipmentType === 'sea' ? formData.blNumber : '',
+            bl_number: shipmentType === 'sea' ? blNumbers[0] || '' : formData.awbNumber || '',
+            bl_numbers: shipmentType === 'sea' ? blNumbers : [],
             vessel_name: shipmentType === 'sea' ? formData.vesselName : formData.aircraftName,
             flight_number: shipmentType === 'air' ? formData.flightNo : '',
             registry_number: formData.registryNo || '',
             voyage_number: formData.voyageNo || '',
-            container_number: formData.containerNo || '',
+            shipping_line: shipmentType === 'sea' ? normalizeShippingLine(formData.shippingLine) : '',
+            container_number: '',
             port_of_origin: formData.portOfOrigin || '',
             port_of_discharge: formData.portOfDischarge || '',
+            country_of_origin: formData.countryOfOrigin || '',
+            country_of_export: formData.countryOfExport || '',
+            terms_of_delivery: formData.termsOfDelivery || '',
+            markings_and_numbers: formData.markingsAndNumbers || '',
+            packaging_code: formData.packagingCode || '',
+            currency: formData.currency || DEFAULT_INVOICE_CURRENCY,
             eta: '',
             ata: '',
             description_of_goods: formData.goods.map(g => g.description).join(', '),
             volume: ''
           },
+          containers: shipmentType === 'sea' ? formData.containers : [],
+          cargo: formData.goods.map(({ id, description, invoiceValue, currency, grossWeight, netWeight, quantity, hsCode }) => ({
+            id,
+            description,
+            invoiceValue: invoiceValue || 0,
+            currency: currency || formData.currency || DEFAULT_INVOICE_CURRENCY,
+            grossWeight: grossWeight || 0,
+            netWeight: netWeight || 0,
+            quantity: quantity || 0,
+            hsCode
+          })),
           documents: Object.entries(formData.documents || {}).map(([type, files]) => ({
             name: type,
             status: 'not_uploaded' as DocumentStatus,
@@ -663,6 +876,10 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
       };
   
       const shipmentResponse = await createShipmentAction(shipmentData)
+
+      if ('error' in shipmentResponse) {
+        throw new Error(shipmentResponse.error)
+      }
   
       if (shipmentResponse && shipmentResponse.referenceNumber) {
         setReferenceNumber(shipmentResponse.referenceNumber)
@@ -724,12 +941,19 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
     
     // Shipment type specific validations
     if (shipmentType === 'sea') {
-      if (!form.blNumber?.trim()) {
+      const blNumbers = form.blNumbers.map(bl => bl.trim()).filter(Boolean);
+      if (!blNumbers.length) {
         errors.blNumber = 'Bill of Lading number is required';
       }
       if (!form.vesselName?.trim()) {
         errors.vesselName = 'Vessel name is required';
       }
+      validateContainers(form.containers, {
+        blNumbers,
+        cargoIds: form.goods.map(item => item.id)
+      }).forEach((issue, index) => {
+        errors[`container_${index}`] = issue;
+      });
     } else {
       if (!form.awbNumber?.trim()) {
         errors.awbNumber = 'Airway Bill number is required';
@@ -750,6 +974,9 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
         if (!item.quantity || item.quantity <= 0) {
           errors[`goods_quantity_${index}`] = `Valid quantity is required for item ${index + 1}`;
         }
+        if (!isValidHsCode(item.hsCode)) {
+          errors[`goods_hs_${index}`] = `A valid 8-digit HS code is required for item ${index + 1}`;
+        }
       });
     }
     
@@ -770,6 +997,18 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
         </div>
       )}
 
+      {accreditationWarning && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {accreditationWarning}{' '}
+            {accreditation?.pendingCaseId
+              ? 'A renewal case is already in progress.'
+              : 'Open a renewal case under Accreditation before lodging.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
 {/* Freight Type Tabs */}
 <Tabs 
         value={shipmentType} 
@@ -800,6 +1039,7 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
               onGoodsChange={handleGoodsChange}
               onGoodsRemove={handleGoodsRemove}
               onGoodsAdd={handleGoodsAdd}
+              onGoodsImport={handleGoodsImport}
               onDocumentUpload={handleDocumentUpload}
               savedConsignees={savedConsignees}
               savedExporters={savedExporters}
@@ -816,6 +1056,7 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
             onGoodsChange={handleGoodsChange}
             onGoodsRemove={handleGoodsRemove}
             onGoodsAdd={handleGoodsAdd}
+            onGoodsImport={handleGoodsImport}
             onDocumentUpload={handleDocumentUpload}
             savedConsignees={savedConsignees}
             savedExporters={savedExporters}
@@ -854,6 +1095,12 @@ const NewImportForm: React.FC<NewImportFormProps> = ({ onComplete }) => {
   <div>{shipmentType === 'sea' ? 'Sea Freight' : 'Air Freight'}</div>
   <div className="text-gray-500">Consignee:</div>
   <div>{forms[0].consignee || 'Not selected'}</div>
+  {accreditationWarning && (
+    <>
+      <div className="text-gray-500">Accreditation:</div>
+      <div className="text-red-600">{accreditation?.state === 'expired' ? 'Expired' : 'Expiring soon'}</div>
+    </>
+  )}
   <div className="text-gray-500">Documents:</div>
   <div>{Object.keys(forms[0].documents).length} uploaded</div>
 </div>
@@ -0,0 +1,110 @@
+// src/components/import/SadDeclarationCard.tsx
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle, FileDown, FileJson, FileText, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+
+import { getSadDeclarationAction } from '@/app/actions/import';
+import { serializeSadDeclaration } from '@/lib/customs/sad';
+import { getDocumentUrl } from '@/lib/documents/url';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { SadDeclarationResult } from '@/types/sad';
+
+interface SadDeclarationCardProps {
+  data: ShipmentData;
+}
+
+// The Import Entry Declaration built from the shipment, with the boxes still missing
+export const SadDeclarationCard: React.FC<SadDeclarationCardProps> = ({ data }) => {
+  const { toast } = useToast();
+  const [result, setResult] = useState<SadDeclarationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Rebuilt whenever the shipment changes so the issues track the edits
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getSadDeclarationAction(data.id).then(response => {
+      if (cancelled) return;
+      setIsLoading(false);
+      if (!response.success) {
+        toast({ title: 'Cannot build SAD', description: response.error, variant: 'destructive' });
+        return;
+      }
+      setResult(response.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [data, toast]);
+
+  const downloadJson = () => {
+    if (!result) return;
+    const blob = new Blob([serializeSadDeclaration(result.declaration)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `SAD-${result.declaration.referenceNumber}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isReady = result !== null && result.issues.length === 0;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Import Entry Declaration (SAD)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && !result ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Building declaration...
+          </div>
+        ) : result && (
+          <>
+            {isReady ? (
+              <p className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle className="w-4 h-4" />
+                All required boxes are complete.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Missing or invalid boxes:</p>
+                <ul className="space-y-1">
+                  {result.issues.map((issue, index) => (
+                    <li key={index} className="flex items-center gap-2 text-sm text-red-600">
+                      <AlertCircle className="w-4 h-4 shrink-0" />
+                      <span className="font-mono text-xs">Box {issue.box}</span>
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={!isReady}
+                onClick={() => window.location.assign(`${getDocumentUrl('sad', data.id)}?download=1`)}
+              >
+                <FileDown className="w-4 h-4 mr-2" />
+                Download PDF
+              </Button>
+              <Button size="sm" variant="outline" disabled={!isReady} onClick={downloadJson}>
+                <FileJson className="w-4 h-4 mr-2" />
+                Download JSON
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
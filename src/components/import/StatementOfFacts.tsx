@@ -7,73 +7,84 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
 import { format } from 'date-fns';
-import { Plus, Upload, FileText, Download, Trash2 } from 'lucide-react';
+import { Plus, FileText, Download, Trash2 } from 'lucide-react';
+import { getDocumentUrl } from '@/lib/documents/url';
+import { computeSofElapsed, formatElapsed, sortSofEvents } from '@/lib/utils/sof';
+import { addSofEventAction, deleteSofEventAction } from '@/app/actions/sof';
+import { SOF_EVENT_CATEGORIES, SOF_EVENT_CATEGORY_LABELS, type SofEventCategory } from '@/types/sof';
 import type { ShipmentData, StatementOfFactEvent } from '@/types/import/workflow';
 
 interface StatementOfFactsProps {
   data: ShipmentData;
-  onUpdate: (updates: Partial<ShipmentData>) => void;
-  currentUser: {
-    id: string;
-    name: string;
-  };
+  // Called with the shipment's events after one is added or removed
+  onEventsChanged: (events: StatementOfFactEvent[]) => void;
 }
 
+const emptyForm = () => ({
+  date: format(new Date(), 'yyyy-MM-dd'),
+  time: format(new Date(), 'HH:mm'),
+  category: 'OTHER' as SofEventCategory,
+  description: '',
+  documents: [] as File[]
+});
+
+/**
+ * Status changes, document uploads and verifications and ETA/ATA updates
+ * are recorded here by the workflow; anything else (discharge, examination)
+ * is added by hand. Only manual entries can be removed.
+ */
 export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
   data,
-  onUpdate,
-  currentUser
+  onEventsChanged
 }) => {
+  const { toast } = useToast();
   const [isAddingEvent, setIsAddingEvent] = React.useState(false);
-  const [formData, setFormData] = React.useState({
-    date: format(new Date(), 'yyyy-MM-dd'),
-    time: format(new Date(), 'HH:mm'),
-    description: '',
-    documents: [] as File[]
-  });
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [formData, setFormData] = React.useState(emptyForm);
 
-  // Ensure statementOfFacts exists with a default empty array
-  const events = data.statementOfFacts || [];
+  const events = React.useMemo(() => sortSofEvents(data.statementOfFacts || []), [data.statementOfFacts]);
+  const elapsed = React.useMemo(() => computeSofElapsed(events), [events]);
 
-  const handleAddEvent = () => {
-    const timestamp = new Date(`${formData.date}T${formData.time}`).toISOString();
-    
-    const newEvent: StatementOfFactEvent = {
-      id: Math.random().toString(),
-      timestamp,
-      description: formData.description,
-      createdBy: currentUser,
-      documents: formData.documents.map(file => ({
-        id: Math.random().toString(),
-        name: file.name,
-        url: URL.createObjectURL(file),
-        type: file.type
-      }))
-    };
+  const save = async (action: () => ReturnType<typeof deleteSofEventAction>) => {
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (!result.success) throw new Error(result.error);
+      onEventsChanged(result.data);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update the Statement of Facts',
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-    onUpdate({
-      statementOfFacts: [...events, newEvent]
-    });
+  const handleAddEvent = async () => {
+    const form = new FormData();
+    form.append('category', formData.category);
+    form.append('description', formData.description);
+    form.append('timestamp', new Date(`${formData.date}T${formData.time}`).toISOString());
+    formData.documents.forEach(file => form.append('files', file));
 
-    setIsAddingEvent(false);
-    setFormData({
-      date: format(new Date(), 'yyyy-MM-dd'),
-      time: format(new Date(), 'HH:mm'),
-      description: '',
-      documents: []
-    });
+    if (await save(() => addSofEventAction(data.id, form))) {
+      setIsAddingEvent(false);
+      setFormData(emptyForm());
+    }
   };
 
-  const handleDeleteEvent = (eventId: string) => {
-    onUpdate({
-      statementOfFacts: events.filter(event => event.id !== eventId)
-    });
-  };
+  const handleDeleteEvent = (eventId: string) => save(() => deleteSofEventAction(data.id, eventId));
 
-  const handleExportPDF = async () => {
-    // TODO: Implement PDF export
-    console.log('Exporting PDF...');
+  const handleExportPDF = () => {
+    window.location.assign(`${getDocumentUrl('statement-of-facts', data.id)}?download=1`);
   };
 
   return (
@@ -94,10 +105,21 @@ export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
         </div>
       </CardHeader>
       <CardContent>
+        {elapsed.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
+            {elapsed.map(item => (
+              <div key={item.label} className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">{item.label}</p>
+                <p className="text-lg font-semibold">{formatElapsed(item.minutes)}</p>
+              </div>
+            ))}
+          </div>
+        )}
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead>Date & Time</TableHead>
+              <TableHead>Category</TableHead>
               <TableHead>Event Description</TableHead>
               <TableHead>Created By</TableHead>
               <TableHead>Documents</TableHead>
@@ -107,7 +129,7 @@ export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
           <TableBody>
             {events.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
                   No events recorded
                 </TableCell>
               </TableRow>
@@ -117,7 +139,15 @@ export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
                   <TableCell>
                     {format(new Date(event.timestamp), 'MMM dd, yyyy HH:mm')}
                   </TableCell>
-                  <TableCell>{event.description}</TableCell>
+                  <TableCell>
+                    {SOF_EVENT_CATEGORY_LABELS[event.category ?? 'OTHER']}
+                  </TableCell>
+                  <TableCell>
+                    {event.description}
+                    {event.source === 'WORKFLOW' && (
+                      <Badge variant="secondary" className="ml-2">Workflow</Badge>
+                    )}
+                  </TableCell>
                   <TableCell>{event.createdBy.name}</TableCell>
                   <TableCell>
                     {event.documents?.map((doc) => (
@@ -134,13 +164,16 @@ export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
                     ))}
                   </TableCell>
                   <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteEvent(event.id)}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {event.source !== 'WORKFLOW' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() => handleDeleteEvent(event.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))
@@ -178,6 +211,27 @@ export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
                   />
                 </div>
               </div>
+              <div>
+                <Label>Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(category) => setFormData(prev => ({
+                    ...prev,
+                    category: category as SofEventCategory
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SOF_EVENT_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>
+                        {SOF_EVENT_CATEGORY_LABELS[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div>
                 <Label>Description</Label>
                 <Textarea
@@ -208,7 +262,7 @@ export const StatementOfFacts: React.FC<StatementOfFactsProps> = ({
               </Button>
               <Button 
                 onClick={handleAddEvent}
-                disabled={!formData.description.trim()}
+                disabled={!formData.description.trim() || isSaving}
               >
                 Add Event
               </Button>
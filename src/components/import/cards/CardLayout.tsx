@@ -1,7 +1,7 @@
 // src/components/import/cards/CardLayout.tsx
 import React from 'react';
 import { ShipmentDetailsCard } from './ShipmentCards';
-import { ConsigneeCard } from './ShipmentCards';
+import { ConsigneeCard, ContainersCard } from './ShipmentCards';
 import { CargoDetailsCard } from './CargoDetailsCard';
 import type { ShipmentData } from '@/types/import/workflow';
 import type { ImportTransactionType } from '@/lib/utils/reference-number';
@@ -26,6 +26,13 @@ export const CardLayout: React.FC<CardLayoutProps> = ({ data, onUpdate, freightT
           onUpdate={onUpdate} 
         />
       </div>
+
+      {freightType === 'IMS' && (
+        <ContainersCard
+          data={data}
+          onUpdate={onUpdate}
+        />
+      )}
       
       <CargoDetailsCard 
         data={data} 
@@ -5,10 +5,34 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Edit, Plus, Trash2 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { HsCodeInput } from '../HsCodeInput';
+import { getRatesInForceAction } from '@/app/actions/exchange-rate';
+import { SUPPORTED_CURRENCIES, DEFAULT_INVOICE_CURRENCY } from '@/lib/constants/currency';
+import {
+  convertToPHP,
+  formatCurrencyAmount,
+  getArrivalDate,
+  getCargoCurrency,
+  getShipmentCurrency
+} from '@/lib/customs/currency';
 import type { ShipmentData, CargoItem } from '@/types/import/workflow';
 
+const CurrencySelect: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {SUPPORTED_CURRENCIES.map(code => (
+        <SelectItem key={code} value={code}>{code}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
 interface CargoItemCardProps {
   item: CargoItem;
   onEdit: () => void;
@@ -30,7 +54,7 @@ const CargoItemCard: React.FC<CargoItemCardProps> = ({ item, onEdit, onDelete })
         </div>
       </div>
       <div className="space-y-1 text-sm">
-        <p><span className="font-medium">Value:</span> ${item.invoiceValue.toFixed(2)}</p>
+        <p><span className="font-medium">Value:</span> {formatCurrencyAmount(item.invoiceValue, item.currency || DEFAULT_INVOICE_CURRENCY)}</p>
         <p><span className="font-medium">Weight:</span> {item.grossWeight}kg/{item.netWeight}kg</p>
         <p><span className="font-medium">Quantity:</span> {item.quantity}</p>
         <p><span className="font-medium">HS Code:</span> {item.hsCode}</p>
@@ -79,7 +103,7 @@ const CargoEditDialog: React.FC<CargoEditDialogProps> = ({ isOpen, onClose, item
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label>Invoice Value (USD)</Label>
+              <Label>Invoice Value</Label>
               <Input
                 type="number"
                 value={editForm.invoiceValue}
@@ -87,13 +111,20 @@ const CargoEditDialog: React.FC<CargoEditDialogProps> = ({ isOpen, onClose, item
               />
             </div>
             <div>
-              <Label>HS Code</Label>
-              <Input
-                value={editForm.hsCode}
-                onChange={(e) => handleChange('hsCode', e.target.value)}
+              <Label>Currency</Label>
+              <CurrencySelect
+                value={editForm.currency || DEFAULT_INVOICE_CURRENCY}
+                onChange={(value) => handleChange('currency', value)}
               />
             </div>
           </div>
+          <div>
+            <Label>HS Code</Label>
+            <HsCodeInput
+              value={editForm.hsCode}
+              onChangeAction={(value) => handleChange('hsCode', value)}
+            />
+          </div>
           <div className="grid grid-cols-3 gap-4">
             <div>
               <Label>Gross Weight</Label>
@@ -136,8 +167,31 @@ export const CargoDetailsCard: React.FC<{
   }> = ({ data, onUpdate }) => {
     const [editingItem, setEditingItem] = React.useState<CargoItem | null>(null);
   
+    const [rates, setRates] = React.useState<Record<string, number>>({});
+  
     // Ensure cargo exists with a default empty array
     const cargoItems = data.cargo || [];
+    const shipmentCurrency = getShipmentCurrency(data.shipmentDetails);
+    const arrivalDate = getArrivalDate(data.shipmentDetails);
+    const currencies = Array.from(new Set(cargoItems.map(item => getCargoCurrency(item, shipmentCurrency))));
+
+    // Peso values use the customs rate in force on arrival
+    React.useEffect(() => {
+      if (!arrivalDate || currencies.length === 0) {
+        setRates({});
+        return;
+      }
+
+      getRatesInForceAction(currencies, arrivalDate.toISOString()).then(entries => {
+        setRates(Object.fromEntries(Object.entries(entries).map(([code, entry]) => [code, entry.rate])));
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [arrivalDate?.getTime(), currencies.join('|')]);
+
+    const toPHP = (item: CargoItem) =>
+      convertToPHP(item.invoiceValue || 0, getCargoCurrency(item, shipmentCurrency), rates);
+    const missingRates = currencies.filter(code => convertToPHP(1, code, rates) === null);
+    const totalPHP = cargoItems.reduce((sum, item) => sum + (toPHP(item) ?? 0), 0);
   
     const handleAddItem = () => {
       const newItem: CargoItem = {
@@ -147,7 +201,8 @@ export const CargoDetailsCard: React.FC<{
         grossWeight: 0,
         netWeight: 0,
         quantity: 0,
-        hsCode: ''
+        hsCode: '',
+        currency: shipmentCurrency
       };
       setEditingItem(newItem);
     };
@@ -170,7 +225,18 @@ export const CargoDetailsCard: React.FC<{
       <Card>
         <CardContent className="pt-6">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="font-medium">Cargo Details</h3>
+            <div>
+              <h3 className="font-medium">Cargo Details</h3>
+              {cargoItems.length > 0 && (
+                <p className="text-sm text-gray-500">
+                  {!arrivalDate
+                    ? 'Set the ETA or ATA to see peso values'
+                    : missingRates.length > 0
+                      ? `No exchange rate in force for ${missingRates.join(', ')}`
+                      : `Total ${formatCurrencyAmount(totalPHP, 'PHP')}`}
+                </p>
+              )}
+            </div>
             <Button variant="outline" size="sm" onClick={handleAddItem}>
               <Plus className="h-4 w-4 mr-2" />
               Add Item
@@ -201,7 +267,13 @@ export const CargoDetailsCard: React.FC<{
                     </div>
                   </div>
                   <div className="space-y-1 text-sm">
-                    <p><span className="font-medium">Value:</span> ${item.invoiceValue.toFixed(2)}</p>
+                    <p>
+                      <span className="font-medium">Value:</span>{' '}
+                      {formatCurrencyAmount(item.invoiceValue, getCargoCurrency(item, shipmentCurrency))}
+                      {toPHP(item) !== null && getCargoCurrency(item, shipmentCurrency) !== 'PHP' && (
+                        <span className="text-gray-500"> ({formatCurrencyAmount(toPHP(item)!, 'PHP')})</span>
+                      )}
+                    </p>
                     <p><span className="font-medium">Weight:</span> {item.grossWeight}kg/{item.netWeight}kg</p>
                     <p><span className="font-medium">Quantity:</span> {item.quantity}</p>
                     <p><span className="font-medium">HS Code:</span> {item.hsCode}</p>
@@ -227,7 +299,7 @@ export const CargoDetailsCard: React.FC<{
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label>Invoice Value (USD)</Label>
+                      <Label>Invoice Value</Label>
                       <Input
                         type="number"
                         value={editingItem.invoiceValue}
@@ -235,13 +307,20 @@ export const CargoDetailsCard: React.FC<{
                       />
                     </div>
                     <div>
-                      <Label>HS Code</Label>
-                      <Input
-                        value={editingItem.hsCode}
-                        onChange={(e) => setEditingItem(prev => ({ ...prev!, hsCode: e.target.value }))}
+                      <Label>Currency</Label>
+                      <CurrencySelect
+                        value={getCargoCurrency(editingItem, shipmentCurrency)}
+                        onChange={(value) => setEditingItem(prev => ({ ...prev!, currency: value }))}
                       />
                     </div>
                   </div>
+                  <div>
+                    <Label>HS Code</Label>
+                    <HsCodeInput
+                      value={editingItem.hsCode}
+                      onChangeAction={(value) => setEditingItem(prev => ({ ...prev!, hsCode: value }))}
+                    />
+                  </div>
                   <div className="grid grid-cols-3 gap-4">
                     <div>
                       <Label>Gross Weight</Label>
@@ -6,8 +6,13 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Edit, Save } from 'lucide-react';
-import type { ShipmentData, CargoItem } from '@/types/import/workflow';
+import type { ShipmentData, CargoItem, ShipmentContainer } from '@/types/import/workflow';
+import { CONTAINER_SIZE_TYPES } from '@/lib/constants/containers';
+import { getBlNumbers, validateContainers } from '@/lib/utils/container';
+import { normalizeShippingLine } from '@/lib/utils/demurrage';
+import { BlNumberListEditor, ContainerListEditor } from '../ContainerListEditor';
 import { ShipmentDetailsEditDialog, ConsigneeEditDialog } from '../dialogs/EditDialogs';
 import { CargoDetailsCard } from './CargoDetailsCard';
 
@@ -68,7 +73,10 @@ interface ShipmentDetailsCardProps {
         
         <div className="text-sm space-y-1">
           {/* Display shipment details */}
-          <p><span className="font-medium">BL/AWB Number:</span> {data.shipmentDetails.bl_number || data.shipmentDetails.flight_number}</p>
+          <p><span className="font-medium">BL/AWB Number:</span> {getBlNumbers(data.shipmentDetails).join(', ') || data.shipmentDetails.flight_number}</p>
+          {freightType === 'IMS' && (
+            <p><span className="font-medium">Containers:</span> {data.containers.length}</p>
+          )}
           <p><span className="font-medium">Vessel/Flight:</span> {data.shipmentDetails.vessel_name || data.shipmentDetails.flight_number}</p>
           <p><span className="font-medium">Port of Origin:</span> {data.shipmentDetails.port_of_origin}</p>
           <p><span className="font-medium">Port of Discharge:</span> {data.shipmentDetails.port_of_discharge}</p>
@@ -99,6 +107,137 @@ interface ShipmentDetailsCardProps {
   );
 };
 
+interface ContainersCardProps {
+  data: ShipmentData;
+  onUpdate: (updates: Partial<ShipmentData>) => void;
+}
+
+// The shipment's BLs and the containers under each, edited together since containers point at a BL
+export const ContainersCard: React.FC<ContainersCardProps> = ({ data, onUpdate }) => {
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [blNumbers, setBlNumbers] = React.useState<string[]>([]);
+  const [shippingLine, setShippingLine] = React.useState('');
+  const [containers, setContainers] = React.useState<ShipmentContainer[]>([]);
+  const [issues, setIssues] = React.useState<string[]>([]);
+
+  const cargoIds = data.cargo.map(item => item.id);
+  const describeCargo = (ids: string[]) =>
+    data.cargo.filter(item => ids.includes(item.id)).map(item => item.description).join(', ') || '-';
+  const sizeLabel = (code: string) => CONTAINER_SIZE_TYPES.find(type => type.code === code)?.label || code || '-';
+
+  const handleOpen = () => {
+    setBlNumbers(getBlNumbers(data.shipmentDetails));
+    setShippingLine(data.shipmentDetails.shipping_line || '');
+    // Cargo lines deleted since the last save are no longer carried
+    setContainers(data.containers.map(container => ({
+      ...container,
+      cargoIds: container.cargoIds.filter(id => cargoIds.includes(id))
+    })));
+    setIssues([]);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    const declared = blNumbers.map(bl => bl.trim()).filter(Boolean);
+    const found = validateContainers(containers, { blNumbers: declared, cargoIds });
+    if (found.length) {
+      setIssues(found);
+      return;
+    }
+    onUpdate({
+      shipmentDetails: {
+        ...data.shipmentDetails,
+        bl_number: declared[0] || '',
+        bl_numbers: declared,
+        shipping_line: normalizeShippingLine(shippingLine)
+      },
+      containers
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="font-medium">Containers & Bills of Lading</h3>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleOpen}>
+            <Edit className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <p className="text-sm mb-2">
+          <span className="font-medium">Shipping Line:</span> {data.shipmentDetails.shipping_line || 'Not set'}
+        </p>
+
+        {data.containers.length === 0 ? (
+          <p className="text-sm text-gray-500">No containers recorded</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Container No.</TableHead>
+                <TableHead>Size/Type</TableHead>
+                <TableHead>Seal No.</TableHead>
+                <TableHead>B/L</TableHead>
+                <TableHead>Cargo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.containers.map(container => (
+                <TableRow key={container.id}>
+                  <TableCell className="font-mono">{container.number}</TableCell>
+                  <TableCell>{sizeLabel(container.sizeType)}</TableCell>
+                  <TableCell>{container.sealNumber || '-'}</TableCell>
+                  <TableCell>{container.blNumber || '-'}</TableCell>
+                  <TableCell>{describeCargo(container.cargoIds)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Dialog open={isEditing} onOpenChange={setIsEditing}>
+          <DialogContent className="max-w-5xl">
+            <DialogHeader>
+              <DialogTitle>Edit Containers & Bills of Lading</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-6 py-4">
+              <div>
+                <Label>Shipping Line</Label>
+                <Input
+                  value={shippingLine}
+                  onChange={(e) => setShippingLine(e.target.value)}
+                  placeholder="e.g. MAERSK"
+                />
+              </div>
+              <div>
+                <Label>Bills of Lading</Label>
+                <BlNumberListEditor value={blNumbers} onChange={setBlNumbers} />
+              </div>
+              <ContainerListEditor
+                containers={containers}
+                blNumbers={blNumbers}
+                cargo={data.cargo}
+                onChange={setContainers}
+              />
+              {issues.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-red-600">
+                  {issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+              <Button onClick={handleSave}>Save Changes</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
 export const ConsigneeCard: React.FC<{
     data: ShipmentData;
     onUpdate: (updates: Partial<ShipmentData>) => void;
@@ -207,6 +346,13 @@ export const ConsigneeCard: React.FC<{
           />
         </div>
         
+        {freightType === 'IMS' && (
+          <ContainersCard
+            data={data}
+            onUpdate={onUpdate}
+          />
+        )}
+
         <CargoDetailsCard 
           data={data} 
           onUpdate={onUpdate} 
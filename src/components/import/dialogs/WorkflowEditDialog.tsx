@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { INCOTERMS } from '@/lib/constants';
+import { SUPPORTED_CURRENCIES, DEFAULT_INVOICE_CURRENCY } from '@/lib/constants/currency';
+import { getShipmentCurrency } from '@/lib/customs/currency';
 import type { ShipmentData, ShipmentDetails, StatementOfFactEvent } from '@/types/import/workflow';
 import { User } from '@/types/auth';
 
@@ -137,7 +139,10 @@ interface LocationForm extends ShipmentDetails {
           return {
             port_of_origin: data.shipmentDetails?.port_of_origin || '',
             port_of_discharge: data.shipmentDetails?.port_of_discharge || '',
-            terms_of_delivery: data.shipmentDetails?.terms_of_delivery || ''
+            country_of_export: data.shipmentDetails?.country_of_export || '',
+            country_of_origin: data.shipmentDetails?.country_of_origin || '',
+            terms_of_delivery: data.shipmentDetails?.terms_of_delivery || '',
+            currency: getShipmentCurrency(data.shipmentDetails)
           } as LocationForm;
         case 'schedule':
           return {
@@ -195,7 +200,10 @@ useEffect(() => {
           setEditData({
             port_of_origin: data.shipmentDetails?.port_of_origin || '',
             port_of_discharge: data.shipmentDetails?.port_of_discharge || '',
+            country_of_export: data.shipmentDetails?.country_of_export || '',
+            country_of_origin: data.shipmentDetails?.country_of_origin || '',
             terms_of_delivery: data.shipmentDetails?.terms_of_delivery || '',
+            currency: getShipmentCurrency(data.shipmentDetails),
             final_destination: data.shipmentDetails?.final_destination || '',
             contact_person: data.shipmentDetails?.contact_person || '',
             contact_number: data.shipmentDetails?.contact_number || ''
@@ -421,22 +429,14 @@ useEffect(() => {
                 placeholder="Enter voyage number"
               />
             </div>
-            <div>
-              <Label>Container Number</Label>
-              <Input
-                value={form.container_number}
-                onChange={(e) => handleChange('container_number', e.target.value)}
-                placeholder="Enter container number"
-              />
-            </div>
           </>
         ) : (
           <>
             <div>
               <Label>Airway Bill Number</Label>
               <Input
-                value={form.flight_number}
-                onChange={(e) => handleChange('flight_number', e.target.value)}
+                value={form.bl_number}
+                onChange={(e) => handleChange('bl_number', e.target.value)}
                 placeholder="Enter AWB number"
               />
             </div>
@@ -474,6 +474,22 @@ useEffect(() => {
             placeholder="Enter port of discharge"
           />
         </div>
+        <div>
+          <Label>Country of Export</Label>
+          <Input
+            value={form.country_of_export || ''}
+            onChange={(e) => handleChange('country_of_export', e.target.value)}
+            placeholder="Enter country of export"
+          />
+        </div>
+        <div>
+          <Label>Country of Origin</Label>
+          <Input
+            value={form.country_of_origin || ''}
+            onChange={(e) => handleChange('country_of_origin', e.target.value)}
+            placeholder="Enter country of origin"
+          />
+        </div>
         <div>
           <Label>Terms of Delivery</Label>
           <Select
@@ -490,6 +506,22 @@ useEffect(() => {
             </SelectContent>
           </Select>
         </div>
+        <div>
+          <Label>Invoice Currency</Label>
+          <Select
+            value={form.currency || DEFAULT_INVOICE_CURRENCY}
+            onValueChange={(value) => handleChange('currency', value)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
     );
   };
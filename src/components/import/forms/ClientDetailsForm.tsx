@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import type { ShipmentData } from '@/types/import/workflow';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrencyAmount, getCargoCurrency, getShipmentCurrency } from '@/lib/customs/currency';
+import { getBlNumbers } from '@/lib/utils/container';
 
 
 interface ClientDetailsFormProps {
@@ -132,11 +134,11 @@ const ClientDetailsForm: React.FC<ClientDetailsFormProps> = ({
           icon={freightType === 'sea' ? Ship : Plane}
           section="transport"
           items={freightType === 'sea' ? [
-            { label: "Bill of Lading Number", value: data.shipmentDetails.bl_number },
+            { label: "Bill of Lading Number", value: getBlNumbers(data.shipmentDetails).join(', ') },
             { label: "Vessel Name", value: data.shipmentDetails.vessel_name },
             { label: "Voyage Number", value: data.shipmentDetails.voyage_number },
             { label: "Registry Number", value: data.shipmentDetails.registry_number },
-            { label: "Container Number", value: data.shipmentDetails.container_number }
+            { label: "Containers", value: data.containers.map(container => container.number).join(', ') || data.shipmentDetails.container_number }
           ] : [
             { label: "Airway Bill Number", value: data.shipmentDetails.flight_number },
             { label: "Flight Number", value: data.shipmentDetails.flight_number },
@@ -191,7 +193,7 @@ const ClientDetailsForm: React.FC<ClientDetailsFormProps> = ({
       <TableHeader>
         <TableRow>
           <TableHead>Description</TableHead>
-          <TableHead>Invoice Value (USD)</TableHead>
+          <TableHead>Invoice Value</TableHead>
           <TableHead>Gross Weight</TableHead>
           <TableHead>Net Weight</TableHead>
           <TableHead>Quantity</TableHead>
@@ -203,7 +205,7 @@ const ClientDetailsForm: React.FC<ClientDetailsFormProps> = ({
           data.cargo.map((item) => (
             <TableRow key={item.id}>
               <TableCell>{item.description || '-'}</TableCell>
-              <TableCell>${item.invoiceValue?.toFixed(2) || '0.00'}</TableCell>
+              <TableCell>{formatCurrencyAmount(item.invoiceValue || 0, getCargoCurrency(item, getShipmentCurrency(data.shipmentDetails)))}</TableCell>
               <TableCell>{item.grossWeight || '0'} kg</TableCell>
               <TableCell>{item.netWeight || '0'} kg</TableCell>
               <TableCell>{item.quantity || '0'}</TableCell>
@@ -0,0 +1,267 @@
+// src/components/import/forms/TaxComputationForm.tsx
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calculator, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { computeShipmentDutiesAction } from '@/app/actions/import';
+import { getTariffRatesAction } from '@/app/actions/tariff';
+import { getRatesInForceAction } from '@/app/actions/exchange-rate';
+import { formatCurrencyAmount, getArrivalDate, getCargoCurrency, getShipmentCurrency } from '@/lib/customs/currency';
+import { getDocumentUrl } from '@/lib/documents/url';
+import type { ExchangeRateEntry } from '@/types/exchange-rate';
+import type { ShipmentData, ComputationDetails } from '@/types/import/workflow';
+
+interface TaxComputationFormProps {
+  data: ShipmentData;
+  onComputed: (computations: ComputationDetails) => void;
+  onConfirm: () => void;
+}
+
+const formatPHP = (amount: number) =>
+  `₱${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const TaxComputationForm: React.FC<TaxComputationFormProps> = ({
+  data,
+  onComputed,
+  onConfirm
+}) => {
+  const { toast } = useToast();
+  const [isComputing, setIsComputing] = useState(false);
+  const [inputs, setInputs] = useState({
+    freight: '',
+    insurance: '',
+    arrastre: '',
+    wharfage: ''
+  });
+
+  const [rates, setRates] = useState<Record<string, ExchangeRateEntry>>({});
+
+  const currency = getShipmentCurrency(data.shipmentDetails);
+  const arrivalDate = getArrivalDate(data.shipmentDetails);
+  const currencies = Array.from(new Set([
+    currency,
+    ...(data.cargo || []).map(item => getCargoCurrency(item, currency))
+  ]));
+  const hsCodes = Array.from(new Set((data.cargo || []).map(item => item.hsCode)));
+  const [dutyRates, setDutyRates] = useState<Record<string, string>>(() =>
+    Object.fromEntries(hsCodes.map(code => [
+      code,
+      data.computations?.lines?.find(line => line.hsCode === code)?.duty_rate.toString() || ''
+    ]))
+  );
+
+  // Default blank rates to the MFN rate from the tariff schedule
+  useEffect(() => {
+    if (hsCodes.length === 0) return;
+
+    getTariffRatesAction(hsCodes).then(matches => {
+      setDutyRates(prev => Object.fromEntries(
+        Object.entries(prev).map(([code, rate]) => [
+          code,
+          rate === '' && matches[code]?.mfnRate != null ? String(matches[code]!.mfnRate) : rate
+        ])
+      ));
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hsCodes.join('|')]);
+
+  // Preview the customs rates the server will apply
+  useEffect(() => {
+    if (!arrivalDate) return;
+    getRatesInForceAction(currencies, arrivalDate.toISOString()).then(setRates);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [arrivalDate?.getTime(), currencies.join('|')]);
+
+  const computations = data.computations?.charges ? data.computations : null;
+
+  const handleCompute = async () => {
+    setIsComputing(true);
+    try {
+      const result = await computeShipmentDutiesAction(data.id, {
+        freight: parseFloat(inputs.freight) || 0,
+        insurance: inputs.insurance === '' ? null : parseFloat(inputs.insurance) || 0,
+        arrastre: parseFloat(inputs.arrastre) || 0,
+        wharfage: parseFloat(inputs.wharfage) || 0,
+        dutyRates: Object.fromEntries(
+          Object.entries(dutyRates)
+            .filter(([, rate]) => rate !== '')
+            .map(([code, rate]) => [code, parseFloat(rate) || 0])
+        )
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      onComputed(result.data);
+      toast({
+        title: 'Success',
+        description: 'Duties and taxes computed'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to compute duties',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const handleInputChange = (field: keyof typeof inputs) => (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    setInputs(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="border-b bg-gray-50/80">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg font-medium">Landed Cost Computation</CardTitle>
+          <div className="flex gap-2">
+            {computations && (
+              <Button variant="outline" asChild>
+                <a href={`${getDocumentUrl('duty-computation', data.id)}?download=1`}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Computation Sheet
+                </a>
+              </Button>
+            )}
+            <Button
+              onClick={onConfirm}
+              disabled={!computations}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              Confirm Computation
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Terms of delivery: {data.shipmentDetails.terms_of_delivery || 'Not provided'}
+        </p>
+      </CardHeader>
+      <CardContent className="p-6 space-y-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Freight ({currency})</Label>
+            <Input type="number" value={inputs.freight} onChange={handleInputChange('freight')} />
+          </div>
+          <div className="space-y-2">
+            <Label>Insurance ({currency}, blank for 2% of FOB)</Label>
+            <Input type="number" value={inputs.insurance} onChange={handleInputChange('insurance')} />
+          </div>
+          <div className="space-y-2">
+            <Label>Arrastre (PHP)</Label>
+            <Input type="number" value={inputs.arrastre} onChange={handleInputChange('arrastre')} />
+          </div>
+          <div className="space-y-2">
+            <Label>Wharfage (PHP)</Label>
+            <Input type="number" value={inputs.wharfage} onChange={handleInputChange('wharfage')} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-medium text-gray-700">Exchange Rates</h3>
+          {!arrivalDate ? (
+            <p className="text-sm text-red-500">Set the ETA or ATA to determine the rate in force</p>
+          ) : (
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+              {currencies.filter(code => code !== 'PHP').map(code => (
+                <span key={code} className={rates[code] ? 'text-gray-700' : 'text-red-500'}>
+                  {rates[code]
+                    ? `1 ${code} = ₱${rates[code].rate} (week of ${rates[code].weekStart.slice(0, 10)})`
+                    : `No ${code} rate in force on ${arrivalDate.toISOString().slice(0, 10)}`}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-medium text-gray-700">Duty Rates by HS Code</h3>
+          {hsCodes.length === 0 ? (
+            <p className="text-sm text-gray-500">No goods declared yet</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {hsCodes.map(code => (
+                <div key={code} className="space-y-2">
+                  <Label>{code || '(no HS code)'} — rate %</Label>
+                  <Input
+                    type="number"
+                    value={dutyRates[code] ?? ''}
+                    onChange={(e) => setDutyRates(prev => ({ ...prev, [code]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleCompute} disabled={isComputing || hsCodes.length === 0}>
+            {isComputing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Calculator className="w-4 h-4 mr-2" />
+            )}
+            Compute
+          </Button>
+        </div>
+
+        {computations && (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead>HS Code</TableHead>
+                  <TableHead className="text-right">Invoice Value</TableHead>
+                  <TableHead className="text-right">Dutiable Value</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Duty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {computations.lines?.map(line => (
+                  <TableRow key={line.cargoId}>
+                    <TableCell>{line.description || '-'}</TableCell>
+                    <TableCell>{line.hsCode || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {line.currency ? formatCurrencyAmount(line.invoice_value, line.currency) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPHP(line.dutiable_value)}</TableCell>
+                    <TableCell className="text-right">{line.duty_rate}%</TableCell>
+                    <TableCell className="text-right">{formatPHP(line.customs_duty)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableBody>
+                {computations.charges?.map(charge => (
+                  <TableRow key={charge.code}>
+                    <TableCell>{charge.label}</TableCell>
+                    <TableCell className="text-right">{formatPHP(charge.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell>Total Payable to BOC</TableCell>
+                  <TableCell className="text-right">{formatPHP(computations.total_payable)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxComputationForm;
@@ -3,11 +3,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { 
+  Download,
+  History,
   MoreVertical,
   RefreshCcw
 } from 'lucide-react';
 import type { WorkflowStageStatus, ShipmentData } from '@/types/import/workflow';
 import { WORKFLOW_STATES } from '@/lib/constants/workflow-states';
+import { getDocumentUrl } from '@/lib/documents/url';
 
 interface ModernWorkflowLayoutProps {
   isLoading: boolean;
@@ -16,6 +19,7 @@ interface ModernWorkflowLayoutProps {
   shipmentData: ShipmentData;
   children: React.ReactNode;
   onRefresh?: () => void;
+  onShowHistory?: () => void;
 }
 
 const ModernWorkflowLayout: React.FC<ModernWorkflowLayoutProps> = ({
@@ -24,7 +28,8 @@ const ModernWorkflowLayout: React.FC<ModernWorkflowLayoutProps> = ({
   stageStatus,
   shipmentData,
   children,
-  onRefresh
+  onRefresh,
+  onShowHistory
 }) => {
   const StateIcon = WORKFLOW_STATES[currentStage].icon;
 
@@ -79,6 +84,28 @@ const ModernWorkflowLayout: React.FC<ModernWorkflowLayoutProps> = ({
               <RefreshCcw className="w-4 h-4 mr-2" />
               Refresh
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              asChild
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <a href={`${getDocumentUrl('shipment-summary', shipmentData.id)}?download=1`}>
+                <Download className="w-4 h-4 mr-2" />
+                Summary
+              </a>
+            </Button>
+            {onShowHistory && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onShowHistory}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -3,7 +3,7 @@
 
 import React from 'react';
 import { useRouter } from 'next/navigation';
-import { signOutAction } from '@/app/actions/auth';
+import { signOutAction, signOutAllAction } from '@/app/actions/auth';
 import { useAuth } from '@/components/layout/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { USER_ROLES } from '@/types/auth';
@@ -19,6 +19,7 @@ import {
   Bell,
   ChevronDown,
   LogOut,
+  MonitorSmartphone,
   Settings,
   User,
   Building,
@@ -45,6 +46,19 @@ export default function DashboardHeader() {
     }
   };
 
+  const handleSignOutAll = async () => {
+    const result = await signOutAllAction();
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive'
+      });
+      return;
+    }
+    await signOut();
+  };
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case USER_ROLES.SUPERADMIN:
@@ -116,6 +130,10 @@ export default function DashboardHeader() {
                 <LogOut className="mr-2 h-4 w-4" />
                 <span>Sign out</span>
               </DropdownMenuItem>
+              <DropdownMenuItem className="text-red-600" onClick={handleSignOutAll}>
+                <MonitorSmartphone className="mr-2 h-4 w-4" />
+                <span>Sign out of all devices</span>
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -12,6 +12,9 @@ import {
   ArrowDownToLine,
   ArrowUpFromLine,
   ClipboardList,
+  BookOpen,
+  Coins,
+  Hourglass,
 } from 'lucide-react';
 
 export default function Sidebar() {
@@ -47,6 +50,26 @@ export default function Sidebar() {
       href: '/admin/clients',
       icon: <Users className="w-5 h-5" />,
       label: 'Clients'
+    },
+    {
+      href: '/admin/tariff',
+      icon: <BookOpen className="w-5 h-5" />,
+      label: 'Tariff'
+    },
+    {
+      href: '/admin/exchange-rates',
+      icon: <Coins className="w-5 h-5" />,
+      label: 'Exchange Rates'
+    },
+    {
+      href: '/admin/free-time',
+      icon: <Hourglass className="w-5 h-5" />,
+      label: 'Free Time'
+    },
+    {
+      href: '/admin/organization',
+      icon: <Settings className="w-5 h-5" />,
+      label: 'Organization'
     }
   ];
 
@@ -1,11 +1,25 @@
+import { createHash } from 'crypto'
 import { hash, compare } from 'bcryptjs'
-import { SignJWT, jwtVerify } from 'jose'
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
+import type { User as UserRecord } from '@prisma/client'
 import { prisma } from './prisma'
-import type { User, Session } from '@/types/auth'
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  generateRefreshToken,
+  isAccessExpired,
+  nextAccessExpiry,
+  signSessionToken,
+  verifySessionToken,
+  type SessionTokenPayload
+} from './session-token'
+import type { Session } from '@/types/auth'
 import { USER_ROLES, type UserRole } from '@/types/auth'
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+// A request racing a rotation may still present the previous refresh secret
+const ROTATION_GRACE_MS = 30 * 1000
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
 
 export async function hashPassword(password: string) {
   return hash(password, 12)
@@ -15,75 +29,186 @@ export async function comparePasswords(password: string, hashedPassword: string)
   return compare(password, hashedPassword)
 }
 
-export async function createSession(userId: string, role: UserRole) {
-  const token = await new SignJWT({ userId, role })
-    .setProtectedHeader({ alg: 'HS256' })
-    .setExpirationTime('8h')
-    .sign(new TextEncoder().encode(JWT_SECRET))
-
+async function setSessionCookie(token: string, expiresAt: Date) {
   const cookieStore = await cookies()
-  cookieStore.set('session', token, {
+  cookieStore.set(SESSION_COOKIE, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 60 * 60 * 8 // 8 hours
+    path: '/',
+    expires: expiresAt
   })
+}
 
-  return token
+export async function clearSessionCookie() {
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, '', {
+    expires: new Date(0),
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/'
+  })
 }
 
-export async function validateSession(): Promise<Session | null> {
+async function readSessionToken() {
   const cookieStore = await cookies()
-  const session = cookieStore.get('session')
-  
-  if (!session?.value) {
+  return verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value)
+}
+
+function toSession(user: UserRecord): Session | null {
+  // Validate that the role is a valid UserRole
+  if (!Object.values(USER_ROLES).includes(user.role as UserRole)) {
     return null
   }
 
-  try {
-    const { payload } = await jwtVerify(
-      session.value,
-      new TextEncoder().encode(JWT_SECRET)
-    )
-
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId as string }
-    })
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role as UserRole,
+      companyName: user.companyName || undefined,
+      companyAddress: user.companyAddress || undefined,
+      contactNumber: user.contactNumber || undefined
+    }
+  }
+}
 
-    if (!user) return null
+/**
+ * Starts a server-side session and sets the cookie for it. The cookie holds a
+ * signed token; the refresh secret inside it is only stored hashed.
+ */
+export async function createSession(userId: string, role: UserRole) {
+  const refreshToken = generateRefreshToken()
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000)
+  const headerList = await headers()
 
-    // Validate that the role is a valid UserRole
-    if (!Object.values(USER_ROLES).includes(user.role as UserRole)) {
-      return null
+  const record = await prisma.userSession.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt,
+      userAgent: headerList.get('user-agent')
     }
+  })
 
-    // Cast the role to UserRole since we've validated it
-    const userRole = user.role as UserRole
-
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: userRole,
-        companyName: user.companyName || undefined,
-        companyAddress: user.companyAddress || undefined,
-        contactNumber: user.contactNumber || undefined
-      }
-    }
+  const token = await signSessionToken(
+    { sessionId: record.id, userId, role, refreshToken, accessExpiresAt: nextAccessExpiry() },
+    expiresAt
+  )
+  await setSessionCookie(token, expiresAt)
+
+  return record.id
+}
+
+// Loads the session record the token belongs to, if it is still live
+async function findActiveSession(payload: SessionTokenPayload) {
+  const record = await prisma.userSession.findUnique({
+    where: { id: payload.sessionId },
+    include: { user: true }
+  })
+
+  if (!record || record.revokedAt || record.expiresAt <= new Date() || record.userId !== payload.userId) {
+    return null
+  }
+
+  const presented = hashToken(payload.refreshToken)
+  if (presented === record.refreshTokenHash) {
+    return { record, isCurrent: true }
+  }
+  if (presented === record.previousTokenHash && Date.now() - record.rotatedAt.getTime() < ROTATION_GRACE_MS) {
+    return { record, isCurrent: false }
+  }
+
+  // An older secret means the token was copied and replayed; end the session
+  await prisma.userSession.update({
+    where: { id: record.id },
+    data: { revokedAt: new Date() }
+  })
+  return null
+}
+
+export async function validateSession(): Promise<Session | null> {
+  const payload = await readSessionToken()
+  if (!payload) return null
+
+  try {
+    const active = await findActiveSession(payload)
+    return active ? toSession(active.record.user) : null
   } catch {
     return null
   }
 }
 
-export function getDashboardPath(role: UserRole) {
-  switch (role) {
-    case USER_ROLES.SUPERADMIN:
-    case USER_ROLES.BROKER:
-      return '/admin/overview'
-    case USER_ROLES.CLIENT:
-      return '/client/overview'
-    default:
-      return '/'
+/**
+ * Like `validateSession`, but once the token's access window has passed it
+ * rotates the refresh secret and reissues the cookie. Clears the cookie when
+ * the session is gone, so only call it where cookies can be written.
+ */
+export async function refreshSession(): Promise<Session | null> {
+  const payload = await readSessionToken()
+  const active = payload ? await findActiveSession(payload) : null
+
+  if (!payload || !active) {
+    await clearSessionCookie()
+    return null
+  }
+
+  const session = toSession(active.record.user)
+  if (!session || !active.isCurrent || !isAccessExpired(payload)) {
+    return session
+  }
+
+  const refreshToken = generateRefreshToken()
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_SECONDS * 1000)
+
+  // Only the first of several concurrent refreshes wins; the rest keep the
+  // cookie the winner sets
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: active.record.id, refreshTokenHash: active.record.refreshTokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(refreshToken),
+      previousTokenHash: active.record.refreshTokenHash,
+      rotatedAt: now,
+      expiresAt
+    }
+  })
+  if (count === 0) return session
+
+  const token = await signSessionToken(
+    {
+      sessionId: active.record.id,
+      userId: session.user.id,
+      role: session.user.role,
+      refreshToken,
+      accessExpiresAt: nextAccessExpiry(now.getTime())
+    },
+    expiresAt
+  )
+  await setSessionCookie(token, expiresAt)
+
+  return session
+}
+
+// Ends the session behind the current cookie
+export async function revokeSession() {
+  const payload = await readSessionToken()
+  if (payload) {
+    await prisma.userSession.updateMany({
+      where: { id: payload.sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
   }
-}
\ No newline at end of file
+  await clearSessionCookie()
+}
+
+// Ends every session of the user, on every device
+export async function revokeAllSessions(userId: string) {
+  await prisma.userSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+  await clearSessionCookie()
+}
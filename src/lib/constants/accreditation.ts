@@ -0,0 +1,78 @@
+// src/lib/constants/accreditation.ts
+import type { AccreditationTransactionType } from '@/lib/utils/reference-number';
+
+export const ACCREDITATION_KINDS = {
+  IMPORTER: 'Importer',
+  BROKER: 'Customs Broker',
+} as const;
+
+export type AccreditationKind = keyof typeof ACCREDITATION_KINDS;
+
+export const ACCREDITATION_TYPES: Record<AccreditationTransactionType, string> = {
+  ACN: 'New Accreditation',
+  ACR: 'Renewal',
+};
+
+export const ACCREDITATION_STATUSES = {
+  DOCUMENT_COLLECTION: 'Document Collection',
+  SUBMITTED: 'Submitted to BOC',
+  UNDER_EVALUATION: 'Under Evaluation',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+} as const;
+
+export type AccreditationStatus = keyof typeof ACCREDITATION_STATUSES;
+
+// Warn on new imports when the accreditation lapses within this many days
+export const EXPIRY_WARNING_DAYS = 30;
+
+// Default validity offered when an approval is recorded
+export const DEFAULT_VALIDITY_YEARS = 1;
+
+const COMMON_REQUIREMENTS = [
+  'Accomplished BOC Client Profile Registration form',
+  'BIR Certificate of Registration (Form 2303)',
+  "Mayor's / Business Permit",
+  'Valid government-issued IDs of authorized signatories',
+];
+
+// Required-document checklist per accreditation type and kind
+export const ACCREDITATION_CHECKLISTS: Record<
+  AccreditationTransactionType,
+  Record<AccreditationKind, Array<{ name: string; isRequired: boolean }>>
+> = {
+  ACN: {
+    IMPORTER: [
+      ...COMMON_REQUIREMENTS.map(name => ({ name, isRequired: true })),
+      { name: 'SEC / DTI / CDA Registration', isRequired: true },
+      { name: 'Articles of Incorporation and By-Laws', isRequired: false },
+      { name: 'Latest General Information Sheet', isRequired: false },
+      { name: "Secretary's Certificate / Board Resolution", isRequired: true },
+      { name: 'Latest Income Tax Return and Audited Financial Statements', isRequired: true },
+      { name: 'Proof of business address (lease contract or title)', isRequired: true },
+      { name: 'Location sketch and office photos', isRequired: false },
+    ],
+    BROKER: [
+      ...COMMON_REQUIREMENTS.map(name => ({ name, isRequired: true })),
+      { name: 'PRC Customs Broker License and ID', isRequired: true },
+      { name: 'Certificate of Good Standing (CCBI)', isRequired: true },
+      { name: 'NBI Clearance', isRequired: true },
+      { name: 'Proof of office address', isRequired: true },
+    ],
+  },
+  ACR: {
+    IMPORTER: [
+      ...COMMON_REQUIREMENTS.map(name => ({ name, isRequired: true })),
+      { name: 'Previous Certificate of Accreditation', isRequired: true },
+      { name: 'Latest Income Tax Return and Audited Financial Statements', isRequired: true },
+      { name: 'Latest General Information Sheet', isRequired: false },
+    ],
+    BROKER: [
+      ...COMMON_REQUIREMENTS.map(name => ({ name, isRequired: true })),
+      { name: 'Previous Certificate of Accreditation', isRequired: true },
+      { name: 'Renewed PRC Customs Broker ID', isRequired: true },
+      { name: 'Certificate of Good Standing (CCBI)', isRequired: true },
+    ],
+  },
+};
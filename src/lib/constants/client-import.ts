@@ -0,0 +1,63 @@
+// src/lib/constants/client-import.ts
+import type { ClientImportField, ClientImportType } from '@/types/client-import';
+
+export interface ClientImportColumn {
+  field: ClientImportField;
+  label: string;
+  required: boolean;
+  // Accepted column names, after header normalization
+  aliases: readonly string[];
+}
+
+const NAME: ClientImportColumn = {
+  field: 'name',
+  label: 'Company Name',
+  required: true,
+  aliases: ['name', 'company_name', 'company', 'client_name', 'consignee', 'exporter', 'supplier']
+};
+const BUSINESS_ADDRESS: ClientImportColumn = {
+  field: 'businessAddress',
+  label: 'Business Address',
+  required: true,
+  aliases: ['business_address', 'address', 'company_address']
+};
+const CONTACT_PERSON: ClientImportColumn = {
+  field: 'contactPerson',
+  label: 'Contact Person',
+  required: false,
+  aliases: ['contact_person', 'contact', 'contact_name']
+};
+const CONTACT_NUMBER: ClientImportColumn = {
+  field: 'contactNumber',
+  label: 'Contact Number',
+  required: false,
+  aliases: ['contact_number', 'phone', 'phone_number', 'telephone', 'mobile']
+};
+const EMAIL: ClientImportColumn = {
+  field: 'email',
+  label: 'Email',
+  required: false,
+  aliases: ['email', 'email_address', 'e_mail']
+};
+
+export const CLIENT_IMPORT_COLUMNS: Record<ClientImportType, readonly ClientImportColumn[]> = {
+  consignee: [
+    NAME,
+    {
+      field: 'registeredName',
+      label: 'Registered Name (COR)',
+      required: false,
+      aliases: ['registered_name', 'cor_name', 'registered_business_name']
+    },
+    BUSINESS_ADDRESS,
+    { field: 'tin', label: 'TIN', required: true, aliases: ['tin', 'tin_no', 'tin_number', 'tax_id'] },
+    { field: 'brn', label: 'Bank Reference Number', required: false, aliases: ['brn', 'bank_reference_number'] },
+    CONTACT_PERSON,
+    CONTACT_NUMBER,
+    EMAIL
+  ],
+  exporter: [NAME, BUSINESS_ADDRESS, CONTACT_PERSON, CONTACT_NUMBER, EMAIL]
+};
+
+// One import is one client master file, not a data migration
+export const MAX_CLIENT_IMPORT_ROWS = 2000;
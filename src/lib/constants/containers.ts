@@ -0,0 +1,23 @@
+// src/lib/constants/containers.ts
+
+export interface ContainerSizeType {
+  // ISO 6346 size-type code as printed on the box and the BL
+  code: string;
+  label: string;
+}
+
+export const CONTAINER_SIZE_TYPES: readonly ContainerSizeType[] = [
+  { code: '22G1', label: "20' General Purpose" },
+  { code: '42G1', label: "40' General Purpose" },
+  { code: '45G1', label: "40' High Cube" },
+  { code: 'L5G1', label: "45' High Cube" },
+  { code: '22R1', label: "20' Reefer" },
+  { code: '45R1', label: "40' High Cube Reefer" },
+  { code: '22U1', label: "20' Open Top" },
+  { code: '42U1', label: "40' Open Top" },
+  { code: '22P1', label: "20' Flat Rack" },
+  { code: '42P1', label: "40' Flat Rack" },
+  { code: '22T1', label: "20' Tank" }
+];
+
+export const DEFAULT_CONTAINER_SIZE_TYPE = '45G1';
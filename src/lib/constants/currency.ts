@@ -0,0 +1,18 @@
+// src/lib/constants/currency.ts
+
+// Duties and taxes are always assessed in pesos
+export const BASE_CURRENCY = 'PHP';
+
+// Invoice currencies we receive, in the order they appear in pickers
+export const SUPPORTED_CURRENCIES = ['USD', 'CNY', 'JPY', 'EUR', 'PHP'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+export const DEFAULT_INVOICE_CURRENCY: CurrencyCode = 'USD';
+
+// Accepted column names in exchange-rate files, after header normalization
+export const EXCHANGE_RATE_COLUMNS = {
+  currency: ['currency', 'currency_code', 'code'],
+  rate: ['rate', 'php_rate', 'exchange_rate', 'peso_equivalent'],
+  weekStart: ['week_start', 'effective_date', 'effective_from', 'date'],
+} as const;
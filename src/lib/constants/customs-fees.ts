@@ -0,0 +1,48 @@
+// src/lib/constants/customs-fees.ts
+
+// VAT on importation (NIRC Sec. 107), applied to the landed cost
+export const VAT_RATE = 0.12;
+
+// Insurance assumed by customs when none is declared, as a share of FOB
+export const DEFAULT_INSURANCE_RATE = 0.02;
+
+// Customs Documentary Stamp, per entry
+export const CDS_FEE = 100;
+
+// Import Processing Fee (CAO 1-2019), by dutiable value in PHP
+export const IPF_SCHEDULE = [
+  { upTo: 250_000, fee: 250 },
+  { upTo: 500_000, fee: 500 },
+  { upTo: 750_000, fee: 750 },
+  { upTo: Infinity, fee: 1_000 },
+] as const;
+
+// Brokerage fee (CAO 1-2001), by dutiable value in PHP
+export const BROKERAGE_FEE_SCHEDULE = [
+  { upTo: 10_000, fee: 1_300 },
+  { upTo: 20_000, fee: 2_000 },
+  { upTo: 30_000, fee: 2_700 },
+  { upTo: 40_000, fee: 3_300 },
+  { upTo: 50_000, fee: 3_600 },
+  { upTo: 60_000, fee: 4_000 },
+  { upTo: 100_000, fee: 4_700 },
+  { upTo: 200_000, fee: 5_300 },
+] as const;
+
+// Above the last bracket: base fee plus this rate on the excess
+export const BROKERAGE_EXCESS_RATE = 0.00125;
+
+// What the invoice price already covers for each Incoterm
+export const INCOTERM_COVERAGE: Record<string, { freight: boolean; insurance: boolean }> = {
+  EXW: { freight: false, insurance: false },
+  FCA: { freight: false, insurance: false },
+  FAS: { freight: false, insurance: false },
+  FOB: { freight: false, insurance: false },
+  CFR: { freight: true, insurance: false },
+  CPT: { freight: true, insurance: false },
+  CIF: { freight: true, insurance: true },
+  CIP: { freight: true, insurance: true },
+  DAP: { freight: true, insurance: true },
+  DPU: { freight: true, insurance: true },
+  DDP: { freight: true, insurance: true },
+};
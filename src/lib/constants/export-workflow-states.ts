@@ -0,0 +1,61 @@
+// src/lib/constants/export-workflow-states.ts
+import {
+  ClipboardList,
+  FileText,
+  FileCheck,
+  Award,
+  Container,
+  Ship
+} from 'lucide-react';
+import { EXPORT_DOCUMENTS } from '@/lib/utils/export-workflow';
+import type { WorkflowState } from './workflow-states';
+
+export const EXPORT_WORKFLOW_STATES = {
+  SHIPPER_DETAILS: {
+    label: 'Shipper & Buyer Details',
+    icon: ClipboardList,
+    color: 'text-blue-500',
+    bgColor: 'bg-blue-100'
+  },
+  DOCUMENT_COLLECTION: {
+    label: 'Document Collection',
+    icon: FileText,
+    color: 'text-yellow-500',
+    bgColor: 'bg-yellow-100'
+  },
+  EXPORT_DECLARATION: {
+    label: 'Export Declaration',
+    icon: FileCheck,
+    color: 'text-purple-500',
+    bgColor: 'bg-purple-100'
+  },
+  CO_ISSUANCE: {
+    label: 'Certificate of Origin',
+    icon: Award,
+    color: 'text-indigo-500',
+    bgColor: 'bg-indigo-100'
+  },
+  LOADING: {
+    label: 'Loading',
+    icon: Container,
+    color: 'text-amber-500',
+    bgColor: 'bg-amber-100'
+  },
+  DEPARTED: {
+    label: 'Departed',
+    icon: Ship,
+    color: 'text-green-600',
+    bgColor: 'bg-green-100'
+  }
+} as const satisfies Record<string, WorkflowState>;
+
+export const EXPORT_REQUIRED_DOCUMENTS = [
+  { name: EXPORT_DOCUMENTS.COMMERCIAL_INVOICE, isRequired: true },
+  { name: EXPORT_DOCUMENTS.PACKING_LIST, isRequired: true },
+  { name: 'Booking Confirmation', isRequired: false },
+  { name: EXPORT_DOCUMENTS.EXPORT_DECLARATION, isRequired: true },
+  { name: EXPORT_DOCUMENTS.CERTIFICATE_OF_ORIGIN, isRequired: false },
+  { name: 'Export Permit / Clearance', isRequired: false },
+  { name: 'Phytosanitary / Product Certificates', isRequired: false },
+  { name: EXPORT_DOCUMENTS.TRANSPORT_DOCUMENT, isRequired: false }
+] as const;
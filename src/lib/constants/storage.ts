@@ -0,0 +1,35 @@
+// src/lib/constants/storage.ts
+
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Accepted upload types and the leading bytes their content must start with
+export const UPLOAD_SIGNATURES: Record<string, number[][]> = {
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47]],
+  'image/tiff': [[0x49, 0x49, 0x2a, 0x00], [0x4d, 0x4d, 0x00, 0x2a]],
+  // Legacy Office formats share the OLE container header
+  'application/msword': [[0xd0, 0xcf, 0x11, 0xe0]],
+  'application/vnd.ms-excel': [[0xd0, 0xcf, 0x11, 0xe0]],
+  // OOXML formats are zip archives
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [[0x50, 0x4b, 0x03, 0x04]],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [[0x50, 0x4b, 0x03, 0x04]],
+};
+
+export const ALLOWED_UPLOAD_TYPES = Object.keys(UPLOAD_SIGNATURES);
+
+// File-picker extensions for each accepted type
+const UPLOAD_EXTENSIONS: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/tiff': ['.tif', '.tiff'],
+  'application/msword': ['.doc'],
+  'application/vnd.ms-excel': ['.xls'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+};
+
+export const UPLOAD_ACCEPT = ALLOWED_UPLOAD_TYPES.flatMap(type => UPLOAD_EXTENSIONS[type] ?? []).join(',');
+
+export const UPLOAD_TYPES_LABEL = 'PDF, JPEG, PNG, TIFF, Word or Excel';
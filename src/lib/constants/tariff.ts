@@ -0,0 +1,25 @@
+// src/lib/constants/tariff.ts
+
+// Free trade agreements the Philippines grants preferential rates under
+export const FTA_AGREEMENTS = [
+  'ATIGA',
+  'ACFTA',
+  'AKFTA',
+  'AJCEPA',
+  'AANZFTA',
+  'AIFTA',
+  'PJEPA',
+  'PH_EFTA',
+  'RCEP',
+] as const;
+
+export type FtaAgreement = typeof FTA_AGREEMENTS[number];
+
+// Accepted column names in tariff files, after header normalization
+export const TARIFF_COLUMNS = {
+  code: ['hs_code', 'ahtn_code', 'ahtn', 'code'],
+  description: ['description', 'subheading_description'],
+  headingDescription: ['heading_description', 'heading'],
+  unit: ['unit', 'uom'],
+  mfnRate: ['mfn_rate', 'mfn', 'rate'],
+} as const;
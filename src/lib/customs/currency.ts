@@ -0,0 +1,37 @@
+// src/lib/customs/currency.ts
+import { BASE_CURRENCY, DEFAULT_INVOICE_CURRENCY } from '@/lib/constants/currency';
+import type { CargoItem, ShipmentDetails } from '@/types/import/workflow';
+
+export const normalizeCurrency = (currency?: string | null) =>
+  (currency || '').trim().toUpperCase();
+
+export const getShipmentCurrency = (details?: Pick<ShipmentDetails, 'currency'> | null) =>
+  normalizeCurrency(details?.currency) || DEFAULT_INVOICE_CURRENCY;
+
+// Goods lines without their own currency are invoiced in the shipment currency
+export const getCargoCurrency = (item: Pick<CargoItem, 'currency'>, shipmentCurrency: string) =>
+  normalizeCurrency(item.currency) || shipmentCurrency;
+
+// Customs uses the rate in force on arrival; ETA stands in until the vessel lands
+export function getArrivalDate(details?: Pick<ShipmentDetails, 'ata' | 'eta'> | null): Date | null {
+  const value = details?.ata || details?.eta;
+  if (!value) return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// `rates` holds pesos per unit keyed by currency code
+export function convertToPHP(amount: number, currency: string, rates: Record<string, number>): number | null {
+  const code = normalizeCurrency(currency);
+  if (code === BASE_CURRENCY) return amount;
+
+  const rate = rates[code];
+  return rate ? amount * rate : null;
+}
+
+export const formatCurrencyAmount = (amount: number, currency: string) =>
+  `${normalizeCurrency(currency)} ${amount.toLocaleString('en-PH', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  })}`;
@@ -0,0 +1,42 @@
+// src/lib/customs/e2m-simulator.ts
+import { toE2mResponseFlatFile, toE2mResponseXml } from './e2m';
+import { E2M_RESPONSE_TYPES, type E2mFormat, type E2mResponse, type E2mResponseType } from '@/types/e2m';
+import type { SadDeclaration } from '@/types/sad';
+
+/**
+ * A local stand-in for the customs side of E2M. It issues the responses a
+ * lodgement would get, in order, so the import path can be exercised end to
+ * end without a VASP connection. Enabled with E2M_SIMULATOR=true.
+ */
+export const isE2mSimulatorEnabled = () => process.env.E2M_SIMULATOR === 'true';
+
+// The first response type not yet received, or null once released
+export const getNextE2mResponseType = (received: string[]): E2mResponseType | null =>
+  E2M_RESPONSE_TYPES.find(type => !received.includes(type)) ?? null;
+
+const serial = () => String(Math.floor(Math.random() * 1_000_000)).padStart(6, '0');
+
+export function simulateE2mResponse(
+  sad: SadDeclaration,
+  type: E2mResponseType,
+  entryNumber: string | null,
+  format: E2mFormat
+): { fileName: string; content: string } {
+  const issuedAt = new Date();
+  const year = issuedAt.getFullYear();
+  const response: E2mResponse = {
+    type,
+    referenceNumber: sad.referenceNumber,
+    issuedAt: issuedAt.toISOString(),
+    entryNumber: entryNumber || `C-${year}-${serial()}`,
+    assessedAmount: type === 'ASSESSMENT' ? sad.taxes?.totalPayable ?? 0 : null,
+    paymentReference: type === 'PAYMENT' ? `PAY-${year}-${serial()}` : null,
+    releaseReference: type === 'RELEASE' ? `REL-${year}-${serial()}` : null
+  };
+
+  const extension = format === 'XML' ? 'xml' : 'txt';
+  return {
+    fileName: `${type}-${sad.referenceNumber}.${extension}`,
+    content: format === 'XML' ? toE2mResponseXml(response) : toE2mResponseFlatFile(response)
+  };
+}
@@ -0,0 +1,275 @@
+// src/lib/customs/e2m.ts
+import {
+  E2M_RESPONSE_TYPES,
+  type E2mExportFile,
+  type E2mFormat,
+  type E2mResponse,
+  type E2mResponseType
+} from '@/types/e2m';
+import type { SadDeclaration } from '@/types/sad';
+
+export class E2mFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'E2mFormatError';
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+};
+
+const escapeXml = (value: string) => value.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+
+// &amp; last, so an escaped entity such as &amp;lt; is not decoded twice
+const unescapeXml = (value: string) =>
+  Object.entries(XML_ENTITIES)
+    .reverse()
+    .reduce((text, [char, entity]) => text.split(entity).join(char), value);
+
+type XmlValue = string | number | null | undefined;
+
+const element = (name: string, value: XmlValue | string[], attributes: Record<string, XmlValue> = {}) => {
+  const attrs = Object.entries(attributes)
+    .filter(([, attr]) => attr !== null && attr !== undefined && attr !== '')
+    .map(([key, attr]) => ` ${key}="${escapeXml(String(attr))}"`)
+    .join('');
+  if (Array.isArray(value)) {
+    if (!value.length) return `<${name}${attrs}/>`;
+    return `<${name}${attrs}>\n${value.map(line => `  ${line.replace(/\n/g, '\n  ')}`).join('\n')}\n</${name}>`;
+  }
+  return `<${name}${attrs}>${escapeXml(value === null || value === undefined ? '' : String(value))}</${name}>`;
+};
+
+const amount = (value: number | null | undefined) =>
+  value === null || value === undefined ? '' : value.toFixed(2);
+
+export function toE2mXml(sad: SadDeclaration): string {
+  const declaration = element('E2MDeclaration', [
+    element('Reference', sad.referenceNumber),
+    element('GeneratedAt', sad.generatedAt),
+    element('Exporter', [element('Name', sad.exporter.name), element('Address', sad.exporter.address)]),
+    element('Consignee', [
+      element('Name', sad.consignee.name),
+      element('Address', sad.consignee.address),
+      element('TIN', sad.consignee.tin)
+    ]),
+    element('CountryOfExport', sad.countryOfExport),
+    element('CountryOfOrigin', sad.countryOfOrigin),
+    element('Transport', [
+      element('Carrier', sad.transport.vesselOrFlight),
+      element('Voyage', sad.transport.voyageNumber),
+      element('Registry', sad.transport.registryNumber),
+      element('TransportDocument', sad.transport.transportDocument),
+      element('Container', sad.transport.containerNumber)
+    ], { mode: sad.transport.mode }),
+    element('PortOfLoading', sad.portOfLoading),
+    element('PortOfDischarge', sad.portOfDischarge),
+    element('TermsOfDelivery', sad.termsOfDelivery),
+    element('Invoice', [element('Total', amount(sad.invoice.total))], {
+      currency: sad.invoice.currency,
+      exchangeRate: sad.invoice.exchangeRate
+    }),
+    element('Items', sad.items.map(item => element('Item', [
+      element('Description', item.description),
+      element('HSCode', item.hsCode),
+      element('Marks', item.marksAndNumbers),
+      element('Packages', item.packages, { code: item.packagingCode }),
+      element('CountryOfOrigin', item.countryOfOrigin),
+      element('GrossWeight', item.grossWeight),
+      element('NetWeight', item.netWeight),
+      element('ItemPrice', amount(item.invoiceValue), { currency: item.currency }),
+      element('CustomsDuty', amount(item.customsDuty), { rate: item.dutyRate })
+    ], { number: item.itemNumber }))),
+    element('Taxes', sad.taxes ? [
+      element('DutiableValue', amount(sad.taxes.dutiableValue)),
+      element('CustomsDuty', amount(sad.taxes.customsDuty)),
+      element('VAT', amount(sad.taxes.vat)),
+      element('OtherCharges', amount(sad.taxes.otherCharges)),
+      element('TotalPayable', amount(sad.taxes.totalPayable))
+    ] : [])
+  ], { version: sad.version, type: sad.declarationType });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${declaration}\n`;
+}
+
+// Pipes separate fields, so none may appear inside one
+const field = (value: XmlValue) =>
+  value === null || value === undefined ? '' : String(value).replace(/[|\r\n]+/g, ' ').trim();
+
+const record = (...fields: XmlValue[]) => fields.map(field).join('|');
+
+/**
+ * The fixed-layout flat file: one pipe-delimited record per line, a header,
+ * the parties, one ITM record per goods line and a trailer with the count.
+ */
+export function toE2mFlatFile(sad: SadDeclaration): string {
+  return [
+    record('HDR', sad.declarationType, sad.version, sad.referenceNumber, sad.generatedAt, sad.transport.mode),
+    record('EXP', sad.exporter.name, sad.exporter.address),
+    record('CON', sad.consignee.name, sad.consignee.address, sad.consignee.tin),
+    record(
+      'GEN',
+      sad.countryOfExport,
+      sad.countryOfOrigin,
+      sad.portOfLoading,
+      sad.portOfDischarge,
+      sad.termsOfDelivery,
+      sad.invoice.currency,
+      amount(sad.invoice.total),
+      sad.invoice.exchangeRate
+    ),
+    record(
+      'TRN',
+      sad.transport.vesselOrFlight,
+      sad.transport.voyageNumber,
+      sad.transport.registryNumber,
+      sad.transport.transportDocument,
+      sad.transport.containerNumber
+    ),
+    ...sad.items.map(item => record(
+      'ITM',
+      item.itemNumber,
+      item.hsCode,
+      item.description,
+      item.marksAndNumbers,
+      item.packages,
+      item.packagingCode,
+      item.countryOfOrigin,
+      item.grossWeight,
+      item.netWeight,
+      amount(item.invoiceValue),
+      item.currency,
+      item.dutyRate,
+      amount(item.customsDuty)
+    )),
+    ...(sad.taxes ? [record(
+      'TAX',
+      amount(sad.taxes.dutiableValue),
+      amount(sad.taxes.customsDuty),
+      amount(sad.taxes.vat),
+      amount(sad.taxes.otherCharges),
+      amount(sad.taxes.totalPayable)
+    )] : []),
+    record('END', sad.items.length)
+  ].join('\n') + '\n';
+}
+
+export function toE2mExportFile(sad: SadDeclaration, format: E2mFormat): E2mExportFile {
+  return format === 'XML'
+    ? { fileName: `E2M-${sad.referenceNumber}.xml`, content: toE2mXml(sad), contentType: 'application/xml' }
+    : { fileName: `E2M-${sad.referenceNumber}.txt`, content: toE2mFlatFile(sad), contentType: 'text/plain' };
+}
+
+export function toE2mResponseXml(response: E2mResponse): string {
+  const body = element('E2MResponse', [
+    element('Reference', response.referenceNumber),
+    element('IssuedAt', response.issuedAt),
+    element('EntryNumber', response.entryNumber),
+    ...(response.assessedAmount !== null ? [element('AssessedAmount', amount(response.assessedAmount))] : []),
+    ...(response.paymentReference ? [element('PaymentReference', response.paymentReference)] : []),
+    ...(response.releaseReference ? [element('ReleaseReference', response.releaseReference)] : [])
+  ], { type: response.type });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}\n`;
+}
+
+export const toE2mResponseFlatFile = (response: E2mResponse) =>
+  record(
+    'RSP',
+    response.type,
+    response.referenceNumber,
+    response.issuedAt,
+    response.entryNumber,
+    amount(response.assessedAmount),
+    response.paymentReference,
+    response.releaseReference
+  ) + '\n';
+
+const readTag = (xml: string, tag: string) => {
+  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+  return match ? unescapeXml(match[1]).trim() : '';
+};
+
+function readResponseFields(content: string) {
+  const text = content.trim();
+  if (text.startsWith('<')) {
+    const type = text.match(/<E2MResponse\b[^>]*\btype="([^"]*)"/)?.[1];
+    if (type === undefined) {
+      throw new E2mFormatError('Not an E2M response: missing the E2MResponse element');
+    }
+    return {
+      type,
+      referenceNumber: readTag(text, 'Reference'),
+      issuedAt: readTag(text, 'IssuedAt'),
+      entryNumber: readTag(text, 'EntryNumber'),
+      assessedAmount: readTag(text, 'AssessedAmount'),
+      paymentReference: readTag(text, 'PaymentReference'),
+      releaseReference: readTag(text, 'ReleaseReference')
+    };
+  }
+
+  const line = text.split(/\r?\n/).find(row => row.startsWith('RSP|'));
+  if (!line) {
+    throw new E2mFormatError('Not an E2M response: no RSP record found');
+  }
+  const [, type, referenceNumber, issuedAt, entryNumber, assessedAmount, paymentReference, releaseReference] =
+    line.split('|').map(value => value.trim());
+  return { type, referenceNumber, issuedAt, entryNumber, assessedAmount, paymentReference, releaseReference };
+}
+
+/**
+ * Reads a response file in either format and checks it carries what its type
+ * requires. Matching it to a shipment is left to the caller.
+ */
+export function parseE2mResponse(content: string): E2mResponse {
+  const fields = readResponseFields(content);
+
+  if (!E2M_RESPONSE_TYPES.includes(fields.type as E2mResponseType)) {
+    throw new E2mFormatError(`Unknown response type: ${fields.type || 'none'}`);
+  }
+  const type = fields.type as E2mResponseType;
+
+  if (!fields.referenceNumber) {
+    throw new E2mFormatError('Response has no reference number');
+  }
+  if (!fields.entryNumber) {
+    throw new E2mFormatError('Response has no entry number');
+  }
+
+  const issuedAt = new Date(fields.issuedAt || '');
+  if (Number.isNaN(issuedAt.getTime())) {
+    throw new E2mFormatError(`Invalid issue date: ${fields.issuedAt || 'none'}`);
+  }
+
+  const assessedAmount = fields.assessedAmount ? Number(fields.assessedAmount) : null;
+  if (assessedAmount !== null && !Number.isFinite(assessedAmount)) {
+    throw new E2mFormatError(`Invalid assessed amount: ${fields.assessedAmount}`);
+  }
+
+  if (type === 'ASSESSMENT' && assessedAmount === null) {
+    throw new E2mFormatError('An assessment response must carry the assessed amount');
+  }
+  if (type === 'PAYMENT' && !fields.paymentReference) {
+    throw new E2mFormatError('A payment response must carry the payment reference');
+  }
+  if (type === 'RELEASE' && !fields.releaseReference) {
+    throw new E2mFormatError('A release response must carry the release reference');
+  }
+
+  return {
+    type,
+    referenceNumber: fields.referenceNumber,
+    issuedAt: issuedAt.toISOString(),
+    entryNumber: fields.entryNumber,
+    assessedAmount,
+    paymentReference: fields.paymentReference || null,
+    releaseReference: fields.releaseReference || null
+  };
+}
+
+export const getE2mResponseFormat = (content: string): E2mFormat =>
+  content.trim().startsWith('<') ? 'XML' : 'FLAT';
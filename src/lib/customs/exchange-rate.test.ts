@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { parseExchangeRateRows } from './exchange-rate';
+
+const serverZone = process.env.TZ;
+afterEach(() => {
+  process.env.TZ = serverZone;
+});
+
+const weekStartsOf = (dates: string[]) =>
+  parseExchangeRateRows(dates.map(date => ({ currency: 'USD', rate: '56.12', week_start: date })))
+    .records.map(record => record.weekStart.toISOString());
+
+describe('parseExchangeRateRows', () => {
+  it.each(['Asia/Manila', 'America/New_York', 'UTC'])('keeps the written day on a server in %s', zone => {
+    process.env.TZ = zone;
+    expect(weekStartsOf(['2024-01-08', '1/15/2024', '1/22/24', '2024-01-29T23:30:00Z'])).toEqual([
+      '2024-01-08T00:00:00.000Z',
+      '2024-01-15T00:00:00.000Z',
+      '2024-01-22T00:00:00.000Z',
+      '2024-01-29T00:00:00.000Z'
+    ]);
+  });
+
+  it('reports rows it cannot use by their row number in the file', () => {
+    const { records, errors } = parseExchangeRateRows([
+      { currency: 'USD', rate: '56.12', week_start: 'next week' },
+      { currency: 'PHP', rate: '1', week_start: '2024-01-08' },
+      { currency: 'EUR', rate: '61.02', week_start: '2024-01-08' }
+    ]);
+    expect(records).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 2, message: 'Invalid week start date "next week"' },
+      { row: 3, message: 'PHP does not need a rate' }
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+// src/lib/customs/exchange-rate.ts
+import { prisma } from '@/lib/prisma';
+import { readSpreadsheetRows, type SpreadsheetRow } from '@/lib/utils/spreadsheet';
+import { BASE_CURRENCY, EXCHANGE_RATE_COLUMNS } from '@/lib/constants/currency';
+import { normalizeCurrency } from './currency';
+import type {
+  ExchangeRateEntry,
+  ExchangeRateImportRowError,
+  ExchangeRateImportSummary,
+} from '@/types/exchange-rate';
+
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
+
+interface ExchangeRateRecord {
+  currency: string;
+  rate: number;
+  weekStart: Date;
+}
+
+const pick = (row: SpreadsheetRow, keys: readonly string[]) =>
+  keys.map(key => row[key]).find(value => value !== undefined && value !== '') ?? '';
+
+// "1/8/2024" or "1/8/24", which Date would otherwise read as local midnight
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/;
+
+// Rates are keyed by the UTC calendar day, so drop any time of day from the
+// file without letting the server's time zone move the date
+const toWeekStart = (value: string): Date | null => {
+  const us = US_DATE.exec(value.trim());
+  const date = us
+    ? new Date(Date.UTC(Number(us[3].length === 2 ? `20${us[3]}` : us[3]), Number(us[1]) - 1, Number(us[2])))
+    : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+const toEntry = (rate: { currency: string; rate: number; weekStart: Date; source: string | null }): ExchangeRateEntry => ({
+  currency: rate.currency,
+  rate: rate.rate,
+  weekStart: rate.weekStart.toISOString(),
+  source: rate.source
+});
+
+/**
+ * Returns the latest published rate on or before `date` for each currency.
+ * Currencies without a rate in force are left out of the result.
+ */
+export async function findRatesInForce(
+  currencies: string[],
+  date: Date
+): Promise<Record<string, ExchangeRateEntry>> {
+  const codes = Array.from(new Set(currencies.map(normalizeCurrency)))
+    .filter(code => code && code !== BASE_CURRENCY);
+
+  const rates = await Promise.all(codes.map(currency =>
+    prisma.exchangeRate.findFirst({
+      where: { currency, weekStart: { lte: date } },
+      orderBy: { weekStart: 'desc' }
+    })
+  ));
+
+  return Object.fromEntries(
+    rates.filter(rate => rate !== null).map(rate => [rate!.currency, toEntry(rate!)])
+  );
+}
+
+// Same as findRatesInForce but fails when any currency has no rate
+export async function resolveExchangeRates(currencies: string[], date: Date) {
+  const entries = await findRatesInForce(currencies, date);
+  const missing = Array.from(new Set(currencies.map(normalizeCurrency)))
+    .filter(code => code && code !== BASE_CURRENCY && !entries[code]);
+
+  if (missing.length) {
+    throw new ExchangeRateError(
+      `No exchange rate in force on ${date.toISOString().slice(0, 10)} for ${missing.join(', ')}`
+    );
+  }
+
+  return entries;
+}
+
+export async function listExchangeRates(take = 100): Promise<ExchangeRateEntry[]> {
+  const rates = await prisma.exchangeRate.findMany({
+    orderBy: [{ weekStart: 'desc' }, { currency: 'asc' }],
+    take
+  });
+  return rates.map(toEntry);
+}
+
+export function parseExchangeRateRows(rows: SpreadsheetRow[]) {
+  const records: ExchangeRateRecord[] = [];
+  const errors: ExchangeRateImportRowError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    // Header is row 1 in the source file
+    const rowNumber = index + 2;
+    const currency = normalizeCurrency(pick(row, EXCHANGE_RATE_COLUMNS.currency));
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push({ row: rowNumber, message: `Invalid currency code "${currency}"` });
+      return;
+    }
+    if (currency === BASE_CURRENCY) {
+      errors.push({ row: rowNumber, message: `${BASE_CURRENCY} does not need a rate` });
+      return;
+    }
+
+    const rate = Number(pick(row, EXCHANGE_RATE_COLUMNS.rate).replace(/,/g, ''));
+    if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push({ row: rowNumber, message: `Invalid rate for ${currency}` });
+      return;
+    }
+
+    const rawDate = pick(row, EXCHANGE_RATE_COLUMNS.weekStart);
+    const weekStart = toWeekStart(rawDate);
+    if (!weekStart) {
+      errors.push({ row: rowNumber, message: `Invalid week start date "${rawDate}"` });
+      return;
+    }
+
+    const key = `${currency}:${weekStart.toISOString()}`;
+    if (seen.has(key)) {
+      errors.push({ row: rowNumber, message: `Duplicate ${currency} rate for ${rawDate}` });
+      return;
+    }
+
+    seen.add(key);
+    records.push({ currency, rate, weekStart });
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Loads a file of weekly customs rates (currency, rate, week start). Rows are
+ * upserted by currency and week so a corrected file can be re-imported.
+ */
+export async function importExchangeRates(
+  buffer: ArrayBuffer,
+  source: string
+): Promise<ExchangeRateImportSummary> {
+  const { records, errors } = parseExchangeRateRows(await readSpreadsheetRows(buffer));
+
+  await prisma.$transaction(
+    records.map(({ currency, rate, weekStart }) =>
+      prisma.exchangeRate.upsert({
+        where: { currency_weekStart: { currency, weekStart } },
+        update: { rate, source },
+        create: { currency, rate, weekStart, source }
+      })
+    )
+  );
+
+  return { rates: records.length, errors };
+}
@@ -0,0 +1,24 @@
+// src/lib/customs/hs-code.ts
+
+// AHTN codes are 8 digits, written as 8471.30.20
+const AHTN_PATTERN = /^\d{4}\.\d{2}\.\d{2}$/;
+
+export const normalizeHsCode = (value: string) => (value || '').replace(/\D/g, '');
+
+export const formatHsCode = (value: string) => {
+  const digits = normalizeHsCode(value);
+  if (digits.length !== 8) return value.trim();
+  return `${digits.slice(0, 4)}.${digits.slice(4, 6)}.${digits.slice(6, 8)}`;
+};
+
+export const isValidHsCode = (value: string) => AHTN_PATTERN.test(formatHsCode(value));
+
+export const getHeadingCode = (value: string) => normalizeHsCode(value).slice(0, 4);
+
+export const getChapterCode = (value: string) => normalizeHsCode(value).slice(0, 2);
+
+// Partial input such as "847130" -> "8471.30", for prefix searches
+export const toHsCodePrefix = (value: string) => {
+  const digits = normalizeHsCode(value).slice(0, 8);
+  return [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)].filter(Boolean).join('.');
+};
@@ -0,0 +1,178 @@
+// src/lib/customs/landed-cost.ts
+import {
+  VAT_RATE,
+  DEFAULT_INSURANCE_RATE,
+  CDS_FEE,
+  IPF_SCHEDULE,
+  BROKERAGE_FEE_SCHEDULE,
+  BROKERAGE_EXCESS_RATE,
+  INCOTERM_COVERAGE,
+} from '@/lib/constants/customs-fees';
+import { convertToPHP, getCargoCurrency, normalizeCurrency } from './currency';
+import type {
+  CargoItem,
+  ComputationCharge,
+  ComputationDetails,
+  ComputationLine,
+} from '@/types/import/workflow';
+
+export interface LandedCostInput {
+  cargo: CargoItem[];
+  termsOfDelivery?: string;
+  // Shipment invoice currency; also the currency of freight and insurance
+  currency: string;
+  // Pesos per unit keyed by currency code, covering every currency in use
+  exchangeRates: Record<string, number>;
+  // Freight and insurance in the shipment currency; ignored when the Incoterm already covers them
+  freight: number;
+  insurance?: number | null;
+  // Duty rate in percent, keyed by HS code
+  dutyRates: Record<string, number>;
+  // Port charges in PHP
+  arrastre?: number;
+  wharfage?: number;
+}
+
+export class LandedCostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LandedCostError';
+  }
+}
+
+const round = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// "FOB - Free on Board" -> "FOB"
+export const getIncotermCode = (termsOfDelivery?: string) =>
+  (termsOfDelivery || '').split('-')[0].trim().toUpperCase();
+
+export const getImportProcessingFee = (dutiableValue: number) =>
+  IPF_SCHEDULE.find(bracket => dutiableValue <= bracket.upTo)!.fee;
+
+export const getBrokerageFee = (dutiableValue: number) => {
+  const bracket = BROKERAGE_FEE_SCHEDULE.find(b => dutiableValue <= b.upTo);
+  if (bracket) return bracket.fee;
+
+  const last = BROKERAGE_FEE_SCHEDULE[BROKERAGE_FEE_SCHEDULE.length - 1];
+  return round(last.fee + (dutiableValue - last.upTo) * BROKERAGE_EXCESS_RATE);
+};
+
+/**
+ * Computes duties and taxes for a shipment.
+ *
+ * Dutiable value is CIF in PHP: each line's invoice value converted at the
+ * rate for its currency, plus whatever freight and insurance the Incoterm
+ * leaves out, spread over the goods lines by peso value.
+ * VAT is levied on the landed cost (dutiable value + duty + brokerage +
+ * arrastre + wharfage + IPF + CDS). `other_charges` only holds the fees paid
+ * to customs with the entry (IPF and CDS), so `total_payable` is the amount
+ * due to BOC.
+ */
+export function computeLandedCost(input: LandedCostInput): Omit<ComputationDetails, 'computed_at' | 'computed_by'> {
+  const { cargo, termsOfDelivery, exchangeRates, dutyRates } = input;
+  const currency = normalizeCurrency(input.currency);
+
+  if (!cargo.length) {
+    throw new LandedCostError('No cargo lines to compute');
+  }
+
+  const incoterm = getIncotermCode(termsOfDelivery);
+  const coverage = INCOTERM_COVERAGE[incoterm];
+  if (!coverage) {
+    throw new LandedCostError(`Unknown terms of delivery: ${termsOfDelivery || 'none'}`);
+  }
+
+  const missingRates = cargo.filter(item => dutyRates[item.hsCode] === undefined);
+  if (missingRates.length) {
+    throw new LandedCostError(
+      `Missing duty rate for HS code ${missingRates.map(item => item.hsCode || '(blank)').join(', ')}`
+    );
+  }
+
+  const toPHP = (amount: number, code: string) => {
+    const converted = convertToPHP(amount, code, exchangeRates);
+    if (converted === null) {
+      throw new LandedCostError(`Missing exchange rate for ${code}`);
+    }
+    return converted;
+  };
+
+  const fobValues = cargo.map(item =>
+    round(toPHP(item.invoiceValue || 0, getCargoCurrency(item, currency)))
+  );
+  const totalFob = fobValues.reduce((sum, value) => sum + value, 0);
+  if (!(totalFob > 0)) {
+    throw new LandedCostError('Total invoice value must be greater than zero');
+  }
+
+  const freight = coverage.freight ? 0 : toPHP(input.freight || 0, currency);
+  const insurance = coverage.insurance
+    ? 0
+    : input.insurance != null
+      ? toPHP(input.insurance, currency)
+      : totalFob * DEFAULT_INSURANCE_RATE;
+
+  const lines: ComputationLine[] = cargo.map((item, index) => {
+    const fobValue = fobValues[index];
+    const share = fobValue / totalFob;
+    const lineFreight = round(freight * share);
+    const lineInsurance = round(insurance * share);
+    const dutiableValue = round(fobValue + lineFreight + lineInsurance);
+    const dutyRate = dutyRates[item.hsCode];
+
+    return {
+      cargoId: item.id,
+      description: item.description,
+      hsCode: item.hsCode,
+      currency: getCargoCurrency(item, currency),
+      invoice_value: item.invoiceValue || 0,
+      fob_value: fobValue,
+      freight: lineFreight,
+      insurance: lineInsurance,
+      dutiable_value: dutiableValue,
+      duty_rate: dutyRate,
+      customs_duty: round(dutiableValue * dutyRate / 100),
+    };
+  });
+
+  const dutiableValue = round(lines.reduce((sum, line) => sum + line.dutiable_value, 0));
+  const customsDuty = round(lines.reduce((sum, line) => sum + line.customs_duty, 0));
+  const brokerageFee = getBrokerageFee(dutiableValue);
+  const arrastre = round(input.arrastre || 0);
+  const wharfage = round(input.wharfage || 0);
+  const ipf = getImportProcessingFee(dutiableValue);
+  const landedCost = round(
+    dutiableValue + customsDuty + brokerageFee + arrastre + wharfage + ipf + CDS_FEE
+  );
+  const vat = round(landedCost * VAT_RATE);
+  const otherCharges = round(ipf + CDS_FEE);
+
+  const charges: ComputationCharge[] = [
+    { code: 'DUTIABLE_VALUE', label: 'Dutiable Value (CIF)', amount: dutiableValue },
+    { code: 'CUSTOMS_DUTY', label: 'Customs Duty', amount: customsDuty },
+    { code: 'BROKERAGE_FEE', label: 'Brokerage Fee', amount: brokerageFee },
+    { code: 'ARRASTRE', label: 'Arrastre', amount: arrastre },
+    { code: 'WHARFAGE', label: 'Wharfage', amount: wharfage },
+    { code: 'IPF', label: 'Import Processing Fee', amount: ipf },
+    { code: 'CDS', label: 'Customs Documentary Stamp', amount: CDS_FEE },
+    { code: 'LANDED_COST', label: 'Landed Cost', amount: landedCost },
+    { code: 'VAT', label: `VAT (${VAT_RATE * 100}%)`, amount: vat },
+  ];
+
+  return {
+    dutiable_value: dutiableValue,
+    customs_duty: customsDuty,
+    vat,
+    other_charges: otherCharges,
+    total_payable: round(customsDuty + vat + otherCharges),
+    currency,
+    exchange_rate: toPHP(1, currency),
+    exchange_rates: Object.fromEntries(
+      Array.from(new Set([currency, ...lines.map(line => line.currency)]))
+        .map(code => [code, toPHP(1, code)])
+    ),
+    terms_of_delivery: incoterm,
+    lines,
+    charges,
+  };
+}
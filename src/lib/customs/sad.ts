@@ -0,0 +1,143 @@
+// src/lib/customs/sad.ts
+import { getCargoCurrency, getShipmentCurrency } from './currency';
+import { formatHsCode, isValidHsCode } from './hs-code';
+import { getIncotermCode } from './landed-cost';
+import { INCOTERM_COVERAGE } from '@/lib/constants/customs-fees';
+import { getBlNumbers } from '@/lib/utils/container';
+import { isValidTin } from '@/lib/utils/tin';
+import type { ImportTransactionType } from '@/lib/utils/reference-number';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { SadDeclaration, SadItem, SadValidationIssue } from '@/types/sad';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Maps a shipment onto the SAD/IED field set. Blank boxes are left blank
+ * here; `validateSadDeclaration` reports them.
+ */
+export function buildSadDeclaration(
+  shipment: ShipmentData,
+  freightType: ImportTransactionType
+): SadDeclaration {
+  const details = shipment.shipmentDetails;
+  const currency = getShipmentCurrency(details);
+  const computations = shipment.computations;
+  const countryOfOrigin = details.country_of_origin || '';
+  const marksAndNumbers = details.markings_and_numbers || '';
+  const packagingCode = details.packaging_code || '';
+
+  const items: SadItem[] = shipment.cargo.map((item, index) => {
+    const line = computations?.lines?.find(computed => computed.cargoId === item.id);
+    return {
+      itemNumber: index + 1,
+      description: item.description,
+      hsCode: formatHsCode(item.hsCode || ''),
+      marksAndNumbers,
+      packagingCode,
+      packages: item.quantity,
+      countryOfOrigin,
+      grossWeight: item.grossWeight,
+      netWeight: item.netWeight,
+      invoiceValue: item.invoiceValue,
+      currency: getCargoCurrency(item, currency),
+      dutiableValue: line?.dutiable_value ?? null,
+      dutyRate: line?.duty_rate ?? null,
+      customsDuty: line?.customs_duty ?? null
+    };
+  });
+
+  const isSea = freightType === 'IMS';
+  return {
+    version: 1,
+    declarationType: 'IED',
+    referenceNumber: shipment.referenceNumber,
+    generatedAt: new Date().toISOString(),
+    exporter: {
+      name: shipment.exporter?.name || '',
+      address: shipment.exporter?.address || ''
+    },
+    consignee: {
+      name: shipment.consignee?.name || '',
+      address: shipment.consignee?.address || '',
+      tin: (shipment.consignee?.tin || '').replace(/\D/g, '')
+    },
+    countryOfExport: details.country_of_export || '',
+    countryOfOrigin,
+    transport: {
+      mode: isSea ? 'SEA' : 'AIR',
+      vesselOrFlight: (isSea ? details.vessel_name : details.flight_number) || '',
+      voyageNumber: details.voyage_number || '',
+      registryNumber: details.registry_number || '',
+      transportDocument: isSea ? getBlNumbers(details).join(', ') : details.bl_number || '',
+      // Shipments filed before containers were tracked only have the free-text field
+      containerNumber: shipment.containers.length
+        ? shipment.containers.map(container => container.number).join(', ')
+        : details.container_number || ''
+    },
+    portOfLoading: details.port_of_origin || '',
+    portOfDischarge: details.port_of_discharge || '',
+    termsOfDelivery: getIncotermCode(details.terms_of_delivery),
+    invoice: {
+      currency,
+      total: round(items.reduce((sum, item) => sum + item.invoiceValue, 0)),
+      exchangeRate: computations?.exchange_rate ?? null
+    },
+    totalPackages: items.reduce((sum, item) => sum + item.packages, 0),
+    totalGrossWeight: round(items.reduce((sum, item) => sum + item.grossWeight, 0)),
+    items,
+    taxes: computations
+      ? {
+          dutiableValue: computations.dutiable_value,
+          customsDuty: computations.customs_duty,
+          vat: computations.vat,
+          otherCharges: computations.other_charges,
+          totalPayable: computations.total_payable
+        }
+      : null
+  };
+}
+
+/**
+ * Checks the boxes customs rejects a declaration without. An empty list
+ * means the SAD can be printed and lodged.
+ */
+export function validateSadDeclaration(sad: SadDeclaration): SadValidationIssue[] {
+  const issues: SadValidationIssue[] = [];
+  const require = (condition: unknown, box: string, message: string, itemNumber?: number) => {
+    if (!condition) issues.push({ box, message, ...(itemNumber ? { itemNumber } : {}) });
+  };
+
+  require(sad.exporter.name, '2', 'Exporter name is required');
+  require(sad.exporter.address, '2', 'Exporter address is required');
+  require(sad.consignee.name, '8', 'Consignee name is required');
+  require(sad.consignee.tin, '8', 'Consignee TIN is required');
+  if (sad.consignee.tin) {
+    require(isValidTin(sad.consignee.tin), '8', 'Consignee TIN must be 9 digits plus an optional branch code');
+  }
+  require(sad.countryOfExport, '15', 'Country of export is required');
+  require(sad.countryOfOrigin, '16', 'Country of origin is required');
+  require(sad.transport.vesselOrFlight, '18', `${sad.transport.mode === 'SEA' ? 'Vessel' : 'Flight'} is required`);
+  require(sad.termsOfDelivery && INCOTERM_COVERAGE[sad.termsOfDelivery], '20', 'Terms of delivery must be a valid Incoterm');
+  require(sad.transport.transportDocument, '44', `${sad.transport.mode === 'SEA' ? 'Bill of lading' : 'Air waybill'} number is required`);
+  require(sad.portOfDischarge, '29', 'Port of discharge is required');
+  require(sad.items.length, '31', 'At least one goods line is required');
+
+  for (const item of sad.items) {
+    const n = item.itemNumber;
+    require(item.description, '31', `Item ${n}: description is required`, n);
+    require(item.marksAndNumbers, '31', `Item ${n}: marks and numbers are required`, n);
+    require(item.packagingCode, '31', `Item ${n}: packaging code is required`, n);
+    require(item.packages > 0, '31', `Item ${n}: number of packages must be positive`, n);
+    require(isValidHsCode(item.hsCode), '33', `Item ${n}: HS code must be an 8-digit AHTN code`, n);
+    require(item.grossWeight > 0, '35', `Item ${n}: gross weight must be positive`, n);
+    require(item.netWeight > 0, '38', `Item ${n}: net weight must be positive`, n);
+    require(item.netWeight <= item.grossWeight, '38', `Item ${n}: net weight cannot exceed gross weight`, n);
+    require(item.invoiceValue > 0, '42', `Item ${n}: item price must be positive`, n);
+  }
+
+  require(sad.taxes, '47', 'Duties and taxes have not been computed');
+  return issues;
+}
+
+// The machine-readable copy of the declaration
+export const serializeSadDeclaration = (sad: SadDeclaration) => JSON.stringify(sad, null, 2);
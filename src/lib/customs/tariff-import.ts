@@ -0,0 +1,167 @@
+// src/lib/customs/tariff-import.ts
+import { prisma } from '@/lib/prisma';
+import { readSpreadsheetRows, normalizeHeader, type SpreadsheetRow } from '@/lib/utils/spreadsheet';
+import { FTA_AGREEMENTS, TARIFF_COLUMNS, type FtaAgreement } from '@/lib/constants/tariff';
+import { formatHsCode, getChapterCode, getHeadingCode, isValidHsCode } from './hs-code';
+import type { TariffImportRowError, TariffImportSummary } from '@/types/tariff';
+
+interface TariffRecord {
+  code: string;
+  description: string;
+  headingCode: string;
+  headingDescription: string;
+  unit: string | null;
+  mfnRate: number | null;
+  preferentialRates: Array<{ agreement: FtaAgreement; rate: number }>;
+}
+
+const pick = (row: SpreadsheetRow, keys: readonly string[]) =>
+  keys.map(key => row[key]).find(value => value !== undefined && value !== '') ?? '';
+
+// "5", "5%", "Free" and "0.0" are all valid; blank means no rate given
+const parseRate = (value: string): number | null | undefined => {
+  const cleaned = value.replace('%', '').trim().toLowerCase();
+  if (!cleaned) return null;
+  if (cleaned === 'free') return 0;
+  const rate = Number(cleaned);
+  return Number.isFinite(rate) && rate >= 0 ? rate : undefined;
+};
+
+export function parseTariffRows(rows: SpreadsheetRow[]) {
+  const records: TariffRecord[] = [];
+  const errors: TariffImportRowError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    // Header is row 1 in the source file
+    const rowNumber = index + 2;
+    const rawCode = pick(row, TARIFF_COLUMNS.code);
+
+    if (!rawCode) {
+      errors.push({ row: rowNumber, message: 'Missing HS code' });
+      return;
+    }
+    if (!isValidHsCode(rawCode)) {
+      errors.push({ row: rowNumber, message: `Invalid AHTN code "${rawCode}"` });
+      return;
+    }
+
+    const code = formatHsCode(rawCode);
+    if (seen.has(code)) {
+      errors.push({ row: rowNumber, message: `Duplicate HS code ${code}` });
+      return;
+    }
+
+    const description = pick(row, TARIFF_COLUMNS.description);
+    if (!description) {
+      errors.push({ row: rowNumber, message: `Missing description for ${code}` });
+      return;
+    }
+
+    const mfnRate = parseRate(pick(row, TARIFF_COLUMNS.mfnRate));
+    if (mfnRate === undefined) {
+      errors.push({ row: rowNumber, message: `Invalid MFN rate for ${code}` });
+      return;
+    }
+
+    const preferentialRates: TariffRecord['preferentialRates'] = [];
+    for (const agreement of FTA_AGREEMENTS) {
+      const value = row[normalizeHeader(agreement)];
+      if (value === undefined) continue;
+      const rate = parseRate(value);
+      if (rate === undefined) {
+        errors.push({ row: rowNumber, message: `Invalid ${agreement} rate for ${code}` });
+      } else if (rate !== null) {
+        preferentialRates.push({ agreement, rate });
+      }
+    }
+
+    seen.add(code);
+    records.push({
+      code,
+      description,
+      headingCode: getHeadingCode(code),
+      headingDescription: pick(row, TARIFF_COLUMNS.headingDescription) || description,
+      unit: pick(row, TARIFF_COLUMNS.unit) || null,
+      mfnRate,
+      preferentialRates
+    });
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Loads a tariff file into the local schedule. Rows are upserted by code so
+ * re-importing a newer schedule updates rates in place; rows with errors are
+ * skipped and reported back.
+ */
+export async function importTariffSchedule(buffer: ArrayBuffer): Promise<TariffImportSummary> {
+  const { records, errors } = parseTariffRows(await readSpreadsheetRows(buffer));
+  const summary: TariffImportSummary = {
+    headings: 0,
+    subheadings: 0,
+    mfnRates: 0,
+    preferentialRates: 0,
+    errors
+  };
+
+  const headings = new Map<string, string>();
+  for (const record of records) {
+    if (!headings.has(record.headingCode)) {
+      headings.set(record.headingCode, record.headingDescription);
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const headingIds = new Map<string, string>();
+
+    for (const [code, description] of Array.from(headings.entries())) {
+      const heading = await tx.tariffHeading.upsert({
+        where: { code },
+        update: { description },
+        create: { code, description, chapter: getChapterCode(code) }
+      });
+      headingIds.set(code, heading.id);
+      summary.headings++;
+    }
+
+    for (const record of records) {
+      const subheading = await tx.tariffSubheading.upsert({
+        where: { code: record.code },
+        update: {
+          description: record.description,
+          unit: record.unit,
+          headingId: headingIds.get(record.headingCode)!
+        },
+        create: {
+          code: record.code,
+          description: record.description,
+          unit: record.unit,
+          headingId: headingIds.get(record.headingCode)!
+        }
+      });
+      summary.subheadings++;
+
+      if (record.mfnRate !== null) {
+        await tx.tariffRate.upsert({
+          where: { subheadingId: subheading.id },
+          update: { rate: record.mfnRate },
+          create: { subheadingId: subheading.id, rate: record.mfnRate }
+        });
+        summary.mfnRates++;
+      }
+
+      for (const { agreement, rate } of record.preferentialRates) {
+        await tx.preferentialRate.upsert({
+          where: { subheadingId_agreement: { subheadingId: subheading.id, agreement } },
+          update: { rate },
+          create: { subheadingId: subheading.id, agreement, rate }
+        });
+        summary.preferentialRates++;
+      }
+    }
+  }, { timeout: 120_000 });
+
+  return summary;
+}
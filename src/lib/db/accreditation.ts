@@ -0,0 +1,44 @@
+// lib/db/accreditation.ts
+import type { Prisma } from '@prisma/client';
+import type { AccreditationKind, AccreditationStatus } from '@/lib/constants/accreditation';
+import type { AccreditationTransactionType } from '@/lib/utils/reference-number';
+import type { AccreditationCaseData } from '@/types/accreditation';
+
+export const accreditationInclude = {
+  consignee: {
+    select: { id: true, name: true, tin: true }
+  },
+  requirements: {
+    orderBy: { position: 'asc' as const }
+  }
+} satisfies Prisma.AccreditationCaseInclude;
+
+export type AccreditationCaseWithRelations = Prisma.AccreditationCaseGetPayload<{
+  include: typeof accreditationInclude;
+}>;
+
+export function toAccreditationCaseData(accreditation: AccreditationCaseWithRelations): AccreditationCaseData {
+  return {
+    id: accreditation.id,
+    referenceNumber: accreditation.referenceNumber,
+    transactionType: accreditation.transactionType as AccreditationTransactionType,
+    kind: accreditation.kind as AccreditationKind,
+    status: accreditation.status as AccreditationStatus,
+    consignee: accreditation.consignee,
+    accreditationNumber: accreditation.accreditationNumber,
+    submittedAt: accreditation.submittedAt?.toISOString() || null,
+    approvedAt: accreditation.approvedAt?.toISOString() || null,
+    expiryDate: accreditation.expiryDate?.toISOString() || null,
+    remarks: accreditation.remarks,
+    requirements: accreditation.requirements.map(requirement => ({
+      id: requirement.id,
+      name: requirement.name,
+      isRequired: requirement.isRequired,
+      isSubmitted: requirement.isSubmitted,
+      fileUrl: requirement.fileUrl,
+      submittedAt: requirement.submittedAt?.toISOString() || null
+    })),
+    createdAt: accreditation.createdAt.toISOString(),
+    updatedAt: accreditation.updatedAt.toISOString()
+  };
+}
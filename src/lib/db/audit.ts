@@ -0,0 +1,151 @@
+// lib/db/audit.ts
+import { Prisma, type AuditEvent } from '@prisma/client';
+import { headers } from 'next/headers';
+import { prisma } from '../prisma';
+import { shipmentInclude, toShipmentData } from './shipment';
+import { recordSofEvents } from './sof';
+import { diffAuditSnapshots, getForwardedClientIp, toShipmentAuditSnapshot } from '@/lib/utils/audit';
+import { deriveSofEvents } from '@/lib/utils/sof';
+import {
+  AUDIT_ENTITY_TYPES,
+  type AuditChange,
+  type AuditEntityType,
+  type AuditEventData,
+  type ShipmentAsOf,
+  type ShipmentAuditSnapshot
+} from '@/types/audit';
+import type { User } from '@/types/auth';
+
+type Tx = Prisma.TransactionClient;
+
+export type AuditActor = Pick<User, 'id' | 'name'>;
+
+export interface AuditEventInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  actor: AuditActor | null;
+  // State before and after the change; the diff is taken between them and `after` is kept
+  before?: unknown;
+  after?: unknown;
+  // For events with nothing to snapshot, such as a sign-in
+  changes?: AuditChange[];
+}
+
+// Proxies in front of the app, e.g. TRUSTED_PROXIES=10.0.0.5,10.0.0.6. Next.js
+// does not expose the connection address, so without them no IP is recorded.
+const TRUSTED_PROXIES = (process.env.TRUSTED_PROXIES || '')
+  .split(',')
+  .map(address => address.trim())
+  .filter(Boolean);
+
+async function getRequestIp(): Promise<string | null> {
+  try {
+    const headerList = await headers();
+    return getForwardedClientIp(headerList.get('x-forwarded-for'), TRUSTED_PROXIES);
+  } catch {
+    // Outside a request (seeds, scripts) there is no client to record
+    return null;
+  }
+}
+
+/**
+ * Appends an event to the audit log. Events are never updated or deleted;
+ * the database refuses both.
+ */
+export async function recordAuditEvent(tx: Tx, input: AuditEventInput) {
+  const changes = input.changes ?? diffAuditSnapshots(input.before, input.after);
+
+  return tx.auditEvent.create({
+    data: {
+      entityType: input.entityType,
+      entityId: input.entityId,
+      action: input.action,
+      actorId: input.actor?.id ?? null,
+      actorName: input.actor?.name ?? null,
+      ipAddress: await getRequestIp(),
+      changes: changes as unknown as Prisma.InputJsonValue,
+      snapshot: input.after == null ? undefined : (input.after as Prisma.InputJsonValue)
+    }
+  });
+}
+
+export async function loadShipmentAuditSnapshot(
+  tx: Tx,
+  shipmentId: string
+): Promise<ShipmentAuditSnapshot | null> {
+  const shipment = await tx.shipment.findUnique({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+  return shipment && toShipmentAuditSnapshot(toShipmentData(shipment), shipment.assigneeId);
+}
+
+/**
+ * Runs `change` and records what it did to the shipment, in the audit log
+ * and as Statement of Facts events for the stage, document and schedule
+ * changes among it. Call it inside the transaction making the change so
+ * both commit or roll back with it.
+ */
+export async function auditShipmentChange<T>(
+  tx: Tx,
+  shipmentId: string,
+  event: { action: string; actor: AuditActor },
+  change: () => Promise<T>
+): Promise<T> {
+  const before = await loadShipmentAuditSnapshot(tx, shipmentId);
+  const result = await change();
+  const after = await loadShipmentAuditSnapshot(tx, shipmentId);
+
+  await recordAuditEvent(tx, {
+    entityType: AUDIT_ENTITY_TYPES.SHIPMENT,
+    entityId: shipmentId,
+    ...event,
+    before,
+    after
+  });
+  await recordSofEvents(tx, shipmentId, deriveSofEvents(before, after, new Date()), event.actor);
+  return result;
+}
+
+export const toAuditEventData = (event: AuditEvent): AuditEventData => ({
+  id: event.id,
+  entityType: event.entityType as AuditEntityType,
+  entityId: event.entityId,
+  action: event.action,
+  actor: event.actorId ? { id: event.actorId, name: event.actorName || '' } : null,
+  ipAddress: event.ipAddress,
+  changes: event.changes as unknown as AuditChange[],
+  createdAt: event.createdAt.toISOString()
+});
+
+export async function getAuditHistory(
+  entityType: AuditEntityType,
+  entityId: string
+): Promise<AuditEventData[]> {
+  const events = await prisma.auditEvent.findMany({
+    where: { entityType, entityId },
+    orderBy: { createdAt: 'desc' }
+  });
+  return events.map(toAuditEventData);
+}
+
+// The shipment as of the last recorded change at or before `asOf`
+export async function getShipmentAsOf(shipmentId: string, asOf: Date): Promise<ShipmentAsOf | null> {
+  const event = await prisma.auditEvent.findFirst({
+    where: {
+      entityType: AUDIT_ENTITY_TYPES.SHIPMENT,
+      entityId: shipmentId,
+      createdAt: { lte: asOf },
+      snapshot: { not: Prisma.DbNull }
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+  if (!event) return null;
+
+  return {
+    asOf: asOf.toISOString(),
+    recordedAt: event.createdAt.toISOString(),
+    snapshot: event.snapshot as unknown as ShipmentAuditSnapshot
+  };
+}
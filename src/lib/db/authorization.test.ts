@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { USER_ROLES, type User } from '@/types/auth';
+import type { OrganizationRole } from '@/types/organization';
+import type { OrganizationScope } from './organization';
+
+const db = vi.hoisted(() => ({
+  shipment: { findUnique: vi.fn() },
+  consignee: { findUnique: vi.fn() },
+  exporter: { findUnique: vi.fn() },
+  organizationMember: { findMany: vi.fn() },
+  consigneeRepresentative: { count: vi.fn() }
+}));
+const validateSession = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }));
+vi.mock('@/lib/auth', () => ({ validateSession }));
+
+import { authorize, AuthorizationError, ownsResource, ShipmentLockedError } from './authorization';
+
+const broker: User = { id: 'broker-1', email: 'broker@example.com', name: 'Broker', role: USER_ROLES.BROKER };
+const client: User = { id: 'client-1', email: 'client@example.com', name: 'Client', role: USER_ROLES.CLIENT };
+const superadmin: User = { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role: USER_ROLES.SUPERADMIN };
+
+// Stored records: org-a's consignee is represented by the client, org-b's is not
+const shipments: Record<string, { organizationId: string; consigneeId: string | null; isLocked: boolean }> = {
+  'shipment-a': { organizationId: 'org-a', consigneeId: 'consignee-a', isLocked: false },
+  'shipment-b': { organizationId: 'org-b', consigneeId: 'consignee-b', isLocked: false },
+  'shipment-locked': { organizationId: 'org-a', consigneeId: 'consignee-a', isLocked: true }
+};
+const consignees: Record<string, { organizationId: string }> = {
+  'consignee-a': { organizationId: 'org-a' },
+  'consignee-b': { organizationId: 'org-b' }
+};
+const memberships: Record<string, { organizationId: string; role: string }[]> = {
+  'broker-1': [{ organizationId: 'org-a', role: 'MEMBER' }]
+};
+const representatives = [{ userId: 'client-1', consigneeId: 'consignee-a' }];
+
+const signIn = (user: User | null) => validateSession.mockResolvedValue(user && { user });
+
+const scopeOf = (user: User, roles: { organizationId: string; role: string }[] = []): OrganizationScope => ({
+  user,
+  memberships: roles.map(m => ({ ...m, organizationName: m.organizationId, role: m.role as OrganizationRole })),
+  isSuperadmin: user.role === USER_ROLES.SUPERADMIN
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.shipment.findUnique.mockImplementation(({ where }) => Promise.resolve(shipments[where.id] ?? null));
+  db.consignee.findUnique.mockImplementation(({ where }) => Promise.resolve(consignees[where.id] ?? null));
+  db.exporter.findUnique.mockResolvedValue(null);
+  db.organizationMember.findMany.mockImplementation(({ where }) =>
+    Promise.resolve((memberships[where.userId] ?? []).map(m => ({ ...m, organization: { name: m.organizationId } })))
+  );
+  db.consigneeRepresentative.count.mockImplementation(({ where }) =>
+    Promise.resolve(representatives.filter(r => r.userId === where.userId && r.consigneeId === where.consigneeId).length)
+  );
+});
+
+describe('authorize', () => {
+  it('refuses anyone without a session with a 401', async () => {
+    signIn(null);
+    await expect(authorize('view')).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('lets a broker edit shipments of their own organization', async () => {
+    signIn(broker);
+    await expect(authorize('edit', { type: 'shipment', id: 'shipment-a' }))
+      .resolves.toMatchObject({ organizationId: 'org-a' });
+  });
+
+  it("refuses a broker another organization's shipments and clients", async () => {
+    signIn(broker);
+    await expect(authorize('view', { type: 'shipment', id: 'shipment-b' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(authorize('edit', { type: 'consignee', id: 'consignee-b' })).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('refuses missing records like foreign ones', async () => {
+    signIn(broker);
+    await expect(authorize('view', { type: 'shipment', id: 'missing' }))
+      .rejects.toThrow('You do not have permission to view this shipment');
+  });
+
+  it('keeps deleting to organization owners and admins', async () => {
+    signIn(broker);
+    await expect(authorize('delete', { type: 'consignee', id: 'consignee-a' })).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('leaves shared reference data to superadmins', async () => {
+    signIn(broker);
+    await expect(authorize('edit', { type: 'shared' })).rejects.toBeInstanceOf(AuthorizationError);
+    signIn(superadmin);
+    await expect(authorize('edit', { type: 'shared' })).resolves.toMatchObject({ user: superadmin });
+  });
+
+  it('lets a client view and upload to the shipments of a consignee they represent', async () => {
+    signIn(client);
+    await expect(authorize('view', { type: 'shipment', id: 'shipment-a' })).resolves.toMatchObject({ user: client });
+    await expect(authorize('upload', { type: 'shipment', id: 'shipment-a' })).resolves.toMatchObject({ user: client });
+  });
+
+  it('refuses a client every change to a consignee or shipment, even one they represent', async () => {
+    signIn(client);
+    await expect(authorize('edit', { type: 'consignee', id: 'consignee-a' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(authorize('edit', { type: 'shipment', id: 'shipment-a' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(authorize('delete', { type: 'shipment', id: 'shipment-a' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(authorize('lock', { type: 'shipment', id: 'shipment-a' })).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it("refuses a client another consignee's shipments", async () => {
+    signIn(client);
+    await expect(authorize('view', { type: 'shipment', id: 'shipment-b' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(authorize('upload', { type: 'shipment', id: 'shipment-b' })).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('refuses every change to a locked shipment but still shows it', async () => {
+    signIn(broker);
+    await expect(authorize('view', { type: 'shipment', id: 'shipment-locked' })).resolves.toBeDefined();
+    await expect(authorize('edit', { type: 'shipment', id: 'shipment-locked' })).rejects.toBeInstanceOf(ShipmentLockedError);
+    await expect(authorize('computeDuties', { type: 'shipment', id: 'shipment-locked' }))
+      .rejects.toBeInstanceOf(ShipmentLockedError);
+
+    signIn(superadmin);
+    await expect(authorize('edit', { type: 'shipment', id: 'shipment-locked' })).rejects.toBeInstanceOf(ShipmentLockedError);
+
+    signIn(client);
+    await expect(authorize('upload', { type: 'shipment', id: 'shipment-locked' }))
+      .rejects.toBeInstanceOf(ShipmentLockedError);
+  });
+});
+
+describe('ownsResource', () => {
+  const inOrgA = { organizationId: 'org-a', consigneeId: 'consignee-a' };
+  const inOrgB = { organizationId: 'org-b', consigneeId: 'consignee-b' };
+
+  it('gives brokers what their organizations own', async () => {
+    const scope = scopeOf(broker, [{ organizationId: 'org-a', role: 'MEMBER' }]);
+    await expect(ownsResource(scope, 'edit', inOrgA)).resolves.toBe(true);
+    await expect(ownsResource(scope, 'edit', inOrgB)).resolves.toBe(false);
+  });
+
+  it('asks for an owner or admin membership to delete', async () => {
+    await expect(ownsResource(scopeOf(broker, [{ organizationId: 'org-a', role: 'MEMBER' }]), 'delete', inOrgA))
+      .resolves.toBe(false);
+    await expect(ownsResource(scopeOf(broker, [{ organizationId: 'org-a', role: 'ADMIN' }]), 'delete', inOrgA))
+      .resolves.toBe(true);
+  });
+
+  it("gives representatives only a read and upload hold on their consignee's records", async () => {
+    const scope = scopeOf(client);
+    await expect(ownsResource(scope, 'view', inOrgA)).resolves.toBe(true);
+    await expect(ownsResource(scope, 'upload', inOrgA)).resolves.toBe(true);
+    await expect(ownsResource(scope, 'edit', inOrgA)).resolves.toBe(false);
+    await expect(ownsResource(scope, 'view', inOrgB)).resolves.toBe(false);
+  });
+
+  it('gives clients nothing without a consignee', async () => {
+    await expect(ownsResource(scopeOf(client), 'view', { organizationId: 'org-a', consigneeId: null }))
+      .resolves.toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+// lib/db/authorization.ts
+import { prisma } from '../prisma';
+import { validateSession } from '../auth';
+import { getPermissionGrant } from '@/lib/utils/permissions';
+import { isConsigneeRepresentative } from './client-access';
+import {
+  canManageOrganization,
+  getOrganizationScope,
+  isMemberOf,
+  type OrganizationScope
+} from './organization';
+import {
+  USER_ROLES,
+  type ActionPermission,
+  type AuthorizationFailure,
+  type User
+} from '@/types/auth';
+
+export class AuthorizationError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 403) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+
+  toResult(): AuthorizationFailure {
+    return { success: false, error: this.message, status: this.status };
+  }
+}
+
+// Raised for changes to a shipment whose file has been closed and signed off
+export class ShipmentLockedError extends AuthorizationError {
+  constructor(message = 'This shipment has been closed and locked; it must be unlocked before it can be changed') {
+    super(message, 403);
+    this.name = 'ShipmentLockedError';
+  }
+}
+
+/**
+ * What an action touches. Records are owned through their organization, or
+ * for client users through the consignee they represent; `shared` is
+ * reference data nobody owns, so only an "All" grant reaches it.
+ */
+export type ResourceRef =
+  | { type: 'shipment' | 'consignee' | 'exporter'; id: string }
+  | { type: 'shared' };
+
+export interface AuthorizedContext {
+  user: User;
+  scope: OrganizationScope;
+  // Organization owning the resource, when one was named
+  organizationId?: string;
+}
+
+const PERMISSION_LABELS: Record<ActionPermission, string> = {
+  view: 'view',
+  create: 'create',
+  edit: 'edit',
+  delete: 'delete',
+  lock: 'lock',
+  unlock: 'unlock',
+  computeDuties: 'compute duties for',
+  upload: 'upload documents to'
+};
+
+// Permissions that change a record; a locked shipment refuses every one of them
+const LOCKED_PERMISSIONS: readonly ActionPermission[] = ['edit', 'delete', 'lock', 'computeDuties', 'upload'];
+
+// All a representative may do with their consignee's records, whatever the role matrix says
+const REPRESENTATIVE_PERMISSIONS: readonly ActionPermission[] = ['view', 'upload'];
+
+async function loadOwnership(resource: Exclude<ResourceRef, { type: 'shared' }>) {
+  switch (resource.type) {
+    case 'shipment':
+      return prisma.shipment.findUnique({
+        where: { id: resource.id },
+        select: { organizationId: true, consigneeId: true, isLocked: true }
+      });
+    case 'consignee': {
+      const consignee = await prisma.consignee.findUnique({
+        where: { id: resource.id },
+        select: { organizationId: true }
+      });
+      return consignee && { organizationId: consignee.organizationId, consigneeId: resource.id, isLocked: false };
+    }
+    case 'exporter': {
+      const exporter = await prisma.exporter.findUnique({
+        where: { id: resource.id },
+        select: { organizationId: true }
+      });
+      return exporter && { organizationId: exporter.organizationId, consigneeId: null, isLocked: false };
+    }
+  }
+}
+
+export async function ownsResource(
+  scope: OrganizationScope,
+  permission: ActionPermission,
+  ownership: { organizationId: string; consigneeId: string | null }
+) {
+  // Client users own nothing outright; they see and send documents for the
+  // consignees they represent, and never change broker records
+  if (scope.user.role === USER_ROLES.CLIENT) {
+    if (!REPRESENTATIVE_PERMISSIONS.includes(permission)) return false;
+    return isConsigneeRepresentative(scope.user.id, ownership.consigneeId);
+  }
+  // Deleting is kept to an organization's owners and admins
+  if (permission === 'delete') {
+    return canManageOrganization(scope, ownership.organizationId);
+  }
+  return isMemberOf(scope, ownership.organizationId);
+}
+
+/**
+ * The guard every server action goes through. Checks the permission against
+ * the role matrix and, when a resource is named, that the user owns it.
+ * Throws an AuthorizationError; actions turn it into a typed 401/403 result
+ * with `toResult()`. Missing records are refused like foreign ones so ids
+ * can't be probed, and a locked shipment refuses every change to it.
+ */
+export async function authorize(
+  permission: ActionPermission,
+  resource?: ResourceRef
+): Promise<AuthorizedContext> {
+  const session = await validateSession();
+  if (!session?.user) {
+    throw new AuthorizationError('Unauthorized', 401);
+  }
+
+  const { user } = session;
+  const grant = getPermissionGrant(user.role, permission);
+  const scope = await getOrganizationScope(user);
+  const target = resource && resource.type !== 'shared' ? resource.type : 'record';
+  const denied = () =>
+    new AuthorizationError(`You do not have permission to ${PERMISSION_LABELS[permission]} this ${target}`);
+
+  if (!grant) throw denied();
+  if (!resource) return { user, scope };
+
+  if (resource.type === 'shared') {
+    if (grant !== 'any') throw denied();
+    return { user, scope };
+  }
+
+  const ownership = await loadOwnership(resource);
+  if (!ownership) throw denied();
+  if (grant === 'own' && !(await ownsResource(scope, permission, ownership))) {
+    throw denied();
+  }
+  if (ownership.isLocked && LOCKED_PERMISSIONS.includes(permission)) {
+    throw new ShipmentLockedError();
+  }
+
+  return { user, scope, organizationId: ownership.organizationId };
+}
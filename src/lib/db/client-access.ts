@@ -0,0 +1,37 @@
+// lib/db/client-access.ts
+import type { Prisma, StoredFile } from '@prisma/client';
+import { prisma } from '../prisma';
+import { isReleasedDocument } from '@/lib/utils/client-portal';
+
+// Shipments whose consignee the user represents in the client portal
+export const representedShipmentsWhere = (userId: string) =>
+  ({
+    consignee: { representatives: { some: { userId } } }
+  }) satisfies Prisma.ShipmentWhereInput;
+
+export async function isConsigneeRepresentative(userId: string, consigneeId: string | null) {
+  if (!consigneeId) return false;
+  const count = await prisma.consigneeRepresentative.count({ where: { userId, consigneeId } });
+  return count > 0;
+}
+
+/**
+ * Whether a representative may download a stored file: anything filed under
+ * their consignee, their own uploads, and shipment documents once released.
+ */
+export async function canRepresentativeReadFile(
+  file: StoredFile & { shipment: { consigneeId: string | null } | null },
+  userId: string
+) {
+  const consigneeId = file.consigneeId ?? file.shipment?.consigneeId ?? null;
+  if (!(await isConsigneeRepresentative(userId, consigneeId))) return false;
+
+  if (!file.shipmentId || file.uploadedById === userId) return true;
+  if (!file.documentName) return false;
+
+  const document = await prisma.shipmentDocument.findUnique({
+    where: { shipmentId_name: { shipmentId: file.shipmentId, name: file.documentName } },
+    select: { status: true, isVerified: true }
+  });
+  return !!document && isReleasedDocument(document);
+}
@@ -0,0 +1,175 @@
+// lib/db/client-import.ts
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { readSpreadsheetRows } from '@/lib/utils/spreadsheet';
+import { detectClientColumns, getSpreadsheetHeaders, parseClientImportRows } from '@/lib/utils/client-import';
+import { toClientAuditSnapshot } from '@/lib/utils/audit';
+import { getTinVariants, normalizeTin } from '@/lib/utils/tin';
+import { MAX_CLIENT_IMPORT_ROWS } from '@/lib/constants/client-import';
+import { organizationWhere, ownedBy, type OrganizationScope } from './organization';
+import { recordAuditEvent } from './audit';
+import { AUDIT_ENTITY_TYPES } from '@/types/audit';
+import type {
+  ClientColumnMapping,
+  ClientImportPreview,
+  ClientImportResult,
+  ClientImportRow,
+  ClientImportType
+} from '@/types/client-import';
+
+export class ClientImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClientImportError';
+  }
+}
+
+const markDuplicate = (row: ClientImportRow, message: string) => {
+  row.status = 'duplicate';
+  row.errors.push(message);
+};
+
+const byName = (names: string[]) =>
+  names.map(name => ({ name: { equals: name, mode: 'insensitive' as const } }));
+
+/**
+ * Flags rows that would clash with clients already on file, using the same
+ * keys as the single-record forms: name or TIN for consignees, name or email
+ * for exporters, within the user's organizations. TINs are unique across all
+ * organizations, so those are checked everywhere.
+ */
+async function flagExistingClients(type: ClientImportType, rows: ClientImportRow[], scope: OrganizationScope) {
+  const candidates = rows.filter(row => row.status === 'valid');
+  if (!candidates.length) return;
+
+  const names = candidates.map(row => row.values.name!);
+
+  if (type === 'consignee') {
+    const tins = candidates.flatMap(row => getTinVariants(row.values.tin!));
+    const [sameTin, sameName] = await Promise.all([
+      prisma.consignee.findMany({
+        where: { tin: { in: tins } },
+        select: { name: true, tin: true, organizationId: true }
+      }),
+      prisma.consignee.findMany({
+        where: { OR: byName(names), ...organizationWhere(scope) },
+        select: { name: true }
+      })
+    ]);
+    const visible = new Set(scope.memberships.map(m => m.organizationId));
+
+    for (const row of candidates) {
+      const tinMatch = sameTin.find(existing => normalizeTin(existing.tin) === normalizeTin(row.values.tin!));
+      const nameMatch = sameName.find(existing => existing.name.toLowerCase() === row.values.name!.toLowerCase());
+      if (tinMatch) {
+        // Another firm's client is not named back to the importer
+        markDuplicate(row, scope.isSuperadmin || visible.has(tinMatch.organizationId)
+          ? `TIN is already registered to ${tinMatch.name}`
+          : 'TIN is already registered');
+      } else if (nameMatch) {
+        markDuplicate(row, `A consignee named ${nameMatch.name} already exists`);
+      }
+    }
+    return;
+  }
+
+  const emails = candidates.map(row => row.values.email).filter((email): email is string => Boolean(email));
+  const existing = await prisma.exporter.findMany({
+    where: {
+      OR: [...byName(names), ...emails.map(email => ({ email: { equals: email, mode: 'insensitive' as const } }))],
+      ...organizationWhere(scope)
+    },
+    select: { name: true, email: true }
+  });
+
+  for (const row of candidates) {
+    const match = existing.find(exporter =>
+      exporter.name.toLowerCase() === row.values.name!.toLowerCase() ||
+      (row.values.email && exporter.email.toLowerCase() === row.values.email.toLowerCase())
+    );
+    if (match) {
+      markDuplicate(row, `An exporter with this name or email already exists (${match.name})`);
+    }
+  }
+}
+
+/**
+ * The dry run: reads the file, maps its columns and reports what each row
+ * would do, without writing anything.
+ */
+export async function previewClientImport(
+  type: ClientImportType,
+  buffer: ArrayBuffer,
+  overrides: ClientColumnMapping,
+  scope: OrganizationScope
+): Promise<ClientImportPreview> {
+  const sheet = await readSpreadsheetRows(buffer, { keepBlankRows: true });
+  if (sheet.filter(row => Object.values(row).some(Boolean)).length > MAX_CLIENT_IMPORT_ROWS) {
+    throw new ClientImportError(`Files are limited to ${MAX_CLIENT_IMPORT_ROWS} rows; split this one and import each part`);
+  }
+
+  const headers = getSpreadsheetHeaders(sheet);
+  const mapping = detectClientColumns(type, headers, overrides);
+  const rows = parseClientImportRows(type, sheet, mapping);
+  await flagExistingClients(type, rows, scope);
+
+  return { type, headers, mapping, rows };
+}
+
+/**
+ * Creates every row the dry run passes, each in its own transaction so one
+ * bad row does not hold back the rest. Rows skipped or refused by the
+ * database come back with their reasons for the error report.
+ */
+export async function commitClientImport(
+  type: ClientImportType,
+  buffer: ArrayBuffer,
+  overrides: ClientColumnMapping,
+  scope: OrganizationScope
+): Promise<ClientImportResult> {
+  const preview = await previewClientImport(type, buffer, overrides, scope);
+  const owner = ownedBy(scope);
+  let created = 0;
+
+  for (const row of preview.rows.filter(row => row.status === 'valid')) {
+    const { values } = row;
+    const common = {
+      name: values.name!,
+      businessAddress: values.businessAddress!,
+      contactPerson: values.contactPerson || '',
+      contactNumber: values.contactNumber || '',
+      email: values.email || '',
+      ...owner
+    };
+
+    try {
+      await prisma.$transaction(async tx => {
+        const record = type === 'consignee'
+          ? await tx.consignee.create({
+              data: { ...common, registeredName: values.registeredName!, tin: values.tin!, brn: values.brn || '' }
+            })
+          : await tx.exporter.create({ data: common });
+        await recordAuditEvent(tx, {
+          entityType: type === 'consignee' ? AUDIT_ENTITY_TYPES.CONSIGNEE : AUDIT_ENTITY_TYPES.EXPORTER,
+          entityId: record.id,
+          action: `${type}.import`,
+          actor: scope.user,
+          after: toClientAuditSnapshot(record)
+        });
+      });
+      row.status = 'created';
+      created += 1;
+    } catch (error) {
+      // Another import or user may have taken the TIN since the dry run
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        markDuplicate(row, 'TIN is already registered');
+      } else {
+        console.error(`Error importing ${type} row ${row.row}:`, error);
+        row.status = 'failed';
+        row.errors.push('Could not be saved');
+      }
+    }
+  }
+
+  return { ...preview, created };
+}
@@ -0,0 +1,290 @@
+// lib/db/clients.ts
+import { Prisma, type Consignee, type Exporter } from '@prisma/client';
+import { prisma } from '../prisma';
+import { recordAuditEvent, type AuditActor } from './audit';
+import { toClientAuditSnapshot } from '@/lib/utils/audit';
+import { AUDIT_ENTITY_TYPES } from '@/types/audit';
+import type { ClientMergeResult, ClientType } from '@/types/clients';
+import type { ConsigneeDetails, ExporterDetails } from '@/types/import/workflow';
+
+type Tx = Prisma.TransactionClient;
+
+export class ClientLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClientLifecycleError';
+  }
+}
+
+// Archived and merged records stay in the database for the shipments and history that name them
+export const notArchivedWhere = { deletedAt: null };
+
+// Clients that can still be picked for a new or existing shipment
+export const activeClientWhere = { isActive: true, deletedAt: null };
+
+const CLIENT_LABELS: Record<ClientType, string> = {
+  consignee: 'Consignee',
+  exporter: 'Exporter'
+};
+
+const entityTypeOf = (type: ClientType) =>
+  type === 'consignee' ? AUDIT_ENTITY_TYPES.CONSIGNEE : AUDIT_ENTITY_TYPES.EXPORTER;
+
+async function findClient(tx: Tx, type: ClientType, id: string) {
+  const client = type === 'consignee'
+    ? await tx.consignee.findUnique({ where: { id } })
+    : await tx.exporter.findUnique({ where: { id } });
+  if (!client) {
+    throw new ClientLifecycleError(`${CLIENT_LABELS[type]} not found`);
+  }
+  return client;
+}
+
+function updateClient(
+  tx: Tx,
+  type: ClientType,
+  id: string,
+  data: { isActive: boolean; deletedAt?: Date | null; mergedIntoId?: string }
+) {
+  return type === 'consignee'
+    ? tx.consignee.update({ where: { id }, data })
+    : tx.exporter.update({ where: { id }, data });
+}
+
+// The party details a shipment keeps next to its client link, shaped as the shipment forms save them
+function toShipmentParty(client: Consignee | Exporter): ConsigneeDetails | ExporterDetails {
+  return {
+    id: client.id,
+    name: client.name,
+    address: client.businessAddress,
+    ...('tin' in client && { tin: client.tin, brn: client.brn }),
+    contactPerson: client.contactPerson,
+    contactNumber: client.contactNumber,
+    email: client.email
+  };
+}
+
+const partyName = (snapshot: string): string | null => {
+  try {
+    return JSON.parse(snapshot)?.name ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Deactivating hides a client from the shipment pickers but keeps it in the
+ * clients list; reactivating also restores an archived client. A merged
+ * duplicate stays retired.
+ */
+export async function setClientActive(type: ClientType, id: string, isActive: boolean, actor: AuditActor) {
+  return prisma.$transaction(async tx => {
+    const before = await findClient(tx, type, id);
+    if (before.mergedIntoId) {
+      throw new ClientLifecycleError(`This ${type} was merged into another record and cannot be reactivated`);
+    }
+
+    const updated = await updateClient(tx, type, id, {
+      isActive,
+      deletedAt: isActive ? null : before.deletedAt
+    });
+    await recordAuditEvent(tx, {
+      entityType: entityTypeOf(type),
+      entityId: id,
+      action: `${type}.${isActive ? 'reactivate' : 'deactivate'}`,
+      actor,
+      before: toClientAuditSnapshot(before),
+      after: toClientAuditSnapshot(updated)
+    });
+    return updated;
+  });
+}
+
+// The soft delete: the client leaves every list but its shipments keep pointing at it
+export async function archiveClient(type: ClientType, id: string, actor: AuditActor) {
+  return prisma.$transaction(async tx => {
+    const before = await findClient(tx, type, id);
+    const updated = await updateClient(tx, type, id, { isActive: false, deletedAt: before.deletedAt ?? new Date() });
+    await recordAuditEvent(tx, {
+      entityType: entityTypeOf(type),
+      entityId: id,
+      action: `${type}.archive`,
+      actor,
+      before: toClientAuditSnapshot(before),
+      after: toClientAuditSnapshot(updated)
+    });
+    return updated;
+  });
+}
+
+/**
+ * Removes a client for good. Refused while any shipment (or, for consignees,
+ * accreditation case) refers to it, since those records must keep naming the
+ * party they were filed for; archive the client instead.
+ */
+export async function deleteClient(type: ClientType, id: string, actor: AuditActor) {
+  await prisma.$transaction(async tx => {
+    const before = await findClient(tx, type, id);
+
+    const shipments = await tx.shipment.count({
+      where: type === 'consignee' ? { consigneeId: id } : { exporterId: id }
+    });
+    if (shipments > 0) {
+      throw new ClientLifecycleError(
+        `${before.name} has ${shipments} shipment${shipments === 1 ? '' : 's'} and cannot be deleted; archive it instead`
+      );
+    }
+
+    if (type === 'consignee') {
+      const accreditations = await tx.accreditationCase.count({ where: { consigneeId: id } });
+      if (accreditations > 0) {
+        throw new ClientLifecycleError(`${before.name} has accreditation cases and cannot be deleted; archive it instead`);
+      }
+      await tx.consigneeDocument.deleteMany({ where: { consigneeId: id } });
+      await tx.consignee.delete({ where: { id } });
+    } else {
+      await tx.exporter.delete({ where: { id } });
+    }
+
+    await recordAuditEvent(tx, {
+      entityType: entityTypeOf(type),
+      entityId: id,
+      action: `${type}.delete`,
+      actor,
+      before: toClientAuditSnapshot(before),
+      after: null
+    });
+  });
+}
+
+// Consignee-only records; each representative is moved unless the user already represents the kept consignee
+async function moveConsigneeRecords(tx: Tx, duplicateId: string, canonicalId: string) {
+  const documents = await tx.consigneeDocument.updateMany({
+    where: { consigneeId: duplicateId },
+    data: { consigneeId: canonicalId }
+  });
+  const files = await tx.storedFile.updateMany({
+    where: { consigneeId: duplicateId },
+    data: { consigneeId: canonicalId }
+  });
+  const accreditations = await tx.accreditationCase.updateMany({
+    where: { consigneeId: duplicateId },
+    data: { consigneeId: canonicalId }
+  });
+
+  const existing = await tx.consigneeRepresentative.findMany({
+    where: { consigneeId: canonicalId },
+    select: { userId: true }
+  });
+  await tx.consigneeRepresentative.deleteMany({
+    where: { consigneeId: duplicateId, userId: { in: existing.map(rep => rep.userId) } }
+  });
+  const representatives = await tx.consigneeRepresentative.updateMany({
+    where: { consigneeId: duplicateId },
+    data: { consigneeId: canonicalId }
+  });
+
+  return {
+    documents: documents.count,
+    files: files.count,
+    accreditations: accreditations.count,
+    representatives: representatives.count
+  };
+}
+
+/**
+ * Folds a duplicate client into the one being kept: its shipments and (for
+ * consignees) documents, files, accreditation cases and representatives are
+ * re-pointed, then the duplicate is archived with a pointer to the survivor.
+ * Re-pointed shipments take the survivor's details into their party snapshot
+ * and each gets its own audit event. Refused while any of the duplicate's
+ * shipments is locked.
+ */
+export async function mergeClients(
+  type: ClientType,
+  duplicateId: string,
+  canonicalId: string,
+  actor: AuditActor
+): Promise<ClientMergeResult> {
+  if (duplicateId === canonicalId) {
+    throw new ClientLifecycleError(`Choose a different ${type} to merge into`);
+  }
+
+  return prisma.$transaction(async tx => {
+    const duplicate = await findClient(tx, type, duplicateId);
+    const canonical = await findClient(tx, type, canonicalId);
+
+    if (duplicate.mergedIntoId) {
+      throw new ClientLifecycleError(`${duplicate.name} has already been merged`);
+    }
+    if (canonical.deletedAt) {
+      throw new ClientLifecycleError(`${canonical.name} is archived; restore it before merging into it`);
+    }
+    if (duplicate.organizationId !== canonical.organizationId) {
+      throw new ClientLifecycleError('Only clients of the same organization can be merged');
+    }
+
+    const field = type === 'consignee' ? 'consigneeId' : 'exporterId';
+    const snapshotField = type === 'consignee' ? 'consigneeData' : 'exporterData';
+
+    // A locked shipment's parties are part of what was lodged, so they are not rewritten
+    const locked = await tx.shipment.count({ where: { [field]: duplicateId, isLocked: true } });
+    if (locked > 0) {
+      throw new ClientLifecycleError(
+        `${duplicate.name} has ${locked} locked shipment${locked === 1 ? '' : 's'}; unlock ${locked === 1 ? 'it' : 'them'} before merging`
+      );
+    }
+
+    const shipments = await tx.shipment.findMany({
+      where: { [field]: duplicateId, isLocked: false },
+      select: { id: true, consigneeData: true, exporterData: true }
+    });
+    await tx.shipment.updateMany({
+      where: { id: { in: shipments.map(shipment => shipment.id) } },
+      data: { [field]: canonicalId, [snapshotField]: JSON.stringify(toShipmentParty(canonical)) }
+    });
+    for (const shipment of shipments) {
+      const previousName = partyName(shipment[snapshotField]);
+      await recordAuditEvent(tx, {
+        entityType: AUDIT_ENTITY_TYPES.SHIPMENT,
+        entityId: shipment.id,
+        action: 'shipment.client_merge',
+        actor,
+        changes: [
+          { field, before: duplicateId, after: canonicalId },
+          ...(previousName !== canonical.name ? [{ field: `${type}.name`, before: previousName, after: canonical.name }] : [])
+        ]
+      });
+    }
+
+    const moved = type === 'consignee'
+      ? await moveConsigneeRecords(tx, duplicateId, canonicalId)
+      : { documents: 0, files: 0, accreditations: 0, representatives: 0 };
+
+    const retired = await updateClient(tx, type, duplicateId, {
+      isActive: false,
+      deletedAt: duplicate.deletedAt ?? new Date(),
+      mergedIntoId: canonicalId
+    });
+    await recordAuditEvent(tx, {
+      entityType: entityTypeOf(type),
+      entityId: duplicateId,
+      action: `${type}.merge`,
+      actor,
+      before: toClientAuditSnapshot(duplicate),
+      after: toClientAuditSnapshot(retired)
+    });
+    await recordAuditEvent(tx, {
+      entityType: entityTypeOf(type),
+      entityId: canonicalId,
+      action: `${type}.merge_in`,
+      actor,
+      changes: [
+        { field: 'mergedFrom', before: null, after: duplicate.name },
+        { field: 'shipments', before: null, after: shipments.length }
+      ]
+    });
+
+    return { canonicalId, shipments: shipments.length, ...moved };
+  }, { timeout: 60_000 });
+}
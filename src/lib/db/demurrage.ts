@@ -0,0 +1,190 @@
+// lib/db/demurrage.ts
+import type { FreeTimeRule, Prisma } from '@prisma/client';
+import { isValid, parseISO } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { normalizeCurrency } from '@/lib/customs/currency';
+import { computeShipmentFreeTime, normalizeShippingLine, validateFreeTimeRule } from '@/lib/utils/demurrage';
+import { shipmentInclude, toShipmentData } from './shipment';
+import type {
+  ContainerMovesInput,
+  ContainerSizeClass,
+  FreeTimeAlert,
+  FreeTimeChargeType,
+  FreeTimeRuleEntry,
+  FreeTimeRuleInput,
+  FreeTimeTier,
+  ShipmentFreeTime
+} from '@/types/demurrage';
+
+type Tx = Prisma.TransactionClient;
+
+export class FreeTimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FreeTimeError';
+  }
+}
+
+const toRuleEntry = (rule: FreeTimeRule): FreeTimeRuleEntry => ({
+  id: rule.id,
+  shippingLine: rule.shippingLine,
+  chargeType: rule.chargeType as FreeTimeChargeType,
+  sizeClass: rule.sizeClass as ContainerSizeClass,
+  freeDays: rule.freeDays,
+  currency: rule.currency,
+  tiers: rule.tiers as unknown as FreeTimeTier[],
+  updatedAt: rule.updatedAt.toISOString()
+});
+
+export async function listFreeTimeRules(): Promise<FreeTimeRuleEntry[]> {
+  const rules = await prisma.freeTimeRule.findMany({
+    orderBy: [{ shippingLine: 'asc' }, { chargeType: 'asc' }, { sizeClass: 'asc' }]
+  });
+  return rules.map(toRuleEntry);
+}
+
+/**
+ * Creates the rule, or replaces the one with `id`. A line has at most one
+ * rule per charge and size, so saving a duplicate is refused rather than
+ * silently overwriting the other rule.
+ */
+export async function saveFreeTimeRule(input: FreeTimeRuleInput, id?: string): Promise<FreeTimeRuleEntry> {
+  const rule = {
+    ...input,
+    shippingLine: normalizeShippingLine(input.shippingLine),
+    currency: normalizeCurrency(input.currency)
+  };
+  const issues = validateFreeTimeRule(rule);
+  if (issues.length) {
+    throw new FreeTimeError(issues.join('; '));
+  }
+
+  const clash = await prisma.freeTimeRule.findUnique({
+    where: {
+      shippingLine_chargeType_sizeClass: {
+        shippingLine: rule.shippingLine,
+        chargeType: rule.chargeType,
+        sizeClass: rule.sizeClass
+      }
+    },
+    select: { id: true }
+  });
+  if (clash && clash.id !== id) {
+    throw new FreeTimeError(`${rule.shippingLine} already has a rule for this charge and container size`);
+  }
+
+  const data = {
+    shippingLine: rule.shippingLine,
+    chargeType: rule.chargeType,
+    sizeClass: rule.sizeClass,
+    freeDays: rule.freeDays,
+    currency: rule.currency,
+    tiers: rule.tiers.map(tier => ({ fromDay: tier.fromDay, ratePerDay: tier.ratePerDay }))
+  };
+  const saved = id
+    ? await prisma.freeTimeRule.update({ where: { id }, data })
+    : await prisma.freeTimeRule.create({ data });
+  return toRuleEntry(saved);
+}
+
+export async function deleteFreeTimeRule(id: string) {
+  await prisma.freeTimeRule.delete({ where: { id } });
+}
+
+export async function getShipmentFreeTime(shipmentId: string, asOf = new Date()): Promise<ShipmentFreeTime> {
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+  if (!shipment) {
+    throw new FreeTimeError('Shipment not found');
+  }
+  return computeShipmentFreeTime(toShipmentData(shipment), await listFreeTimeRules(), asOf);
+}
+
+function parseMoveDate(value: string | null, label: string): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  if (!isValid(date)) {
+    throw new FreeTimeError(`${label} is not a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Records when a container left the port and when it came back empty.
+ * Clearing the pull-out date goes back to the one the workflow gives.
+ */
+export async function recordContainerMoves(
+  tx: Tx,
+  shipmentId: string,
+  containerId: string,
+  moves: ContainerMovesInput,
+  now = new Date()
+) {
+  const container = await tx.shipmentContainer.findFirst({
+    where: { id: containerId, shipmentId },
+    select: { id: true }
+  });
+  if (!container) {
+    throw new FreeTimeError('Container not found on this shipment');
+  }
+
+  const pulledOutAt = parseMoveDate(moves.pulledOutAt, 'Pull-out date');
+  const emptyReturnedAt = parseMoveDate(moves.emptyReturnedAt, 'Empty return date');
+  if ((pulledOutAt && pulledOutAt > now) || (emptyReturnedAt && emptyReturnedAt > now)) {
+    throw new FreeTimeError('Container movements cannot be recorded ahead of time');
+  }
+  if (pulledOutAt && emptyReturnedAt && emptyReturnedAt < pulledOutAt) {
+    throw new FreeTimeError('A container cannot be returned empty before it is pulled out');
+  }
+
+  await tx.shipmentContainer.update({
+    where: { id: containerId },
+    data: { pulledOutAt, emptyReturnedAt }
+  });
+}
+
+/**
+ * Sea shipments with a charge still running that has `withinDays` or fewer
+ * free days left, including those already over, tightest first. Each
+ * shipment is listed once, under the container and charge closest to or
+ * furthest past its limit.
+ */
+export async function getFreeTimeAlerts(
+  where: Prisma.ShipmentWhereInput,
+  withinDays: number,
+  asOf = new Date()
+): Promise<FreeTimeAlert[]> {
+  const [shipments, rules] = await Promise.all([
+    prisma.shipment.findMany({
+      where: { ...where, freightType: 'IMS', containers: { some: { emptyReturnedAt: null } } },
+      include: shipmentInclude
+    }),
+    listFreeTimeRules()
+  ]);
+
+  return shipments
+    .flatMap(shipment => {
+      const data = toShipmentData(shipment);
+      const freeTime = computeShipmentFreeTime(data, rules, asOf);
+      const tightest = freeTime.containers
+        .flatMap(container => [container.demurrage, container.detention].map(charge => ({ container, charge })))
+        .filter(({ charge }) => charge.status === 'running' && charge.daysLeft !== null && charge.daysLeft <= withinDays)
+        .sort((a, b) => (a.charge.daysLeft as number) - (b.charge.daysLeft as number))[0];
+      if (!tightest) return [];
+
+      return [{
+        shipmentId: data.id,
+        referenceNumber: data.referenceNumber,
+        consignee: data.consignee?.name || 'N/A',
+        shippingLine: freeTime.shippingLine,
+        containerNumber: tightest.container.number,
+        chargeType: tightest.charge.chargeType,
+        daysLeft: tightest.charge.daysLeft as number,
+        freeUntil: tightest.charge.freeUntil as string,
+        totals: freeTime.totals
+      }];
+    })
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
@@ -0,0 +1,123 @@
+// lib/db/documents.ts
+import type { Readable } from 'stream';
+import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
+import { getFileUrl } from '@/lib/storage/upload';
+import { renderShipmentDocument } from '@/lib/documents';
+import { shipmentInclude, toSadDeclaration, toShipmentData } from './shipment';
+import type { DocumentKind, Letterhead, LetterheadSettings } from '@/types/documents';
+
+export class DocumentRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentRenderError';
+  }
+}
+
+const LOGO_FORMATS: Record<string, 'PNG' | 'JPEG'> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG'
+};
+
+export const LOGO_CONTENT_TYPES = Object.keys(LOGO_FORMATS);
+
+async function readAll(stream: Readable): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+export const letterheadInclude = { logo: { select: { id: true, key: true, contentType: true } } } as const;
+
+export const toLetterheadSettings = (organization: {
+  letterheadName: string;
+  letterheadAddress: string;
+  letterheadContact: string;
+  logo: { id: string } | null;
+}): LetterheadSettings => ({
+  name: organization.letterheadName,
+  address: organization.letterheadAddress,
+  contact: organization.letterheadContact,
+  logoUrl: organization.logo ? getFileUrl(organization.logo.id) : null
+});
+
+export async function saveLetterhead(
+  organizationId: string,
+  letterhead: Pick<LetterheadSettings, 'name' | 'address' | 'contact'>
+) {
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: {
+      letterheadName: letterhead.name.trim(),
+      letterheadAddress: letterhead.address.trim(),
+      letterheadContact: letterhead.contact.trim()
+    }
+  });
+}
+
+// Points the letterhead at a newly stored logo and removes the one it replaces
+export async function replaceLetterheadLogo(organizationId: string, fileId: string | null) {
+  const previous = await prisma.$transaction(async (tx) => {
+    const organization = await tx.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      include: letterheadInclude
+    });
+    await tx.organization.update({ where: { id: organizationId }, data: { logoFileId: fileId } });
+    if (organization.logo) {
+      await tx.storedFile.delete({ where: { id: organization.logo.id } });
+    }
+    return organization.logo;
+  });
+
+  if (previous) {
+    await getStorage().delete(previous.key).catch(error => console.error('Error deleting old logo:', error));
+  }
+}
+
+/**
+ * The organization's letterhead with its logo read from storage. Unset
+ * fields fall back to the organization name, and a logo that cannot be
+ * read is left off rather than failing the document.
+ */
+export async function loadLetterhead(organizationId: string): Promise<Letterhead> {
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    include: letterheadInclude
+  });
+
+  let logo: Letterhead['logo'] = null;
+  const format = organization.logo && LOGO_FORMATS[organization.logo.contentType];
+  if (organization.logo && format) {
+    try {
+      const object = await getStorage().get(organization.logo.key);
+      logo = { data: await readAll(object.stream), format };
+    } catch (error) {
+      console.error('Error reading letterhead logo:', error);
+    }
+  }
+
+  return {
+    name: organization.letterheadName || organization.name,
+    address: organization.letterheadAddress,
+    contact: organization.letterheadContact,
+    logo
+  };
+}
+
+// Renders one of the shipment's documents on its organization's letterhead
+export async function renderShipmentDocumentFile(kind: DocumentKind, shipmentId: string, generatedAt = new Date()) {
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+  if (!shipment) {
+    throw new DocumentRenderError('Shipment not found');
+  }
+
+  return renderShipmentDocument(kind, toShipmentData(shipment), toSadDeclaration(shipment), {
+    letterhead: await loadLetterhead(shipment.organizationId),
+    generatedAt
+  });
+}
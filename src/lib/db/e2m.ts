@@ -0,0 +1,226 @@
+// lib/db/e2m.ts
+import type { E2mMessage, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getE2mResponseFormat, parseE2mResponse } from '@/lib/customs/e2m';
+import { isE2mSimulatorEnabled } from '@/lib/customs/e2m-simulator';
+import { getNextStage, IMPORT_WORKFLOW, WORKFLOW_STAGES, type WorkflowStage } from '@/lib/utils/workflow';
+import { transitionShipment, WorkflowTransitionError } from './workflow';
+import {
+  E2M_RESPONSE_LABELS,
+  E2M_RESPONSE_STAGES,
+  type E2mDirection,
+  type E2mExportFile,
+  type E2mFormat,
+  type E2mLodgementData,
+  type E2mMessageData,
+  type E2mResponse
+} from '@/types/e2m';
+import type { User } from '@/types/auth';
+
+type Tx = Prisma.TransactionClient;
+type Actor = Pick<User, 'id' | 'name' | 'role'>;
+
+export class E2mLodgementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'E2mLodgementError';
+  }
+}
+
+const LODGEMENT_STAGE: WorkflowStage = 'READY_FOR_LODGEMENT';
+
+const stageIndex = (status: string) => WORKFLOW_STAGES.indexOf(status as WorkflowStage);
+
+const toE2mMessageData = (message: E2mMessage): E2mMessageData => ({
+  id: message.id,
+  direction: message.direction as E2mDirection,
+  type: message.type,
+  format: message.format as E2mFormat,
+  fileName: message.fileName,
+  entryNumber: message.entryNumber,
+  assessedAmount: message.assessedAmount,
+  paymentReference: message.paymentReference,
+  releaseReference: message.releaseReference,
+  actor: message.actorId ? { id: message.actorId, name: message.actorName || '' } : null,
+  createdAt: message.createdAt.toISOString()
+});
+
+export async function getE2mLodgement(
+  shipmentId: string,
+  db: Tx | typeof prisma = prisma
+): Promise<E2mLodgementData> {
+  const messages = await db.e2mMessage.findMany({
+    where: { shipmentId },
+    orderBy: { createdAt: 'desc' }
+  });
+  const latest = (type: string) =>
+    messages.find(message => message.direction === 'INBOUND' && message.type === type) ?? null;
+
+  return {
+    entryNumber: messages.find(message => message.entryNumber)?.entryNumber ?? null,
+    assessedAmount: latest('ASSESSMENT')?.assessedAmount ?? null,
+    paymentReference: latest('PAYMENT')?.paymentReference ?? null,
+    releaseReference: latest('RELEASE')?.releaseReference ?? null,
+    messages: messages.map(toE2mMessageData),
+    simulatorEnabled: isE2mSimulatorEnabled()
+  };
+}
+
+/**
+ * Records a declaration file handed to E2M. Only imports that have reached
+ * the lodgement stage are exported; re-exporting an amended declaration is
+ * allowed and logged like the first.
+ */
+export async function recordE2mExport(
+  tx: Tx,
+  shipmentId: string,
+  file: E2mExportFile,
+  format: E2mFormat,
+  actor: Actor
+) {
+  const shipment = await tx.shipment.findUnique({
+    where: { id: shipmentId },
+    select: { status: true }
+  });
+  if (!shipment) {
+    throw new E2mLodgementError('Shipment not found');
+  }
+  if (stageIndex(shipment.status) < stageIndex(LODGEMENT_STAGE)) {
+    throw new E2mLodgementError('Duties must be computed and the shipment made ready for E2M before lodging');
+  }
+
+  const timestamp = new Date();
+  await tx.e2mMessage.create({
+    data: {
+      shipmentId,
+      direction: 'OUTBOUND',
+      type: 'LODGEMENT',
+      format,
+      fileName: file.fileName,
+      content: file.content,
+      actorId: actor.id,
+      actorName: actor.name,
+      createdAt: timestamp
+    }
+  });
+  await tx.timelineEntry.create({
+    data: {
+      shipmentId,
+      stage: shipment.status,
+      status: 'in_progress',
+      description: `Declaration exported for E2M (${format === 'XML' ? 'XML' : 'flat file'})`,
+      actorId: actor.id,
+      actorName: actor.name,
+      timestamp
+    }
+  });
+}
+
+const describeResponse = (response: E2mResponse) => {
+  const detail = response.type === 'ASSESSMENT'
+    ? `PHP ${response.assessedAmount?.toFixed(2)}`
+    : response.type === 'PAYMENT'
+      ? response.paymentReference
+      : response.type === 'RELEASE'
+        ? response.releaseReference
+        : response.entryNumber;
+  return `E2M ${E2M_RESPONSE_LABELS[response.type].toLowerCase()}: ${detail}`;
+};
+
+/**
+ * Files a response from E2M against the shipment it answers, logs it in the
+ * timeline and advances the shipment to the stage the response implies, one
+ * transition at a time. A stage whose guard is not yet met stops the advance;
+ * the response is still kept and the unmet requirements are returned.
+ */
+export async function applyE2mResponse(
+  tx: Tx,
+  shipmentId: string,
+  file: { fileName: string; content: string },
+  actor: Actor
+): Promise<{ response: E2mResponse; pending: string[] }> {
+  const response = parseE2mResponse(file.content);
+
+  const shipment = await tx.shipment.findUnique({
+    where: { id: shipmentId },
+    select: { referenceNumber: true, status: true, freightType: true }
+  });
+  if (!shipment) {
+    throw new E2mLodgementError('Shipment not found');
+  }
+  if (shipment.freightType === 'EXP') {
+    throw new E2mLodgementError('E2M responses apply to import entries only');
+  }
+  if (response.referenceNumber !== shipment.referenceNumber) {
+    throw new E2mLodgementError(
+      `Response is for ${response.referenceNumber}, not ${shipment.referenceNumber}`
+    );
+  }
+
+  const messages = await tx.e2mMessage.findMany({
+    where: { shipmentId },
+    select: { direction: true, type: true, entryNumber: true }
+  });
+  if (!messages.some(message => message.direction === 'OUTBOUND')) {
+    throw new E2mLodgementError('No declaration has been lodged in E2M for this shipment');
+  }
+  const entryNumber = messages.find(message => message.entryNumber)?.entryNumber;
+  if (entryNumber && entryNumber !== response.entryNumber) {
+    throw new E2mLodgementError(
+      `Response is for entry ${response.entryNumber}, but this shipment was lodged as ${entryNumber}`
+    );
+  }
+  if (messages.some(message => message.direction === 'INBOUND' && message.type === response.type)) {
+    throw new E2mLodgementError(`A ${E2M_RESPONSE_LABELS[response.type].toLowerCase()} response was already imported`);
+  }
+
+  const timestamp = new Date();
+  await tx.e2mMessage.create({
+    data: {
+      shipmentId,
+      direction: 'INBOUND',
+      type: response.type,
+      format: getE2mResponseFormat(file.content),
+      fileName: file.fileName,
+      content: file.content,
+      entryNumber: response.entryNumber,
+      assessedAmount: response.assessedAmount,
+      paymentReference: response.paymentReference,
+      releaseReference: response.releaseReference,
+      actorId: actor.id,
+      actorName: actor.name,
+      createdAt: timestamp
+    }
+  });
+  await tx.timelineEntry.create({
+    data: {
+      shipmentId,
+      stage: shipment.status,
+      status: 'in_progress',
+      description: describeResponse(response),
+      actorId: actor.id,
+      actorName: actor.name,
+      timestamp
+    }
+  });
+
+  const target = E2M_RESPONSE_STAGES[response.type];
+  const pending: string[] = [];
+  let status = shipment.status;
+  while (target && stageIndex(status) < stageIndex(target)) {
+    const next = getNextStage(IMPORT_WORKFLOW, status as WorkflowStage);
+    if (!next) break;
+    try {
+      status = (await transitionShipment(tx, shipmentId, next, {
+        actor,
+        reason: describeResponse(response)
+      })).status;
+    } catch (error) {
+      if (!(error instanceof WorkflowTransitionError)) throw error;
+      pending.push(...error.reasons);
+      break;
+    }
+  }
+
+  return { response, pending };
+}
@@ -0,0 +1,38 @@
+// lib/db/metrics.ts
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { MetricsShipment } from '@/lib/utils/metrics';
+
+const metricsSelect = {
+  id: true,
+  referenceNumber: true,
+  status: true,
+  userId: true,
+  assigneeId: true,
+  completionDate: true,
+  shipmentDetails: true,
+  consigneeData: true,
+  consignee: { select: { name: true } },
+  timeline: {
+    select: { stage: true, status: true, timestamp: true }
+  }
+} satisfies Prisma.ShipmentSelect;
+
+// Loads just enough of each shipment to compute dashboard metrics. `userId`
+// is the broker responsible: the assignee, or the creator when unassigned.
+export async function loadMetricsShipments(
+  where: Prisma.ShipmentWhereInput
+): Promise<Array<MetricsShipment & { userId: string }>> {
+  const shipments = await prisma.shipment.findMany({ where, select: metricsSelect });
+
+  return shipments.map(shipment => ({
+    id: shipment.id,
+    referenceNumber: shipment.referenceNumber,
+    consignee: shipment.consignee?.name || JSON.parse(shipment.consigneeData).name || 'N/A',
+    status: shipment.status,
+    eta: JSON.parse(shipment.shipmentDetails).eta || null,
+    completionDate: shipment.completionDate,
+    userId: shipment.assigneeId ?? shipment.userId,
+    timeline: shipment.timeline
+  }));
+}
@@ -0,0 +1,100 @@
+// lib/db/organization.ts
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { USER_ROLES, type User } from '@/types/auth';
+import {
+  ORGANIZATION_ROLES,
+  type OrganizationMembership,
+  type OrganizationRole
+} from '@/types/organization';
+
+type Tx = Prisma.TransactionClient;
+
+export class OrganizationAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrganizationAccessError';
+  }
+}
+
+// What a user may reach: the organizations they belong to, or everything for SUPERADMIN
+export interface OrganizationScope {
+  user: User;
+  memberships: OrganizationMembership[];
+  isSuperadmin: boolean;
+}
+
+export async function getOrganizationScope(user: User): Promise<OrganizationScope> {
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId: user.id },
+    include: { organization: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return {
+    user,
+    memberships: memberships.map(membership => ({
+      organizationId: membership.organizationId,
+      organizationName: membership.organization.name,
+      role: membership.role as OrganizationRole
+    })),
+    isSuperadmin: user.role === USER_ROLES.SUPERADMIN
+  };
+}
+
+/**
+ * Filter for shipments, consignees and exporters the scope can see. Works as
+ * a `where` fragment for any of the three, or nested under a relation.
+ */
+export const organizationWhere = (scope: OrganizationScope) =>
+  scope.isSuperadmin
+    ? {}
+    : { organizationId: { in: scope.memberships.map(m => m.organizationId) } };
+
+export const isMemberOf = (scope: OrganizationScope, organizationId: string) =>
+  scope.isSuperadmin || scope.memberships.some(m => m.organizationId === organizationId);
+
+// Deleting records and managing members is kept to owners and admins
+export const canManageOrganization = (scope: OrganizationScope, organizationId: string) =>
+  scope.isSuperadmin ||
+  scope.memberships.some(m =>
+    m.organizationId === organizationId && m.role !== ORGANIZATION_ROLES.MEMBER
+  );
+
+// New records go to the user's first organization
+export function getHomeOrganizationId(scope: OrganizationScope): string {
+  const home = scope.memberships[0];
+  if (!home) {
+    throw new OrganizationAccessError('You are not a member of any organization');
+  }
+  return home.organizationId;
+}
+
+// Ownership fields every shipment, consignee and exporter is created with
+export interface RecordOwner {
+  userId: string;
+  organizationId: string;
+  assigneeId: string | null;
+}
+
+// Ownership fields for a record created by the scope's user
+export const ownedBy = (scope: OrganizationScope): RecordOwner => ({
+  userId: scope.user.id,
+  organizationId: getHomeOrganizationId(scope),
+  assigneeId: scope.user.id
+});
+
+// Gives a newly registered broker a firm of their own to work in
+export async function createOrganizationForUser(
+  tx: Tx,
+  user: { id: string; name: string; companyName?: string | null }
+) {
+  return tx.organization.create({
+    data: {
+      name: user.companyName || user.name,
+      members: {
+        create: { userId: user.id, role: ORGANIZATION_ROLES.OWNER }
+      }
+    }
+  });
+}
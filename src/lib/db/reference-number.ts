@@ -0,0 +1,139 @@
+// lib/db/reference-number.ts
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import {
+  generateReferenceNumber,
+  REFERENCE_PREFIX,
+  type ReferenceNumberResponse,
+  type ReferenceSequenceAudit,
+  type TransactionType
+} from '@/lib/utils/reference-number';
+
+type Tx = Prisma.TransactionClient;
+
+// The number format only has room for four digits
+const MAX_SEQUENCE = 9999;
+
+export class ReferenceNumberError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceNumberError';
+  }
+}
+
+// The year rolls over at midnight in REFERENCE_TIMEZONE (UTC by default), not in the server's own zone
+export const getReferenceYear = (date = new Date()) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: process.env.REFERENCE_TIMEZONE || 'UTC',
+    year: '2-digit'
+  }).format(date);
+
+/**
+ * Issues the next reference number for a transaction type in the current year.
+ *
+ * Must run inside the transaction that creates the record it labels: the
+ * counter row is locked by the increment until commit, so concurrent callers
+ * queue instead of colliding, and a rollback also rolls back the number.
+ * Every issued number is logged so the sequence can be audited for gaps.
+ */
+export async function issueReferenceNumber(
+  tx: Tx,
+  transactionType: TransactionType,
+  options: { issuedById?: string; entityType?: string; entityId?: string } = {}
+): Promise<ReferenceNumberResponse> {
+  const year = getReferenceYear();
+
+  // The year's counter row is created on its own first: ON CONFLICT DO NOTHING
+  // makes a concurrent first-of-year caller wait for the other insert instead
+  // of failing on the unique key, which would abort the whole transaction
+  await tx.referenceSequence.createMany({
+    data: [{ transactionType, year, lastValue: 0 }],
+    skipDuplicates: true
+  });
+  const sequence = await tx.referenceSequence.update({
+    where: { transactionType_year: { transactionType, year } },
+    data: { lastValue: { increment: 1 } }
+  });
+
+  if (sequence.lastValue > MAX_SEQUENCE) {
+    throw new ReferenceNumberError(`No ${transactionType} reference numbers left for 20${year}`);
+  }
+
+  const referenceNumber = await generateReferenceNumber({
+    prefix: REFERENCE_PREFIX,
+    transactionType,
+    year,
+    sequence: sequence.lastValue
+  });
+
+  await tx.referenceNumberIssue.create({
+    data: {
+      referenceNumber,
+      transactionType,
+      year,
+      sequence: sequence.lastValue,
+      issuedById: options.issuedById,
+      entityType: options.entityType,
+      entityId: options.entityId
+    }
+  });
+
+  return { referenceNumber, sequenceNumber: sequence.lastValue };
+}
+
+// Records which entity ended up carrying a number issued ahead of its creation
+export async function attachReferenceNumber(
+  tx: Tx,
+  referenceNumber: string,
+  entityType: string,
+  entityId: string
+) {
+  await tx.referenceNumberIssue.update({
+    where: { referenceNumber },
+    data: { entityType, entityId }
+  });
+}
+
+// Numbers are never reused; a voided number stays in the log with its reason
+export async function voidReferenceNumber(referenceNumber: string, reason: string) {
+  await prisma.referenceNumberIssue.update({
+    where: { referenceNumber },
+    data: { voidedAt: new Date(), voidReason: reason }
+  });
+}
+
+export async function auditReferenceSequence(
+  transactionType: TransactionType,
+  year: string
+): Promise<ReferenceSequenceAudit> {
+  const [sequence, issues] = await Promise.all([
+    prisma.referenceSequence.findUnique({
+      where: { transactionType_year: { transactionType, year } }
+    }),
+    prisma.referenceNumberIssue.findMany({
+      where: { transactionType, year },
+      orderBy: { sequence: 'asc' }
+    })
+  ]);
+
+  const lastValue = sequence?.lastValue ?? 0;
+  const recorded = new Set(issues.map(issue => issue.sequence));
+
+  return {
+    transactionType,
+    year,
+    lastValue,
+    issued: issues.length,
+    missing: Array.from({ length: lastValue }, (_, i) => i + 1).filter(n => !recorded.has(n)),
+    unattached: issues
+      .filter(issue => !issue.entityId && !issue.voidedAt)
+      .map(issue => issue.referenceNumber),
+    voided: issues
+      .filter(issue => issue.voidedAt)
+      .map(issue => ({
+        referenceNumber: issue.referenceNumber,
+        reason: issue.voidReason,
+        voidedAt: issue.voidedAt!.toISOString()
+      }))
+  };
+}
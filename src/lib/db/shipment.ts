@@ -0,0 +1,363 @@
+// lib/db/shipment.ts
+import type {
+  CargoLine,
+  DutyComputation,
+  Prisma,
+  ShipmentContainer as ContainerRow,
+  SofEvent
+} from '@prisma/client';
+import type {
+  CargoItem,
+  ComputationDetails,
+  DocumentData,
+  DocumentStatus,
+  ShipmentContainer,
+  ShipmentData,
+  StatementOfFactEvent,
+  WorkflowStageStatus
+} from '@/types/import/workflow';
+import type { ExportShipmentData, ExportShipmentDetails } from '@/types/export';
+import type { SadDeclaration } from '@/types/sad';
+import type { SofEventCategory, SofEventSource } from '@/types/sof';
+import { buildSadDeclaration } from '@/lib/customs/sad';
+import { normalizeContainerNumber } from '@/lib/utils/container';
+import { organizationWhere, type OrganizationScope } from './organization';
+
+type Tx = Prisma.TransactionClient;
+
+export const IMPORT_FREIGHT_TYPES = ['IMS', 'IMA'];
+
+// The import shipments a user's organizations work on; lists and metrics must agree on this
+export const importShipmentsWhere = (scope: OrganizationScope) =>
+  ({
+    ...organizationWhere(scope),
+    freightType: { in: IMPORT_FREIGHT_TYPES }
+  }) satisfies Prisma.ShipmentWhereInput;
+
+export const shipmentInclude = {
+  consignee: {
+    include: {
+      documents: true
+    }
+  },
+  exporter: true,
+  documents: {
+    orderBy: { createdAt: 'asc' as const }
+  },
+  timeline: {
+    orderBy: { timestamp: 'asc' as const }
+  },
+  notes: {
+    orderBy: { timestamp: 'asc' as const }
+  },
+  cargoLines: {
+    orderBy: { position: 'asc' as const }
+  },
+  containers: {
+    orderBy: { position: 'asc' as const }
+  },
+  sofEvents: {
+    orderBy: { timestamp: 'asc' as const }
+  },
+  dutyComputation: true
+} satisfies Prisma.ShipmentInclude;
+
+export type ShipmentWithRelations = Prisma.ShipmentGetPayload<{ include: typeof shipmentInclude }>;
+
+export const toStatementOfFactEvent = (event: SofEvent): StatementOfFactEvent => ({
+  id: event.id,
+  timestamp: event.timestamp.toISOString(),
+  category: event.category as SofEventCategory,
+  source: event.source as SofEventSource,
+  description: event.description,
+  createdBy: {
+    id: event.createdById || '',
+    name: event.createdByName
+  },
+  documents: event.documents as StatementOfFactEvent['documents']
+});
+
+export function toCargoItem(line: CargoLine): CargoItem {
+  return {
+    id: line.id,
+    description: line.description,
+    invoiceValue: line.invoiceValue,
+    currency: line.currency || undefined,
+    grossWeight: line.grossWeight,
+    netWeight: line.netWeight,
+    quantity: line.quantity,
+    hsCode: line.hsCode
+  };
+}
+
+// Cargo lines removed since the container was saved are dropped from what it carries
+export function toShipmentContainer(container: ContainerRow, cargoIds: Set<string>): ShipmentContainer {
+  return {
+    id: container.id,
+    number: container.number,
+    sizeType: container.sizeType,
+    sealNumber: container.sealNumber,
+    blNumber: container.blNumber,
+    cargoIds: container.cargoLineIds.filter(id => cargoIds.has(id)),
+    pulledOutAt: container.pulledOutAt?.toISOString() ?? null,
+    emptyReturnedAt: container.emptyReturnedAt?.toISOString() ?? null
+  };
+}
+
+export function toComputationDetails(computation: DutyComputation): ComputationDetails {
+  return {
+    dutiable_value: computation.dutiableValue,
+    customs_duty: computation.customsDuty,
+    vat: computation.vat,
+    other_charges: computation.otherCharges,
+    total_payable: computation.totalPayable,
+    currency: computation.currency || undefined,
+    exchange_rate: computation.exchangeRate ?? undefined,
+    exchange_rates: (computation.exchangeRates as ComputationDetails['exchange_rates']) || undefined,
+    rate_date: computation.rateDate?.toISOString(),
+    terms_of_delivery: computation.termsOfDelivery || undefined,
+    lines: (computation.lines as unknown as ComputationDetails['lines']) || undefined,
+    charges: (computation.charges as unknown as ComputationDetails['charges']) || undefined,
+    computed_at: computation.computedAt?.toISOString(),
+    computed_by: computation.computedById
+      ? { id: computation.computedById, name: computation.computedByName || '' }
+      : undefined
+  };
+}
+
+// Shapes a shipment and its relations into the ShipmentData the workflow UI expects
+export function toShipmentData(shipment: ShipmentWithRelations): ShipmentData {
+  return {
+    id: shipment.id,
+    referenceNumber: shipment.referenceNumber,
+    status: shipment.status,
+    userID: shipment.userId,
+    consignee: shipment.consignee
+      ? {
+          id: shipment.consignee.id,
+          name: shipment.consignee.name,
+          address: shipment.consignee.businessAddress,
+          tin: shipment.consignee.tin,
+          brn: shipment.consignee.brn,
+          contactPerson: shipment.consignee.contactPerson,
+          contactNumber: shipment.consignee.contactNumber,
+          email: shipment.consignee.email,
+          documents: shipment.consignee.documents.map(doc => ({
+            id: doc.id,
+            name: doc.name,
+            url: doc.fileUrl,
+            uploadedAt: doc.uploadedAt,
+            isVerified: doc.isVerified
+          }))
+        } as ShipmentData['consignee']
+      : JSON.parse(shipment.consigneeData),
+    exporter: shipment.exporter
+      ? {
+          id: shipment.exporter.id,
+          name: shipment.exporter.name,
+          address: shipment.exporter.businessAddress,
+          contactPerson: shipment.exporter.contactPerson,
+          contactNumber: shipment.exporter.contactNumber,
+          email: shipment.exporter.email
+        }
+      : JSON.parse(shipment.exporterData),
+    shipmentDetails: JSON.parse(shipment.shipmentDetails),
+    documents: shipment.documents.map(doc => ({
+      name: doc.name,
+      status: doc.status as DocumentStatus,
+      isVerified: doc.isVerified,
+      isRequired: doc.isRequired,
+      files: doc.files
+    })),
+    timeline: shipment.timeline.map(entry => ({
+      id: entry.id,
+      stage: entry.stage,
+      status: entry.status as WorkflowStageStatus,
+      timestamp: entry.timestamp.toISOString(),
+      description: entry.description || undefined,
+      actor: entry.actorId ? { id: entry.actorId, name: entry.actorName || '' } : undefined,
+      reason: entry.reason || undefined
+    })),
+    notes: shipment.notes.map(note => ({
+      id: note.id,
+      content: note.content,
+      author: note.author,
+      timestamp: note.timestamp.toISOString()
+    })),
+    computations: shipment.dutyComputation ? toComputationDetails(shipment.dutyComputation) : null,
+    cargo: shipment.cargoLines.map(toCargoItem),
+    containers: shipment.containers.map(container =>
+      toShipmentContainer(container, new Set(shipment.cargoLines.map(line => line.id)))
+    ),
+    statementOfFacts: shipment.sofEvents.map(toStatementOfFactEvent),
+    isLocked: shipment.isLocked,
+    signOff: shipment.signedOffAt
+      ? {
+          approvedAt: shipment.signedOffAt.toISOString(),
+          approver: { id: shipment.signedOffById || '', name: shipment.signedOffByName || '' },
+          remarks: shipment.signOffRemarks || undefined
+        }
+      : null
+  };
+}
+
+// Export shipments reuse the same tables with the parties reversed
+export function toExportShipmentData(shipment: ShipmentWithRelations): ExportShipmentData {
+  const { consignee, exporter, shipmentDetails, ...rest } = toShipmentData(shipment);
+  return {
+    ...rest,
+    shipper: consignee,
+    buyer: exporter?.name ? exporter : null,
+    shipmentDetails: shipmentDetails as unknown as ExportShipmentDetails
+  };
+}
+
+// The import entry for an import shipment; exports are not declared on an IED
+export function toSadDeclaration(shipment: ShipmentWithRelations): SadDeclaration | null {
+  if (shipment.freightType !== 'IMS' && shipment.freightType !== 'IMA') return null;
+  return buildSadDeclaration(toShipmentData(shipment), shipment.freightType);
+}
+
+export async function saveComputation(tx: Tx, shipmentId: string, computations: ComputationDetails) {
+  const data = {
+    dutiableValue: computations.dutiable_value,
+    customsDuty: computations.customs_duty,
+    vat: computations.vat,
+    otherCharges: computations.other_charges,
+    totalPayable: computations.total_payable,
+    currency: computations.currency ?? null,
+    exchangeRate: computations.exchange_rate ?? null,
+    exchangeRates: computations.exchange_rates ?? undefined,
+    rateDate: computations.rate_date ? new Date(computations.rate_date) : null,
+    termsOfDelivery: computations.terms_of_delivery ?? null,
+    lines: (computations.lines as unknown as Prisma.InputJsonValue) ?? undefined,
+    charges: (computations.charges as unknown as Prisma.InputJsonValue) ?? undefined,
+    computedAt: computations.computed_at ? new Date(computations.computed_at) : null,
+    computedById: computations.computed_by?.id ?? null,
+    computedByName: computations.computed_by?.name ?? null
+  };
+
+  await tx.dutyComputation.upsert({
+    where: { shipmentId },
+    update: data,
+    create: { ...data, shipmentId }
+  });
+}
+
+// Collections a shipment edit may carry. The rest have their own writers:
+// duty computations the duty engine (saveComputation), timeline entries the
+// workflow (transitionShipment), document files and status the upload actions,
+// and SOF events the workflow or the SOF actions (lib/db/sof), under the session user
+export type ShipmentRelationUpdates = Partial<Pick<ShipmentData, 'notes' | 'cargo' | 'containers'>>;
+
+/**
+ * Sets up a new shipment's document checklist. Slots start empty; files and
+ * status only ever arrive through an upload.
+ */
+export async function createDocumentSlots(
+  tx: Tx,
+  shipmentId: string,
+  documents: readonly Pick<DocumentData, 'name' | 'isRequired'>[]
+) {
+  if (!documents.length) return;
+  await tx.shipmentDocument.createMany({
+    data: documents.map(doc => ({
+      shipmentId,
+      name: doc.name,
+      isRequired: doc.isRequired,
+      status: 'not_uploaded',
+      isVerified: false,
+      files: []
+    })),
+    skipDuplicates: true
+  });
+}
+
+/**
+ * Writes the collections present in `updates` to their tables.
+ *
+ * Callers still send whole arrays, so each collection is reconciled against
+ * what is stored rather than replaced: notes are append-only (notes already
+ * stored are skipped), and cargo lines and containers are matched by id,
+ * with rows missing from the update removed. Edits to different collections
+ * no longer overwrite each other.
+ */
+export async function syncShipmentRelations(tx: Tx, shipmentId: string, updates: ShipmentRelationUpdates) {
+  if (updates.notes) {
+    const existing = await tx.shipmentNote.findMany({ where: { shipmentId } });
+    const known = new Set(existing.map(note => `${note.author}|${note.content}|${note.timestamp.getTime()}`));
+    const ids = new Set(existing.map(note => note.id));
+
+    const notes = updates.notes.filter(note =>
+      !(note.id && ids.has(note.id)) &&
+      !known.has(`${note.author}|${note.content}|${new Date(note.timestamp).getTime()}`)
+    );
+    if (notes.length) {
+      await tx.shipmentNote.createMany({
+        data: notes.map(note => ({
+          shipmentId,
+          content: note.content,
+          author: note.author,
+          timestamp: new Date(note.timestamp)
+        }))
+      });
+    }
+  }
+
+  if (updates.cargo) {
+    const existingIds = new Set(
+      (await tx.cargoLine.findMany({ where: { shipmentId }, select: { id: true } })).map(line => line.id)
+    );
+
+    await tx.cargoLine.deleteMany({
+      where: { shipmentId, id: { notIn: updates.cargo.map(item => item.id) } }
+    });
+
+    for (const [position, item] of Array.from(updates.cargo.entries())) {
+      const data = {
+        position,
+        description: item.description || '',
+        invoiceValue: item.invoiceValue || 0,
+        currency: item.currency ?? null,
+        grossWeight: item.grossWeight || 0,
+        netWeight: item.netWeight || 0,
+        quantity: item.quantity || 0,
+        hsCode: item.hsCode || ''
+      };
+
+      if (existingIds.has(item.id)) {
+        await tx.cargoLine.update({ where: { id: item.id }, data });
+      } else {
+        await tx.cargoLine.create({ data: { ...data, id: item.id || undefined, shipmentId } });
+      }
+    }
+  }
+
+  if (updates.containers) {
+    const existingIds = new Set(
+      (await tx.shipmentContainer.findMany({ where: { shipmentId }, select: { id: true } })).map(row => row.id)
+    );
+
+    await tx.shipmentContainer.deleteMany({
+      where: { shipmentId, id: { notIn: updates.containers.map(container => container.id) } }
+    });
+
+    for (const [position, container] of Array.from(updates.containers.entries())) {
+      const data = {
+        position,
+        number: normalizeContainerNumber(container.number),
+        sizeType: container.sizeType || '',
+        sealNumber: container.sealNumber || '',
+        blNumber: container.blNumber || '',
+        cargoLineIds: container.cargoIds || []
+      };
+
+      if (existingIds.has(container.id)) {
+        await tx.shipmentContainer.update({ where: { id: container.id }, data });
+      } else {
+        await tx.shipmentContainer.create({ data: { ...data, id: container.id || undefined, shipmentId } });
+      }
+    }
+  }
+
+}
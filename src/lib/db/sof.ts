@@ -0,0 +1,60 @@
+// lib/db/sof.ts
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { toStatementOfFactEvent } from './shipment';
+import type { StatementOfFactEvent } from '@/types/import/workflow';
+import type { SofEventInput, SofEventSource } from '@/types/sof';
+import type { User } from '@/types/auth';
+
+type Tx = Prisma.TransactionClient;
+
+export class SofEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SofEventError';
+  }
+}
+
+export async function listSofEvents(shipmentId: string): Promise<StatementOfFactEvent[]> {
+  const events = await prisma.sofEvent.findMany({
+    where: { shipmentId },
+    orderBy: { timestamp: 'asc' }
+  });
+  return events.map(toStatementOfFactEvent);
+}
+
+export async function recordSofEvents(
+  tx: Tx,
+  shipmentId: string,
+  events: SofEventInput[],
+  actor: Pick<User, 'id' | 'name'>,
+  options: { source?: SofEventSource; documents?: StatementOfFactEvent['documents'] } = {}
+) {
+  if (!events.length) return;
+
+  await tx.sofEvent.createMany({
+    data: events.map(event => ({
+      shipmentId,
+      timestamp: new Date(event.timestamp),
+      category: event.category,
+      source: options.source ?? 'WORKFLOW',
+      description: event.description,
+      createdById: actor.id,
+      createdByName: actor.name,
+      documents: options.documents ?? []
+    }))
+  });
+}
+
+// Only events typed in by hand can be removed; workflow events stand as recorded
+export async function deleteSofEvent(tx: Tx, shipmentId: string, eventId: string) {
+  const event = await tx.sofEvent.findFirst({ where: { id: eventId, shipmentId } });
+  if (!event) {
+    throw new SofEventError('Event not found');
+  }
+  if (event.source !== 'MANUAL') {
+    throw new SofEventError('Events recorded from the workflow cannot be deleted');
+  }
+  await tx.sofEvent.delete({ where: { id: eventId } });
+  return event.description;
+}
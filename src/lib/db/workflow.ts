@@ -0,0 +1,264 @@
+// lib/db/workflow.ts
+import type { Prisma } from '@prisma/client';
+import {
+  shipmentInclude,
+  toExportShipmentData,
+  toShipmentData,
+  type ShipmentWithRelations
+} from './shipment';
+import { checkCloseFile, checkTransition, IMPORT_WORKFLOW, type TransitionCheck } from '@/lib/utils/workflow';
+import { EXPORT_WORKFLOW } from '@/lib/utils/export-workflow';
+import type { User } from '@/types/auth';
+import type { WorkflowStageStatus } from '@/types/import/workflow';
+
+type Tx = Prisma.TransactionClient;
+
+export class WorkflowTransitionError extends Error {
+  constructor(message: string, public readonly reasons: string[] = [message]) {
+    super(message);
+    this.name = 'WorkflowTransitionError';
+  }
+}
+
+export interface TransitionOptions {
+  actor: Pick<User, 'id' | 'name' | 'role'>;
+  reason?: string;
+  // Advancing past a stage whose details were knowingly left incomplete
+  partial?: boolean;
+}
+
+// Exports (EXP) follow their own stage set; everything else is an import
+function checkShipmentTransition(
+  shipment: ShipmentWithRelations,
+  to: string,
+  options: TransitionOptions
+): TransitionCheck {
+  return shipment.freightType === 'EXP'
+    ? checkTransition(EXPORT_WORKFLOW, toExportShipmentData(shipment), to, options.actor.role, options.reason)
+    : checkTransition(IMPORT_WORKFLOW, toShipmentData(shipment), to, options.actor.role, options.reason);
+}
+
+/**
+ * Opens a new shipment's timeline at its first stage, recording who created
+ * it. Every later entry comes from a transition, close or unlock.
+ */
+export async function openShipmentTimeline(
+  tx: Tx,
+  shipmentId: string,
+  stage: string,
+  options: Pick<TransitionOptions, 'actor'> & { description: string }
+) {
+  await tx.timelineEntry.create({
+    data: {
+      shipmentId,
+      stage,
+      status: 'in_progress',
+      description: options.description,
+      actorId: options.actor.id,
+      actorName: options.actor.name,
+      timestamp: new Date()
+    }
+  });
+}
+
+/**
+ * Moves a shipment to `to` if its transition table allows it, and records who
+ * made the change and why in the timeline. The status update is conditional on
+ * the status the guards were checked against, so two concurrent transitions
+ * cannot both succeed.
+ */
+export async function transitionShipment(
+  tx: Tx,
+  shipmentId: string,
+  to: string,
+  options: TransitionOptions
+): Promise<ShipmentWithRelations> {
+  const { actor, reason, partial } = options;
+  const shipment = await tx.shipment.findUnique({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+  if (!shipment) {
+    throw new WorkflowTransitionError('Shipment not found');
+  }
+
+  const check = checkShipmentTransition(shipment, to, options);
+  if (!check.allowed) {
+    throw new WorkflowTransitionError(check.reasons.join('; '), check.reasons);
+  }
+
+  const from = shipment.status;
+  const stages = shipment.freightType === 'EXP' ? EXPORT_WORKFLOW.stages : IMPORT_WORKFLOW.stages;
+  const isFinal = to === stages[stages.length - 1];
+  const timestamp = new Date();
+
+  const { count } = await tx.shipment.updateMany({
+    where: { id: shipmentId, status: from, isLocked: false },
+    data: {
+      status: to,
+      // Reaching the last stage closes the file; rolling back reopens it
+      completionDate: isFinal ? timestamp : check.kind === 'rollback' ? null : undefined,
+      updatedAt: timestamp
+    }
+  });
+  if (count === 0) {
+    throw new WorkflowTransitionError('Shipment status changed while updating; reload and try again');
+  }
+
+  const leftStatus: WorkflowStageStatus = check.kind === 'rollback'
+    ? 'pending'
+    : partial ? 'partial' : 'complete';
+  const audit = {
+    shipmentId,
+    actorId: actor.id,
+    actorName: actor.name,
+    reason: reason?.trim() || null
+  };
+
+  await tx.timelineEntry.createMany({
+    data: [
+      {
+        ...audit,
+        stage: from,
+        status: leftStatus,
+        description: check.kind === 'rollback' ? `Rolled back to ${to}` : `Advanced to ${to}`,
+        timestamp
+      },
+      {
+        ...audit,
+        stage: to,
+        status: 'in_progress',
+        description: check.kind === 'rollback' ? `Reopened from ${from}` : null,
+        // Keep the entries ordered when both share a clock tick
+        timestamp: new Date(timestamp.getTime() + 1)
+      }
+    ]
+  });
+
+  return tx.shipment.findUniqueOrThrow({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+}
+
+/**
+ * Closes a delivered import's file: records the approver's sign-off and locks
+ * the shipment against further changes. Refused with the unmet requirements
+ * while any required document is not final or duties are not on record.
+ */
+export async function closeShipmentFile(
+  tx: Tx,
+  shipmentId: string,
+  options: Omit<TransitionOptions, 'partial'>
+): Promise<ShipmentWithRelations> {
+  const { actor, reason } = options;
+  const shipment = await tx.shipment.findUnique({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+  if (!shipment) {
+    throw new WorkflowTransitionError('Shipment not found');
+  }
+  if (shipment.freightType === 'EXP') {
+    throw new WorkflowTransitionError('Only import files can be closed');
+  }
+
+  const unmet = checkCloseFile(toShipmentData(shipment));
+  if (unmet.length) {
+    throw new WorkflowTransitionError(unmet.join('; '), unmet);
+  }
+
+  const timestamp = new Date();
+  const remarks = reason?.trim() || null;
+  const { count } = await tx.shipment.updateMany({
+    where: { id: shipmentId, status: shipment.status, isLocked: false },
+    data: {
+      isLocked: true,
+      signedOffAt: timestamp,
+      signedOffById: actor.id,
+      signedOffByName: actor.name,
+      signOffRemarks: remarks,
+      completionDate: shipment.completionDate ?? timestamp,
+      updatedAt: timestamp
+    }
+  });
+  if (count === 0) {
+    throw new WorkflowTransitionError('Shipment changed while closing; reload and try again');
+  }
+
+  await tx.timelineEntry.create({
+    data: {
+      shipmentId,
+      stage: shipment.status,
+      status: 'complete',
+      description: 'File closed and signed off',
+      actorId: actor.id,
+      actorName: actor.name,
+      reason: remarks,
+      timestamp
+    }
+  });
+
+  return tx.shipment.findUniqueOrThrow({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+}
+
+/**
+ * Reopens a closed file. The sign-off is withdrawn, and the reason is kept
+ * in the timeline next to the entry that closed it.
+ */
+export async function unlockShipmentFile(
+  tx: Tx,
+  shipmentId: string,
+  options: Omit<TransitionOptions, 'partial'>
+): Promise<ShipmentWithRelations> {
+  const { actor } = options;
+  const reason = options.reason?.trim();
+  if (!reason) {
+    throw new WorkflowTransitionError('A reason is required to unlock a shipment');
+  }
+
+  const shipment = await tx.shipment.findUnique({
+    where: { id: shipmentId },
+    select: { status: true }
+  });
+  if (!shipment) {
+    throw new WorkflowTransitionError('Shipment not found');
+  }
+
+  const timestamp = new Date();
+  const { count } = await tx.shipment.updateMany({
+    where: { id: shipmentId, isLocked: true },
+    data: {
+      isLocked: false,
+      signedOffAt: null,
+      signedOffById: null,
+      signedOffByName: null,
+      signOffRemarks: null,
+      updatedAt: timestamp
+    }
+  });
+  if (count === 0) {
+    throw new WorkflowTransitionError('Shipment is not locked');
+  }
+
+  await tx.timelineEntry.create({
+    data: {
+      shipmentId,
+      stage: shipment.status,
+      status: 'in_progress',
+      description: 'File unlocked',
+      actorId: actor.id,
+      actorName: actor.name,
+      reason,
+      timestamp
+    }
+  });
+
+  return tx.shipment.findUniqueOrThrow({
+    where: { id: shipmentId },
+    include: shipmentInclude
+  });
+}
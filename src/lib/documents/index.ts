@@ -0,0 +1,29 @@
+// src/lib/documents/index.ts
+import { renderDocument } from './render';
+import { dutyComputationTemplate } from './templates/duty-computation';
+import { sadTemplate } from './templates/sad';
+import { shipmentSummaryTemplate } from './templates/shipment-summary';
+import { statementOfFactsTemplate } from './templates/statement-of-facts';
+import type { DocumentKind, DocumentTemplate, RenderContext } from '@/types/documents';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { SadDeclaration } from '@/types/sad';
+
+export { renderDocument } from './render';
+
+// Every document the download route can produce, by the kind in its URL
+export const DOCUMENT_TEMPLATES: Record<DocumentKind, DocumentTemplate> = {
+  'statement-of-facts': statementOfFactsTemplate,
+  'duty-computation': dutyComputationTemplate,
+  'shipment-summary': shipmentSummaryTemplate,
+  sad: sadTemplate
+};
+
+export function renderShipmentDocument(
+  kind: DocumentKind,
+  shipment: ShipmentData,
+  declaration: SadDeclaration | null,
+  context: RenderContext
+) {
+  const definition = DOCUMENT_TEMPLATES[kind](shipment, declaration);
+  return { fileName: definition.fileName, content: renderDocument(definition, context) };
+}
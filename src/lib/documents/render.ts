@@ -0,0 +1,171 @@
+// src/lib/documents/render.ts
+import { createHash } from 'crypto';
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import autoTable, { type Table } from 'jspdf-autotable';
+import type { DocumentBlock, DocumentDefinition, Letterhead, RenderContext } from '@/types/documents';
+
+const MARGIN = 14;
+// Space kept free at the top and bottom of every page for the letterhead and footer
+const HEADER_HEIGHT = 34;
+const FOOTER_HEIGHT = 16;
+const BLOCK_GAP = 6;
+const LOGO_MAX = { width: 40, height: 18 };
+
+const BRAND_COLOR: [number, number, number] = [41, 128, 185];
+const MUTED_COLOR: [number, number, number] = [110, 110, 110];
+
+// autoTable records the table it last drew on the document; its typings leave that out
+declare module 'jspdf' {
+  interface jsPDF {
+    lastAutoTable?: Table;
+  }
+}
+
+const lastTableEnd = (doc: jsPDF, fallback: number): number => doc.lastAutoTable?.finalY ?? fallback;
+
+function drawLetterhead(doc: jsPDF, letterhead: Letterhead) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let textX = MARGIN;
+
+  if (letterhead.logo) {
+    const { width, height } = doc.getImageProperties(letterhead.logo.data);
+    const scale = Math.min(LOGO_MAX.width / width, LOGO_MAX.height / height);
+    doc.addImage(letterhead.logo.data, letterhead.logo.format, MARGIN, 10, width * scale, height * scale);
+    textX += width * scale + 4;
+  }
+
+  doc.setTextColor(0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text(letterhead.name, textX, 15);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8.5);
+  doc.setTextColor(...MUTED_COLOR);
+  const lines = [letterhead.address, letterhead.contact].filter(Boolean).join('\n');
+  if (lines) doc.text(doc.splitTextToSize(lines, pageWidth - textX - MARGIN), textX, 20);
+
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN, HEADER_HEIGHT - 4, pageWidth - MARGIN, HEADER_HEIGHT - 4);
+}
+
+function drawFooter(doc: jsPDF, title: string, page: number, pages: number, generatedAt: Date) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - 8;
+
+  doc.setDrawColor(200);
+  doc.setLineWidth(0.2);
+  doc.line(MARGIN, y - 5, pageWidth - MARGIN, y - 5);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(`${title} · Generated ${format(generatedAt, 'MMM dd, yyyy HH:mm')}`, MARGIN, y);
+  doc.text(`Page ${page} of ${pages}`, pageWidth - MARGIN, y, { align: 'right' });
+}
+
+// Starts a new page when fewer than `needed` millimetres remain above the footer
+function ensureSpace(doc: jsPDF, y: number, needed: number): number {
+  if (y + needed <= doc.internal.pageSize.getHeight() - FOOTER_HEIGHT) return y;
+  doc.addPage();
+  return HEADER_HEIGHT;
+}
+
+function drawBlock(doc: jsPDF, block: DocumentBlock, startY: number): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = { top: HEADER_HEIGHT, bottom: FOOTER_HEIGHT, left: MARGIN, right: MARGIN };
+  let y = ensureSpace(doc, startY, 20);
+
+  if (block.type !== 'text' && block.title) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(0);
+    doc.text(block.title, MARGIN, y + 4);
+    y += 7;
+  }
+
+  switch (block.type) {
+    case 'text': {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(0);
+      const lines: string[] = doc.splitTextToSize(block.text, pageWidth - 2 * MARGIN);
+      doc.text(lines, MARGIN, y + 4);
+      return y + lines.length * 5;
+    }
+    case 'fields':
+      autoTable(doc, {
+        startY: y,
+        margin,
+        theme: 'plain',
+        body: block.rows,
+        styles: { fontSize: 9.5, cellPadding: 1.5 },
+        columnStyles: { 0: { cellWidth: 55, fontStyle: 'bold' } }
+      });
+      return lastTableEnd(doc, y);
+    case 'table': {
+      if (!block.body.length && block.emptyText) {
+        doc.setFont('helvetica', 'italic');
+        doc.setFontSize(9.5);
+        doc.setTextColor(...MUTED_COLOR);
+        doc.text(block.emptyText, MARGIN, y + 4);
+        return y + 6;
+      }
+      autoTable(doc, {
+        startY: y,
+        margin,
+        theme: 'grid',
+        head: [block.head],
+        body: block.body,
+        headStyles: { fillColor: BRAND_COLOR, textColor: 255 },
+        styles: { fontSize: 9, cellPadding: 2 },
+        columnStyles: Object.fromEntries((block.numericColumns ?? []).map(column => [column, { halign: 'right' }]))
+      });
+      return lastTableEnd(doc, y);
+    }
+  }
+}
+
+/**
+ * Lays out a template's blocks under the letterhead and numbers the pages.
+ * Nothing here reads the clock or the environment: the creation date and
+ * file id come from the context, so the same shipment rendered with the
+ * same context produces the same bytes.
+ */
+export function renderDocument(definition: DocumentDefinition, context: RenderContext): Uint8Array {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  doc.setCreationDate(context.generatedAt);
+  doc.setFileId(
+    createHash('md5').update(`${definition.fileName}|${context.generatedAt.toISOString()}`).digest('hex').toUpperCase()
+  );
+  doc.setDocumentProperties({ title: definition.title, creator: context.letterhead.name });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(0);
+  doc.text(definition.title, MARGIN, HEADER_HEIGHT + 4);
+  let y = HEADER_HEIGHT + 6;
+  if (definition.subtitle) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(definition.subtitle, MARGIN, y + 4);
+    y += 6;
+  }
+
+  definition.blocks.forEach(block => {
+    y = drawBlock(doc, block, y + BLOCK_GAP);
+  });
+
+  // Letterhead and footer go on last, once the page count is known
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    drawLetterhead(doc, context.letterhead);
+    drawFooter(doc, definition.title, page, pages, context.generatedAt);
+  }
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
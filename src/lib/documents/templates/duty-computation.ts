@@ -0,0 +1,88 @@
+// src/lib/documents/templates/duty-computation.ts
+import { format } from 'date-fns';
+import { formatCurrencyAmount } from '@/lib/customs/currency';
+import type { DocumentDefinition } from '@/types/documents';
+import type { ShipmentData } from '@/types/import/workflow';
+
+const php = (amount: number) => formatCurrencyAmount(amount, 'PHP');
+
+// Legacy computations carry only the totals; the breakdown tables appear when recorded
+export function dutyComputationTemplate(shipment: ShipmentData): DocumentDefinition {
+  const computation = shipment.computations;
+  const definition = {
+    title: 'Duty Computation Sheet',
+    subtitle: `Reference No: ${shipment.referenceNumber}`,
+    fileName: `Duties-${shipment.referenceNumber}.pdf`
+  };
+
+  if (!computation) {
+    return {
+      ...definition,
+      blocks: [{ type: 'text', text: 'Duties and taxes have not been computed for this shipment yet.' }]
+    };
+  }
+
+  const rates = Object.entries(computation.exchange_rates ?? {})
+    .map(([currency, rate]) => `${currency} ${rate.toFixed(4)}`)
+    .join(', ');
+
+  return {
+    ...definition,
+    blocks: [
+      {
+        type: 'fields',
+        title: 'Basis',
+        rows: [
+          ['Consignee', shipment.consignee?.name || 'N/A'],
+          ['Terms of Delivery', computation.terms_of_delivery || shipment.shipmentDetails.terms_of_delivery || '—'],
+          ['Invoice Currency', computation.currency || '—'],
+          ['Exchange Rates (PHP per unit)', rates || (computation.exchange_rate ? computation.exchange_rate.toFixed(4) : '—')],
+          ['Rates in Force On', computation.rate_date ? format(new Date(computation.rate_date), 'MMM dd, yyyy') : '—'],
+          [
+            'Computed',
+            computation.computed_at
+              ? `${format(new Date(computation.computed_at), 'MMM dd, yyyy HH:mm')}${computation.computed_by ? ` by ${computation.computed_by.name}` : ''}`
+              : '—'
+          ]
+        ]
+      },
+      ...(computation.lines?.length
+        ? [{
+            type: 'table' as const,
+            title: 'Dutiable Value by Goods Line',
+            head: ['Description', 'HS Code', 'Invoice', 'FOB (PHP)', 'Freight', 'Insurance', 'Dutiable Value', 'Rate', 'Duty'],
+            body: computation.lines.map(line => [
+              line.description,
+              line.hsCode || '—',
+              formatCurrencyAmount(line.invoice_value, line.currency),
+              php(line.fob_value),
+              php(line.freight),
+              php(line.insurance),
+              php(line.dutiable_value),
+              `${line.duty_rate}%`,
+              php(line.customs_duty)
+            ]),
+            numericColumns: [2, 3, 4, 5, 6, 7, 8]
+          }]
+        : []),
+      {
+        type: 'table',
+        title: 'Duties, Taxes and Charges',
+        head: ['Item', 'Amount'],
+        body: computation.charges?.length
+          ? computation.charges.map(charge => [charge.label, php(charge.amount)])
+          : [
+              ['Dutiable Value', php(computation.dutiable_value)],
+              ['Customs Duty', php(computation.customs_duty)],
+              ['VAT', php(computation.vat)],
+              ['Other Charges', php(computation.other_charges)]
+            ],
+        numericColumns: [1]
+      },
+      {
+        type: 'fields',
+        rows: [['Total Payable', php(computation.total_payable)]]
+      }
+    ]
+  };
+}
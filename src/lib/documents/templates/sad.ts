@@ -0,0 +1,89 @@
+// src/lib/documents/templates/sad.ts
+import { formatCurrencyAmount } from '@/lib/customs/currency';
+import type { DocumentDefinition } from '@/types/documents';
+import type { ShipmentData } from '@/types/import/workflow';
+import type { SadDeclaration } from '@/types/sad';
+
+const blank = (value: string) => value || '—';
+const php = (amount: number) => formatCurrencyAmount(amount, 'PHP');
+
+// The Import Entry Declaration, laid out by SAD box number
+export function sadTemplate(shipment: ShipmentData, sad: SadDeclaration | null): DocumentDefinition {
+  const definition = {
+    title: 'Single Administrative Document',
+    subtitle: `Import Entry Declaration — Reference No: ${shipment.referenceNumber}`,
+    fileName: `SAD-${shipment.referenceNumber}.pdf`
+  };
+
+  if (!sad) {
+    return {
+      ...definition,
+      blocks: [{ type: 'text', text: 'An import entry can only be generated for import shipments.' }]
+    };
+  }
+
+  return {
+    ...definition,
+    blocks: [
+      {
+        type: 'table',
+        title: 'General Segment',
+        head: ['Box', 'Field', 'Value'],
+        body: [
+          ['2', 'Exporter', `${blank(sad.exporter.name)}\n${sad.exporter.address}`],
+          ['6', 'Total packages', String(sad.totalPackages)],
+          ['8', 'Consignee', `${blank(sad.consignee.name)}\n${sad.consignee.address}`],
+          ['8', 'Consignee TIN', blank(sad.consignee.tin)],
+          ['15', 'Country of export', blank(sad.countryOfExport)],
+          ['16', 'Country of origin', blank(sad.countryOfOrigin)],
+          [
+            '18',
+            sad.transport.mode === 'SEA' ? 'Vessel / voyage' : 'Flight',
+            [sad.transport.vesselOrFlight, sad.transport.voyageNumber].filter(Boolean).join(' / ') || '—'
+          ],
+          ['20', 'Terms of delivery', blank(sad.termsOfDelivery)],
+          ['22', 'Currency & total invoiced', formatCurrencyAmount(sad.invoice.total, sad.invoice.currency)],
+          ['23', 'Exchange rate', sad.invoice.exchangeRate ? sad.invoice.exchangeRate.toFixed(4) : '—'],
+          ['25', 'Mode of transport', sad.transport.mode],
+          ['27', 'Place of loading', blank(sad.portOfLoading)],
+          ['29', 'Office of entry', blank(sad.portOfDischarge)],
+          ['31', 'Container', blank(sad.transport.containerNumber)],
+          ['35', 'Total gross mass (kg)', sad.totalGrossWeight.toFixed(2)],
+          ['44', sad.transport.mode === 'SEA' ? 'Bill of lading' : 'Air waybill', blank(sad.transport.transportDocument)]
+        ]
+      },
+      {
+        type: 'table',
+        title: 'Goods',
+        head: ['Item', 'Marks / packages / description', 'HS code', 'Gross (kg)', 'Net (kg)', 'Item price', 'Duty'],
+        body: sad.items.map(item => [
+          String(item.itemNumber),
+          `${blank(item.marksAndNumbers)}\n${item.packages} ${blank(item.packagingCode)}\n${item.description}`,
+          blank(item.hsCode),
+          item.grossWeight.toFixed(2),
+          item.netWeight.toFixed(2),
+          formatCurrencyAmount(item.invoiceValue, item.currency),
+          item.customsDuty === null ? '—' : `${item.dutyRate ?? 0}%\n${php(item.customsDuty)}`
+        ]),
+        numericColumns: [3, 4, 5, 6],
+        emptyText: 'No goods lines have been recorded.'
+      },
+      // Box 47 and box B
+      ...(sad.taxes
+        ? [{
+            type: 'table' as const,
+            title: 'Calculation of Taxes',
+            head: ['Tax', 'Amount'],
+            body: [
+              ['Dutiable value', php(sad.taxes.dutiableValue)],
+              ['Customs duty', php(sad.taxes.customsDuty)],
+              ['VAT', php(sad.taxes.vat)],
+              ['Other charges', php(sad.taxes.otherCharges)],
+              ['Total payable', php(sad.taxes.totalPayable)]
+            ],
+            numericColumns: [1]
+          }]
+        : [])
+    ]
+  };
+}
@@ -0,0 +1,113 @@
+// src/lib/documents/templates/shipment-summary.ts
+import { format } from 'date-fns';
+import { WORKFLOW_STATES } from '@/lib/constants/workflow-states';
+import { formatCurrencyAmount, getCargoCurrency, getShipmentCurrency } from '@/lib/customs/currency';
+import { getBlNumbers } from '@/lib/utils/container';
+import type { DocumentDefinition } from '@/types/documents';
+import type { ShipmentData } from '@/types/import/workflow';
+
+const stageLabel = (stage: string) => WORKFLOW_STATES[stage as keyof typeof WORKFLOW_STATES]?.label || stage;
+
+const formatDate = (value?: string) => (value ? format(new Date(value), 'MMM dd, yyyy') : '—');
+
+// One page a broker can hand over that says where the shipment stands
+export function shipmentSummaryTemplate(shipment: ShipmentData): DocumentDefinition {
+  const details = shipment.shipmentDetails;
+  const currency = getShipmentCurrency(details);
+  const blNumbers = getBlNumbers(details);
+
+  return {
+    title: 'Shipment Summary',
+    subtitle: `Reference No: ${shipment.referenceNumber}`,
+    fileName: `Summary-${shipment.referenceNumber}.pdf`,
+    blocks: [
+      {
+        type: 'fields',
+        title: 'Parties',
+        rows: [
+          ['Status', stageLabel(shipment.status)],
+          ['Consignee', [shipment.consignee?.name, shipment.consignee?.address].filter(Boolean).join('\n') || 'N/A'],
+          ['Consignee TIN', shipment.consignee?.tin || '—'],
+          ['Exporter', [shipment.exporter?.name, shipment.exporter?.address].filter(Boolean).join('\n') || 'N/A']
+        ]
+      },
+      {
+        type: 'fields',
+        title: 'Transport',
+        rows: [
+          ['BL/AWB Number', blNumbers.join(', ') || details.bl_number || '—'],
+          ['Vessel / Flight', [details.vessel_name, details.voyage_number || details.flight_number].filter(Boolean).join(' / ') || '—'],
+          ['Shipping Line', details.shipping_line || '—'],
+          ['Port of Origin', details.port_of_origin || '—'],
+          ['Port of Discharge', details.port_of_discharge || '—'],
+          ['ETA', formatDate(details.eta)],
+          ['ATA', formatDate(details.ata)]
+        ]
+      },
+      ...(shipment.containers.length
+        ? [{
+            type: 'table' as const,
+            title: 'Containers',
+            head: ['Container No.', 'Size/Type', 'Seal No.', 'B/L'],
+            body: shipment.containers.map(container => [
+              container.number,
+              container.sizeType || '—',
+              container.sealNumber || '—',
+              container.blNumber || '—'
+            ])
+          }]
+        : []),
+      {
+        type: 'table',
+        title: 'Goods',
+        head: ['Description', 'HS Code', 'Quantity', 'Gross (kg)', 'Invoice Value'],
+        body: shipment.cargo.map(item => [
+          item.description,
+          item.hsCode || '—',
+          String(item.quantity),
+          item.grossWeight.toFixed(2),
+          formatCurrencyAmount(item.invoiceValue, getCargoCurrency(item, currency))
+        ]),
+        numericColumns: [2, 3, 4],
+        emptyText: 'No goods lines recorded'
+      },
+      {
+        type: 'table',
+        title: 'Documents',
+        head: ['Document', 'Status', 'Files'],
+        body: shipment.documents.map(doc => [
+          `${doc.name}${doc.isRequired ? '' : ' (optional)'}`,
+          doc.isVerified ? 'verified' : doc.status.replace('_', ' '),
+          String(doc.files?.length ?? 0)
+        ]),
+        numericColumns: [2],
+        emptyText: 'No documents listed'
+      },
+      ...(shipment.computations
+        ? [{
+            type: 'fields' as const,
+            title: 'Duties and Taxes',
+            rows: [
+              ['Dutiable Value', formatCurrencyAmount(shipment.computations.dutiable_value, 'PHP')],
+              ['Customs Duty', formatCurrencyAmount(shipment.computations.customs_duty, 'PHP')],
+              ['VAT', formatCurrencyAmount(shipment.computations.vat, 'PHP')],
+              ['Total Payable', formatCurrencyAmount(shipment.computations.total_payable, 'PHP')]
+            ] as Array<[string, string]>
+          }]
+        : []),
+      {
+        type: 'table',
+        title: 'Progress',
+        head: ['Date & Time', 'Stage', 'Status'],
+        body: [...shipment.timeline]
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+          .map(entry => [
+            format(new Date(entry.timestamp), 'MMM dd, yyyy HH:mm'),
+            stageLabel(entry.stage),
+            entry.status.replace('_', ' ')
+          ]),
+        emptyText: 'No progress recorded'
+      }
+    ]
+  };
+}
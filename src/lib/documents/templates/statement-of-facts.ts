@@ -0,0 +1,57 @@
+// src/lib/documents/templates/statement-of-facts.ts
+import { format } from 'date-fns';
+import { computeSofElapsed, formatElapsed, sortSofEvents } from '@/lib/utils/sof';
+import { SOF_EVENT_CATEGORY_LABELS } from '@/types/sof';
+import type { DocumentDefinition } from '@/types/documents';
+import type { ShipmentData } from '@/types/import/workflow';
+
+export function statementOfFactsTemplate(shipment: ShipmentData): DocumentDefinition {
+  const details = shipment.shipmentDetails;
+  const events = sortSofEvents(shipment.statementOfFacts);
+  const formatDateTime = (value: string) => format(new Date(value), 'MMM dd, yyyy HH:mm');
+
+  return {
+    title: 'Statement of Facts',
+    subtitle: `Reference No: ${shipment.referenceNumber}`,
+    fileName: `SOF-${shipment.referenceNumber}.pdf`,
+    blocks: [
+      {
+        type: 'fields',
+        title: 'Shipment Details',
+        rows: [
+          ['Consignee', shipment.consignee?.name || 'N/A'],
+          ['BL/AWB Number', details.bl_number || details.flight_number || '—'],
+          ['Vessel / Flight', [details.vessel_name, details.voyage_number].filter(Boolean).join(' / ') || '—'],
+          ['Port of Origin', details.port_of_origin || '—'],
+          ['Port of Discharge', details.port_of_discharge || '—']
+        ]
+      },
+      {
+        type: 'table',
+        title: 'Timeline of Events',
+        head: ['Date & Time', 'Category', 'Event Description', 'Recorded By', 'Documents'],
+        body: events.map(event => [
+          formatDateTime(event.timestamp),
+          SOF_EVENT_CATEGORY_LABELS[event.category ?? 'OTHER'],
+          event.description,
+          event.createdBy.name,
+          event.documents?.map(doc => doc.name).join(', ') || ''
+        ]),
+        emptyText: 'No events recorded'
+      },
+      {
+        type: 'table',
+        title: 'Elapsed Time',
+        head: ['Between', 'From', 'To', 'Elapsed'],
+        body: computeSofElapsed(events).map(item => [
+          item.label,
+          formatDateTime(item.fromAt),
+          formatDateTime(item.toAt),
+          formatElapsed(item.minutes)
+        ]),
+        numericColumns: [3],
+        emptyText: 'Not enough milestones recorded yet'
+      }
+    ]
+  };
+}
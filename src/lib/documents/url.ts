@@ -0,0 +1,5 @@
+// src/lib/documents/url.ts
+import type { DocumentKind } from '@/types/documents';
+
+// Rendered on the server by /api/documents; safe to link to from client components
+export const getDocumentUrl = (kind: DocumentKind, shipmentId: string) => `/api/documents/${kind}/${shipmentId}`;
@@ -0,0 +1,134 @@
+// src/lib/ocr/index.ts
+import { execFile } from 'child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { OcrEngine, OcrLine } from '@/types/invoice-extraction';
+
+export class OcrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrError';
+  }
+}
+
+// Binaries are looked up on PATH unless configured
+const TESSERACT_PATH = process.env.TESSERACT_PATH || 'tesseract';
+const PDFTOTEXT_PATH = process.env.PDFTOTEXT_PATH || 'pdftotext';
+const PDFTOPPM_PATH = process.env.PDFTOPPM_PATH || 'pdftoppm';
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+
+// Invoices and packing lists rarely run longer; later pages are ignored
+const MAX_PAGES = 10;
+const RASTER_DPI = 300;
+const COMMAND_TIMEOUT_MS = 60_000;
+// A PDF with less text than this is treated as a scan
+const MIN_TEXT_LAYER_CHARS = 40;
+
+export const OCR_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/tiff'];
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (!error) return resolve(stdout);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return reject(new OcrError(`${path.basename(command)} is not installed on the server`));
+      }
+      if (error.killed) {
+        return reject(new OcrError('Text recognition took too long'));
+      }
+      reject(new OcrError(`${path.basename(command)} failed: ${(stderr || error.message).trim().split('\n')[0]}`));
+    });
+  });
+}
+
+/**
+ * Groups tesseract's word-level TSV into lines. Confidence is the mean of
+ * the words' confidences, scaled to 0–1; words tesseract could not score
+ * (-1) are left out of the mean.
+ */
+export function parseTesseractTsv(tsv: string, page: number): OcrLine[] {
+  const lines = new Map<string, { words: string[]; confidences: number[] }>();
+
+  tsv.split('\n').slice(1).forEach(row => {
+    const cells = row.split('\t');
+    if (cells.length < 12 || cells[0] !== '5') return;
+    const text = cells.slice(11).join('\t').trim();
+    if (!text) return;
+
+    const key = cells.slice(1, 5).join(':');
+    const line = lines.get(key) ?? { words: [], confidences: [] };
+    line.words.push(text);
+    const confidence = Number(cells[10]);
+    if (confidence >= 0) line.confidences.push(confidence);
+    lines.set(key, line);
+  });
+
+  return Array.from(lines.values()).map(({ words, confidences }) => ({
+    text: words.join(' '),
+    confidence: confidences.length
+      ? Math.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length) / 100
+      : 0,
+    page
+  }));
+}
+
+async function recognizeImage(file: string, page: number): Promise<OcrLine[]> {
+  // psm 6 reads the page as one block, which keeps table rows on one line
+  const tsv = await run(TESSERACT_PATH, [file, 'stdout', '-l', OCR_LANGUAGE, '--psm', '6', 'tsv']);
+  return parseTesseractTsv(tsv, page);
+}
+
+// Form feeds separate pdftotext's pages
+const textLayerLines = (text: string): OcrLine[] =>
+  text.split('\f').flatMap((pageText, index) =>
+    pageText
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => ({ text: line.replace(/\s+$/, ''), confidence: 1, page: index + 1 }))
+  );
+
+/**
+ * Reads the text of an uploaded PDF or image. A PDF's own text layer is
+ * used when it has one; scanned PDFs are rasterized and recognized page by
+ * page with tesseract, as are images. Files are written to a private
+ * temporary directory that is removed afterwards.
+ */
+export async function recognizeDocument(
+  data: Buffer,
+  contentType: string
+): Promise<{ engine: OcrEngine; lines: OcrLine[] }> {
+  if (!OCR_CONTENT_TYPES.includes(contentType)) {
+    throw new OcrError('Only PDF, PNG, JPEG and TIFF files can be read');
+  }
+
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'ocr-'));
+  try {
+    if (contentType !== 'application/pdf') {
+      const image = path.join(directory, 'page');
+      await writeFile(image, data);
+      return { engine: 'ocr', lines: await recognizeImage(image, 1) };
+    }
+
+    const pdf = path.join(directory, 'document.pdf');
+    await writeFile(pdf, data);
+
+    const text = await run(PDFTOTEXT_PATH, ['-layout', '-l', String(MAX_PAGES), pdf, '-']);
+    if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+      return { engine: 'text-layer', lines: textLayerLines(text) };
+    }
+
+    await run(PDFTOPPM_PATH, ['-r', String(RASTER_DPI), '-png', '-l', String(MAX_PAGES), pdf, path.join(directory, 'page')]);
+    const pages = (await readdir(directory))
+      .filter(name => /^page-\d+\.png$/.test(name))
+      .sort((a, b) => parseInt(a.slice(5), 10) - parseInt(b.slice(5), 10));
+
+    const lines: OcrLine[] = [];
+    for (const [index, name] of Array.from(pages.entries())) {
+      lines.push(...await recognizeImage(path.join(directory, name), index + 1));
+    }
+    return { engine: 'ocr', lines };
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,79 @@
+// lib/session-token.ts
+// Signs and verifies the session cookie. Depends on nothing but jose and Web
+// Crypto so the middleware can use it on the edge runtime.
+import { SignJWT, jwtVerify } from 'jose'
+import { USER_ROLES, type UserRole } from '@/types/auth'
+
+export const SESSION_COOKIE = 'session'
+
+// How long the cookie alone vouches for a user before the server record is checked again
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 15
+
+// Idle lifetime of a session; every rotation pushes it forward
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7
+
+const getSecret = () => new TextEncoder().encode(process.env.JWT_SECRET || 'your-secret-key')
+
+export interface SessionTokenPayload {
+  sessionId: string
+  userId: string
+  role: UserRole
+  // Secret matched against the hash on the server record; replaced on every rotation
+  refreshToken: string
+  // Seconds since the epoch
+  accessExpiresAt: number
+}
+
+export async function signSessionToken(payload: SessionTokenPayload, expiresAt: Date) {
+  return new SignJWT({
+    sid: payload.sessionId,
+    role: payload.role,
+    rt: payload.refreshToken,
+    aexp: payload.accessExpiresAt
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(payload.userId)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecret())
+}
+
+export async function verifySessionToken(token?: string): Promise<SessionTokenPayload | null> {
+  if (!token) return null
+
+  try {
+    const { payload } = await jwtVerify(token, getSecret())
+    const { sub, sid, role, rt, aexp } = payload
+
+    if (
+      typeof sub !== 'string' ||
+      typeof sid !== 'string' ||
+      typeof rt !== 'string' ||
+      typeof aexp !== 'number' ||
+      !Object.values(USER_ROLES).includes(role as UserRole)
+    ) {
+      return null
+    }
+
+    return {
+      sessionId: sid,
+      userId: sub,
+      role: role as UserRole,
+      refreshToken: rt,
+      accessExpiresAt: aexp
+    }
+  } catch {
+    return null
+  }
+}
+
+export const isAccessExpired = (payload: SessionTokenPayload, now = Date.now()) =>
+  payload.accessExpiresAt * 1000 <= now
+
+export const nextAccessExpiry = (now = Date.now()) =>
+  Math.floor(now / 1000) + ACCESS_TOKEN_TTL_SECONDS
+
+export function generateRefreshToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
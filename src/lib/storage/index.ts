@@ -0,0 +1,40 @@
+// src/lib/storage/index.ts
+import path from 'path';
+import { LocalStorageDriver } from './local';
+import { S3StorageDriver } from './s3';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver, StoredObject } from './types';
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Returns the configured storage backend.
+ *
+ * STORAGE_DRIVER=local (default) writes under STORAGE_LOCAL_ROOT.
+ * STORAGE_DRIVER=s3 uses S3_BUCKET, S3_REGION and, for MinIO, S3_ENDPOINT
+ * with S3_FORCE_PATH_STYLE=true.
+ */
+export function getStorage(): StorageDriver {
+  if (driver) return driver;
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER=s3');
+    }
+    driver = new S3StorageDriver({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+    });
+  } else {
+    driver = new LocalStorageDriver(
+      process.env.STORAGE_LOCAL_ROOT || path.join(process.cwd(), 'storage')
+    );
+  }
+
+  return driver;
+}
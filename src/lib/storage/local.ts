@@ -0,0 +1,38 @@
+// src/lib/storage/local.ts
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import type { StorageDriver } from './types';
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly root: string) {}
+
+  // Keys are generated server-side, but never let one escape the root
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Readable) {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(body, createWriteStream(filePath));
+  }
+
+  async get(key: string) {
+    const filePath = this.resolve(key);
+    const { size } = await stat(filePath);
+    return { stream: createReadStream(filePath), size };
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/storage/s3.ts
+import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import type { Readable } from 'stream';
+import type { StorageDriver } from './types';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  // Set for MinIO or other S3-compatible services, e.g. http://localhost:9000
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  // Multipart upload, so the body never has to be buffered or pre-sized
+  async put(key: string, body: Readable, options: { contentType: string }) {
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType
+      }
+    }).done();
+  }
+
+  async get(key: string) {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key
+    }));
+
+    if (!result.Body) {
+      throw new Error(`Object not found: ${key}`);
+    }
+
+    return { stream: result.Body as Readable, size: result.ContentLength };
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key
+    }));
+  }
+}
@@ -0,0 +1,15 @@
+// src/lib/storage/types.ts
+import type { Readable } from 'stream';
+
+export interface StoredObject {
+  stream: Readable;
+  size?: number;
+}
+
+// Backends only move bytes; validation and bookkeeping happen in upload.ts
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Readable, options: { contentType: string }): Promise<void>;
+  get(key: string): Promise<StoredObject>;
+  delete(key: string): Promise<void>;
+}
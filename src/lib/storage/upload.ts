@@ -0,0 +1,132 @@
+// src/lib/storage/upload.ts
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { Transform, type Readable, type TransformCallback } from 'stream';
+import type { StoredFile } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { MAX_UPLOAD_BYTES, UPLOAD_SIGNATURES } from '@/lib/constants/storage';
+import { getStorage } from '.';
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadSource {
+  stream: Readable;
+  fileName: string;
+  contentType: string;
+}
+
+// Exactly one owner: a shipment document, a consignee or an organization (its letterhead logo)
+export type UploadTarget =
+  | { shipmentId: string; documentName: string }
+  | { consigneeId: string }
+  | { organizationId: string };
+
+export const getFileUrl = (fileId: string) => `/api/files/${fileId}`;
+
+// Enough bytes to cover the longest signature
+const SNIFF_BYTES = 8;
+
+const matchesSignature = (contentType: string, head: Buffer) =>
+  (UPLOAD_SIGNATURES[contentType] || []).some(signature =>
+    signature.every((byte, i) => head[i] === byte)
+  );
+
+/**
+ * Passes bytes through while enforcing the size limit, checking the leading
+ * bytes against the declared type and hashing the content. Failing here
+ * aborts the upload mid-stream.
+ */
+class UploadInspector extends Transform {
+  size = 0;
+  checksum = '';
+  private readonly hash = createHash('sha256');
+  private head = Buffer.alloc(0);
+  private sniffed = false;
+
+  constructor(private readonly contentType: string) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.size += chunk.length;
+    if (this.size > MAX_UPLOAD_BYTES) {
+      return callback(new UploadError(`File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB limit`));
+    }
+
+    if (!this.sniffed) {
+      this.head = Buffer.concat([this.head, chunk]);
+      if (this.head.length >= SNIFF_BYTES) {
+        if (!matchesSignature(this.contentType, this.head)) {
+          return callback(new UploadError('File content does not match its type'));
+        }
+        this.sniffed = true;
+      }
+    }
+
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback) {
+    if (this.size === 0) {
+      return callback(new UploadError('File is empty'));
+    }
+    if (!this.sniffed && !matchesSignature(this.contentType, this.head)) {
+      return callback(new UploadError('File content does not match its type'));
+    }
+    this.checksum = this.hash.digest('hex');
+    callback();
+  }
+}
+
+/**
+ * Streams an upload into storage and records it. The returned file is served
+ * from getFileUrl(file.id), which checks ownership of the target.
+ */
+export async function storeUpload(
+  source: UploadSource,
+  target: UploadTarget,
+  uploadedById: string
+): Promise<StoredFile> {
+  const contentType = source.contentType.split(';')[0].trim().toLowerCase();
+  if (!UPLOAD_SIGNATURES[contentType]) {
+    throw new UploadError('Only PDF, image, Word and Excel files are allowed');
+  }
+
+  const extension = path.extname(source.fileName).toLowerCase();
+  const folder = 'shipmentId' in target
+    ? `shipments/${target.shipmentId}`
+    : 'consigneeId' in target
+      ? `consignees/${target.consigneeId}`
+      : `organizations/${target.organizationId}`;
+  const key = `${folder}/${randomUUID()}${/^\.[a-z0-9]{1,5}$/.test(extension) ? extension : ''}`;
+
+  const storage = getStorage();
+  const inspector = new UploadInspector(contentType);
+  source.stream.on('error', error => inspector.destroy(error));
+
+  try {
+    await storage.put(key, source.stream.pipe(inspector), { contentType });
+  } catch (error) {
+    await storage.delete(key).catch(() => undefined);
+    throw error;
+  }
+
+  return prisma.storedFile.create({
+    data: {
+      key,
+      driver: storage.name,
+      originalName: source.fileName,
+      contentType,
+      size: inspector.size,
+      checksum: inspector.checksum,
+      uploadedById,
+      ...target
+    }
+  });
+}
@@ -0,0 +1,91 @@
+// src/lib/utils/accreditation.ts
+import { EXPIRY_WARNING_DAYS, type AccreditationStatus } from '@/lib/constants/accreditation';
+import type { AccreditationCaseData, AccreditationStanding } from '@/types/accreditation';
+
+// Statuses a case may move to from each status
+export const ACCREDITATION_TRANSITIONS: Record<AccreditationStatus, AccreditationStatus[]> = {
+  DOCUMENT_COLLECTION: ['SUBMITTED', 'CANCELLED'],
+  // BOC may return a filing for compliance
+  SUBMITTED: ['UNDER_EVALUATION', 'DOCUMENT_COLLECTION', 'CANCELLED'],
+  UNDER_EVALUATION: ['APPROVED', 'REJECTED', 'DOCUMENT_COLLECTION'],
+  REJECTED: ['DOCUMENT_COLLECTION', 'CANCELLED'],
+  APPROVED: [],
+  CANCELLED: [],
+};
+
+const OPEN_STATUSES: AccreditationStatus[] = ['DOCUMENT_COLLECTION', 'SUBMITTED', 'UNDER_EVALUATION'];
+
+export const isAccreditationStatus = (value: unknown): value is AccreditationStatus =>
+  typeof value === 'string' && value in ACCREDITATION_TRANSITIONS;
+
+export interface AccreditationTransitionInput {
+  submittedAt?: string | null;
+  approvedAt?: string | null;
+  expiryDate?: string | null;
+  accreditationNumber?: string | null;
+  remarks?: string | null;
+}
+
+// Returns the requirements the case does not meet for the move to `to`
+export function checkAccreditationTransition(
+  accreditation: Pick<AccreditationCaseData, 'status' | 'requirements'>,
+  to: AccreditationStatus,
+  input: AccreditationTransitionInput
+): string[] {
+  if (!ACCREDITATION_TRANSITIONS[accreditation.status]?.includes(to)) {
+    return [`Cannot move from ${accreditation.status} to ${to}`];
+  }
+
+  switch (to) {
+    case 'SUBMITTED':
+      return accreditation.requirements
+        .filter(requirement => requirement.isRequired && !requirement.isSubmitted)
+        .map(requirement => `${requirement.name} is still missing`);
+    case 'APPROVED': {
+      const problems: string[] = [];
+      if (!input.approvedAt) problems.push('Approval date is required');
+      if (!input.expiryDate) problems.push('Expiry date is required');
+      if (input.approvedAt && input.expiryDate && new Date(input.expiryDate) <= new Date(input.approvedAt)) {
+        problems.push('Expiry date must be after the approval date');
+      }
+      return problems;
+    }
+    case 'REJECTED':
+    case 'CANCELLED':
+      return input.remarks?.trim() ? [] : ['Remarks are required'];
+    default:
+      return [];
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Works out a consignee's standing from its cases: the approved case with the
+ * latest expiry decides it, and an open case is reported so a lapse that is
+ * already being renewed can be shown as such.
+ */
+export function getAccreditationStanding(
+  cases: Array<Pick<AccreditationCaseData, 'id' | 'referenceNumber' | 'status' | 'expiryDate'>>,
+  now: Date = new Date()
+): AccreditationStanding {
+  const pending = cases.find(c => OPEN_STATUSES.includes(c.status));
+  const current = cases
+    .filter(c => c.status === 'APPROVED' && c.expiryDate)
+    .sort((a, b) => new Date(b.expiryDate!).getTime() - new Date(a.expiryDate!).getTime())[0];
+
+  if (!current) {
+    return { state: 'none', pendingCaseId: pending?.id };
+  }
+
+  const daysRemaining = Math.ceil((new Date(current.expiryDate!).getTime() - now.getTime()) / DAY_MS);
+
+  return {
+    state: daysRemaining < 0 ? 'expired' : daysRemaining <= EXPIRY_WARNING_DAYS ? 'expiring' : 'active',
+    caseId: current.id,
+    referenceNumber: current.referenceNumber,
+    expiryDate: current.expiryDate!,
+    daysRemaining,
+    pendingCaseId: pending?.id
+  };
+}
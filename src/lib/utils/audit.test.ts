@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getForwardedClientIp } from './audit';
+
+describe('getForwardedClientIp', () => {
+  const proxies = ['10.0.0.5', '10.0.0.6'];
+
+  it('ignores the header when no proxy is trusted', () => {
+    expect(getForwardedClientIp('203.0.113.7', [])).toBeNull();
+  });
+
+  it('takes the right-most hop that is not a trusted proxy', () => {
+    expect(getForwardedClientIp('203.0.113.7, 10.0.0.6', proxies)).toBe('203.0.113.7');
+    expect(getForwardedClientIp('203.0.113.7', proxies)).toBe('203.0.113.7');
+  });
+
+  it('does not let a client forge the hops before its own', () => {
+    expect(getForwardedClientIp('198.51.100.1, 203.0.113.7, 10.0.0.5', proxies)).toBe('203.0.113.7');
+  });
+
+  it('records nothing when every hop is a trusted proxy or the header is missing', () => {
+    expect(getForwardedClientIp('10.0.0.5, 10.0.0.6', proxies)).toBeNull();
+    expect(getForwardedClientIp(null, proxies)).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+// src/lib/utils/audit.ts
+import type { ShipmentData } from '@/types/import/workflow';
+import type { AuditChange, AuditValue, ShipmentAuditSnapshot } from '@/types/audit';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Flattens a snapshot into leaf paths: nested objects join with dots and
+ * array items get their index, so `cargo[0].invoiceValue` names one value.
+ */
+export function flattenAuditSnapshot(value: unknown, prefix = ''): Record<string, AuditValue> {
+  if (Array.isArray(value)) {
+    return value.reduce<Record<string, AuditValue>>(
+      (fields, item, index) => ({ ...fields, ...flattenAuditSnapshot(item, `${prefix}[${index}]`) }),
+      {}
+    );
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce<Record<string, AuditValue>>(
+      (fields, [key, item]) => ({
+        ...fields,
+        ...flattenAuditSnapshot(item, prefix ? `${prefix}.${key}` : key)
+      }),
+      {}
+    );
+  }
+  return prefix ? { [prefix]: toAuditValue(value) } : {};
+}
+
+// Field-level differences between two snapshots; a missing snapshot counts as all-empty
+export function diffAuditSnapshots(before: unknown, after: unknown): AuditChange[] {
+  const previous = flattenAuditSnapshot(before ?? {});
+  const next = flattenAuditSnapshot(after ?? {});
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+
+  return fields
+    .map(field => ({ field, before: previous[field] ?? null, after: next[field] ?? null }))
+    .filter(change => change.before !== change.after);
+}
+
+export function toShipmentAuditSnapshot(
+  shipment: ShipmentData,
+  assigneeId: string | null
+): ShipmentAuditSnapshot {
+  const { consignee, exporter, computations } = shipment;
+  return {
+    referenceNumber: shipment.referenceNumber,
+    status: shipment.status,
+    isLocked: shipment.isLocked ?? false,
+    assigneeId,
+    consignee: consignee
+      ? {
+          name: consignee.name,
+          address: consignee.address,
+          tin: consignee.tin,
+          brn: consignee.brn,
+          contactPerson: consignee.contactPerson,
+          contactNumber: consignee.contactNumber,
+          email: consignee.email
+        }
+      : null,
+    exporter: exporter?.name
+      ? {
+          name: exporter.name,
+          address: exporter.address,
+          contactPerson: exporter.contactPerson,
+          contactNumber: exporter.contactNumber,
+          email: exporter.email
+        }
+      : null,
+    shipmentDetails: shipment.shipmentDetails,
+    documents: Object.fromEntries(
+      shipment.documents.map(doc => [
+        doc.name,
+        {
+          status: doc.status,
+          isVerified: doc.isVerified,
+          isRequired: doc.isRequired,
+          files: doc.files?.length ?? 0
+        }
+      ])
+    ),
+    cargo: shipment.cargo.map(item => ({
+      description: item.description,
+      invoiceValue: item.invoiceValue,
+      currency: item.currency ?? null,
+      grossWeight: item.grossWeight,
+      netWeight: item.netWeight,
+      quantity: item.quantity,
+      hsCode: item.hsCode
+    })),
+    containers: shipment.containers.map(container => ({
+      number: container.number,
+      sizeType: container.sizeType,
+      sealNumber: container.sealNumber,
+      blNumber: container.blNumber,
+      cargoLines: container.cargoIds.length,
+      pulledOutAt: container.pulledOutAt ?? null,
+      emptyReturnedAt: container.emptyReturnedAt ?? null
+    })),
+    computations: computations
+      ? {
+          dutiable_value: computations.dutiable_value,
+          customs_duty: computations.customs_duty,
+          vat: computations.vat,
+          other_charges: computations.other_charges,
+          total_payable: computations.total_payable,
+          currency: computations.currency ?? null,
+          exchange_rate: computations.exchange_rate ?? null
+        }
+      : null
+  };
+}
+
+// Consignee and exporter columns worth tracking; exporters simply lack the registration ones
+const CLIENT_AUDIT_FIELDS = [
+  'name',
+  'registeredName',
+  'businessAddress',
+  'tin',
+  'brn',
+  'contactPerson',
+  'contactNumber',
+  'email',
+  'isActive',
+  'deletedAt',
+  'mergedIntoId',
+  'assigneeId'
+] as const;
+
+export const toClientAuditSnapshot = (client: Partial<Record<typeof CLIENT_AUDIT_FIELDS[number], unknown>>) =>
+  Object.fromEntries(
+    CLIENT_AUDIT_FIELDS.filter(field => field in client).map(field => [field, toAuditValue(client[field])])
+  );
+
+// Never the password hash
+export const toUserAuditSnapshot = (user: {
+  email: string;
+  name: string;
+  role: string;
+  companyName?: string | null;
+  companyAddress?: string | null;
+  contactNumber?: string | null;
+}) => ({
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  companyName: user.companyName ?? null,
+  companyAddress: user.companyAddress ?? null,
+  contactNumber: user.contactNumber ?? null
+});
+
+/**
+ * The client address from an X-Forwarded-For chain: each trusted proxy
+ * appends the hop it received from, so reading right to left past the
+ * trusted proxies finds the first address nobody vouched for. Anything to
+ * its left was sent by the client and is not trusted. With no proxies
+ * configured the header is ignored entirely.
+ */
+export function getForwardedClientIp(forwardedFor: string | null, trustedProxies: readonly string[]): string | null {
+  if (!forwardedFor || trustedProxies.length === 0) return null;
+
+  const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+  for (let index = hops.length - 1; index >= 0; index--) {
+    if (!trustedProxies.includes(hops[index])) return hops[index];
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+// src/lib/utils/client-import.ts
+import { CLIENT_IMPORT_COLUMNS } from '@/lib/constants/client-import';
+import { formatTin, isValidTin, normalizeTin } from './tin';
+import type { SpreadsheetRow } from './spreadsheet';
+import type {
+  ClientColumnMapping,
+  ClientImportRow,
+  ClientImportType
+} from '@/types/client-import';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Every column that appears in the file, in first-seen order
+export const getSpreadsheetHeaders = (rows: SpreadsheetRow[]) =>
+  Array.from(new Set(rows.flatMap(row => Object.keys(row)))).filter(Boolean);
+
+/**
+ * Maps each field to a column of the file. A column picked by the user wins
+ * (an empty string leaves the field unmapped); otherwise the first alias
+ * found among the headers is used.
+ */
+export function detectClientColumns(
+  type: ClientImportType,
+  headers: string[],
+  overrides: ClientColumnMapping = {}
+): ClientColumnMapping {
+  return Object.fromEntries(
+    CLIENT_IMPORT_COLUMNS[type].flatMap(column => {
+      const chosen = overrides[column.field];
+      if (chosen !== undefined) {
+        return chosen && headers.includes(chosen) ? [[column.field, chosen]] : [];
+      }
+      const detected = column.aliases.find(alias => headers.includes(alias));
+      return detected ? [[column.field, detected]] : [];
+    })
+  );
+}
+
+/**
+ * Validates each row on its own and against earlier rows of the same file.
+ * Rows that clash with records already in the database are flagged later,
+ * by the caller that can look them up.
+ */
+export function parseClientImportRows(
+  type: ClientImportType,
+  rows: SpreadsheetRow[],
+  mapping: ClientColumnMapping
+): ClientImportRow[] {
+  const columns = CLIENT_IMPORT_COLUMNS[type];
+  const seen = new Map<string, number>();
+  const parsed: ClientImportRow[] = [];
+
+  rows.forEach((row, index) => {
+    const values = Object.fromEntries(
+      columns.map(column => {
+        const header = mapping[column.field];
+        return [column.field, header ? (row[header] ?? '').trim() : ''];
+      })
+    ) as ClientImportRow['values'];
+
+    // Trailing blank lines are common in exported sheets
+    if (Object.values(values).every(value => !value)) return;
+
+    const errors = columns
+      .filter(column => column.required && !values[column.field])
+      .map(column => `${column.label} is required`);
+
+    if (type === 'consignee') {
+      if (values.tin && !isValidTin(values.tin)) {
+        errors.push(`TIN "${values.tin}" must be 9 digits plus an optional branch code`);
+      } else if (values.tin) {
+        values.tin = formatTin(values.tin);
+      }
+      values.registeredName = values.registeredName || values.name;
+    }
+    if (values.email && !EMAIL_PATTERN.test(values.email)) {
+      errors.push(`Email "${values.email}" is not a valid address`);
+    }
+
+    // Same keys createConsignee/createExporter check: name plus TIN or email
+    const keys = [
+      values.name && `name:${values.name.toLowerCase()}`,
+      type === 'consignee' && values.tin && `tin:${normalizeTin(values.tin)}`,
+      type === 'exporter' && values.email && `email:${values.email.toLowerCase()}`
+    ].filter((key): key is string => Boolean(key));
+
+    const rowNumber = index + 2;
+    const earlier = keys.map(key => seen.get(key)).find(match => match !== undefined);
+    keys.forEach(key => {
+      if (!seen.has(key)) seen.set(key, rowNumber);
+    });
+
+    parsed.push({
+      row: rowNumber,
+      values,
+      status: errors.length ? 'invalid' : earlier !== undefined ? 'duplicate' : 'valid',
+      errors: earlier !== undefined ? [...errors, `Duplicate of row ${earlier} in this file`] : errors
+    });
+  });
+
+  return parsed;
+}
+
+// The rows that were not imported, laid out for the downloadable error report
+export function toClientImportReport(type: ClientImportType, rows: ClientImportRow[]) {
+  return rows
+    .filter(row => row.status !== 'valid' && row.status !== 'created')
+    .map(row => ({
+      Row: row.row,
+      Status: row.status,
+      Errors: row.errors.join('; '),
+      ...Object.fromEntries(
+        CLIENT_IMPORT_COLUMNS[type].map(column => [column.label, row.values[column.field] ?? ''])
+      )
+    }));
+}
@@ -0,0 +1,26 @@
+// src/lib/utils/client-portal.ts
+import type { DocumentStatus, ShipmentData } from '@/types/import/workflow';
+
+// Documents the broker has finalised or verified are visible to the client
+export const RELEASED_DOCUMENT_STATUSES: readonly DocumentStatus[] = ['final', 'verified'];
+
+export const isReleasedDocument = (document: { status: string; isVerified: boolean }) =>
+  document.isVerified || RELEASED_DOCUMENT_STATUSES.includes(document.status as DocumentStatus);
+
+/**
+ * Trims a shipment down to what its consignee may see: files of documents
+ * still in the broker's hands are hidden unless the client uploaded them,
+ * and internal notes are dropped.
+ */
+export function toClientShipmentData(shipment: ShipmentData, ownFileUrls: string[]): ShipmentData {
+  return {
+    ...shipment,
+    documents: shipment.documents.map(document => ({
+      ...document,
+      files: isReleasedDocument(document)
+        ? document.files
+        : document.files?.filter(url => ownFileUrls.includes(url))
+    })),
+    notes: []
+  };
+}
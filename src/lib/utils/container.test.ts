@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getContainerCheckDigit, isValidContainerNumber, normalizeContainerNumber, validateContainers } from './container';
+import type { ShipmentContainer } from '@/types/import/workflow';
+
+describe('getContainerCheckDigit', () => {
+  it('matches the ISO 6346 worked example', () => {
+    expect(getContainerCheckDigit('CSQU305438')).toBe(3);
+  });
+
+  it('skips multiples of 11 in the letter values', () => {
+    // K (21) and U (32) sit past the skipped 11, 22 and 33
+    expect(getContainerCheckDigit('MSKU907032')).toBe(3);
+  });
+
+  it('writes a remainder of 10 as 0', () => {
+    expect(getContainerCheckDigit('MSKU100009')).toBe(0);
+  });
+});
+
+describe('isValidContainerNumber', () => {
+  it('accepts known-good numbers however they are typed', () => {
+    expect(isValidContainerNumber('CSQU3054383')).toBe(true);
+    expect(isValidContainerNumber('msku 907032-3')).toBe(true);
+    expect(isValidContainerNumber('MSKU1000090')).toBe(true);
+  });
+
+  it('refuses a wrong check digit or a malformed number', () => {
+    expect(isValidContainerNumber('CSQU3054384')).toBe(false);
+    expect(isValidContainerNumber('CSQX3054383')).toBe(false);
+    expect(isValidContainerNumber('CSQU305438')).toBe(false);
+  });
+});
+
+describe('normalizeContainerNumber', () => {
+  it('drops spaces and punctuation and upper-cases', () => {
+    expect(normalizeContainerNumber(' csqu 305438-3 ')).toBe('CSQU3054383');
+  });
+});
+
+describe('validateContainers', () => {
+  const container = (overrides: Partial<ShipmentContainer>): ShipmentContainer => ({
+    id: 'c1',
+    number: 'CSQU3054383',
+    sizeType: '22G1',
+    sealNumber: '',
+    blNumber: 'BL-1',
+    cargoIds: ['cargo-1'],
+    ...overrides
+  });
+  const shipment = { blNumbers: ['BL-1'], cargoIds: ['cargo-1'] };
+
+  it('passes valid containers', () => {
+    expect(validateContainers([container({}), container({ id: 'c2', number: 'MSKU9070323' })], shipment)).toEqual([]);
+  });
+
+  it('names the expected check digit', () => {
+    expect(validateContainers([container({ number: 'CSQU3054384' })], shipment))
+      .toEqual(['CSQU3054384: check digit should be 3']);
+  });
+
+  it('refuses the same container twice, however it was typed', () => {
+    expect(validateContainers([container({}), container({ id: 'c2', number: 'csqu 305438 3' })], shipment))
+      .toEqual(['CSQU3054383: listed more than once']);
+  });
+
+  it('checks the size-type, BL and cargo lines against the shipment', () => {
+    expect(validateContainers([container({ sizeType: '', blNumber: 'BL-9', cargoIds: ['cargo-9'] })], shipment)).toEqual([
+      'CSQU3054383: choose a size/type',
+      "CSQU3054383: choose one of the shipment's BLs",
+      'CSQU3054383: carries a cargo line that is not on this shipment'
+    ]);
+  });
+
+  it('asks for a missing number by position', () => {
+    expect(validateContainers([container({}), container({ id: 'c2', number: ' ' })], shipment))
+      .toEqual(['Container 2: number is required']);
+  });
+});
@@ -0,0 +1,82 @@
+// src/lib/utils/container.ts
+import { CONTAINER_SIZE_TYPES } from '@/lib/constants/containers';
+import type { ShipmentContainer, ShipmentDetails } from '@/types/import/workflow';
+
+// Owner code, equipment category (U freight, J detachable equipment, Z trailer), serial and check digit
+const CONTAINER_NUMBER_PATTERN = /^[A-Z]{3}[UJZ]\d{7}$/;
+
+// Letter values skip 11 and its multiples, as the standard requires
+const LETTER_VALUES: Record<string, number> = Object.fromEntries(
+  Array.from('ABCDEFGHIJKLMNOPQRSTUVWXYZ').reduce<Array<[string, number]>>((values, letter) => {
+    let value = values.length ? values[values.length - 1][1] + 1 : 10;
+    if (value % 11 === 0) value += 1;
+    return [...values, [letter, value]];
+  }, [])
+);
+
+// "msku 123456-7" -> "MSKU1234567"
+export const normalizeContainerNumber = (value: string) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * The ISO 6346 check digit for the first ten characters: each character's
+ * value is weighted by 2^position, the sum taken modulo 11, and a remainder
+ * of 10 written as 0.
+ */
+export function getContainerCheckDigit(value: string): number {
+  const sum = Array.from(normalizeContainerNumber(value).slice(0, 10)).reduce(
+    (total, char, index) => total + (LETTER_VALUES[char] ?? Number(char)) * 2 ** index,
+    0
+  );
+  return (sum % 11) % 10;
+}
+
+export const isValidContainerNumber = (value: string) => {
+  const number = normalizeContainerNumber(value);
+  return CONTAINER_NUMBER_PATTERN.test(number) && getContainerCheckDigit(number) === Number(number[10]);
+};
+
+// Every BL on the shipment; `bl_number` holds the first for the screens and documents that show just one
+export const getBlNumbers = (details: Pick<ShipmentDetails, 'bl_number' | 'bl_numbers'>) =>
+  Array.from(new Set([details.bl_number, ...(details.bl_numbers ?? [])].map(bl => (bl || '').trim()).filter(Boolean)));
+
+/**
+ * Checks each container on its own and against the rest of the shipment: a
+ * valid, unique number, a known size-type, a BL the shipment declares (when
+ * it declares any) and cargo lines that exist. Returns one message per problem.
+ */
+export function validateContainers(
+  containers: ShipmentContainer[],
+  shipment: { blNumbers: string[]; cargoIds: string[] }
+): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  containers.forEach((container, index) => {
+    const number = normalizeContainerNumber(container.number);
+    const label = number || `Container ${index + 1}`;
+
+    if (!number) {
+      issues.push(`Container ${index + 1}: number is required`);
+    } else if (!CONTAINER_NUMBER_PATTERN.test(number)) {
+      issues.push(`${label}: must be four letters ending in U, J or Z, then seven digits`);
+    } else if (!isValidContainerNumber(number)) {
+      issues.push(`${label}: check digit should be ${getContainerCheckDigit(number)}`);
+    }
+    if (number && seen.has(number)) {
+      issues.push(`${label}: listed more than once`);
+    }
+    seen.add(number);
+
+    if (!CONTAINER_SIZE_TYPES.some(type => type.code === container.sizeType)) {
+      issues.push(`${label}: choose a size/type`);
+    }
+    if (shipment.blNumbers.length && !shipment.blNumbers.includes(container.blNumber)) {
+      issues.push(`${label}: choose one of the shipment's BLs`);
+    }
+    if (container.cargoIds.some(id => !shipment.cargoIds.includes(id))) {
+      issues.push(`${label}: carries a cargo line that is not on this shipment`);
+    }
+  });
+
+  return issues;
+}
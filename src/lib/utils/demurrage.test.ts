@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { computeFreeTimeCharge, getDailyRate, validateFreeTimeRule } from './demurrage';
+import type { FreeTimeRuleInput } from '@/types/demurrage';
+
+// 5 free days, then 50 a day from day 6 and 100 a day from day 11
+const rule: FreeTimeRuleInput = {
+  shippingLine: 'MAERSK',
+  chargeType: 'DEMURRAGE',
+  sizeClass: '40',
+  freeDays: 5,
+  currency: 'USD',
+  tiers: [
+    { fromDay: 6, ratePerDay: 50 },
+    { fromDay: 11, ratePerDay: 100 }
+  ]
+};
+
+const discharged = new Date(2025, 1, 3);
+// Day n of the clock, counting the discharge day as day 1
+const day = (n: number) => new Date(2025, 1, 2 + n, 15, 30);
+
+const chargeOn = (n: number) => computeFreeTimeCharge('DEMURRAGE', rule, discharged, null, day(n));
+
+describe('computeFreeTimeCharge', () => {
+  it('has not started before the clock does', () => {
+    expect(chargeOn(0)).toMatchObject({ status: 'not_started', daysUsed: 0, daysLeft: null, cost: 0 });
+  });
+
+  it('counts the first day in full', () => {
+    expect(chargeOn(1)).toMatchObject({ status: 'running', daysUsed: 1, daysLeft: 4, cost: 0 });
+  });
+
+  it('charges nothing through the last free day', () => {
+    expect(chargeOn(5)).toMatchObject({ daysUsed: 5, daysLeft: 0, cost: 0 });
+    expect(chargeOn(5).freeUntil).toBe(new Date(2025, 1, 7).toISOString());
+  });
+
+  it('charges the first tier from the first day after free time', () => {
+    expect(chargeOn(6)).toMatchObject({ daysUsed: 6, daysLeft: -1, cost: 50 });
+  });
+
+  it('charges each day at its own tier across a tier boundary', () => {
+    expect(chargeOn(10)).toMatchObject({ cost: 5 * 50 });
+    expect(chargeOn(11)).toMatchObject({ cost: 5 * 50 + 100 });
+    expect(chargeOn(13)).toMatchObject({ cost: 5 * 50 + 3 * 100 });
+  });
+
+  it('stops at the end date whatever the as-of date', () => {
+    expect(computeFreeTimeCharge('DEMURRAGE', rule, discharged, day(7), day(20)))
+      .toMatchObject({ status: 'stopped', daysUsed: 7, cost: 100 });
+  });
+
+  it('charges from day 1 when there is no free time', () => {
+    const noFreeTime = { ...rule, freeDays: 0, tiers: [{ fromDay: 1, ratePerDay: 75 }] };
+    expect(computeFreeTimeCharge('DEMURRAGE', noFreeTime, discharged, null, day(1)))
+      .toMatchObject({ daysUsed: 1, daysLeft: -1, cost: 75 });
+  });
+
+  it('counts days without costing them when no rule applies', () => {
+    expect(computeFreeTimeCharge('DEMURRAGE', null, discharged, null, day(8)))
+      .toMatchObject({ status: 'no_rule', daysUsed: 8, cost: 0 });
+  });
+});
+
+describe('getDailyRate', () => {
+  it('uses the latest tier that has started', () => {
+    expect(getDailyRate(rule.tiers, 5)).toBe(0);
+    expect(getDailyRate(rule.tiers, 6)).toBe(50);
+    expect(getDailyRate(rule.tiers, 10)).toBe(50);
+    expect(getDailyRate(rule.tiers, 11)).toBe(100);
+  });
+});
+
+describe('validateFreeTimeRule', () => {
+  it('accepts tiers that start the day after free time and run in order', () => {
+    expect(validateFreeTimeRule(rule)).toEqual([]);
+  });
+
+  it('refuses a gap after free time and tiers out of order', () => {
+    expect(validateFreeTimeRule({ ...rule, tiers: [{ fromDay: 7, ratePerDay: 50 }, { fromDay: 7, ratePerDay: 100 }] }))
+      .toEqual([
+        'The first tier must start on day 6, the day after free time ends',
+        'Tier 2: must start after tier 1'
+      ]);
+  });
+});
@@ -0,0 +1,220 @@
+// src/lib/utils/demurrage.ts
+import { addDays, differenceInCalendarDays, isValid, parseISO } from 'date-fns';
+import { WORKFLOW_STAGES, isWorkflowStage } from './workflow';
+import {
+  CONTAINER_SIZE_CLASSES,
+  FREE_TIME_CHARGE_TYPES,
+  type ContainerFreeTime,
+  type ContainerSizeClass,
+  type FreeTimeCharge,
+  type FreeTimeChargeType,
+  type FreeTimeRuleInput,
+  type FreeTimeTier,
+  type FreeTimeTotal,
+  type ShipmentFreeTime
+} from '@/types/demurrage';
+import type { ShipmentData } from '@/types/import/workflow';
+
+// Containers leave the port when the shipment goes into transit
+const PULL_OUT_STAGE = 'IN_TRANSIT';
+
+const SIZE_CLASS_BY_LENGTH_CODE: Record<string, ContainerSizeClass> = { '2': '20', '4': '40', L: '45' };
+
+// "  cma   cgm " -> "CMA CGM"; rules and shipments are matched on this
+export const normalizeShippingLine = (value?: string | null) =>
+  (value || '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+// The first character of an ISO 6346 size-type code gives the length
+export const getSizeClass = (sizeType: string): ContainerSizeClass =>
+  SIZE_CLASS_BY_LENGTH_CODE[(sizeType || '').charAt(0).toUpperCase()] ?? '';
+
+// Date-only values ("2025-02-03") are read as local days, not UTC midnight
+function parseDate(value?: string | Date | null): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// The rule for the container's size, falling back to the line's rule for every size
+export function findFreeTimeRule<T extends FreeTimeRuleInput>(
+  rules: T[],
+  shippingLine: string,
+  chargeType: FreeTimeChargeType,
+  sizeType: string
+): T | null {
+  const line = normalizeShippingLine(shippingLine);
+  if (!line) return null;
+
+  const candidates = rules.filter(rule => rule.shippingLine === line && rule.chargeType === chargeType);
+  const sizeClass = getSizeClass(sizeType);
+  return (
+    (sizeClass && candidates.find(rule => rule.sizeClass === sizeClass)) ||
+    candidates.find(rule => rule.sizeClass === '') ||
+    null
+  );
+}
+
+export function getDailyRate(tiers: FreeTimeTier[], day: number): number {
+  const tier = [...tiers].reverse().find(t => t.fromDay <= day);
+  return tier?.ratePerDay ?? 0;
+}
+
+/**
+ * One charge for one container. The day the clock starts is day 1 and every
+ * calendar day it runs counts in full, as shipping lines bill them; the
+ * first `freeDays` cost nothing and each day after is billed at its tier's
+ * rate. A charge still running is costed up to `asOf`.
+ */
+export function computeFreeTimeCharge(
+  chargeType: FreeTimeChargeType,
+  rule: FreeTimeRuleInput | null,
+  start: Date | null,
+  end: Date | null,
+  asOf: Date
+): FreeTimeCharge {
+  const charge: FreeTimeCharge = {
+    chargeType,
+    status: 'not_started',
+    startedAt: start?.toISOString() ?? null,
+    endedAt: start && end ? end.toISOString() : null,
+    freeDays: rule?.freeDays ?? null,
+    freeUntil: null,
+    daysUsed: 0,
+    daysLeft: null,
+    cost: 0,
+    currency: rule?.currency ?? null
+  };
+  if (!start || start > asOf) return charge;
+
+  charge.daysUsed = Math.max(differenceInCalendarDays(end ?? asOf, start) + 1, 1);
+  charge.status = end ? 'stopped' : 'running';
+  if (!rule) return { ...charge, status: 'no_rule' };
+
+  let cost = 0;
+  for (let day = rule.freeDays + 1; day <= charge.daysUsed; day++) {
+    cost += getDailyRate(rule.tiers, day);
+  }
+
+  return {
+    ...charge,
+    freeUntil: addDays(start, rule.freeDays - 1).toISOString(),
+    daysLeft: rule.freeDays - charge.daysUsed,
+    cost: roundAmount(cost)
+  };
+}
+
+/**
+ * When the workflow last moved the shipment into transit, which is when its
+ * containers are taken out of the port. Rolled back shipments have not left.
+ */
+export function getWorkflowPullOutDate(shipment: Pick<ShipmentData, 'status' | 'timeline'>): Date | null {
+  if (!isWorkflowStage(shipment.status)) return null;
+  if (WORKFLOW_STAGES.indexOf(shipment.status) < WORKFLOW_STAGES.indexOf(PULL_OUT_STAGE)) return null;
+
+  const entries = shipment.timeline
+    .filter(entry => entry.stage === PULL_OUT_STAGE && entry.status === 'in_progress')
+    .map(entry => parseDate(entry.timestamp))
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime());
+  return entries[0] ?? null;
+}
+
+export function formatDaysLeft(daysLeft: number): string {
+  if (daysLeft === 0) return 'Last free day';
+  const days = Math.abs(daysLeft);
+  return `${days} day${days === 1 ? '' : 's'} ${daysLeft > 0 ? 'left' : 'over'}`;
+}
+
+export function sumFreeTimeCosts(charges: FreeTimeCharge[]): FreeTimeTotal[] {
+  const totals = new Map<string, number>();
+  charges.forEach(charge => {
+    if (charge.currency && charge.cost > 0) {
+      totals.set(charge.currency, (totals.get(charge.currency) || 0) + charge.cost);
+    }
+  });
+  return Array.from(totals, ([currency, amount]) => ({ currency, amount: roundAmount(amount) }));
+}
+
+/**
+ * Demurrage and detention for every container on the shipment. Demurrage
+ * runs from discharge (the shipment's ATA) to pull-out; detention from
+ * pull-out to the empty return. Pull-out is the container's own date when
+ * recorded, otherwise when the workflow moved the shipment into transit.
+ */
+export function computeShipmentFreeTime(
+  shipment: Pick<ShipmentData, 'status' | 'timeline' | 'shipmentDetails' | 'containers'>,
+  rules: FreeTimeRuleInput[],
+  asOf: Date = new Date()
+): ShipmentFreeTime {
+  const shippingLine = normalizeShippingLine(shipment.shipmentDetails.shipping_line);
+  const dischargedAt = parseDate(shipment.shipmentDetails.ata);
+  const workflowPulledOutAt = getWorkflowPullOutDate(shipment);
+
+  const containers: ContainerFreeTime[] = shipment.containers.map(container => {
+    const recordedPullOut = parseDate(container.pulledOutAt);
+    const pulledOutAt = recordedPullOut ?? workflowPulledOutAt;
+    const emptyReturnedAt = parseDate(container.emptyReturnedAt);
+    const rule = (chargeType: FreeTimeChargeType) =>
+      findFreeTimeRule(rules, shippingLine, chargeType, container.sizeType);
+
+    return {
+      containerId: container.id,
+      number: container.number,
+      sizeType: container.sizeType,
+      pulledOutAt: pulledOutAt?.toISOString() ?? null,
+      pullOutRecorded: recordedPullOut !== null,
+      emptyReturnedAt: emptyReturnedAt?.toISOString() ?? null,
+      demurrage: computeFreeTimeCharge('DEMURRAGE', rule('DEMURRAGE'), dischargedAt, pulledOutAt, asOf),
+      detention: computeFreeTimeCharge('DETENTION', rule('DETENTION'), pulledOutAt, emptyReturnedAt, asOf)
+    };
+  });
+
+  const charges = containers.flatMap(container => [container.demurrage, container.detention]);
+  const running = charges
+    .filter(charge => charge.status === 'running' && charge.daysLeft !== null)
+    .map(charge => charge.daysLeft as number);
+
+  return {
+    shippingLine,
+    dischargedAt: dischargedAt?.toISOString() ?? null,
+    workflowPulledOutAt: workflowPulledOutAt?.toISOString() ?? null,
+    containers,
+    totals: sumFreeTimeCosts(charges),
+    daysLeft: running.length ? Math.min(...running) : null,
+    asOf: asOf.toISOString()
+  };
+}
+
+/**
+ * Checks a rule before it is saved: the tiers must pick up the day after
+ * free time ends and run in order, so every chargeable day has one rate.
+ */
+export function validateFreeTimeRule(rule: FreeTimeRuleInput): string[] {
+  const issues: string[] = [];
+
+  if (!normalizeShippingLine(rule.shippingLine)) issues.push('Shipping line is required');
+  if (!FREE_TIME_CHARGE_TYPES.includes(rule.chargeType)) issues.push('Choose demurrage or detention');
+  if (!CONTAINER_SIZE_CLASSES.includes(rule.sizeClass)) issues.push('Choose a container size');
+  if (!Number.isInteger(rule.freeDays) || rule.freeDays < 0) issues.push('Free days must be a whole number of 0 or more');
+  if (!/^[A-Z]{3}$/.test((rule.currency || '').trim().toUpperCase())) issues.push('Currency must be a 3-letter code');
+
+  if (!rule.tiers.length) {
+    issues.push('Add at least one charge tier');
+  } else if (rule.tiers[0].fromDay !== rule.freeDays + 1) {
+    issues.push(`The first tier must start on day ${rule.freeDays + 1}, the day after free time ends`);
+  }
+  rule.tiers.forEach((tier, index) => {
+    if (!Number.isInteger(tier.fromDay) || tier.fromDay < 1) {
+      issues.push(`Tier ${index + 1}: starting day must be a whole number of 1 or more`);
+    } else if (index > 0 && tier.fromDay <= rule.tiers[index - 1].fromDay) {
+      issues.push(`Tier ${index + 1}: must start after tier ${index}`);
+    }
+    if (!Number.isFinite(tier.ratePerDay) || tier.ratePerDay < 0) {
+      issues.push(`Tier ${index + 1}: daily rate cannot be negative`);
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,90 @@
+// src/lib/utils/export-workflow.ts
+import { hasDocumentFiles, type WorkflowDefinition, type WorkflowTransition } from './workflow';
+import type { ExportShipmentData } from '@/types/export';
+
+// Export clearance stages, from booking through vessel or flight departure
+export const EXPORT_WORKFLOW_STAGES = [
+  'SHIPPER_DETAILS',
+  'DOCUMENT_COLLECTION',
+  'EXPORT_DECLARATION',
+  'CO_ISSUANCE',
+  'LOADING',
+  'DEPARTED'
+] as const;
+
+export type ExportWorkflowStage = typeof EXPORT_WORKFLOW_STAGES[number];
+
+export const isExportWorkflowStage = (value: unknown): value is ExportWorkflowStage =>
+  EXPORT_WORKFLOW_STAGES.includes(value as ExportWorkflowStage);
+
+// Documents the guards look for by name
+export const EXPORT_DOCUMENTS = {
+  COMMERCIAL_INVOICE: 'Commercial Invoice',
+  PACKING_LIST: 'Packing List',
+  EXPORT_DECLARATION: 'Export Declaration',
+  CERTIFICATE_OF_ORIGIN: 'Certificate of Origin',
+  TRANSPORT_DOCUMENT: 'Bill of Lading / Airway Bill'
+} as const;
+
+export const EXPORT_TRANSITIONS: readonly WorkflowTransition<ExportShipmentData, ExportWorkflowStage>[] = [
+  {
+    from: 'SHIPPER_DETAILS',
+    to: 'DOCUMENT_COLLECTION',
+    guard: shipment => [
+      ...(shipment.shipper?.name ? [] : ['Shipper is required']),
+      ...(shipment.shipper?.tin ? [] : ['Shipper TIN is required']),
+      ...(shipment.buyer?.name ? [] : ['Buyer is required']),
+      ...(shipment.shipmentDetails.port_of_destination ? [] : ['Port of destination is required'])
+    ]
+  },
+  {
+    from: 'DOCUMENT_COLLECTION',
+    to: 'EXPORT_DECLARATION',
+    guard: shipment => [
+      ...shipment.documents
+        .filter(doc => doc.isRequired && doc.name !== EXPORT_DOCUMENTS.EXPORT_DECLARATION && !(doc.files?.length))
+        .map(doc => `${doc.name} has not been uploaded`),
+      ...(shipment.cargo?.length ? [] : ['At least one cargo line is required'])
+    ]
+  },
+  {
+    from: 'EXPORT_DECLARATION',
+    to: 'CO_ISSUANCE',
+    guard: shipment => [
+      ...(shipment.shipmentDetails.ed_number ? [] : ['Export declaration number is required']),
+      ...(hasDocumentFiles(shipment, EXPORT_DOCUMENTS.EXPORT_DECLARATION, ['final', 'verified'])
+        ? []
+        : [`A final ${EXPORT_DOCUMENTS.EXPORT_DECLARATION} must be uploaded`])
+    ]
+  },
+  {
+    from: 'CO_ISSUANCE',
+    to: 'LOADING',
+    guard: shipment => {
+      if (shipment.shipmentDetails.co_required === false) return [];
+      return [
+        ...(shipment.shipmentDetails.co_number ? [] : ['Certificate of Origin number is required']),
+        ...(hasDocumentFiles(shipment, EXPORT_DOCUMENTS.CERTIFICATE_OF_ORIGIN)
+          ? []
+          : [`${EXPORT_DOCUMENTS.CERTIFICATE_OF_ORIGIN} has not been uploaded`])
+      ];
+    }
+  },
+  {
+    from: 'LOADING',
+    to: 'DEPARTED',
+    guard: shipment => {
+      const details = shipment.shipmentDetails;
+      const transportNumber = details.mode === 'air' ? details.awb_number : details.bl_number;
+      return [
+        ...(transportNumber ? [] : [details.mode === 'air' ? 'AWB number is required' : 'BL number is required']),
+        ...(details.atd ? [] : ['Actual time of departure is required'])
+      ];
+    }
+  }
+];
+
+export const EXPORT_WORKFLOW: WorkflowDefinition<ExportShipmentData, ExportWorkflowStage> = {
+  stages: EXPORT_WORKFLOW_STAGES,
+  transitions: EXPORT_TRANSITIONS
+};
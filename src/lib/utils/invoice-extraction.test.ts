@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { extractInvoice, parseAmount } from './invoice-extraction';
+import type { OcrLine } from '@/types/invoice-extraction';
+
+const page = (text: string, confidence = 1): OcrLine[] =>
+  text.trim().split('\n').map(line => ({ text: line, confidence, page: 1 }));
+
+describe('parseAmount', () => {
+  it.each([
+    ['1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ["1'234.56", 1234.56],
+    ['1,234', 1234],
+    ['12,5', 12.5],
+    ['1.234.567', 1234567],
+    ['USD1,200.00', 1200],
+    ['US$45.10', 45.1],
+    ['€99,90', 99.9],
+    ['₱500', 500],
+    ['(12.50)', -12.5]
+  ])('reads %s', (token, value) => {
+    expect(parseAmount(token)).toBe(value);
+  });
+
+  it('refuses tokens that are not amounts', () => {
+    expect(parseAmount('PCS')).toBeNull();
+    expect(parseAmount('12.')).toBeNull();
+    expect(parseAmount('8471.30.00A')).toBeNull();
+  });
+});
+
+describe('extractInvoice', () => {
+  const invoice = page(`
+ACME TRADING CO., LTD.
+COMMERCIAL INVOICE
+Invoice No: INV-2024-0117
+Currency: USD
+No. Description HS Code Quantity Unit Price Amount
+1 Laptop computers 8471.30.00 10 PCS 450.00 4,500.00
+2 USB cables braided 200 1.25 250.00
+  1 metre, black
+TOTAL USD 4,750.00
+`);
+
+  it('reads the goods rows, invoice number, currency and total of a typical invoice', () => {
+    const result = extractInvoice(invoice, 'commercial_invoice', 'text-layer');
+
+    expect(result.invoiceNumber).toEqual({ value: 'INV-2024-0117', confidence: 1 });
+    expect(result.currency?.value).toBe('USD');
+    expect(result.total).toBe(4750);
+    expect(result.warnings).toEqual([]);
+    expect(result.lines.map(line => line.item)).toEqual([
+      expect.objectContaining({ description: 'Laptop computers', hsCode: '84713000', quantity: 10, invoiceValue: 4500, currency: 'USD' }),
+      expect.objectContaining({ description: 'USB cables braided 1 metre, black', quantity: 200, invoiceValue: 250 })
+    ]);
+    expect(result.lines[0]).toMatchObject({ unitPrice: 450, confidence: 1 });
+  });
+
+  it('flags line amounts that do not add up to the total', () => {
+    const lines = invoice.map(line => line.text.startsWith('TOTAL') ? { ...line, text: 'TOTAL USD 5,000.00' } : line);
+    expect(extractInvoice(lines, 'commercial_invoice', 'text-layer').warnings)
+      .toEqual(['Line amounts add up to 4750.00 but the document total is 5000.00']);
+  });
+
+  it('leaves the total empty when the document has none', () => {
+    const result = extractInvoice(invoice.filter(line => !line.text.startsWith('TOTAL')), 'commercial_invoice', 'text-layer');
+    expect(result.total).toBeNull();
+    expect(result.lines).toHaveLength(2);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reads European number formats and the euro sign', () => {
+    const result = extractInvoice(page(`
+Invoice No. 2024/88
+Description Qty Unit Price Amount
+Espresso machines 3 1.250,00 € 3.750,00 €
+Total 3.750,00 €
+`), 'commercial_invoice', 'text-layer');
+
+    expect(result.invoiceNumber?.value).toBe('2024/88');
+    expect(result.currency?.value).toBe('EUR');
+    expect(result.total).toBe(3750);
+    expect(result.lines[0].item).toMatchObject({ description: 'Espresso machines', quantity: 3, invoiceValue: 3750 });
+  });
+
+  it('scores a bare dollar sign lower than an explicit currency code', () => {
+    const bare = extractInvoice(page('Description Qty Price Amount\nWidgets 2 $5.00 $10.00'), 'commercial_invoice', 'text-layer');
+    expect(bare.currency).toEqual({ value: 'USD', confidence: 1 });
+
+    const mixed = extractInvoice(page('Amounts in CNY\nDescription Qty Price Amount\nWidgets 2 $5.00 10.00'), 'commercial_invoice', 'text-layer');
+    expect(mixed.currency?.value).toBe('CNY');
+    expect(mixed.currency!.confidence).toBeLessThan(1);
+  });
+
+  it('converts packing-list weights given in pounds to kilograms', () => {
+    const result = extractInvoice(page(`
+Description Cartons N.W. (lbs) G.W. (lbs)
+Ceramic tiles 40 1000 1100
+`), 'packing_list', 'text-layer');
+
+    expect(result.lines[0].item).toMatchObject({ quantity: 40, netWeight: 453.592, grossWeight: 498.952 });
+  });
+
+  it('guesses columns with low confidence when no header is recognized', () => {
+    const result = extractInvoice(page(`
+Cotton shirts 100 4.00 400.00
+Denim jeans 50 980.00
+`, 0.9), 'commercial_invoice', 'ocr');
+
+    expect(result.warnings).toContain('No table header was recognized; columns were guessed from the numbers on each line');
+    // The quantity × price = amount triple is found, but the guess is trusted less than a header
+    expect(result.lines[0]).toMatchObject({ item: { quantity: 100, invoiceValue: 400 }, unitPrice: 4 });
+    expect(result.lines[0].confidence).toBeCloseTo(0.81);
+    // With no triple to back it up, the second line is a weaker guess still
+    expect(result.lines[1]).toMatchObject({ item: { quantity: 50, invoiceValue: 980 }, unitPrice: null });
+    expect(result.lines[1].confidence).toBeCloseTo(0.54);
+  });
+
+  it('distrusts rows whose quantity × unit price misses the amount', () => {
+    const result = extractInvoice(page('Description Qty Unit Price Amount\nBrake pads 10 12.00 150.00'), 'commercial_invoice', 'text-layer');
+
+    expect(result.lines[0].confidence).toBeCloseTo(0.6);
+    expect(result.lines[0].fields.description).toBe(1);
+    expect(result.warnings).toContain('"Brake pads": quantity × unit price does not match the amount');
+  });
+
+  it('reports a document without goods lines', () => {
+    expect(extractInvoice(page('Thank you for your business'), 'commercial_invoice', 'ocr').warnings)
+      .toContain('No goods lines were found');
+  });
+});
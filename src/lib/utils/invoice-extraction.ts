@@ -0,0 +1,336 @@
+// src/lib/utils/invoice-extraction.ts
+import { SUPPORTED_CURRENCIES, type CurrencyCode } from '@/lib/constants/currency';
+import type {
+  ExtractableDocumentType,
+  ExtractedCargoLine,
+  ExtractedField,
+  ExtractedValue,
+  InvoiceExtraction,
+  OcrEngine,
+  OcrLine
+} from '@/types/invoice-extraction';
+
+type NumericColumn = 'quantity' | 'unitPrice' | 'amount' | 'netWeight' | 'grossWeight';
+
+/**
+ * Header words naming each numeric column. Checked in this order, and each
+ * match is blanked out before the next pattern runs, so "unit price" is not
+ * also read as a quantity ("unit") or "net weight" as a gross one.
+ */
+const COLUMN_PATTERNS: Array<[NumericColumn, RegExp]> = [
+  ['unitPrice', /\bunit\s*(?:price|value|cost)\b|\bu\/price\b|\bprice\b|\brate\b/],
+  ['netWeight', /\bn\.?\s?w\b\.?|\bnet\s*(?:weight|wt)\b\.?/],
+  ['grossWeight', /\bg\.?\s?w\b\.?|\bgross\s*(?:weight|wt)\b\.?|\bweight\b/],
+  ['amount', /\b(?:total\s*)?(?:amount|value)\b|\btotal\b/],
+  ['quantity', /\bquantity\b|\bq'?ty\b|\bpcs\b|\bunits?\b|\bcartons?\b|\bctns?\b|\bpackages?\b|\bpkgs?\b/]
+];
+
+const DESCRIPTION_HEADER = /\b(?:description|goods|commodity|particulars|items?|products?)\b/;
+
+// Lines that close the goods table
+const TOTAL_LINE = /^\s*(?:sub\s*-?\s*total|grand\s+total|total|say\s+total|amount\s+in\s+words)\b/i;
+
+const UNIT_TOKEN = /^(?:pcs?|sets?|units?|kgs?|lbs?|ctns?|cartons?|pkgs?|ea|rolls?|boxes|box|m|mt|l)\.?$/i;
+
+// A currency symbol printed apart from its amount ("3.750,00 €")
+const CURRENCY_SYMBOL_TOKEN = /^(?:US\$|[$€£¥₱])$/;
+
+// 8471.30.00, 8471 30 00 10 is split by whitespace, so only the compact forms are recognized
+const HS_CODE_TOKEN = /^(\d{4})\.?(\d{2})\.?(\d{2})(?:\.?(\d{2,3}))?$/;
+
+const LBS_TO_KG = 0.45359237;
+
+// How close quantity × unit price must come to the line amount to count as consistent
+const AMOUNT_TOLERANCE = 0.01;
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const matchesAmount = (quantity: number, unitPrice: number, amount: number) =>
+  amount > 0 && Math.abs(quantity * unitPrice - amount) <= Math.max(AMOUNT_TOLERANCE * amount, 0.01);
+
+/**
+ * Reads a number as printed on an invoice: 1,234.56, 1.234,56, 1'234.56,
+ * (12.50) for a negative, with an optional currency in front. A single comma
+ * followed by three digits is taken as a thousands separator; a single
+ * point as a decimal point.
+ */
+export function parseAmount(token: string): number | null {
+  const text = token
+    .replace(/^\((.*)\)$/, '-$1')
+    .replace(/^(-?)(?:[A-Z]{3}|US\$|[$€£¥₱])/i, '$1')
+    .replace(/[$€£¥₱]$/, '')
+    .replace(/'/g, '');
+  if (!/^-?\d[\d.,]*$/.test(text) || /[.,]$/.test(text)) return null;
+
+  const lastSeparator = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  let normalized = text;
+  if (lastSeparator !== -1) {
+    const separator = text[lastSeparator];
+    const other = separator === '.' ? ',' : '.';
+    const occurrences = text.split(separator).length - 1;
+    const decimals = text.length - lastSeparator - 1;
+
+    if (text.includes(other)) {
+      normalized = text.split(other).join('').replace(separator, '.');
+    } else if (occurrences > 1 || (separator === ',' && decimals === 3)) {
+      normalized = text.split(separator).join('');
+    } else {
+      normalized = text.replace(separator, '.');
+    }
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+function readHeader(text: string) {
+  let remaining = text.toLowerCase();
+  const found: Array<{ column: NumericColumn; index: number }> = [];
+
+  for (const [column, pattern] of COLUMN_PATTERNS) {
+    const match = pattern.exec(remaining);
+    if (!match) continue;
+    found.push({ column, index: match.index });
+    remaining = remaining.slice(0, match.index) + ' '.repeat(match[0].length) + remaining.slice(match.index + match[0].length);
+  }
+
+  return {
+    columns: found.sort((a, b) => a.index - b.index).map(entry => entry.column),
+    weightFactor: /\blbs?\b/i.test(text) ? LBS_TO_KG : 1
+  };
+}
+
+const isHeaderLine = (text: string) =>
+  DESCRIPTION_HEADER.test(text.toLowerCase()) && readHeader(text).columns.length >= 2;
+
+// Splits a goods line into its description and the numbers trailing it
+function splitItemLine(text: string) {
+  let hsCode = '';
+  const tokens = text.trim().split(/\s+/).filter(token => {
+    const match = !hsCode && HS_CODE_TOKEN.exec(token);
+    if (match && (token.includes('.') || token.length === 8)) {
+      hsCode = `${match[1]}${match[2]}${match[3]}`;
+      return false;
+    }
+    return true;
+  });
+
+  const numbers: number[] = [];
+  let end = tokens.length;
+  while (end > 0) {
+    const token = tokens[end - 1];
+    const value = parseAmount(token);
+    if (value !== null) {
+      numbers.unshift(value);
+    } else if (
+      !UNIT_TOKEN.test(token) &&
+      !CURRENCY_SYMBOL_TOKEN.test(token) &&
+      !SUPPORTED_CURRENCIES.includes(token.toUpperCase() as CurrencyCode)
+    ) {
+      break;
+    }
+    end--;
+  }
+
+  const words = tokens.slice(0, end);
+  // A leading item number ("1", "2.", "3)") belongs to no column
+  if (words.length > 1 && /^\d{1,3}[.)]?$/.test(words[0])) words.shift();
+
+  return { description: words.join(' '), numbers, hsCode };
+}
+
+/**
+ * Assigns a line's numbers to columns. With a recognized header they are
+ * matched right to left against it; otherwise the numbers are searched for
+ * a quantity × unit price = amount triple, and failing that guessed from
+ * their position. Returns how far the mapping can be trusted.
+ */
+function mapColumns(
+  numbers: number[],
+  columns: NumericColumn[],
+  documentType: ExtractableDocumentType
+): { values: Partial<Record<NumericColumn, number>>; trust: number } {
+  if (columns.length && numbers.length >= columns.length) {
+    const values = numbers.slice(numbers.length - columns.length);
+    return {
+      values: Object.fromEntries(columns.map((column, i) => [column, values[i]])),
+      trust: numbers.length === columns.length ? 1 : 0.8
+    };
+  }
+
+  if (documentType === 'commercial_invoice') {
+    for (let i = 0; i < numbers.length; i++) {
+      for (let j = i + 1; j < numbers.length; j++) {
+        for (let k = j + 1; k < numbers.length; k++) {
+          if (matchesAmount(numbers[i], numbers[j], numbers[k])) {
+            return { values: { quantity: numbers[i], unitPrice: numbers[j], amount: numbers[k] }, trust: 0.9 };
+          }
+        }
+      }
+    }
+    if (numbers.length === 1) return { values: { amount: numbers[0] }, trust: 0.5 };
+    return { values: { quantity: numbers[0], amount: numbers[numbers.length - 1] }, trust: 0.6 };
+  }
+
+  const [quantity, first, second] = numbers;
+  if (numbers.length >= 3) return { values: { quantity, netWeight: first, grossWeight: second }, trust: 0.6 };
+  if (numbers.length === 2) return { values: { quantity, grossWeight: first }, trust: 0.5 };
+  return { values: { quantity }, trust: 0.5 };
+}
+
+function toCargoLine(
+  line: OcrLine,
+  columns: NumericColumn[],
+  weightFactor: number,
+  documentType: ExtractableDocumentType,
+  currency: CurrencyCode | undefined
+): ExtractedCargoLine | null {
+  const { description, numbers, hsCode } = splitItemLine(line.text);
+  if (!description || !numbers.length) return null;
+
+  const { values, trust } = mapColumns(numbers, columns, documentType);
+  const { quantity, unitPrice } = values;
+  let { amount } = values;
+
+  // The arithmetic either backs the values up or casts doubt on all three
+  let amountFactor = 1;
+  let amountDerived = false;
+  if (quantity !== undefined && unitPrice !== undefined) {
+    if (amount === undefined) {
+      amount = round(quantity * unitPrice);
+      amountDerived = true;
+    } else if (!matchesAmount(quantity, unitPrice, amount)) {
+      amountFactor = 0.6;
+    }
+  }
+
+  const base = line.confidence * trust;
+  const fields: Partial<Record<ExtractedField, number>> = { description: round(line.confidence) };
+  if (quantity !== undefined) fields.quantity = round(base * amountFactor);
+  if (amount !== undefined) fields.invoiceValue = round(base * amountFactor * (amountDerived ? 0.9 : 1));
+  if (values.netWeight !== undefined) fields.netWeight = round(base);
+  if (values.grossWeight !== undefined) fields.grossWeight = round(base);
+  if (hsCode) fields.hsCode = round(line.confidence);
+
+  return {
+    item: {
+      description,
+      invoiceValue: amount ?? 0,
+      grossWeight: round((values.grossWeight ?? 0) * weightFactor, 3),
+      netWeight: round((values.netWeight ?? 0) * weightFactor, 3),
+      quantity: quantity ?? 0,
+      hsCode,
+      currency
+    },
+    unitPrice: unitPrice ?? null,
+    confidence: Math.min(...Object.values(fields)),
+    fields,
+    sourceText: line.text
+  };
+}
+
+const INVOICE_NUMBER = /\b(?:(?:commercial\s+)?invoice|inv)\.?\s*(?:no|number|nr|#)\.?\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-/.]{2,})?/i;
+
+function findInvoiceNumber(lines: OcrLine[]): ExtractedValue<string> | null {
+  for (const [index, line] of Array.from(lines.entries())) {
+    const match = INVOICE_NUMBER.exec(line.text);
+    if (!match) continue;
+    if (match[1] && /\d/.test(match[1])) {
+      return { value: match[1].replace(/[.]$/, ''), confidence: round(line.confidence) };
+    }
+    // The label on its own line with the number below it
+    const next = lines[index + 1]?.text.trim().split(/\s+/)[0];
+    if (!match[1] && next && /\d/.test(next)) {
+      return { value: next, confidence: round((lines[index + 1].confidence) * 0.8) };
+    }
+  }
+  return null;
+}
+
+const CURRENCY_MARKERS: Array<[CurrencyCode, RegExp, number]> = [
+  ['USD', /\bUSD\b|US\$/g, 1],
+  ['USD', /(?<!US)\$/g, 0.5],
+  ['EUR', /\bEUR\b|€/g, 1],
+  ['CNY', /\bCNY\b|\bRMB\b/g, 1],
+  ['JPY', /\bJPY\b|\bYEN\b/gi, 1],
+  ['PHP', /\bPHP\b|₱/g, 1]
+];
+
+// The currency the document mentions most; a bare "$" counts for half
+function findCurrency(lines: OcrLine[]): ExtractedValue<CurrencyCode> | null {
+  const scores = new Map<CurrencyCode, { score: number; confidence: number }>();
+  lines.forEach(line => {
+    CURRENCY_MARKERS.forEach(([code, pattern, weight]) => {
+      const count = line.text.match(pattern)?.length ?? 0;
+      if (!count) return;
+      const entry = scores.get(code) ?? { score: 0, confidence: 0 };
+      scores.set(code, { score: entry.score + count * weight, confidence: Math.max(entry.confidence, line.confidence) });
+    });
+  });
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1].score - a[1].score);
+  if (!ranked.length) return null;
+  const total = ranked.reduce((sum, [, entry]) => sum + entry.score, 0);
+  const [code, { score, confidence }] = ranked[0];
+  return { value: code, confidence: round(confidence * (score / total)) };
+}
+
+/**
+ * Proposes goods rows from the recognized lines of an invoice or packing
+ * list. The first line naming a description column and at least two
+ * numeric ones is taken as the table header; goods lines follow it until a
+ * total. Nothing here is final: every value carries a confidence and the
+ * user accepts or edits each row.
+ */
+export function extractInvoice(
+  lines: OcrLine[],
+  documentType: ExtractableDocumentType,
+  engine: OcrEngine
+): InvoiceExtraction {
+  const warnings: string[] = [];
+  const invoiceNumber = findInvoiceNumber(lines);
+  const currency = findCurrency(lines);
+
+  const headerIndex = lines.findIndex(line => isHeaderLine(line.text));
+  const { columns, weightFactor } = headerIndex === -1 ? { columns: [], weightFactor: 1 } : readHeader(lines[headerIndex].text);
+  if (headerIndex === -1) {
+    warnings.push('No table header was recognized; columns were guessed from the numbers on each line');
+  }
+
+  const extracted: ExtractedCargoLine[] = [];
+  let total: number | null = null;
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (TOTAL_LINE.test(line.text)) {
+      const { numbers } = splitItemLine(line.text);
+      total = numbers.length ? numbers[numbers.length - 1] : null;
+      break;
+    }
+    if (isHeaderLine(line.text)) continue;
+
+    const cargoLine = toCargoLine(line, columns, weightFactor, documentType, currency?.value);
+    if (cargoLine) {
+      extracted.push(cargoLine);
+    } else if (extracted.length && line.text.trim() && !splitItemLine(line.text).numbers.length) {
+      // A description wrapped onto the next line
+      const previous = extracted[extracted.length - 1];
+      previous.item.description = `${previous.item.description} ${line.text.trim()}`;
+      previous.sourceText = `${previous.sourceText}\n${line.text}`;
+    }
+  }
+
+  if (!extracted.length) {
+    warnings.push('No goods lines were found');
+  }
+  if (documentType === 'commercial_invoice' && total !== null && extracted.length) {
+    const sum = round(extracted.reduce((acc, line) => acc + line.item.invoiceValue, 0));
+    if (!matchesAmount(1, sum, total)) {
+      warnings.push(`Line amounts add up to ${sum.toFixed(2)} but the document total is ${total.toFixed(2)}`);
+    }
+  }
+  extracted
+    .filter(line => line.fields.quantity !== undefined && line.fields.invoiceValue !== undefined && line.unitPrice !== null)
+    .filter(line => !matchesAmount(line.item.quantity, line.unitPrice!, line.item.invoiceValue))
+    .forEach(line => warnings.push(`"${line.item.description}": quantity × unit price does not match the amount`));
+
+  return { documentType, engine, invoiceNumber, currency, total, lines: extracted, warnings };
+}
@@ -0,0 +1,112 @@
+// src/lib/utils/metrics.ts
+import { startOfDay } from 'date-fns';
+import { WORKFLOW_STAGES, isWorkflowStage, type WorkflowStage } from './workflow';
+import type { ShipmentMetrics, StageDwellTime } from '@/types/metrics';
+
+// The slice of a shipment the dashboard needs
+export interface MetricsShipment {
+  id: string;
+  referenceNumber: string;
+  consignee: string;
+  status: string;
+  eta: string | null;
+  completionDate: Date | null;
+  timeline: Array<{ stage: string; status: string; timestamp: Date }>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Goods are released from the port at this stage; anything earlier is still under clearance
+const RELEASE_INDEX = WORKFLOW_STAGES.indexOf('PORT_RELEASE');
+
+const stageIndex = (status: string) => (isWorkflowStage(status) ? WORKFLOW_STAGES.indexOf(status) : -1);
+
+const isPendingClearance = (shipment: MetricsShipment) => {
+  const index = stageIndex(shipment.status);
+  return !shipment.completionDate && index >= 0 && index < RELEASE_INDEX;
+};
+
+const emptyStageCounts = () =>
+  Object.fromEntries(WORKFLOW_STAGES.map(stage => [stage, 0])) as Record<WorkflowStage, number>;
+
+/**
+ * Durations of every completed stay in a stage. A stay starts at the stage's
+ * `in_progress` entry and ends at the next entry that leaves it, whether by
+ * completing or being rolled back; stays still open are not counted.
+ */
+export function getStageStays(timeline: MetricsShipment['timeline']): Array<{ stage: string; ms: number }> {
+  const started = new Map<string, number>();
+  const stays: Array<{ stage: string; ms: number }> = [];
+
+  [...timeline]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(entry => {
+      const time = entry.timestamp.getTime();
+      if (entry.status === 'in_progress') {
+        if (!started.has(entry.stage)) started.set(entry.stage, time);
+        return;
+      }
+      const start = started.get(entry.stage);
+      if (start !== undefined) {
+        stays.push({ stage: entry.stage, ms: time - start });
+        started.delete(entry.stage);
+      }
+    });
+
+  return stays;
+}
+
+export function computeDwellTimes(shipments: MetricsShipment[]): StageDwellTime[] {
+  const totals = new Map<string, { ms: number; samples: number }>();
+
+  shipments.forEach(shipment => {
+    getStageStays(shipment.timeline).forEach(({ stage, ms }) => {
+      const total = totals.get(stage) || { ms: 0, samples: 0 };
+      totals.set(stage, { ms: total.ms + ms, samples: total.samples + 1 });
+    });
+  });
+
+  return WORKFLOW_STAGES.map(stage => {
+    const total = totals.get(stage);
+    return {
+      stage,
+      averageHours: total ? Math.round((total.ms / total.samples / HOUR_MS) * 10) / 10 : null,
+      samples: total?.samples || 0
+    };
+  });
+}
+
+export function computeShipmentMetrics(shipments: MetricsShipment[], now: Date = new Date()): ShipmentMetrics {
+  const stageCounts = emptyStageCounts();
+  const today = startOfDay(now);
+
+  shipments.forEach(shipment => {
+    if (isWorkflowStage(shipment.status)) stageCounts[shipment.status]++;
+  });
+
+  const overdue = shipments
+    .filter(shipment => {
+      if (!isPendingClearance(shipment) || !shipment.eta) return false;
+      const eta = new Date(shipment.eta);
+      return !isNaN(eta.getTime()) && eta < now;
+    })
+    .map(shipment => ({
+      id: shipment.id,
+      referenceNumber: shipment.referenceNumber,
+      consignee: shipment.consignee,
+      status: shipment.status,
+      eta: shipment.eta!,
+      daysOverdue: Math.floor((now.getTime() - new Date(shipment.eta!).getTime()) / DAY_MS)
+    }))
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  return {
+    stageCounts,
+    active: shipments.filter(shipment => !shipment.completionDate).length,
+    pendingClearance: shipments.filter(isPendingClearance).length,
+    completedToday: shipments.filter(shipment => shipment.completionDate && shipment.completionDate >= today).length,
+    overdue,
+    dwellTimes: computeDwellTimes(shipments)
+  };
+}
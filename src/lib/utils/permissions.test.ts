@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getPermissionGrant } from './permissions';
+import { USER_ROLES } from '@/types/auth';
+
+describe('getPermissionGrant', () => {
+  it('gives superadmins every permission over any record', () => {
+    expect(getPermissionGrant(USER_ROLES.SUPERADMIN, 'edit')).toBe('any');
+    expect(getPermissionGrant(USER_ROLES.SUPERADMIN, 'delete')).toBe('any');
+    expect(getPermissionGrant(USER_ROLES.SUPERADMIN, 'unlock')).toBe('any');
+    expect(getPermissionGrant(USER_ROLES.SUPERADMIN, 'upload')).toBe('any');
+  });
+
+  it('limits brokers to their own records and keeps unlocking from them', () => {
+    expect(getPermissionGrant(USER_ROLES.BROKER, 'view')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.BROKER, 'edit')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.BROKER, 'computeDuties')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.BROKER, 'unlock')).toBeNull();
+  });
+
+  it('lets clients view and upload but never change records', () => {
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'view')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'upload')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'edit')).toBeNull();
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'delete')).toBeNull();
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'lock')).toBeNull();
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'computeDuties')).toBeNull();
+  });
+
+  it('only grants create outright', () => {
+    expect(getPermissionGrant(USER_ROLES.BROKER, 'create')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.SUPERADMIN, 'create')).toBe('own');
+    expect(getPermissionGrant(USER_ROLES.CLIENT, 'create')).toBeNull();
+  });
+});
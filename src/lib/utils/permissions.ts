@@ -1,11 +1,52 @@
 // src/lib/utils/permissions.ts
-import { User, USER_ROLES, ROLE_PERMISSIONS, type PermissionKey } from '@/types/auth';
+import {
+  User,
+  USER_ROLES,
+  ROLE_PERMISSIONS,
+  type ActionPermission,
+  type PermissionGrant,
+  type PermissionKey,
+  type UserRole
+} from '@/types/auth';
 
-export function checkPermission(user: User | null, permission: PermissionKey): boolean {
+// Only the role matters here, so the middleware can check a token's claims directly
+type RoleHolder = Pick<User, 'role'>;
+
+export function checkPermission(user: RoleHolder | null, permission: PermissionKey): boolean {
   if (!user) return false;
   return ROLE_PERMISSIONS[user.role][permission] || false;
 }
 
+// Reads a permission off the role matrix as "All" or "Own" flags
+export function getPermissionGrant(role: UserRole, permission: ActionPermission): PermissionGrant {
+  const matrix: Partial<Record<string, boolean>> = ROLE_PERMISSIONS[role];
+  if (!matrix) return null;
+
+  const grant = (all?: boolean, own?: boolean): PermissionGrant =>
+    all ? 'any' : own ? 'own' : null;
+
+  switch (permission) {
+    case 'view':
+      return grant(matrix.canViewAll, matrix.canViewOwn);
+    case 'create':
+      return grant(false, matrix.canCreate);
+    case 'edit':
+      return grant(matrix.canEditAll, matrix.canEditOwn);
+    case 'delete':
+      return grant(matrix.canDeleteAll, matrix.canDeleteOwn);
+    case 'lock':
+      return grant(matrix.canLockAll, matrix.canLockOwn);
+    case 'unlock':
+      return grant(matrix.canUnlockAll, matrix.canUnlockOwn);
+    case 'computeDuties':
+      return grant(matrix.canComputeDutiesAll, matrix.canComputeDutiesOwn);
+    case 'upload':
+      return grant(matrix.canUploadAll, matrix.canUploadOwn);
+    default:
+      return null;
+  }
+}
+
 export function getResourcePermissions(user: User | null, resourceUserId?: string) {
   if (!user) {
     return {
@@ -26,13 +67,14 @@ export function getResourcePermissions(user: User | null, resourceUserId?: strin
     };
   }
 
-  // For Broker
+  // For Broker. The server only hands brokers records of their own
+  // organizations, so anything they see they may work on.
   if (user.role === USER_ROLES.BROKER) {
     const isOwn = resourceUserId === user.id;
     return {
-      canView: true, // Brokers can view all
-      canEdit: isOwn, // Can only edit own resources
-      canDelete: isOwn, // Can only delete own resources
+      canView: true,
+      canEdit: true,
+      canDelete: isOwn, // Can only delete resources they created
       canCreate: true // Can create new resources
     };
   }
@@ -56,7 +98,7 @@ export function getResourcePermissions(user: User | null, resourceUserId?: strin
   };
 }
 
-export function canAccessRoute(user: User | null, route: string): boolean {
+export function canAccessRoute(user: RoleHolder | null, route: string): boolean {
   if (!user) return false;
 
   // Superadmin can access everything
@@ -76,18 +118,45 @@ export function canAccessRoute(user: User | null, route: string): boolean {
   return true;
 }
 
-export function filterUserAccessibleData<T extends { userId: string }>(
+// What a user can reach outside their role: brokers through organization
+// membership, clients through the consignees they represent
+export interface DataAccess {
+  organizationIds: string[];
+  consigneeIds: string[];
+}
+
+export function getDashboardPath(role: UserRole) {
+  switch (role) {
+    case USER_ROLES.SUPERADMIN:
+    case USER_ROLES.BROKER:
+      return '/admin/overview';
+    case USER_ROLES.CLIENT:
+      return '/client/overview';
+    default:
+      return '/';
+  }
+}
+
+export function filterUserAccessibleData<
+  T extends { organizationId: string; consigneeId?: string | null }
+>(
   user: User,
+  access: DataAccess,
   data: T[]
 ): T[] {
   if (user.role === USER_ROLES.SUPERADMIN) {
     return data;
   }
 
+  // Brokers see everything their organizations own
   if (user.role === USER_ROLES.BROKER) {
-    return data.filter(item => item.userId === user.id);
+    return data.filter(item => access.organizationIds.includes(item.organizationId));
+  }
+
+  // Clients only see records of the consignees they represent
+  if (user.role === USER_ROLES.CLIENT) {
+    return data.filter(item => !!item.consigneeId && access.consigneeIds.includes(item.consigneeId));
   }
 
-  // Clients can only see their own data
-  return data.filter(item => item.userId === user.id);
+  return [];
 }
\ No newline at end of file
@@ -9,10 +9,16 @@ export type TransactionType =
 // Specific transaction type for imports
 export type ImportTransactionType = 'IMS' | 'IMA';
 
-// For future use
 export type ExportTransactionType = 'EXP';
 export type AccreditationTransactionType = 'ACN' | 'ACR';
 
+export const TRANSACTION_TYPES: readonly TransactionType[] = ['IMS', 'IMA', 'EXP', 'ACN', 'ACR'];
+
+export const REFERENCE_PREFIX = 'CLEX';
+
+export const isTransactionType = (value: unknown): value is TransactionType =>
+  TRANSACTION_TYPES.includes(value as TransactionType);
+
 // Helper type guard for import transactions
 export const isImportTransaction = (type: TransactionType): type is ImportTransactionType => {
   return type === 'IMS' || type === 'IMA';
@@ -30,6 +36,17 @@ export interface ReferenceNumberResponse {
   sequenceNumber: number;
 }
 
+// Result of checking a year's sequence for numbers that never made it onto a record
+export interface ReferenceSequenceAudit {
+  transactionType: TransactionType;
+  year: string;
+  lastValue: number;
+  issued: number;
+  missing: number[];
+  unattached: string[];
+  voided: Array<{ referenceNumber: string; reason: string | null; voidedAt: string }>;
+}
+
 // Generate a reference number with the format CLEX-XXXYY-0001
 export const generateReferenceNumber = async (config: ReferenceNumberConfig): Promise<string> => {
   const { prefix, transactionType, year, sequence } = config;
@@ -0,0 +1,184 @@
+// src/lib/utils/sof.ts
+import { differenceInMinutes, format, isValid, parseISO } from 'date-fns';
+import { isWorkflowStage, WORKFLOW_STAGES, type WorkflowStage } from './workflow';
+import { SOF_EVENT_CATEGORIES, type SofElapsed, type SofEventCategory, type SofEventInput } from '@/types/sof';
+import type { ShipmentAuditSnapshot } from '@/types/audit';
+import type { StatementOfFactEvent } from '@/types/import/workflow';
+
+// What reaching each stage means on the statement, and the milestone it marks
+const STAGE_EVENTS: Record<WorkflowStage, { label: string; category: SofEventCategory; description: string }> = {
+  CLIENT_DETAILS: { label: 'Client Details', category: 'STATUS', description: 'Shipment opened' },
+  DOCUMENT_COLLECTION: { label: 'Document Collection', category: 'STATUS', description: 'Document collection started' },
+  TAX_COMPUTATION: {
+    label: 'Tax/Duty Computation',
+    category: 'STATUS',
+    description: 'Documents complete; duties and taxes being computed'
+  },
+  READY_FOR_LODGEMENT: { label: 'Ready for E2M', category: 'STATUS', description: 'Entry ready for lodgement' },
+  LODGED: { label: 'Lodged', category: 'STATUS', description: 'Entry lodged in E2M' },
+  PAYMENT_COMPLETED: { label: 'Payment Completed', category: 'PAYMENT', description: 'Duties and taxes paid' },
+  PORT_RELEASE: { label: 'Port Release', category: 'RELEASE', description: 'Cargo released by the port' },
+  IN_TRANSIT: {
+    label: 'In Transit',
+    category: 'DELIVERY',
+    description: 'Cargo pulled out and in transit to the consignee'
+  },
+  DELIVERED: { label: 'Delivered', category: 'DELIVERY', description: 'Cargo delivered to the consignee' }
+};
+
+// Pairs of milestones the report times, in the order they are shown
+const ELAPSED_MILESTONES: Array<{ label: string; from: SofEventCategory; to: SofEventCategory }> = [
+  { label: 'Arrival to discharge', from: 'VESSEL_ARRIVAL', to: 'DISCHARGE' },
+  { label: 'Arrival to examination', from: 'VESSEL_ARRIVAL', to: 'EXAMINATION' },
+  { label: 'Payment to release', from: 'PAYMENT', to: 'RELEASE' },
+  { label: 'Arrival to release', from: 'VESSEL_ARRIVAL', to: 'RELEASE' },
+  { label: 'Release to delivery', from: 'RELEASE', to: 'DELIVERY' },
+  { label: 'Arrival to delivery', from: 'VESSEL_ARRIVAL', to: 'DELIVERY' }
+];
+
+export const isSofEventCategory = (value: unknown): value is SofEventCategory =>
+  SOF_EVENT_CATEGORIES.includes(value as SofEventCategory);
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+// Problems with a manual entry, empty when it can be saved
+export function validateSofEventInput(input: SofEventInput): string[] {
+  return [
+    ...(input.description.trim() ? [] : ['Description is required']),
+    ...(isSofEventCategory(input.category) ? [] : ['Unknown event category']),
+    ...(parseDate(input.timestamp) ? [] : ['Date and time are invalid'])
+  ];
+}
+
+const formatDateTime = (date: Date) => format(date, 'MMM dd, yyyy HH:mm');
+
+function deriveStatusEvent(before: string, after: string, at: string): SofEventInput | null {
+  if (before === after || !isWorkflowStage(after)) return null;
+
+  // A rollback is recorded but marks no milestone
+  if (isWorkflowStage(before) && WORKFLOW_STAGES.indexOf(after) < WORKFLOW_STAGES.indexOf(before)) {
+    return { category: 'STATUS', description: `Shipment returned to ${STAGE_EVENTS[after].label}`, timestamp: at };
+  }
+  const { category, description } = STAGE_EVENTS[after];
+  return { category, description, timestamp: at };
+}
+
+function deriveDocumentEvents(
+  before: ShipmentAuditSnapshot['documents'],
+  after: ShipmentAuditSnapshot['documents'],
+  at: string
+): SofEventInput[] {
+  return Object.entries(after).flatMap(([name, doc]) => {
+    const previous = before[name];
+    const events: SofEventInput[] = [];
+    if (doc.files > (previous?.files ?? 0)) {
+      events.push({
+        category: 'DOCUMENTS',
+        description: `${name} received${doc.status === 'final' ? ' (final)' : doc.status === 'draft' ? ' (draft)' : ''}`,
+        timestamp: at
+      });
+    }
+    const verified = doc.isVerified || doc.status === 'verified';
+    const wasVerified = Boolean(previous && (previous.isVerified || previous.status === 'verified'));
+    if (verified && !wasVerified) {
+      events.push({ category: 'DOCUMENTS', description: `${name} verified`, timestamp: at });
+    }
+    return events;
+  });
+}
+
+function deriveScheduleEvents(
+  before: ShipmentAuditSnapshot['shipmentDetails'],
+  after: ShipmentAuditSnapshot['shipmentDetails'],
+  at: string
+): SofEventInput[] {
+  const events: SofEventInput[] = [];
+
+  const eta = parseDate(after.eta);
+  if (eta && after.eta !== before.eta) {
+    const previous = parseDate(before.eta);
+    events.push({
+      category: 'SCHEDULE',
+      description: previous
+        ? `ETA revised from ${formatDateTime(previous)} to ${formatDateTime(eta)}`
+        : `ETA advised as ${formatDateTime(eta)}`,
+      timestamp: at
+    });
+  }
+
+  // The arrival itself is the fact, so it is stamped with the ATA rather than when it was entered
+  const ata = parseDate(after.ata);
+  if (ata && after.ata !== before.ata) {
+    const vessel = [after.vessel_name, after.voyage_number].filter(Boolean).join(' / ') || after.flight_number;
+    const description = [
+      parseDate(before.ata) ? 'Arrival corrected' : 'Arrived',
+      vessel && `(${vessel})`,
+      after.port_of_discharge && `at ${after.port_of_discharge}`
+    ].filter(Boolean).join(' ');
+    events.push({ category: 'VESSEL_ARRIVAL', description, timestamp: ata.toISOString() });
+  }
+
+  return events;
+}
+
+/**
+ * The Statement of Facts events a change to the shipment implies: stage
+ * transitions, documents received or verified, and ETA/ATA updates.
+ * Takes the same before/after snapshots as the audit log.
+ */
+export function deriveSofEvents(
+  before: ShipmentAuditSnapshot | null,
+  after: ShipmentAuditSnapshot | null,
+  at: Date
+): SofEventInput[] {
+  if (!before || !after) return [];
+  const timestamp = at.toISOString();
+
+  const status = deriveStatusEvent(before.status, after.status, timestamp);
+  return [
+    ...(status ? [status] : []),
+    ...deriveDocumentEvents(before.documents, after.documents, timestamp),
+    ...deriveScheduleEvents(before.shipmentDetails, after.shipmentDetails, timestamp)
+  ];
+}
+
+export const sortSofEvents = <T extends Pick<StatementOfFactEvent, 'timestamp'>>(events: T[]): T[] =>
+  [...events].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+/**
+ * Time between key milestones. Each milestone is the latest event in its
+ * category, so a corrected arrival or a release recorded again after a
+ * rollback replaces the earlier one. Pairs missing either end, or running
+ * backwards, are left out.
+ */
+export function computeSofElapsed(events: StatementOfFactEvent[]): SofElapsed[] {
+  const milestones = new Map<SofEventCategory, string>();
+  sortSofEvents(events).forEach(event => {
+    if (event.category) milestones.set(event.category, event.timestamp);
+  });
+
+  return ELAPSED_MILESTONES.flatMap(({ label, from, to }) => {
+    const fromAt = milestones.get(from);
+    const toAt = milestones.get(to);
+    if (!fromAt || !toAt) return [];
+    const minutes = differenceInMinutes(new Date(toAt), new Date(fromAt));
+    return minutes < 0 ? [] : [{ label, from, to, fromAt, toAt, minutes }];
+  });
+}
+
+// 3d 4h 05m
+export function formatElapsed(minutes: number): string {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const rest = minutes % 60;
+  const parts = [
+    ...(days ? [`${days}d`] : []),
+    ...(days || hours ? [`${hours}h`] : []),
+    `${String(rest).padStart(days || hours ? 2 : 1, '0')}m`
+  ];
+  return parts.join(' ');
+}
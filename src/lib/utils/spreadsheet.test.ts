@@ -0,0 +1,61 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { isSpreadsheetFile, readSpreadsheetRows, toCsv } from './spreadsheet';
+
+const csv = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+async function xlsx(rows: ExcelJS.CellValue[][]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.addWorksheet('Rates').addRows(rows);
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Uint8Array(buffer as ArrayBuffer).slice().buffer;
+}
+
+describe('readSpreadsheetRows', () => {
+  it('keys CSV rows by normalized header and trims values', async () => {
+    await expect(readSpreadsheetRows(csv('\uFEFFHS Code,MFN Rate (%)\n 0101.21 ,"5"\n')))
+      .resolves.toEqual([{ hs_code: '0101.21', mfn_rate: '5' }]);
+  });
+
+  it('drops blank rows unless asked to keep them', async () => {
+    const buffer = csv('name,tin\nAcme,123\n,\nGlobex,456\n');
+    await expect(readSpreadsheetRows(buffer)).resolves.toHaveLength(2);
+    await expect(readSpreadsheetRows(buffer, { keepBlankRows: true })).resolves.toEqual([
+      { name: 'Acme', tin: '123' },
+      { name: '', tin: '' },
+      { name: 'Globex', tin: '456' }
+    ]);
+  });
+
+  it('reads the first sheet of an XLSX workbook', async () => {
+    const buffer = await xlsx([
+      ['Currency', 'Rate', 'Week Start'],
+      ['USD', 56.12, new Date(Date.UTC(2024, 0, 1))],
+      ['EUR', { formula: 'B2*1.1', result: 61.73 }, new Date(Date.UTC(2024, 0, 1))]
+    ]);
+    await expect(readSpreadsheetRows(buffer)).resolves.toEqual([
+      { currency: 'USD', rate: '56.12', week_start: '2024-01-01' },
+      { currency: 'EUR', rate: '61.73', week_start: '2024-01-01' }
+    ]);
+  });
+
+  it('refuses legacy XLS files', async () => {
+    const buffer = new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).buffer;
+    await expect(readSpreadsheetRows(buffer)).rejects.toThrow('Legacy XLS files are not supported');
+  });
+});
+
+describe('isSpreadsheetFile', () => {
+  it('accepts CSV and XLSX only', () => {
+    expect(isSpreadsheetFile('rates.CSV')).toBe(true);
+    expect(isSpreadsheetFile('rates.xlsx')).toBe(true);
+    expect(isSpreadsheetFile('rates.xls')).toBe(false);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes values that need it', () => {
+    expect(toCsv([{ Row: 2, Errors: 'Missing TIN; Invalid "email"' }]))
+      .toBe('Row,Errors\r\n2,"Missing TIN; Invalid ""email"""');
+  });
+});
@@ -0,0 +1,88 @@
+// src/lib/utils/spreadsheet.ts
+import Papa from 'papaparse';
+import type { CellValue } from 'exceljs';
+
+export type SpreadsheetRow = Record<string, string>;
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'] as const;
+
+// "MFN Rate (%)" -> "mfn_rate"
+export const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const isSpreadsheetFile = (fileName: string) =>
+  SPREADSHEET_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+// XLSX files are zip archives; legacy XLS files are OLE compound documents
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+// Dates come back as ISO days, formulas as their cached result
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('result' in value) return cellText(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return String(value.text);
+  return '';
+}
+
+async function readWorkbookTable(buffer: ArrayBuffer): Promise<string[][]> {
+  // Loaded on demand so client bundles that only need toCsv leave it out
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      cells.push(cellText(row.getCell(column).value));
+    }
+    table.push(cells);
+  }
+  return table;
+}
+
+function readCsvTable(buffer: ArrayBuffer): string[][] {
+  const text = new TextDecoder('utf-8').decode(buffer);
+  return Papa.parse<string[]>(text, { skipEmptyLines: false }).data;
+}
+
+/**
+ * Reads the first sheet of a CSV/XLSX file into rows keyed by normalized header.
+ * Blank lines are dropped unless `keepBlankRows` is set, which keeps each
+ * row's index in line with its row number in the file.
+ */
+export async function readSpreadsheetRows(
+  buffer: ArrayBuffer,
+  options: { keepBlankRows?: boolean } = {}
+): Promise<SpreadsheetRow[]> {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4));
+  if (startsWith(bytes, OLE_SIGNATURE)) {
+    throw new Error('Legacy XLS files are not supported; save the file as XLSX or CSV');
+  }
+
+  const table = startsWith(bytes, ZIP_SIGNATURE) ? await readWorkbookTable(buffer) : readCsvTable(buffer);
+  const [header = [], ...body] = table;
+  const keys = header.map(normalizeHeader);
+
+  // A trailing newline is not a blank row
+  while (body.length && body[body.length - 1].every(cell => !cell.trim())) body.pop();
+
+  return body
+    .map(cells => Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? '').trim()])))
+    .filter(row => options.keepBlankRows || Object.values(row).some(Boolean));
+}
+
+// Renders rows back to CSV, e.g. for downloadable error reports
+export function toCsv(rows: Array<Record<string, string | number>>): string {
+  return Papa.unparse(rows);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { formatTin, getTinVariants, isValidTin, normalizeTin } from './tin';
+
+describe('isValidTin', () => {
+  it('takes nine digits with an optional three- to five-digit branch code', () => {
+    expect(isValidTin('123-456-789')).toBe(true);
+    expect(isValidTin('123 456 789 000')).toBe(true);
+    expect(isValidTin('123-456-789-00001')).toBe(true);
+    expect(isValidTin('123-456-78')).toBe(false);
+    expect(isValidTin('123-456-789-0')).toBe(false);
+    expect(isValidTin('123-456-789-000001')).toBe(false);
+  });
+});
+
+describe('normalizeTin', () => {
+  it('fills in the head-office branch for the nine-digit form', () => {
+    expect(normalizeTin('123-456-789')).toBe('123456789000');
+    expect(normalizeTin('123456789')).toBe(normalizeTin('123-456-789-000'));
+  });
+
+  it('keeps other branch codes as written', () => {
+    expect(normalizeTin('123-456-789-001')).toBe('123456789001');
+    expect(normalizeTin('123-456-789-00001')).toBe('12345678900001');
+  });
+
+  it('does not treat a branch as the head office', () => {
+    expect(normalizeTin('123-456-789-001')).not.toBe(normalizeTin('123-456-789'));
+    expect(normalizeTin('123-456-789-00000')).not.toBe(normalizeTin('123-456-789'));
+  });
+});
+
+describe('formatTin', () => {
+  it('groups the digits as TINs are stored', () => {
+    expect(formatTin('123456789')).toBe('123-456-789-000');
+    expect(formatTin('12345678900001')).toBe('123-456-789-00001');
+  });
+});
+
+describe('getTinVariants', () => {
+  it('lists every way a head-office TIN may have been keyed in', () => {
+    expect(getTinVariants(' 123-456-789 ')).toEqual(['123-456-789', '123456789000', '123-456-789-000', '123456789']);
+    expect(getTinVariants('123456789000')).toEqual(['123456789000', '123-456-789-000', '123456789', '123-456-789']);
+  });
+
+  it('lists only the digit and stored forms of a branch TIN', () => {
+    expect(getTinVariants('123-456-789-00001')).toEqual(['123-456-789-00001', '12345678900001']);
+    expect(getTinVariants('123456789001')).toEqual(['123456789001', '123-456-789-001']);
+  });
+});
@@ -0,0 +1,31 @@
+// src/lib/utils/tin.ts
+
+// Nine digits, then a branch code of three to five digits; head offices may omit it
+const TIN_PATTERN = /^\d{9}(\d{3,5})?$/;
+
+const HEAD_OFFICE_BRANCH = '000';
+
+export const isValidTin = (value: string) => TIN_PATTERN.test((value || '').replace(/[\s-]/g, ''));
+
+// Digits only, with the head-office branch filled in, so "123-456-789" and "123456789000" compare equal
+export const normalizeTin = (value: string) => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length === 9 ? `${digits}${HEAD_OFFICE_BRANCH}` : digits;
+};
+
+// "123456789000" -> "123-456-789-000", the form TINs are stored in
+export const formatTin = (value: string) => {
+  const digits = normalizeTin(value);
+  return [digits.slice(0, 3), digits.slice(3, 6), digits.slice(6, 9), digits.slice(9)].filter(Boolean).join('-');
+};
+
+// Ways the same TIN may already have been keyed in, for exact-match lookups
+export const getTinVariants = (value: string) => {
+  const digits = normalizeTin(value);
+  const variants = [value.trim(), digits, formatTin(digits)];
+  if (digits.endsWith(HEAD_OFFICE_BRANCH) && digits.length === 12) {
+    const base = digits.slice(0, 9);
+    variants.push(base, formatTin(base).replace(/-000$/, ''));
+  }
+  return Array.from(new Set(variants.filter(Boolean)));
+};
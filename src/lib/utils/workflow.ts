@@ -0,0 +1,191 @@
+// src/lib/utils/workflow.ts
+import { USER_ROLES, type UserRole } from '@/types/auth';
+import type { ShipmentData, WorkflowStageStatus } from '@/types/import/workflow';
+
+// Import clearance stages in the order a shipment moves through them
+export const WORKFLOW_STAGES = [
+  'CLIENT_DETAILS',
+  'DOCUMENT_COLLECTION',
+  'TAX_COMPUTATION',
+  'READY_FOR_LODGEMENT',
+  'LODGED',
+  'PAYMENT_COMPLETED',
+  'PORT_RELEASE',
+  'IN_TRANSIT',
+  'DELIVERED'
+] as const;
+
+export type WorkflowStage = typeof WORKFLOW_STAGES[number];
+
+export const isWorkflowStage = (value: unknown): value is WorkflowStage =>
+  WORKFLOW_STAGES.includes(value as WorkflowStage);
+
+// Roles allowed to move a shipment back to an earlier stage
+export const ROLLBACK_ROLES: readonly UserRole[] = [USER_ROLES.SUPERADMIN];
+
+export const FINAL_SAD_DOCUMENT = 'Final SAD';
+
+// A guard returns the requirements the shipment does not yet meet
+export interface WorkflowTransition<T, S extends string = string> {
+  from: S;
+  to: S;
+  guard: (shipment: T) => string[];
+}
+
+// Stage order plus the forward transitions between them
+export interface WorkflowDefinition<T, S extends string = string> {
+  stages: readonly S[];
+  transitions: readonly WorkflowTransition<T, S>[];
+}
+
+// Shared by the import and export guards
+export const hasDocumentFiles = (
+  shipment: Pick<ShipmentData, 'documents'>,
+  name: string,
+  statuses: string[] = ['draft', 'final', 'verified']
+) =>
+  shipment.documents.some(doc =>
+    doc.name === name && statuses.includes(doc.status) && (doc.files?.length ?? 0) > 0
+  );
+
+const hasComputation = (shipment: ShipmentData) =>
+  Boolean(shipment.computations && shipment.computations.total_payable != null);
+
+export const WORKFLOW_TRANSITIONS: readonly WorkflowTransition<ShipmentData, WorkflowStage>[] = [
+  {
+    from: 'CLIENT_DETAILS',
+    to: 'DOCUMENT_COLLECTION',
+    guard: shipment => [
+      ...(shipment.consignee?.name ? [] : ['Consignee is required']),
+      ...(shipment.exporter?.name ? [] : ['Exporter is required'])
+    ]
+  },
+  {
+    from: 'DOCUMENT_COLLECTION',
+    to: 'TAX_COMPUTATION',
+    guard: shipment => [
+      ...shipment.documents
+        .filter(doc => doc.isRequired && !(doc.files?.length))
+        .map(doc => `${doc.name} has not been uploaded`),
+      ...(shipment.cargo?.length ? [] : ['At least one cargo line is required'])
+    ]
+  },
+  {
+    from: 'TAX_COMPUTATION',
+    to: 'READY_FOR_LODGEMENT',
+    guard: shipment => hasComputation(shipment) ? [] : ['Duties and taxes have not been computed']
+  },
+  {
+    from: 'READY_FOR_LODGEMENT',
+    to: 'LODGED',
+    guard: shipment => hasDocumentFiles(shipment, FINAL_SAD_DOCUMENT, ['final', 'verified'])
+      ? []
+      : [`A final ${FINAL_SAD_DOCUMENT} must be uploaded`]
+  },
+  {
+    from: 'LODGED',
+    to: 'PAYMENT_COMPLETED',
+    guard: shipment => hasComputation(shipment) ? [] : ['Duties and taxes have not been computed']
+  },
+  {
+    from: 'PAYMENT_COMPLETED',
+    to: 'PORT_RELEASE',
+    guard: shipment => shipment.shipmentDetails.ata ? [] : ['Actual time of arrival is required']
+  },
+  {
+    from: 'PORT_RELEASE',
+    to: 'IN_TRANSIT',
+    guard: () => []
+  },
+  {
+    from: 'IN_TRANSIT',
+    to: 'DELIVERED',
+    guard: () => []
+  }
+];
+
+export const IMPORT_WORKFLOW: WorkflowDefinition<ShipmentData, WorkflowStage> = {
+  stages: WORKFLOW_STAGES,
+  transitions: WORKFLOW_TRANSITIONS
+};
+
+export const getNextStage = <S extends string>(
+  definition: { transitions: readonly { from: S; to: S }[] },
+  stage: S
+): S | null =>
+  definition.transitions.find(transition => transition.from === stage)?.to ?? null;
+
+export type TransitionCheck =
+  | { allowed: true; kind: 'advance' | 'rollback' }
+  | { allowed: false; reasons: string[] };
+
+/**
+ * Decides whether `shipment` may move to `to` under `definition`. Moving
+ * forward is only ever one stage at a time and must satisfy that transition's
+ * guard; moving back to any earlier stage needs a rollback role and a reason.
+ */
+export function checkTransition<T extends { status: string }>(
+  definition: WorkflowDefinition<T>,
+  shipment: T,
+  to: string,
+  role: UserRole,
+  reason?: string
+): TransitionCheck {
+  const from = shipment.status;
+  const fromIndex = definition.stages.indexOf(from);
+  const toIndex = definition.stages.indexOf(to);
+
+  if (fromIndex === -1) {
+    return { allowed: false, reasons: [`Unknown current status ${from}`] };
+  }
+  if (toIndex === -1) {
+    return { allowed: false, reasons: [`Unknown status ${to}`] };
+  }
+
+  if (toIndex === fromIndex) {
+    return { allowed: false, reasons: [`Shipment is already at ${to}`] };
+  }
+
+  if (toIndex < fromIndex) {
+    if (!ROLLBACK_ROLES.includes(role)) {
+      return { allowed: false, reasons: ['Only administrators can roll back a shipment'] };
+    }
+    if (!reason?.trim()) {
+      return { allowed: false, reasons: ['A reason is required to roll back a shipment'] };
+    }
+    return { allowed: true, kind: 'rollback' };
+  }
+
+  const transition = definition.transitions.find(t => t.from === from && t.to === to);
+  if (!transition) {
+    return { allowed: false, reasons: [`Cannot move from ${from} to ${to}`] };
+  }
+
+  const unmet = transition.guard(shipment);
+  return unmet.length ? { allowed: false, reasons: unmet } : { allowed: true, kind: 'advance' };
+}
+
+// Latest recorded status of a stage; rollbacks append newer entries
+export function getLatestStageStatus(
+  shipment: Pick<ShipmentData, 'timeline'>,
+  stage: string
+): WorkflowStageStatus | null {
+  const entries = shipment.timeline.filter(entry => entry.stage === stage);
+  return entries.length ? entries[entries.length - 1].status : null;
+}
+
+/**
+ * What still stands between a delivered shipment and closing its file: every
+ * required document in its final form, the duty computation on record and
+ * the last stage reached.
+ */
+export function checkCloseFile(shipment: ShipmentData): string[] {
+  const finalStage = WORKFLOW_STAGES[WORKFLOW_STAGES.length - 1];
+  return [
+    ...(shipment.status === finalStage ? [] : [`Shipment must be ${finalStage} before the file is closed`]),
+    ...shipment.documents
+      .filter(doc => doc.isRequired && !hasDocumentFiles(shipment, doc.name, ['final', 'verified']))
+      .map(doc => `${doc.name} is not final`),
+    ...(hasComputation(shipment) ? [] : ['Duties and taxes have not been computed'])
+  ];
+}
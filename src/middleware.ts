@@ -0,0 +1,56 @@
+// src/middleware.ts
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE, isAccessExpired, verifySessionToken } from '@/lib/session-token';
+import { canAccessRoute, getDashboardPath } from '@/lib/utils/permissions';
+
+const AUTH_PAGES = ['/sign-in', '/sign-up'];
+
+const isNavigation = (request: NextRequest) =>
+  (request.method === 'GET' || request.method === 'HEAD') && !request.headers.has('next-action');
+
+/**
+ * Runs on the edge, so it only checks the signed cookie. Revocation is
+ * enforced on the server: once a token's access window closes, the next page
+ * navigation detours through the refresh route, which checks the session
+ * record and rotates the token.
+ */
+export async function middleware(request: NextRequest) {
+  const path = request.nextUrl.pathname;
+  const isAuthPage = AUTH_PAGES.includes(path);
+  const payload = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!payload) {
+    if (isAuthPage) return NextResponse.next();
+
+    const response = NextResponse.redirect(new URL('/sign-in', request.url));
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  // Only navigations can detour: a redirected server action or form POST
+  // would be replayed against the refresh route. Those go through, and
+  // validateSession checks the session record on the server regardless
+  if (isAccessExpired(payload) && isNavigation(request)) {
+    const refreshUrl = new URL('/api/auth/refresh', request.url);
+    refreshUrl.searchParams.set('next', path + request.nextUrl.search);
+    return NextResponse.redirect(refreshUrl);
+  }
+
+  // Signed-in users have no business on the auth pages, nor outside their role's area
+  if (isAuthPage || !canAccessRoute({ role: payload.role }, path)) {
+    return NextResponse.redirect(new URL(getDashboardPath(payload.role), request.url));
+  }
+
+  return NextResponse.next();
+}
+
+// Configure which routes use the middleware
+export const config = {
+  matcher: [
+    '/admin/:path*',
+    '/client/:path*',
+    '/sign-in',
+    '/sign-up'
+  ]
+};
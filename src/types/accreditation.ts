@@ -0,0 +1,44 @@
+// src/types/accreditation.ts
+import type { AccreditationKind, AccreditationStatus } from '@/lib/constants/accreditation';
+import type { AccreditationTransactionType } from '@/lib/utils/reference-number';
+
+export interface AccreditationRequirementData {
+  id: string;
+  name: string;
+  isRequired: boolean;
+  isSubmitted: boolean;
+  fileUrl: string | null;
+  submittedAt: string | null;
+}
+
+export interface AccreditationCaseData {
+  id: string;
+  referenceNumber: string;
+  transactionType: AccreditationTransactionType;
+  kind: AccreditationKind;
+  status: AccreditationStatus;
+  consignee: {
+    id: string;
+    name: string;
+    tin: string;
+  };
+  accreditationNumber: string | null;
+  submittedAt: string | null;
+  approvedAt: string | null;
+  expiryDate: string | null;
+  remarks: string | null;
+  requirements: AccreditationRequirementData[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A consignee's accreditation as of today, from its latest approved case
+export interface AccreditationStanding {
+  state: 'none' | 'active' | 'expiring' | 'expired';
+  caseId?: string;
+  referenceNumber?: string;
+  expiryDate?: string;
+  daysRemaining?: number;
+  // An open renewal that would replace the current accreditation
+  pendingCaseId?: string;
+}
@@ -0,0 +1,126 @@
+// src/types/audit.ts
+import type {
+  ConsigneeDetails,
+  DocumentStatus,
+  ExporterDetails,
+  ShipmentDetails
+} from './import/workflow';
+
+export const AUDIT_ENTITY_TYPES = {
+  SHIPMENT: 'Shipment',
+  CONSIGNEE: 'Consignee',
+  EXPORTER: 'Exporter',
+  USER: 'User'
+} as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[keyof typeof AUDIT_ENTITY_TYPES];
+
+// What each recorded action did, as shown in the history views
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'shipment.create': 'Shipment created',
+  'shipment.update': 'Details updated',
+  'shipment.status': 'Status changed',
+  'shipment.document_upload': 'Document uploaded',
+  'shipment.link_client': 'Client linked',
+  'shipment.compute_duties': 'Duties computed',
+  'shipment.assign': 'Assignee changed',
+  'shipment.close': 'File closed',
+  'shipment.unlock': 'File unlocked',
+  'shipment.e2m_export': 'Lodged in E2M',
+  'shipment.e2m_response': 'E2M response imported',
+  'shipment.client_merge': 'Client merged',
+  'shipment.container_moves': 'Container movements recorded',
+  'shipment.sof_add': 'SOF event added',
+  'shipment.sof_delete': 'SOF event deleted',
+  'consignee.create': 'Consignee created',
+  'consignee.update': 'Consignee updated',
+  'consignee.document_add': 'Document added',
+  'consignee.import': 'Consignee imported',
+  'consignee.deactivate': 'Consignee deactivated',
+  'consignee.reactivate': 'Consignee reactivated',
+  'consignee.archive': 'Consignee archived',
+  'consignee.delete': 'Consignee deleted',
+  'consignee.merge': 'Merged into another consignee',
+  'consignee.merge_in': 'Duplicate merged in',
+  'exporter.create': 'Exporter created',
+  'exporter.import': 'Exporter imported',
+  'exporter.update': 'Exporter updated',
+  'exporter.deactivate': 'Exporter deactivated',
+  'exporter.reactivate': 'Exporter reactivated',
+  'exporter.archive': 'Exporter archived',
+  'exporter.delete': 'Exporter deleted',
+  'exporter.merge': 'Merged into another exporter',
+  'exporter.merge_in': 'Duplicate merged in',
+  'user.sign_up': 'Account registered',
+  'user.create': 'Account created',
+  'user.sign_in': 'Signed in',
+  'user.sign_out': 'Signed out',
+  'user.sign_out_all': 'Signed out of all devices'
+};
+
+export type AuditValue = string | number | boolean | null;
+
+// One field that changed, addressed by its path in the snapshot (e.g. `cargo[0].invoiceValue`)
+export interface AuditChange {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export interface AuditEventData {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  actor: { id: string; name: string } | null;
+  ipAddress: string | null;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+// The parts of a shipment that are declared or decided; timeline and notes keep their own history
+export interface ShipmentAuditSnapshot {
+  referenceNumber: string;
+  status: string;
+  isLocked: boolean;
+  assigneeId: string | null;
+  consignee: Omit<ConsigneeDetails, 'id'> | null;
+  exporter: Omit<ExporterDetails, 'id'> | null;
+  shipmentDetails: Partial<ShipmentDetails>;
+  documents: Record<string, { status: DocumentStatus; isVerified: boolean; isRequired: boolean; files: number }>;
+  cargo: Array<{
+    description: string;
+    invoiceValue: number;
+    currency: string | null;
+    grossWeight: number;
+    netWeight: number;
+    quantity: number;
+    hsCode: string;
+  }>;
+  // Absent from snapshots taken before containers were tracked
+  containers?: Array<{
+    number: string;
+    sizeType: string;
+    sealNumber: string;
+    blNumber: string;
+    cargoLines: number;
+    pulledOutAt?: string | null;
+    emptyReturnedAt?: string | null;
+  }>;
+  computations: {
+    dutiable_value: number;
+    customs_duty: number;
+    vat: number;
+    other_charges: number;
+    total_payable: number;
+    currency: string | null;
+    exchange_rate: number | null;
+  } | null;
+}
+
+// A shipment as the audit log last recorded it at or before `asOf`
+export interface ShipmentAsOf {
+  asOf: string;
+  recordedAt: string;
+  snapshot: ShipmentAuditSnapshot;
+}
@@ -15,6 +15,10 @@ export const ROLE_PERMISSIONS = {
     canViewAll: true,
     canEditAll: true,
     canDeleteAll: true,
+    canLockAll: true,
+    canUnlockAll: true,
+    canComputeDutiesAll: true,
+    canUploadAll: true,
     canCreate: true
   },
   [USER_ROLES.BROKER]: {
@@ -23,14 +27,23 @@ export const ROLE_PERMISSIONS = {
     canViewOwn: true,
     canEditOwn: true,
     canDeleteOwn: true,
+    canLockOwn: true,
+    canUnlockOwn: false,
+    canComputeDutiesOwn: true,
+    canUploadOwn: true,
     canCreate: true
   },
   [USER_ROLES.CLIENT]: {
     canAccessAdmin: false,
     canAccessClient: true,
     canViewOwn: true,
-    canEditOwn: true,
+    // Clients only read; their one write is uploading into a requested document slot
+    canEditOwn: false,
     canDeleteOwn: false,
+    canLockOwn: false,
+    canUnlockOwn: false,
+    canComputeDutiesOwn: false,
+    canUploadOwn: true,
     canCreate: false
   }
 } as const;
@@ -65,4 +78,28 @@ export interface ResourcePermissions {
   canEdit: boolean;
   canDelete: boolean;
   canCreate: boolean;
-}
\ No newline at end of file
+}
+
+// What a server action asks to do with a resource
+export const ACTION_PERMISSIONS = {
+  VIEW: 'view',
+  CREATE: 'create',
+  EDIT: 'edit',
+  DELETE: 'delete',
+  LOCK: 'lock',
+  UNLOCK: 'unlock',
+  COMPUTE_DUTIES: 'computeDuties',
+  UPLOAD: 'upload'
+} as const;
+
+export type ActionPermission = typeof ACTION_PERMISSIONS[keyof typeof ACTION_PERMISSIONS];
+
+// Whether a role holds a permission over any resource, only its own, or not at all
+export type PermissionGrant = 'any' | 'own' | null;
+
+// Returned by server actions in place of their usual failure when the guard refuses
+export interface AuthorizationFailure {
+  success: false;
+  error: string;
+  status: 401 | 403;
+}
@@ -0,0 +1,38 @@
+// src/types/client-import.ts
+
+export type ClientImportType = 'consignee' | 'exporter';
+
+export type ClientImportField =
+  | 'name'
+  | 'registeredName'
+  | 'businessAddress'
+  | 'tin'
+  | 'brn'
+  | 'contactPerson'
+  | 'contactNumber'
+  | 'email';
+
+// Which (normalized) column of the file feeds each field
+export type ClientColumnMapping = Partial<Record<ClientImportField, string>>;
+
+// `created` and `failed` only appear once the import has been committed
+export type ClientImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created' | 'failed';
+
+export interface ClientImportRow {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  values: Partial<Record<ClientImportField, string>>;
+  status: ClientImportRowStatus;
+  errors: string[];
+}
+
+export interface ClientImportPreview {
+  type: ClientImportType;
+  headers: string[];
+  mapping: ClientColumnMapping;
+  rows: ClientImportRow[];
+}
+
+export interface ClientImportResult extends ClientImportPreview {
+  created: number;
+}
@@ -0,0 +1,25 @@
+// src/types/client-portal.ts
+
+// A shipment as listed in the client portal
+export interface ClientShipmentListItem {
+  id: string;
+  referenceNumber: string;
+  consignee: string;
+  type: 'sea' | 'air';
+  blNumber?: string;
+  awbNumber?: string;
+  status: string;
+  eta: string | null;
+  completionDate: string | null;
+  lastUpdate: string;
+  // Required documents the broker is still waiting on
+  pendingDocuments: number;
+}
+
+// A client user allowed to see a consignee's shipments
+export interface PortalUser {
+  id: string;
+  name: string;
+  email: string;
+  grantedAt: string;
+}
@@ -0,0 +1,13 @@
+// src/types/clients.ts
+
+export type ClientType = 'consignee' | 'exporter';
+
+// What a merge moved from the duplicate onto the record that was kept
+export interface ClientMergeResult {
+  canonicalId: string;
+  shipments: number;
+  documents: number;
+  files: number;
+  accreditations: number;
+  representatives: number;
+}
@@ -0,0 +1,106 @@
+// src/types/demurrage.ts
+
+// Demurrage runs while the box sits at the port after discharge; detention
+// while it is out with the consignee until it is returned empty
+export const FREE_TIME_CHARGE_TYPES = ['DEMURRAGE', 'DETENTION'] as const;
+
+export type FreeTimeChargeType = typeof FREE_TIME_CHARGE_TYPES[number];
+
+export const FREE_TIME_CHARGE_LABELS: Record<FreeTimeChargeType, string> = {
+  DEMURRAGE: 'Demurrage',
+  DETENTION: 'Detention'
+};
+
+// Container length a rule applies to; '' covers every size without a rule of its own
+export const CONTAINER_SIZE_CLASSES = ['', '20', '40', '45'] as const;
+
+export type ContainerSizeClass = typeof CONTAINER_SIZE_CLASSES[number];
+
+// Charged for each day from `fromDay` (day 1 is the day the clock starts) until the next tier begins
+export interface FreeTimeTier {
+  fromDay: number;
+  ratePerDay: number;
+}
+
+export interface FreeTimeRuleInput {
+  shippingLine: string;
+  chargeType: FreeTimeChargeType;
+  sizeClass: ContainerSizeClass;
+  freeDays: number;
+  currency: string;
+  tiers: FreeTimeTier[];
+}
+
+export interface FreeTimeRuleEntry extends FreeTimeRuleInput {
+  id: string;
+  updatedAt: string;
+}
+
+/**
+ * `no_rule` when the shipping line has no tariff for the charge,
+ * `not_started` before the clock starts, `running` while it counts and
+ * `stopped` once the box has moved on and the charge is final.
+ */
+export type FreeTimeStatus = 'no_rule' | 'not_started' | 'running' | 'stopped';
+
+export interface FreeTimeCharge {
+  chargeType: FreeTimeChargeType;
+  status: FreeTimeStatus;
+  startedAt: string | null;
+  endedAt: string | null;
+  freeDays: number | null;
+  // Last day without charge
+  freeUntil: string | null;
+  daysUsed: number;
+  // Negative once free time has run out
+  daysLeft: number | null;
+  cost: number;
+  currency: string | null;
+}
+
+export interface ContainerFreeTime {
+  containerId: string;
+  number: string;
+  sizeType: string;
+  pulledOutAt: string | null;
+  // False when the pull-out date comes from the workflow rather than the container
+  pullOutRecorded: boolean;
+  emptyReturnedAt: string | null;
+  demurrage: FreeTimeCharge;
+  detention: FreeTimeCharge;
+}
+
+export interface FreeTimeTotal {
+  currency: string;
+  amount: number;
+}
+
+export interface ShipmentFreeTime {
+  shippingLine: string;
+  dischargedAt: string | null;
+  // When the workflow moved the shipment into transit; containers without a date of their own use it
+  workflowPulledOutAt: string | null;
+  containers: ContainerFreeTime[];
+  totals: FreeTimeTotal[];
+  // Fewest days left on any charge still running
+  daysLeft: number | null;
+  asOf: string;
+}
+
+// A shipment whose tightest running charge is within the warning window or already over
+export interface FreeTimeAlert {
+  shipmentId: string;
+  referenceNumber: string;
+  consignee: string;
+  shippingLine: string;
+  containerNumber: string;
+  chargeType: FreeTimeChargeType;
+  daysLeft: number;
+  freeUntil: string;
+  totals: FreeTimeTotal[];
+}
+
+export interface ContainerMovesInput {
+  pulledOutAt: string | null;
+  emptyReturnedAt: string | null;
+}
@@ -0,0 +1,63 @@
+// src/types/documents.ts
+import type { ShipmentData } from './import/workflow';
+import type { SadDeclaration } from './sad';
+
+export const DOCUMENT_KINDS = ['statement-of-facts', 'duty-computation', 'shipment-summary', 'sad'] as const;
+
+export type DocumentKind = typeof DOCUMENT_KINDS[number];
+
+export const DOCUMENT_LABELS: Record<DocumentKind, string> = {
+  'statement-of-facts': 'Statement of Facts',
+  'duty-computation': 'Duty Computation Sheet',
+  'shipment-summary': 'Shipment Summary',
+  sad: 'Import Entry Declaration (SAD)'
+};
+
+// Company details printed at the top of every page, from the organization's settings
+export interface Letterhead {
+  name: string;
+  address: string;
+  contact: string;
+  logo: { data: Uint8Array; format: 'PNG' | 'JPEG' } | null;
+}
+
+export interface LetterheadSettings {
+  name: string;
+  address: string;
+  contact: string;
+  logoUrl: string | null;
+}
+
+/**
+ * What a template lays out; the renderer owns fonts, spacing, letterhead
+ * and page furniture so every document looks the same.
+ */
+export type DocumentBlock =
+  | { type: 'fields'; title?: string; rows: Array<[label: string, value: string]> }
+  | {
+      type: 'table';
+      title?: string;
+      head: string[];
+      body: string[][];
+      // Columns whose values are amounts, aligned right
+      numericColumns?: number[];
+      // Shown instead of an empty table
+      emptyText?: string;
+    }
+  | { type: 'text'; text: string };
+
+export interface DocumentDefinition {
+  title: string;
+  subtitle?: string;
+  fileName: string;
+  blocks: DocumentBlock[];
+}
+
+// Builds a document from a shipment; the SAD declaration is null for shipments that aren't imports
+export type DocumentTemplate = (shipment: ShipmentData, declaration: SadDeclaration | null) => DocumentDefinition;
+
+export interface RenderContext {
+  letterhead: Letterhead;
+  // Printed in the footer and stamped as the PDF's creation date; fixed inputs give identical bytes
+  generatedAt: Date;
+}
@@ -0,0 +1,73 @@
+// src/types/e2m.ts
+
+export const E2M_FORMATS = ['XML', 'FLAT'] as const;
+export type E2mFormat = typeof E2M_FORMATS[number];
+
+// Responses in the order customs issues them
+export const E2M_RESPONSE_TYPES = ['ENTRY', 'ASSESSMENT', 'PAYMENT', 'RELEASE'] as const;
+export type E2mResponseType = typeof E2M_RESPONSE_TYPES[number];
+
+export const E2M_RESPONSE_LABELS: Record<E2mResponseType, string> = {
+  ENTRY: 'Entry number assigned',
+  ASSESSMENT: 'Assessment',
+  PAYMENT: 'Payment confirmed',
+  RELEASE: 'Release'
+};
+
+// The stage each response moves an import to; an assessment alone moves nothing
+export const E2M_RESPONSE_STAGES: Record<E2mResponseType, string | null> = {
+  ENTRY: 'LODGED',
+  ASSESSMENT: null,
+  PAYMENT: 'PAYMENT_COMPLETED',
+  RELEASE: 'PORT_RELEASE'
+};
+
+export type E2mDirection = 'OUTBOUND' | 'INBOUND';
+
+// A response file as parsed, before it is matched to a shipment
+export interface E2mResponse {
+  type: E2mResponseType;
+  referenceNumber: string;
+  issuedAt: string;
+  entryNumber: string;
+  assessedAmount: number | null;
+  paymentReference: string | null;
+  releaseReference: string | null;
+}
+
+export interface E2mMessageData {
+  id: string;
+  direction: E2mDirection;
+  type: string;
+  format: E2mFormat;
+  fileName: string;
+  entryNumber: string | null;
+  assessedAmount: number | null;
+  paymentReference: string | null;
+  releaseReference: string | null;
+  actor: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+// Where a shipment stands in E2M, from the files exchanged so far
+export interface E2mLodgementData {
+  entryNumber: string | null;
+  assessedAmount: number | null;
+  paymentReference: string | null;
+  releaseReference: string | null;
+  messages: E2mMessageData[];
+  // Whether the local stand-in may issue sample responses
+  simulatorEnabled: boolean;
+}
+
+export interface E2mExportFile {
+  fileName: string;
+  content: string;
+  contentType: string;
+}
+
+export interface E2mResponseResult {
+  lodgement: E2mLodgementData;
+  // Why the shipment did not advance as far as the response implies
+  pending: string[];
+}
@@ -0,0 +1,19 @@
+// src/types/exchange-rate.ts
+
+// Pesos per one unit of `currency`, in force from `weekStart`
+export interface ExchangeRateEntry {
+  currency: string;
+  rate: number;
+  weekStart: string;
+  source: string | null;
+}
+
+export interface ExchangeRateImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ExchangeRateImportSummary {
+  rates: number;
+  errors: ExchangeRateImportRowError[];
+}
@@ -0,0 +1,72 @@
+// src/types/export.ts
+import type {
+  CargoItem,
+  ConsigneeDetails,
+  ExporterDetails,
+  ShipmentData
+} from '@/types/import/workflow';
+
+export type ExportMode = 'sea' | 'air';
+
+/**
+ * Export shipments are stored alongside imports with the parties reversed:
+ * the Philippine shipper is a Consignee record and the overseas buyer is an
+ * Exporter record.
+ */
+export type ExportShipper = ConsigneeDetails;
+export type ExportBuyer = ExporterDetails;
+
+export interface ExportShipmentDetails {
+  mode: ExportMode;
+  booking_number?: string;
+  bl_number?: string;
+  awb_number?: string;
+  vessel_name?: string;
+  voyage_number?: string;
+  flight_number?: string;
+  container_number?: string;
+  port_of_loading: string;
+  port_of_destination: string;
+  country_of_destination: string;
+  etd?: string;
+  atd?: string;
+  terms_of_delivery?: string;
+  currency?: string;
+  description_of_goods?: string;
+  // Export declaration lodged with BOC
+  ed_number?: string;
+  ed_date?: string;
+  // Certificate of Origin
+  co_required?: boolean;
+  co_form?: string;
+  co_number?: string;
+  co_issued_date?: string;
+}
+
+export interface ExportShipmentData extends Omit<ShipmentData, 'consignee' | 'exporter' | 'shipmentDetails'> {
+  shipper: ExportShipper | null;
+  buyer: ExportBuyer | null;
+  shipmentDetails: ExportShipmentDetails;
+}
+
+export interface ExportShipmentListItem {
+  id: string;
+  referenceNumber: string;
+  shipper: string;
+  buyer: string;
+  mode: ExportMode;
+  portOfDestination: string;
+  etd: string | null;
+  status: string;
+  completionDate: string | null;
+  lastUpdate: string;
+  userId: string;
+  isLocked: boolean;
+}
+
+export interface NewExportInput {
+  shipper: ExportShipper;
+  buyer: ExportBuyer;
+  shipmentDetails: ExportShipmentDetails;
+  cargo: CargoItem[];
+}
@@ -1,6 +1,7 @@
 // src/types/import/index.ts
 import { LucideIcon } from 'lucide-react';
 import { type ImportTransactionType } from '@/lib/utils/reference-number';
+import type { ShipmentContainer } from './workflow';
 
 
 // Core types
@@ -49,16 +50,17 @@ export interface ShipmentForm {
   countryOfOrigin: string;
   portOfDischarge: string;
   termsOfDelivery: string;
+  currency: string;
   markingsAndNumbers: string;
   packagingCode: string;
   
   // Sea freight fields
-  blNumber: string;
-  isMultipleBL: boolean;
+  blNumbers: string[];
   vesselName: string;
   registryNo: string;
   voyageNo: string;
-  containerNo: string;
+  shippingLine: string;
+  containers: ShipmentContainer[];
   
   // Air freight fields
   awbNumber: string;
@@ -74,6 +76,7 @@ export interface ShipmentForm {
     netWeight: number;
     quantity: number;
     hsCode: string;
+    currency?: string;
   }>;
   documents: Record<string, string[]>;
 }
@@ -91,6 +94,7 @@ export interface GoodsItem {
   netWeight: number;
   quantity: number;
   hsCode: string;
+  currency?: string;
   autoHsCode?: string;
 }
 
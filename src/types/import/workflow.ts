@@ -1,4 +1,5 @@
 // types/import/workflow.ts
+import type { SofEventCategory, SofEventSource } from '../sof';
 
 export type WorkflowStageStatus = 'pending' | 'in_progress' | 'partial' | 'complete';
 export type DocumentStatus = 'not_uploaded' | 'draft' | 'final' | 'verified';
@@ -19,24 +20,33 @@ export interface ShipmentData {
     files?: string[];
   }>;
   timeline: Array<{
+    id?: string;
     stage: string;
     status: WorkflowStageStatus;
     timestamp: string;
+    description?: string;
+    actor?: { id: string; name: string };
+    reason?: string;
   }>;
   notes: Array<{
+    id?: string;
     content: string;
     timestamp: string;
     author: string;
   }>;
-  computations?: {
-    dutiable_value: number;
-    customs_duty: number;
-    vat: number;
-    other_charges: number;
-    total_payable: number;
-  } | null;
+  computations?: ComputationDetails | null;
   cargo: CargoItem[];
+  containers: ShipmentContainer[];
   statementOfFacts: StatementOfFactEvent[];
+  isLocked?: boolean;
+  signOff?: ShipmentSignOff | null;
+}
+
+// The approver's sign-off recorded when the file is closed
+export interface ShipmentSignOff {
+  approvedAt: string;
+  approver: { id: string; name: string };
+  remarks?: string;
 }
 
 export interface ConsigneeDetails {
@@ -61,13 +71,19 @@ export interface ExporterDetails {
 
 export interface ShipmentDetails {
   bl_number: string;
+  // Every BL when there are several; bl_number keeps the first
+  bl_numbers?: string[];
   vessel_name: string;
   flight_number: string;
   registry_number: string;
   voyage_number: string;
+  // Carrier whose free-time rules apply to the containers
+  shipping_line?: string;
   container_number: string;
   port_of_origin: string;
   port_of_discharge: string;
+  country_of_origin?: string;
+  country_of_export?: string;
   eta: string;
   ata: string;
   description_of_goods: string;
@@ -79,6 +95,21 @@ export interface ShipmentDetails {
   markings_and_numbers?: string;
   packaging_code?: string;
   packaging_details?: string;
+  // Invoice currency for the shipment; goods lines may override it
+  currency?: string;
+}
+
+// A sea container and what it carries; `sizeType` is the ISO 6346 code, e.g. 45G1 for a 40' high cube
+export interface ShipmentContainer {
+  id: string;
+  number: string;
+  sizeType: string;
+  sealNumber: string;
+  blNumber: string;
+  cargoIds: string[];
+  // Recorded from the free-time tracker; pull-out defaults to when the shipment went into transit
+  pulledOutAt?: string | null;
+  emptyReturnedAt?: string | null;
 }
 
 export interface DocumentData {
@@ -96,6 +127,52 @@ export interface ComputationDetails {
   vat: number;
   other_charges: number;
   total_payable: number;
+  // Breakdown recorded by the landed-cost engine (absent on legacy rows)
+  currency?: string;
+  exchange_rate?: number;
+  // Pesos per unit for every currency used, as in force on rate_date
+  exchange_rates?: Record<string, number>;
+  rate_date?: string;
+  terms_of_delivery?: string;
+  lines?: ComputationLine[];
+  charges?: ComputationCharge[];
+  computed_at?: string;
+  computed_by?: {
+    id: string;
+    name: string;
+  };
+}
+
+// Per-goods-line share of the dutiable value, all amounts in PHP
+export interface ComputationLine {
+  cargoId: string;
+  description: string;
+  hsCode: string;
+  currency: string;
+  invoice_value: number;
+  fob_value: number;
+  freight: number;
+  insurance: number;
+  dutiable_value: number;
+  duty_rate: number;
+  customs_duty: number;
+}
+
+export type ComputationChargeCode =
+  | 'DUTIABLE_VALUE'
+  | 'CUSTOMS_DUTY'
+  | 'BROKERAGE_FEE'
+  | 'ARRASTRE'
+  | 'WHARFAGE'
+  | 'IPF'
+  | 'CDS'
+  | 'LANDED_COST'
+  | 'VAT';
+
+export interface ComputationCharge {
+  code: ComputationChargeCode;
+  label: string;
+  amount: number;
 }
 
 export interface TimelineEvent {
@@ -112,11 +189,15 @@ export interface CargoItem {
   netWeight: number;
   quantity: number;
   hsCode: string;
+  currency?: string;
 }
 
 export interface StatementOfFactEvent {
   id: string;
   timestamp: string;
+  // Absent on events recorded before categories existed
+  category?: SofEventCategory;
+  source?: SofEventSource;
   description: string;
   createdBy: {
     id: string;
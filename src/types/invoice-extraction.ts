@@ -0,0 +1,44 @@
+// src/types/invoice-extraction.ts
+import type { CurrencyCode } from '@/lib/constants/currency';
+import type { CargoItem } from './import/workflow';
+
+export type ExtractableDocumentType = 'commercial_invoice' | 'packing_list';
+
+// A line of recognized text; confidence is 0–1, and 1 for text read straight from a PDF's text layer
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  page: number;
+}
+
+// `text-layer` when the PDF carried its own text, `ocr` when pages were recognized as images
+export type OcrEngine = 'text-layer' | 'ocr';
+
+export type ExtractedField = 'description' | 'quantity' | 'invoiceValue' | 'netWeight' | 'grossWeight' | 'hsCode';
+
+export interface ExtractedValue<T> {
+  value: T;
+  confidence: number;
+}
+
+// A proposed goods row; the user accepts or edits it before it becomes a CargoItem
+export interface ExtractedCargoLine {
+  item: Omit<CargoItem, 'id'>;
+  unitPrice: number | null;
+  // Lowest of the field confidences
+  confidence: number;
+  fields: Partial<Record<ExtractedField, number>>;
+  // The recognized line the row was read from
+  sourceText: string;
+}
+
+export interface InvoiceExtraction {
+  documentType: ExtractableDocumentType;
+  engine: OcrEngine;
+  invoiceNumber: ExtractedValue<string> | null;
+  currency: ExtractedValue<CurrencyCode> | null;
+  // The document's own total, when one was found
+  total: number | null;
+  lines: ExtractedCargoLine[];
+  warnings: string[];
+}
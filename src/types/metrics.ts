@@ -0,0 +1,39 @@
+// src/types/metrics.ts
+import type { WorkflowStage } from '@/lib/utils/workflow';
+
+export interface OverdueShipment {
+  id: string;
+  referenceNumber: string;
+  consignee: string;
+  status: string;
+  eta: string;
+  daysOverdue: number;
+}
+
+export interface StageDwellTime {
+  stage: WorkflowStage;
+  averageHours: number | null;
+  // Number of completed stays the average is based on
+  samples: number;
+}
+
+export interface ShipmentMetrics {
+  stageCounts: Record<WorkflowStage, number>;
+  active: number;
+  pendingClearance: number;
+  completedToday: number;
+  overdue: OverdueShipment[];
+  dwellTimes: StageDwellTime[];
+}
+
+export interface BrokerMetrics extends Omit<ShipmentMetrics, 'overdue' | 'dwellTimes'> {
+  userId: string;
+  name: string;
+  overdue: number;
+}
+
+export interface DashboardMetrics extends ShipmentMetrics {
+  // Only filled in for SUPERADMIN
+  brokers?: BrokerMetrics[];
+  generatedAt: string;
+}
@@ -0,0 +1,33 @@
+// src/types/organization.ts
+import type { LetterheadSettings } from './documents';
+
+export const ORGANIZATION_ROLES = {
+  OWNER: 'OWNER',
+  ADMIN: 'ADMIN',
+  MEMBER: 'MEMBER'
+} as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[keyof typeof ORGANIZATION_ROLES];
+
+export interface OrganizationMembership {
+  organizationId: string;
+  organizationName: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMemberData {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface OrganizationData {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  members: OrganizationMemberData[];
+  // Printed on generated documents
+  letterhead: LetterheadSettings;
+}
@@ -0,0 +1,75 @@
+// src/types/sad.ts
+
+// Box 25: mode of transport at the border
+export type SadTransportMode = 'SEA' | 'AIR';
+
+// One goods line of the declaration (boxes 31–47)
+export interface SadItem {
+  itemNumber: number;
+  description: string;
+  hsCode: string;
+  marksAndNumbers: string;
+  packagingCode: string;
+  packages: number;
+  countryOfOrigin: string;
+  grossWeight: number;
+  netWeight: number;
+  invoiceValue: number;
+  currency: string;
+  // From the duty computation, in PHP
+  dutiableValue: number | null;
+  dutyRate: number | null;
+  customsDuty: number | null;
+}
+
+// Box 47 and box B, in PHP
+export interface SadTaxes {
+  dutiableValue: number;
+  customsDuty: number;
+  vat: number;
+  otherCharges: number;
+  totalPayable: number;
+}
+
+/**
+ * The Single Administrative Document as lodged for an Import Entry
+ * Declaration (IED), built from a shipment.
+ */
+export interface SadDeclaration {
+  version: 1;
+  declarationType: 'IED';
+  referenceNumber: string;
+  generatedAt: string;
+  exporter: { name: string; address: string };
+  consignee: { name: string; address: string; tin: string };
+  countryOfExport: string;
+  countryOfOrigin: string;
+  transport: {
+    mode: SadTransportMode;
+    vesselOrFlight: string;
+    voyageNumber: string;
+    registryNumber: string;
+    transportDocument: string;
+    containerNumber: string;
+  };
+  portOfLoading: string;
+  portOfDischarge: string;
+  termsOfDelivery: string;
+  invoice: { currency: string; total: number; exchangeRate: number | null };
+  totalPackages: number;
+  totalGrossWeight: number;
+  items: SadItem[];
+  taxes: SadTaxes | null;
+}
+
+// A box the declaration cannot be lodged without
+export interface SadValidationIssue {
+  box: string;
+  message: string;
+  itemNumber?: number;
+}
+
+export interface SadDeclarationResult {
+  declaration: SadDeclaration;
+  issues: SadValidationIssue[];
+}
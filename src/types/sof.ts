@@ -0,0 +1,51 @@
+// src/types/sof.ts
+
+export const SOF_EVENT_CATEGORIES = [
+  'VESSEL_ARRIVAL',
+  'DISCHARGE',
+  'EXAMINATION',
+  'PAYMENT',
+  'RELEASE',
+  'DELIVERY',
+  'DOCUMENTS',
+  'SCHEDULE',
+  'STATUS',
+  'OTHER'
+] as const;
+
+export type SofEventCategory = typeof SOF_EVENT_CATEGORIES[number];
+
+export const SOF_EVENT_CATEGORY_LABELS: Record<SofEventCategory, string> = {
+  VESSEL_ARRIVAL: 'Vessel Arrival',
+  DISCHARGE: 'Discharge',
+  EXAMINATION: 'Examination',
+  PAYMENT: 'Payment',
+  RELEASE: 'Release',
+  DELIVERY: 'Delivery',
+  DOCUMENTS: 'Documents',
+  SCHEDULE: 'Schedule',
+  STATUS: 'Status',
+  OTHER: 'Other'
+};
+
+// MANUAL events are typed in by a user; WORKFLOW events are recorded from the change that caused them
+export const SOF_EVENT_SOURCES = ['MANUAL', 'WORKFLOW'] as const;
+
+export type SofEventSource = typeof SOF_EVENT_SOURCES[number];
+
+// An event as typed in or derived from a change, before it is stored with its actor
+export interface SofEventInput {
+  category: SofEventCategory;
+  description: string;
+  timestamp: string;
+}
+
+// Time between two milestones on the report, e.g. arrival to release
+export interface SofElapsed {
+  label: string;
+  from: SofEventCategory;
+  to: SofEventCategory;
+  fromAt: string;
+  toAt: string;
+  minutes: number;
+}
@@ -0,0 +1,29 @@
+// src/types/tariff.ts
+
+export interface PreferentialRateInfo {
+  agreement: string;
+  rate: number;
+}
+
+export interface TariffLookupResult {
+  code: string;
+  description: string;
+  headingCode: string;
+  headingDescription: string;
+  unit: string | null;
+  mfnRate: number | null;
+  preferentialRates: PreferentialRateInfo[];
+}
+
+export interface TariffImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface TariffImportSummary {
+  headings: number;
+  subheadings: number;
+  mfnRates: number;
+  preferentialRates: number;
+  errors: TariffImportRowError[];
+}